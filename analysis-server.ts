@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+/**
+ * Analysis daemon
+ *
+ * Keeps the parsers loaded and answers JSON-RPC requests, one JSON object
+ * per line (see src/server/analysis-server.ts for the methods).
+ *
+ * Usage:
+ *   tsx analysis-server.ts                   # serve one client on stdin/stdout
+ *   tsx analysis-server.ts --socket <path>   # serve clients on a local socket
+ */
+import { AnalysisServer } from './src/server/analysis-server.js';
+import { setLogger } from './src/index.js';
+
+async function runServer() {
+  const socketIndex = process.argv.indexOf('--socket');
+  const socketPath = socketIndex >= 0 ? process.argv[socketIndex + 1] : undefined;
+
+  // Keep stdout for JSON-RPC messages in stdio mode
+  if (!socketPath) {
+    const toStderr = (message: string, ...details: unknown[]) => console.error(message, ...details);
+    setLogger({ debug: () => {}, info: toStderr, warn: toStderr, error: toStderr });
+  }
+
+  const server = new AnalysisServer();
+  await server.start();
+
+  if (socketPath) {
+    const listener = await server.listen(socketPath);
+    console.log(`🚀 Analysis server listening on ${socketPath}`);
+
+    const shutDown = () => listener.close(() => process.exit(0));
+    process.on('SIGINT', shutDown);
+    process.on('SIGTERM', shutDown);
+  } else {
+    // The process ends once stdin is closed and the pending requests are answered
+    server.connect(process.stdin, process.stdout);
+  }
+}
+
+runServer().catch(error => {
+  console.error('❌ Analysis server failed to start:', error);
+  process.exit(1);
+});
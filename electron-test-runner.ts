@@ -1,71 +1,77 @@
 #!/usr/bin/env node
-import { analyzeRepositoryToText } from './src/index.js';
+/**
+ * Analysis runner for the Electron app
+ *
+ * Writes newline-delimited JSON messages to stdout (see
+ * src/core/runner-protocol.ts) and stops when `{"v":1,"type":"cancel"}` is
+ * written to its stdin.
+ *
+ * Usage: tsx electron-test-runner.ts [repoPath] [outputFile]
+ */
+import {
+  analyzeRepository,
+  formatAnalysisAsText,
+  RunnerProtocol,
+  setLogger
+} from './src/index.js';
 import { writeFileSync } from 'fs';
 import { resolve } from 'path';
 
+const protocol = new RunnerProtocol(process.stdout);
+const controller = new AbortController();
+
 async function runAnalysis() {
+  // Keep stdout for protocol messages only
+  setLogger(protocol.createLogger());
+  const stopListening = protocol.listen(process.stdin, controller);
+  let exitCode = 0;
+
   try {
     // Get repo path from command line argument or environment
     const repoPath = process.argv[2] || process.env.REPO_PATH || process.cwd();
     const outputFile = process.argv[3] || process.env.OUTPUT_FILE || 'electron-test-output.txt';
 
-    console.log(`🔍 Starting analysis of: ${repoPath}`);
-
-    const options = {
+    const result = await analyzeRepository(repoPath, {
       exclude_test_files: true,
+      signal: controller.signal,
       on_progress: (completed, total, current) => {
-        console.log(`Progress: ${completed}/${total} - Analyzing ${current}`);
-      }
-    };
+        protocol.send({ type: 'progress', completed, total, ...(current !== undefined && { current }) });
+      },
+      on_phase: phase => protocol.send({ type: 'phase', phase }),
+      on_file_error: (file, error) => protocol.send({ type: 'file_error', file, error })
+    });
 
-    // Call the function
-    const flatText = await analyzeRepositoryToText(repoPath, options);
+    const error = result.metadata?.error;
+    if (controller.signal.aborted) {
+      throw new Error('Analysis was cancelled');
+    }
+    if (error) {
+      throw new Error(error);
+    }
+
+    const flatText = formatAnalysisAsText(result);
 
     // Save to file
     const outputPath = resolve(outputFile);
     writeFileSync(outputPath, flatText, 'utf8');
 
-    console.log(`✅ Analysis completed successfully`);
-    console.log(`📄 Output saved to: ${outputPath}`);
-    console.log(`📏 Content length: ${flatText.length} characters`);
-
-    // Flush stdout before writing markers
-    await new Promise(resolve => {
-      process.stdout.write('', resolve);
-    });
-
-    // Output markers and result to stdout for Electron to capture
-    console.log('=== ANALYSIS_RESULT_START ===');
-    console.log(flatText);
-    console.log('=== ANALYSIS_RESULT_END ===');
-
-    // Ensure everything is flushed
-    await new Promise(resolve => {
-      process.stdout.write('', resolve);
-    });
-
-    console.log('🔚 Output complete, exiting...');
-
-    // Give a small delay to ensure output is captured
-    setTimeout(() => {
-      process.exit(0);
-    }, 100);
-
+    protocol.sendResult(flatText, outputPath);
   } catch (error) {
-    console.error('❌ Analysis failed:', error);
-    process.exit(1);
+    protocol.send({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      cancelled: controller.signal.aborted
+    });
+    exitCode = 1;
   }
-}
 
-// Add signal handlers for clean exit
-process.on('SIGINT', () => {
-  console.log('🛑 Received SIGINT, exiting...');
-  process.exit(0);
-});
+  stopListening();
+  await protocol.flush();
+  process.exit(exitCode);
+}
 
-process.on('SIGTERM', () => {
-  console.log('🛑 Received SIGTERM, exiting...');
-  process.exit(0);
-});
+// Treat termination signals like a cancel message
+process.on('SIGINT', () => controller.abort());
+process.on('SIGTERM', () => controller.abort());
 
 runAnalysis();
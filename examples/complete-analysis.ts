@@ -2,12 +2,13 @@
  * Complete Repository Analysis - Save to JSON
  *
  * Simplified version that analyzes repositories and saves results to JSON,
- * excluding test files by default.
+ * excluding test files by default. The `openapi` command writes an OpenAPI
+ * document of the detected API endpoints instead.
  */
 
 import { writeFileSync } from 'fs';
-import { resolve } from 'path';
-import { analyzeRepository } from '../src/index.js';
+import { basename, resolve } from 'path';
+import { analyzeRepository, exportOpenApi } from '../src/index.js';
 import type { AnalysisResult } from '../src/types/index.js';
 
 /**
@@ -196,18 +197,44 @@ async function saveAnalysis(
   console.log(`   Lines of code: ${results.summary.total_lines.toLocaleString()}`);
 }
 
+/**
+ * Analyze a repository and save an OpenAPI document of its API endpoints
+ */
+async function saveOpenApi(
+  repositoryPath: string = '.',
+  outputFile: string = 'openapi.json'
+): Promise<void> {
+  console.log(`\n📜 Generating OpenAPI document for: ${resolve(repositoryPath)}`);
+  console.log('='.repeat(60));
+
+  const results = await analyzeRepository(repositoryPath, { exclude_test_files: true });
+  const document = exportOpenApi(results, {
+    title: basename(resolve(repositoryPath)),
+    version: results.metadata?.commit?.slice(0, 7) ?? '0.0.0'
+  });
+
+  writeFileSync(outputFile, JSON.stringify(document, null, 2), 'utf8');
+
+  const operationCount = Object.values(document.paths)
+    .reduce((sum, pathItem) => sum + Object.keys(pathItem).length, 0);
+  console.log(`✅ OpenAPI document saved: ${resolve(outputFile)}`);
+  console.log(`   Paths: ${Object.keys(document.paths).length}`);
+  console.log(`   Operations: ${operationCount}`);
+}
+
 // Simple CLI Interface
 async function main() {
   const args = process.argv.slice(2);
   const command = args[0];
   const repositoryPath = args[1] || '.';
-  const outputFile = args[2] || 'codebase_analysis.json';
 
   try {
     if (command === 'save') {
-      await saveAnalysis(repositoryPath, outputFile);
+      await saveAnalysis(repositoryPath, args[2] || 'codebase_analysis.json');
+    } else if (command === 'openapi') {
+      await saveOpenApi(repositoryPath, args[2] || 'openapi.json');
     } else {
-      console.error('❌ Unknown command. Use: tsx complete-analysis.ts save [path] [output.json]');
+      console.error('❌ Unknown command. Use: tsx complete-analysis.ts save|openapi [path] [output.json]');
       process.exit(1);
     }
   } catch (error) {
@@ -218,7 +245,7 @@ async function main() {
 }
 
 // Export for programmatic use
-export { saveAnalysis, formatAsText };
+export { saveAnalysis, saveOpenApi, formatAsText };
 
 // Run CLI if this file is executed directly
 if (import.meta.url === `file://${process.argv[1]}`) {
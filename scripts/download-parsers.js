@@ -18,7 +18,13 @@ const PARSER_URLS = {
   'tree-sitter-javascript.wasm': 'https://github.com/tree-sitter/tree-sitter-javascript/releases/download/v0.20.1/tree-sitter-javascript.wasm',
   'tree-sitter-typescript.wasm': 'https://github.com/tree-sitter/tree-sitter-typescript/releases/download/v0.20.3/tree-sitter-typescript.wasm',
   'tree-sitter-python.wasm': 'https://github.com/tree-sitter/tree-sitter-python/releases/download/v0.20.4/tree-sitter-python.wasm',
-  'tree-sitter-dart.wasm': 'https://github.com/UserNobody14/tree-sitter-dart/releases/download/v0.0.1/tree-sitter-dart.wasm'
+  // The committed Dart grammar is the one from @sourcegraph/tree-sitter-wasms 0.1.9
+  // (sha256 2dff0d08e5c81b1d16f2916b074b6fe818158ea1ccf7d4308c75d8e9364e9f5e); the
+  // queries in src/parsers/dart-analyzer.ts are written against its node types
+  'tree-sitter-dart.wasm': 'https://unpkg.com/@sourcegraph/tree-sitter-wasms@0.1.9/out/tree-sitter-dart.wasm',
+  'tree-sitter-java.wasm': 'https://unpkg.com/tree-sitter-wasms@0.1.13/out/tree-sitter-java.wasm',
+  'tree-sitter-kotlin.wasm': 'https://unpkg.com/tree-sitter-wasms@0.1.13/out/tree-sitter-kotlin.wasm',
+  'tree-sitter-go.wasm': 'https://unpkg.com/tree-sitter-wasms@0.1.13/out/tree-sitter-go.wasm'
 };
 
 /**
@@ -66,7 +72,10 @@ async function downloadParsers() {
     'tree-sitter-javascript.wasm',
     'tree-sitter-typescript.wasm',
     'tree-sitter-python.wasm',
-    'tree-sitter-dart.wasm'
+    'tree-sitter-dart.wasm',
+    'tree-sitter-java.wasm',
+    'tree-sitter-kotlin.wasm',
+    'tree-sitter-go.wasm'
   ];
 
   for (const parser of languageParsers) {
@@ -0,0 +1,210 @@
+/**
+ * Persistent Analysis Cache
+ *
+ * This module stores per-file analysis results on disk, keyed by the git blob
+ * hash of the analyzed content. Because the key is derived from the content
+ * itself, an entry stays valid across commits, branch switches and renames,
+ * and never needs explicit invalidation when a file changes. Svelte
+ * components are named after their file, so their key includes the file name.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { basename, dirname, extname } from 'node:path';
+import type { FileAnalysis } from '../types/index.js';
+import { ANALYSIS_ENGINE_VERSION } from '../types/index.js'; // Regular import for value
+import { logger } from '../utils/logger.js';
+
+/**
+ * On-disk layout of the cache file
+ */
+interface AnalysisCacheFile {
+  /** Engine version that produced the entries */
+  engine_version: string;
+  /** Cached analyses keyed by git blob hash (and file name, for Svelte components) */
+  entries: Record<string, FileAnalysis>;
+}
+
+/**
+ * Cache hit/miss counters for the current session
+ */
+export interface AnalysisCacheStats {
+  /** Number of lookups answered from the cache */
+  hits: number;
+  /** Number of lookups that required a fresh analysis */
+  misses: number;
+  /** Number of entries currently held */
+  size: number;
+}
+
+/**
+ * Content-addressed cache of file analyses
+ *
+ * Entries written by a different engine version are discarded on load, since
+ * analyzer output may have changed shape between versions.
+ */
+export class AnalysisCache {
+  private readonly cachePath: string;
+  private readonly maxEntries: number;
+  private entries = new Map<string, FileAnalysis>();
+  private hits = 0;
+  private misses = 0;
+  private dirty = false;
+
+  /**
+   * Create a new AnalysisCache
+   *
+   * @param cachePath - Absolute path of the JSON file backing the cache
+   * @param maxEntries - Maximum number of entries kept when saving (least recently used are dropped)
+   */
+  constructor(cachePath: string, maxEntries: number = 50000) {
+    this.cachePath = cachePath;
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Compute the git blob hash for a piece of content
+   *
+   * This matches `git hash-object` for files without clean/smudge filters,
+   * so the key is identical whether it comes from git or from the file on disk.
+   *
+   * @param content - File content
+   * @returns Hex-encoded SHA-1 blob hash
+   */
+  static computeBlobHash(content: string): string {
+    const body = Buffer.from(content, 'utf8');
+    return createHash('sha1')
+      .update(`blob ${body.length}\0`)
+      .update(body)
+      .digest('hex');
+  }
+
+  /**
+   * Load cached entries from disk
+   *
+   * A missing, unreadable or outdated cache file simply results in an empty cache.
+   */
+  async load(): Promise<void> {
+    try {
+      const raw = await readFile(this.cachePath, 'utf8');
+      const data = JSON.parse(raw) as AnalysisCacheFile;
+
+      if (data.engine_version !== ANALYSIS_ENGINE_VERSION || !data.entries) {
+        return;
+      }
+
+      this.entries = new Map(Object.entries(data.entries));
+    } catch {
+      // No usable cache yet - start empty
+      this.entries = new Map();
+    }
+  }
+
+  /**
+   * Look up the cached analysis for a file's content
+   *
+   * @param filePath - Path of the file relative to repository root
+   * @param content - Current file content
+   * @returns Cached analysis re-targeted to filePath, or undefined on a miss
+   */
+  get(filePath: string, content: string): FileAnalysis | undefined {
+    const key = this.getKey(filePath, content);
+    const cached = this.entries.get(key);
+
+    // Language detection depends on the extension, so identical content under
+    // a different extension has to be analyzed again
+    if (!cached || extname(cached.path) !== extname(filePath)) {
+      this.misses++;
+      return undefined;
+    }
+
+    // Refresh recency so frequently used entries survive trimming
+    this.entries.delete(key);
+    this.entries.set(key, cached);
+    this.hits++;
+
+    return { ...cached, path: filePath };
+  }
+
+  /**
+   * Store the analysis of a file's content
+   *
+   * Analyses that carry an error are not cached so they are retried next time.
+   *
+   * @param content - File content that was analyzed
+   * @param analysis - Analysis result for that content
+   */
+  set(content: string, analysis: FileAnalysis): void {
+    if (analysis.error) {
+      return;
+    }
+
+    const key = this.getKey(analysis.path, content);
+    this.entries.delete(key);
+    this.entries.set(key, analysis);
+    this.dirty = true;
+  }
+
+  /**
+   * Get the cache key of a file's content
+   *
+   * The Svelte analyzer names a component after its file, so a renamed
+   * component must not reuse the analysis made under its old name.
+   *
+   * @param filePath - Path of the file relative to repository root
+   * @param content - File content
+   * @returns Blob hash, followed by the file name for Svelte components
+   * @private
+   */
+  private getKey(filePath: string, content: string): string {
+    const blobHash = AnalysisCache.computeBlobHash(content);
+    return extname(filePath) === '.svelte' ? `${blobHash}:${basename(filePath)}` : blobHash;
+  }
+
+  /**
+   * Write the cache back to disk if it changed
+   *
+   * Failures are reported as warnings; a cache that cannot be written only
+   * costs performance on the next run.
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+
+    // Drop the least recently used entries beyond the size limit
+    const overflow = this.entries.size - this.maxEntries;
+    if (overflow > 0) {
+      const staleKeys = Array.from(this.entries.keys()).slice(0, overflow);
+      for (const key of staleKeys) {
+        this.entries.delete(key);
+      }
+    }
+
+    const data: AnalysisCacheFile = {
+      engine_version: ANALYSIS_ENGINE_VERSION,
+      entries: Object.fromEntries(this.entries)
+    };
+
+    try {
+      await mkdir(dirname(this.cachePath), { recursive: true });
+      await writeFile(this.cachePath, JSON.stringify(data), 'utf8');
+      this.dirty = false;
+    } catch (error) {
+      logger.warn(`⚠️  Could not write analysis cache to ${this.cachePath}:`, error);
+    }
+  }
+
+  /**
+   * Get hit/miss statistics for this cache instance
+   *
+   * @returns Cache statistics
+   */
+  getStats(): AnalysisCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: this.entries.size
+    };
+  }
+}
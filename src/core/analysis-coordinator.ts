@@ -9,12 +9,19 @@
 import { TreeSitterManager } from '../parsers/tree-sitter-manager.js';
 import { BabelAnalyzer } from '../parsers/babel-analyzer.js';
 import { PythonAnalyzer } from '../parsers/python-analyzer.js';
+import { DartAnalyzer } from '../parsers/dart-analyzer.js';
+import { JavaAnalyzer } from '../parsers/java-analyzer.js';
+import { KotlinAnalyzer } from '../parsers/kotlin-analyzer.js';
+import { GoAnalyzer } from '../parsers/go-analyzer.js';
+import { VueAnalyzer } from '../parsers/vue-analyzer.js';
+import { SvelteAnalyzer } from '../parsers/svelte-analyzer.js';
 import { LanguageDetector } from './language-detector.js';
 import type {
   FileAnalysis,
   SupportedLanguage,
   AnalysisOptions
 } from '../types/index.js';
+import { logger } from '../utils/logger.js';
 
 /**
  * Result of analyzing a single file with routing information
@@ -43,6 +50,12 @@ export class AnalysisCoordinator {
   private treeSitterManager: TreeSitterManager;
   private babelAnalyzer: BabelAnalyzer;
   private pythonAnalyzer: PythonAnalyzer;
+  private dartAnalyzer: DartAnalyzer;
+  private javaAnalyzer: JavaAnalyzer;
+  private kotlinAnalyzer: KotlinAnalyzer;
+  private goAnalyzer: GoAnalyzer;
+  private vueAnalyzer: VueAnalyzer;
+  private svelteAnalyzer: SvelteAnalyzer;
   private languageDetector: LanguageDetector;
   private initialized = false;
 
@@ -52,7 +65,13 @@ export class AnalysisCoordinator {
   constructor() {
     this.treeSitterManager = new TreeSitterManager();
     this.babelAnalyzer = new BabelAnalyzer();
-    this.pythonAnalyzer = new PythonAnalyzer();
+    this.pythonAnalyzer = new PythonAnalyzer(this.treeSitterManager);
+    this.dartAnalyzer = new DartAnalyzer(this.treeSitterManager);
+    this.javaAnalyzer = new JavaAnalyzer(this.treeSitterManager);
+    this.kotlinAnalyzer = new KotlinAnalyzer(this.treeSitterManager);
+    this.goAnalyzer = new GoAnalyzer(this.treeSitterManager);
+    this.vueAnalyzer = new VueAnalyzer(this.babelAnalyzer);
+    this.svelteAnalyzer = new SvelteAnalyzer(this.babelAnalyzer);
     this.languageDetector = new LanguageDetector();
   }
 
@@ -71,9 +90,9 @@ export class AnalysisCoordinator {
       await this.treeSitterManager.initialize();
 
       this.initialized = true;
-      console.log('🎯 AnalysisCoordinator initialized successfully with Python analyzer');
+      logger.info('🎯 AnalysisCoordinator initialized successfully with Python analyzer');
     } catch (error) {
-      console.warn('⚠️  AnalysisCoordinator initialization warning:', error);
+      logger.warn('⚠️  AnalysisCoordinator initialization warning:', error);
       // Continue without Tree-sitter in development mode
       this.initialized = true;
     }
@@ -114,18 +133,31 @@ export class AnalysisCoordinator {
           analysis = await this.analyzeWithBabel(content, detectedLanguage as 'javascript' | 'typescript', filePath);
           parser = 'babel';
         } catch (error) {
-          console.warn(`Babel parsing failed for ${filePath}, trying fallback:`, error);
+          logger.warn(`Babel parsing failed for ${filePath}, trying fallback:`, error);
           analysis = await this.analyzeWithFallback(content, detectedLanguage, filePath);
           parser = 'basic';
           usedFallback = true;
         }
+      } else if (this.shouldUseComponentAnalyzer(detectedLanguage)) {
+        // Vue and Svelte components: Babel on the script blocks, plus the markup
+        try {
+          analysis = detectedLanguage === 'vue'
+            ? await this.vueAnalyzer.analyzeVue(content, filePath)
+            : await this.svelteAnalyzer.analyzeSvelte(content, filePath);
+          parser = 'babel';
+        } catch (error) {
+          logger.warn(`Component parsing failed for ${filePath}, using basic analysis:`, error);
+          analysis = await this.analyzeBasic(content, filePath, detectedLanguage);
+          parser = 'basic';
+          usedFallback = true;
+        }
       } else if (this.shouldUsePythonParser(detectedLanguage)) {
         // Use Python analyzer for Python files
         try {
           analysis = await this.analyzeWithPython(content, filePath);
           parser = 'python';
         } catch (error) {
-          console.warn(`Python parsing failed for ${filePath}, trying Tree-sitter fallback:`, error);
+          logger.warn(`Python parsing failed for ${filePath}, trying Tree-sitter fallback:`, error);
           analysis = await this.analyzeWithTreeSitterFallback(content, detectedLanguage, filePath);
           parser = 'tree-sitter';
           usedFallback = true;
@@ -136,7 +168,7 @@ export class AnalysisCoordinator {
           analysis = await this.analyzeWithTreeSitter(content, detectedLanguage, filePath);
           parser = 'tree-sitter';
         } catch (error) {
-          console.warn(`Tree-sitter parsing failed for ${filePath}, using basic analysis:`, error);
+          logger.warn(`Tree-sitter parsing failed for ${filePath}, using basic analysis:`, error);
           analysis = await this.analyzeBasic(content, filePath, detectedLanguage);
           parser = 'basic';
           usedFallback = true;
@@ -246,6 +278,17 @@ export class AnalysisCoordinator {
     return language === 'javascript' || language === 'typescript';
   }
 
+  /**
+   * Check if a single-file component analyzer should be used for a language
+   *
+   * @param language - Detected language
+   * @returns True for Vue and Svelte components
+   * @private
+   */
+  private shouldUseComponentAnalyzer(language: SupportedLanguage): boolean {
+    return language === 'vue' || language === 'svelte';
+  }
+
   /**
    * Check if Python parser should be used for a language
    *
@@ -266,7 +309,7 @@ export class AnalysisCoordinator {
    */
   private shouldUseTreeSitter(language: SupportedLanguage): boolean {
     // Use Tree-sitter for languages that have parsers available (excluding Python which has dedicated parser)
-    const treeSitterLanguages: SupportedLanguage[] = ['dart', 'java', 'cpp', 'c'];
+    const treeSitterLanguages: SupportedLanguage[] = ['dart', 'java', 'kotlin', 'go', 'cpp', 'c'];
     return treeSitterLanguages.includes(language) && this.treeSitterManager.hasParser(language);
   }
 
@@ -326,17 +369,35 @@ export class AnalysisCoordinator {
     filePath: string
   ): Promise<FileAnalysis> {
     try {
+      let analysis: FileAnalysis | undefined;
+      if (language === 'dart') {
+        analysis = await this.dartAnalyzer.analyzeDart(content, filePath);
+      } else if (language === 'java') {
+        analysis = await this.javaAnalyzer.analyzeJava(content, filePath);
+      } else if (language === 'kotlin') {
+        analysis = await this.kotlinAnalyzer.analyzeKotlin(content, filePath);
+      } else if (language === 'go') {
+        analysis = await this.goAnalyzer.analyzeGo(content, filePath);
+      }
+
+      if (analysis) {
+        return {
+          ...analysis,
+          lines: content.split('\n').length,
+          characters: content.length,
+        };
+      }
+
       const tree = await this.treeSitterManager.parseFile(content, language);
+      tree.delete();
 
-      // For now, return basic structure since Tree-sitter query implementation
-      // would require language-specific query development
+      // Languages without a dedicated extractor only get basic metrics
       return {
         path: filePath,
         language: language,
         imports: {},
         functions: {},
         classes: {},
-        // Could add Tree-sitter specific analysis here
         lines: content.split('\n').length,
         characters: content.length,
       };
@@ -385,7 +446,7 @@ export class AnalysisCoordinator {
       try {
         return await this.analyzeWithPython(content, filePath);
       } catch (error) {
-        console.warn(`Python parser fallback failed for ${filePath}:`, error);
+        logger.warn(`Python parser fallback failed for ${filePath}:`, error);
       }
     }
 
@@ -394,7 +455,7 @@ export class AnalysisCoordinator {
       try {
         return await this.analyzeWithTreeSitter(content, language, filePath);
       } catch (error) {
-        console.warn(`Tree-sitter fallback failed for ${filePath}:`, error);
+        logger.warn(`Tree-sitter fallback failed for ${filePath}:`, error);
       }
     }
 
@@ -442,7 +503,7 @@ export class AnalysisCoordinator {
       initialized: this.initialized,
       treeSitterAvailable: this.treeSitterManager.getSupportedLanguages().length > 0,
       supportedLanguages: {
-        babel: ['javascript', 'typescript'],
+        babel: ['javascript', 'typescript', 'vue', 'svelte'],
         python: ['python'],
         treeSitter: this.treeSitterManager.getSupportedLanguages(),
         deepAnalysis: this.languageDetector.getSupportedExtensions()
@@ -0,0 +1,260 @@
+/**
+ * Symbol-Level Call Graph
+ *
+ * This module links the calls the JavaScript analyzer records inside
+ * functions and class methods to the functions, methods and classes they
+ * invoke. Calls of imported names follow the file's import edges to the
+ * imported file and look the name up there (named, default and namespace
+ * imports); other calls are looked up in the calling file, with `this.x`
+ * resolving to a method of the calling class.
+ */
+
+import type {
+  CallEdge,
+  CallGraph,
+  FileAnalysis,
+  FunctionCall,
+  FunctionInfo,
+  ImportEdge,
+  UnresolvedCall
+} from '../types/index.js';
+
+/**
+ * Builds the call graph of a repository from its file analyses
+ */
+export class CallGraphBuilder {
+  /**
+   * Link the recorded calls of all functions and methods to their callees
+   *
+   * Calls of names imported from packages are not part of the graph.
+   * Calls of names imported from repository files, or declared in the
+   * calling file, that match no symbol are returned as unresolved.
+   *
+   * @param fileAnalyses - Map of file paths to their analysis results
+   * @param importEdges - Imports between repository files
+   * @returns Call graph, with no edges when no calls were recorded
+   */
+  build(fileAnalyses: Map<string, FileAnalysis>, importEdges: ImportEdge[]): CallGraph {
+    const importTargets = new Map<string, string[]>();
+    for (const edge of importEdges) {
+      if (edge.specifier === undefined) continue;
+      const key = `${edge.from}\0${edge.specifier}`;
+      if (!importTargets.has(key)) {
+        importTargets.set(key, []);
+      }
+      importTargets.get(key)!.push(edge.to);
+    }
+
+    const edges: CallEdge[] = [];
+    const edgeKeys = new Set<string>();
+    const unresolved: UnresolvedCall[] = [];
+
+    for (const [filePath, analysis] of fileAnalyses) {
+      for (const { symbol, className, functionInfo } of this.getCallingSymbols(analysis)) {
+        const caller = `${filePath}#${symbol}`;
+
+        for (const call of functionInfo.calls || []) {
+          const targets = call.source !== undefined
+            ? importTargets.get(`${filePath}\0${call.source}`)
+            : [filePath];
+          if (!targets) {
+            continue; // Imported from a package
+          }
+
+          const callee = targets
+            .map(target => this.findCallee(fileAnalyses.get(target), target, call, className))
+            .find((resolved): resolved is string => resolved !== undefined);
+
+          if (callee) {
+            const key = `${caller}\0${callee}\0${call.line}`;
+            if (!edgeKeys.has(key)) {
+              edgeKeys.add(key);
+              edges.push({ caller, callee, line: call.line });
+            }
+          } else if (call.source !== undefined || this.isDeclaredCall(analysis, call, className)) {
+            unresolved.push({
+              caller,
+              callee: call.callee,
+              line: call.line,
+              ...(call.source !== undefined && { source: call.source })
+            });
+          }
+        }
+      }
+    }
+
+    return { edges, unresolved };
+  }
+
+  /**
+   * Get the functions and methods of a file with their symbol names
+   *
+   * @private
+   */
+  private getCallingSymbols(
+    analysis: FileAnalysis
+  ): Array<{ symbol: string; className?: string; functionInfo: FunctionInfo }> {
+    const symbols: Array<{ symbol: string; className?: string; functionInfo: FunctionInfo }> = [];
+
+    for (const [signature, functionInfo] of Object.entries(analysis.functions || {})) {
+      symbols.push({ symbol: getSymbolName(signature), functionInfo });
+    }
+    for (const [className, classInfo] of Object.entries(analysis.classes || {})) {
+      for (const [signature, functionInfo] of Object.entries(classInfo.methods)) {
+        symbols.push({ symbol: `${className}.${getSymbolName(signature)}`, className, functionInfo });
+      }
+    }
+
+    return symbols;
+  }
+
+  /**
+   * Find the symbol a call invokes in the file declaring it
+   *
+   * @returns `file#symbol`, or undefined if the file has no matching symbol
+   * @private
+   */
+  private findCallee(
+    analysis: FileAnalysis | undefined,
+    filePath: string,
+    call: FunctionCall,
+    className: string | undefined
+  ): string | undefined {
+    if (!analysis) {
+      return undefined;
+    }
+
+    const [root, ...members] = call.callee.split('.');
+    let name: string | undefined;
+
+    if (call.imported === '*') {
+      name = members.join('.');
+    } else if (call.imported === 'default') {
+      name = analysis.default_export && [analysis.default_export, ...members].join('.');
+    } else if (call.imported !== undefined) {
+      name = [call.imported, ...members].join('.');
+    } else if (root === 'this') {
+      name = className && members.length === 1 ? `${className}.${members[0]}` : undefined;
+    } else {
+      name = call.callee;
+    }
+
+    if (!name) {
+      return undefined;
+    }
+
+    // fn.call(...) and fn.apply(...) invoke the function itself
+    const symbol = findSymbol(analysis, name) ?? (/\.(call|apply)$/.test(name)
+      ? findSymbol(analysis, name.replace(/\.(call|apply)$/, ''))
+      : undefined);
+    return symbol ? `${filePath}#${symbol}` : undefined;
+  }
+
+  /**
+   * Check whether a same-file call should have matched a symbol
+   *
+   * `this.save()` inside a method and `Store.create()` on a class of the
+   * file are expected to resolve; members of functions (`debounced.cancel()`)
+   * and longer chains are not.
+   *
+   * @private
+   */
+  private isDeclaredCall(analysis: FileAnalysis, call: FunctionCall, className: string | undefined): boolean {
+    const [root, ...members] = call.callee.split('.');
+    if (members.length !== 1) {
+      return false;
+    }
+    return root === 'this' ? className !== undefined : analysis.classes?.[root!] !== undefined;
+  }
+}
+
+/**
+ * Index over a call graph for looking up the callers and callees of a symbol
+ *
+ * Symbols are given as `file#name` (`src/api.ts#fetchUser`,
+ * `src/store.ts#Store.save`), or as a bare name to match that name in
+ * every file.
+ */
+export class CallGraphIndex {
+  private readonly callers = new Map<string, CallEdge[]>();
+  private readonly callees = new Map<string, CallEdge[]>();
+
+  /**
+   * Create an index over a call graph
+   *
+   * @param callGraph - Call graph from an analysis result
+   */
+  constructor(callGraph: CallGraph) {
+    for (const edge of callGraph.edges) {
+      if (!this.callers.has(edge.callee)) {
+        this.callers.set(edge.callee, []);
+      }
+      this.callers.get(edge.callee)!.push(edge);
+
+      if (!this.callees.has(edge.caller)) {
+        this.callees.set(edge.caller, []);
+      }
+      this.callees.get(edge.caller)!.push(edge);
+    }
+  }
+
+  /**
+   * Get the calls of a symbol
+   *
+   * @param symbol - `file#name`, or a bare name
+   * @returns Edges whose callee is the symbol
+   */
+  getCallers(symbol: string): CallEdge[] {
+    return this.lookup(this.callers, symbol);
+  }
+
+  /**
+   * Get the calls a symbol makes
+   *
+   * @param symbol - `file#name`, or a bare name
+   * @returns Edges whose caller is the symbol
+   */
+  getCallees(symbol: string): CallEdge[] {
+    return this.lookup(this.callees, symbol);
+  }
+
+  /**
+   * Get the edges of a symbol, matching bare names in every file
+   *
+   * @private
+   */
+  private lookup(edgesBySymbol: Map<string, CallEdge[]>, symbol: string): CallEdge[] {
+    if (symbol.includes('#')) {
+      return [...(edgesBySymbol.get(symbol) ?? [])];
+    }
+
+    return [...edgesBySymbol]
+      .filter(([key]) => key.slice(key.indexOf('#') + 1) === symbol)
+      .flatMap(([, edges]) => edges);
+  }
+}
+
+/**
+ * Get the name of a function from its signature (`save(user)` → `save`)
+ */
+function getSymbolName(signature: string): string {
+  return signature.split('(')[0]!;
+}
+
+/**
+ * Find a function, class or `Class.method` of a file by name
+ *
+ * @returns Symbol name, or undefined if the file declares no such symbol
+ */
+function findSymbol(analysis: FileAnalysis, name: string): string | undefined {
+  const [first, member] = name.split('.');
+
+  if (member === undefined) {
+    const hasFunction = Object.keys(analysis.functions || {}).some(signature => getSymbolName(signature) === first);
+    return hasFunction || analysis.classes?.[first!] ? first : undefined;
+  }
+
+  const classInfo = analysis.classes?.[first!];
+  const hasMethod = classInfo && Object.keys(classInfo.methods).some(signature => getSymbolName(signature) === member);
+  return hasMethod && name.split('.').length === 2 ? name : undefined;
+}
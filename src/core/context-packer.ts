@@ -0,0 +1,342 @@
+/**
+ * Token-Budgeted Context Packing
+ *
+ * This module decides how much of each analyzed file goes into the flat text
+ * handed to a language model. Files are ranked by their centrality in the
+ * dependency graph, their closeness to the paths the caller focuses on,
+ * whether they are framework or package entry points, and how well their
+ * symbol names, docstrings and path match a query. The highest-ranked files
+ * are kept in full; lower-ranked ones are shortened to their signatures,
+ * then to their path, until the estimated token count fits the budget.
+ */
+
+import type { AnalysisResult, FileAnalysis, TextOutputOptions } from '../types/index.js';
+import { estimateTokens } from '../utils/token-estimate.js';
+
+/**
+ * How much of a file is written
+ *
+ * - `full`: the complete flat text of the file
+ * - `signatures`: function, class and method signatures only
+ * - `path`: the file path only
+ */
+export type ContextDetail = 'full' | 'signatures' | 'path';
+
+/**
+ * A file with its relevance for the requested context
+ */
+export interface RankedFile {
+  path: string;
+  /** Relevance between 0 and 1 */
+  score: number;
+}
+
+/**
+ * A file as written into the packed context
+ */
+export interface PackedFile {
+  path: string;
+  detail: ContextDetail;
+  /** Text of the file at that detail */
+  text: string;
+  /** Estimated tokens of the text, its separator and its related text */
+  tokens: number;
+}
+
+/**
+ * Details from the most to the least complete
+ */
+const DETAILS: ContextDetail[] = ['full', 'signatures', 'path'];
+
+/**
+ * Weights of the ranking signals; focus and query only count when given
+ */
+const RANKING_WEIGHTS = {
+  centrality: 1,
+  entryPoint: 1,
+  focus: 3,
+  query: 3
+};
+
+/**
+ * File names and locations frameworks start from
+ */
+const ENTRY_POINT_PATTERNS = [
+  /(^|\/)(main|index|app|server|cli|manage|wsgi|asgi)\.[a-z]+$/,
+  /(^|\/)pages\//,
+  /(^|\/)app\/(.*\/)?(page|layout|route)\.[jt]sx?$/,
+  /(^|\/)routes\/(.*\/)?\+(page|layout|server)(\.server)?\.(js|ts|svelte)$/
+];
+
+/**
+ * Query words that carry no meaning for matching
+ */
+const QUERY_STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'to', 'what', 'when', 'where', 'which', 'who', 'why', 'with'
+]);
+
+/**
+ * Ranks analyzed files and packs them into a token budget
+ */
+export class ContextPacker {
+  private readonly focusPaths: string[];
+  private readonly queryTerms: string[];
+
+  /**
+   * Create a packer for the given focus and query
+   *
+   * @param options - Focus paths and query of the requested context
+   */
+  constructor(options: Pick<TextOutputOptions, 'focusPaths' | 'query'> = {}) {
+    this.focusPaths = (options.focusPaths || [])
+      .map(focusPath => focusPath.replace(/^\.\//, '').replace(/\/+$/, ''))
+      .filter(focusPath => focusPath !== '' && focusPath !== '.');
+    this.queryTerms = [...new Set(getWords(options.query || ''))].filter(word => !QUERY_STOPWORDS.has(word));
+  }
+
+  /**
+   * Rank the analyzed files of a result, most relevant first
+   *
+   * @param result - Analysis result
+   * @returns Files with their relevance, sorted by descending score and then path
+   */
+  rankFiles(result: AnalysisResult): RankedFile[] {
+    const files = new Map<string, FileAnalysis>();
+    for (const analyses of Object.values(result.folder_structure)) {
+      for (const analysis of analyses) {
+        files.set(analysis.path, analysis);
+      }
+    }
+
+    const neighbours = new Map<string, Set<string>>();
+    const incoming = new Map<string, number>();
+    for (const [filePath, fileDependencies] of Object.entries(result.dependencies)) {
+      for (const dependency of fileDependencies.filter(dependency => files.has(dependency))) {
+        incoming.set(dependency, (incoming.get(dependency) || 0) + 1);
+        addNeighbour(neighbours, filePath, dependency);
+        addNeighbour(neighbours, dependency, filePath);
+      }
+    }
+
+    const degree = (filePath: string) => 2 * (incoming.get(filePath) || 0) + (neighbours.get(filePath)?.size || 0);
+    const maxDegree = Math.max(0, ...[...files.keys()].map(degree));
+    const focusDistances = this.getFocusDistances(files, neighbours);
+    const entryPoints = new Set((result.packages || []).flatMap(pkg => pkg.entry_points));
+
+    const weights = {
+      ...RANKING_WEIGHTS,
+      focus: this.focusPaths.length > 0 ? RANKING_WEIGHTS.focus : 0,
+      query: this.queryTerms.length > 0 ? RANKING_WEIGHTS.query : 0
+    };
+    const totalWeight = weights.centrality + weights.entryPoint + weights.focus + weights.query;
+
+    const ranked = [...files].map(([filePath, analysis]): RankedFile => {
+      const centrality = maxDegree > 0 ? Math.log1p(degree(filePath)) / Math.log1p(maxDegree) : 0;
+      const entryPoint = entryPoints.has(filePath) || this.isEntryPoint(filePath, analysis) ? 1 : 0;
+      const focus = this.getFocusScore(filePath, focusDistances.get(filePath));
+      const query = this.getQueryScore(filePath, analysis);
+
+      const score = (weights.centrality * centrality + weights.entryPoint * entryPoint +
+        weights.focus * focus + weights.query * query) / totalWeight;
+      return { path: filePath, score: Math.round(score * 1000) / 1000 };
+    });
+
+    return ranked.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Choose the detail of each file so that the text fits the budget
+   *
+   * All files start in full. Starting with the lowest-ranked file, files are
+   * shortened to their signatures, then to their path, and finally left out
+   * until the estimate fits. Tokens left over then go to the highest-ranked
+   * files again, in the most detail that still fits.
+   *
+   * @param rankedFiles - Files sorted by relevance
+   * @param render - Writes a file at a detail
+   * @param maxTokens - Tokens available for the files
+   * @param separator - Text written between files
+   * @param renderRelated - Writes what the output adds elsewhere for a file at
+   *   a detail (such as its dependency line), counted with the file
+   * @returns Files that fit, in rank order
+   */
+  pack(
+    rankedFiles: RankedFile[],
+    render: (filePath: string, detail: ContextDetail) => string,
+    maxTokens: number,
+    separator: string = '\n\n',
+    renderRelated?: (filePath: string, detail: ContextDetail) => string
+  ): PackedFile[] {
+    const separatorTokens = estimateTokens(separator);
+    const toPackedFile = (filePath: string, detail: ContextDetail): PackedFile => {
+      const text = render(filePath, detail);
+      const related = renderRelated ? renderRelated(filePath, detail) : '';
+      const relatedTokens = related ? estimateTokens(related) + separatorTokens : 0;
+      return { path: filePath, detail, text, tokens: estimateTokens(text) + separatorTokens + relatedTokens };
+    };
+
+    const packed = rankedFiles.map(file => toPackedFile(file.path, 'full'));
+    let total = packed.reduce((sum, file) => sum + file.tokens, 0);
+
+    for (const detail of ['signatures', 'path'] as const) {
+      for (let i = packed.length - 1; i >= 0 && total > maxTokens; i--) {
+        const shortened = toPackedFile(packed[i]!.path, detail);
+        total += shortened.tokens - packed[i]!.tokens;
+        packed[i] = shortened;
+      }
+    }
+
+    while (total > maxTokens && packed.length > 0) {
+      total -= packed.pop()!.tokens;
+    }
+
+    // Spend what shortening freed on the highest-ranked files
+    for (let i = 0; i < packed.length; i++) {
+      for (const detail of DETAILS.slice(0, DETAILS.indexOf(packed[i]!.detail))) {
+        const expanded = toPackedFile(packed[i]!.path, detail);
+        if (total + expanded.tokens - packed[i]!.tokens <= maxTokens) {
+          total += expanded.tokens - packed[i]!.tokens;
+          packed[i] = expanded;
+          break;
+        }
+      }
+    }
+
+    return packed;
+  }
+
+  /**
+   * Get the import distance of every file from the focus paths
+   *
+   * @private
+   */
+  private getFocusDistances(
+    files: Map<string, FileAnalysis>,
+    neighbours: Map<string, Set<string>>
+  ): Map<string, number> {
+    const distances = new Map<string, number>();
+    let frontier = [...files.keys()].filter(filePath => this.isFocused(filePath));
+    frontier.forEach(filePath => distances.set(filePath, 0));
+
+    for (let distance = 1; frontier.length > 0; distance++) {
+      const next: string[] = [];
+      for (const filePath of frontier) {
+        for (const neighbour of neighbours.get(filePath) || []) {
+          if (!distances.has(neighbour)) {
+            distances.set(neighbour, distance);
+            next.push(neighbour);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    return distances;
+  }
+
+  /**
+   * Score a file by its import distance and directory distance from the focus paths
+   *
+   * @private
+   */
+  private getFocusScore(filePath: string, importDistance: number | undefined): number {
+    if (this.focusPaths.length === 0) {
+      return 0;
+    }
+
+    const importScore = importDistance !== undefined ? 1 / (1 + importDistance) : 0;
+    const fileDirs = filePath.split('/').slice(0, -1);
+    const directoryScore = Math.max(...this.focusPaths.map(focusPath => {
+      const focusDirs = focusPath.split('/');
+      let shared = 0;
+      while (shared < Math.min(fileDirs.length, focusDirs.length) && fileDirs[shared] === focusDirs[shared]) {
+        shared++;
+      }
+      return shared > 0 ? 0.5 * shared / Math.max(fileDirs.length, focusDirs.length) : 0;
+    }));
+
+    return Math.max(importScore, directoryScore);
+  }
+
+  /**
+   * Score a file by the share of query terms its symbols, path and docstrings contain
+   *
+   * A term found in a symbol name or the path counts fully, one found only
+   * in a docstring counts half.
+   *
+   * @private
+   */
+  private getQueryScore(filePath: string, analysis: FileAnalysis): number {
+    if (this.queryTerms.length === 0) {
+      return 0;
+    }
+
+    const symbolWords = new Set(getWords(filePath));
+    const docWords = new Set<string>();
+    const addFunction = (signature: string, docstring: string | undefined) => {
+      getWords(signature.split('(')[0]!).forEach(word => symbolWords.add(word));
+      getWords(docstring || '').forEach(word => docWords.add(word));
+    };
+
+    for (const [signature, functionInfo] of Object.entries(analysis.functions || {})) {
+      addFunction(signature, functionInfo.docstring);
+    }
+    for (const [className, classInfo] of Object.entries(analysis.classes || {})) {
+      addFunction(className, classInfo.docstring);
+      for (const [signature, methodInfo] of Object.entries(classInfo.methods)) {
+        addFunction(signature, methodInfo.docstring);
+      }
+    }
+
+    const matches = (words: Set<string>, term: string) =>
+      [...words].some(word => word.startsWith(term) || (word.length >= 4 && term.startsWith(word)));
+    const score = this.queryTerms.reduce((sum, term) =>
+      sum + (matches(symbolWords, term) ? 1 : matches(docWords, term) ? 0.5 : 0), 0);
+
+    return score / this.queryTerms.length;
+  }
+
+  /**
+   * Check whether a file is where a framework or process starts
+   *
+   * @private
+   */
+  private isEntryPoint(filePath: string, analysis: FileAnalysis): boolean {
+    return ENTRY_POINT_PATTERNS.some(pattern => pattern.test(filePath)) ||
+      analysis.process_role === 'main' ||
+      analysis.process_role === 'preload' ||
+      (analysis.api_endpoints?.length || 0) > 0 ||
+      Object.values(analysis.functions || {}).some(functionInfo => functionInfo.api_endpoints.length > 0);
+  }
+
+  /**
+   * Check whether a file is one of the focus paths or lies below one
+   *
+   * @private
+   */
+  private isFocused(filePath: string): boolean {
+    return this.focusPaths.some(focusPath => filePath === focusPath || filePath.startsWith(`${focusPath}/`));
+  }
+}
+
+/**
+ * Split text into lowercase words, breaking camelCase and snake_case names
+ */
+function getWords(text: string): string[] {
+  return text
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z\d]+/)
+    .filter(word => word.length >= 2);
+}
+
+/**
+ * Record an undirected import neighbour
+ */
+function addNeighbour(neighbours: Map<string, Set<string>>, from: string, to: string): void {
+  if (!neighbours.has(from)) {
+    neighbours.set(from, new Set());
+  }
+  neighbours.get(from)!.add(to);
+}
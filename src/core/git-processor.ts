@@ -8,14 +8,37 @@
  * for code analysis, including file discovery and repository validation.
  */
 
-import { execFile } from 'node:child_process';
+import { execFile, spawn } from 'node:child_process';
 import { promisify } from 'node:util';
 import { access, stat } from 'node:fs/promises';
 import { join, resolve, isAbsolute } from 'node:path';
+import { DEFAULT_PROCESSING_OPTIONS, type ProcessingOptions } from './file-processor.js';
+import type { AnalysisSource } from '../types/index.js';
+import { logger } from '../utils/logger.js';
 
 // Promisify execFile for async/await usage
 const execFileAsync = promisify(execFile);
 
+/**
+ * A single file change between two commits
+ */
+export interface GitFileChange {
+  /** Kind of change reported by git diff */
+  status: 'added' | 'modified' | 'deleted' | 'type_changed';
+  /** File path relative to repo root */
+  path: string;
+}
+
+/**
+ * An object reported by `git cat-file --batch` or `--batch-check`
+ */
+interface GitBatchObject {
+  type: string;
+  size: number;
+  /** Object content, read with `--batch` only */
+  content?: string;
+}
+
 /**
  * Git repository processor for file discovery and validation
  *
@@ -110,6 +133,284 @@ export class GitProcessor {
     }
   }
 
+  /**
+   * Get the non-binary files of a version of the repository
+   *
+   * Without a source this is the list of files tracked at HEAD.
+   *
+   * @param source - Working tree, index or commit to list the files of
+   * @returns Promise that resolves to file paths relative to repo root
+   * @throws {Error} If not a valid git repository or the commit cannot be read
+   */
+  async getSourceFiles(source?: AnalysisSource): Promise<string[]> {
+    if (source === undefined) {
+      return this.getTrackedFiles();
+    }
+
+    const isValidRepo = await this.isGitRepository();
+    if (!isValidRepo) {
+      throw new Error(`Not a valid git repository: ${this.repoPath}`);
+    }
+
+    let files: string[];
+    if (source === 'worktree') {
+      // Tracked files deleted from the working tree are still in the index
+      const deleted = new Set(splitNulSeparated(await this.runGitCommand(['ls-files', '-z', '--deleted'])));
+      files = splitNulSeparated(
+        await this.runGitCommand(['ls-files', '-z', '--cached', '--others', '--exclude-standard'])
+      ).filter(file => !deleted.has(file));
+    } else if (source === 'index') {
+      files = splitNulSeparated(await this.runGitCommand(['ls-files', '-z', '--cached']));
+    } else {
+      files = splitNulSeparated(await this.runGitCommand(['ls-tree', '-r', '-z', '--name-only', source.commit]));
+    }
+
+    // Unmerged files are listed once per conflict stage
+    return this.filterBinaryFiles([...new Set(files)]);
+  }
+
+  /**
+   * Resolve a revision (branch, tag, abbreviated hash, `HEAD~2`, ...) to a commit hash
+   *
+   * @param revision - Revision to resolve
+   * @returns Promise that resolves to the full commit hash
+   * @throws {Error} If the revision does not name a commit
+   */
+  async resolveCommit(revision: string): Promise<string> {
+    try {
+      return await this.runGitCommand(['rev-parse', '--verify', '--end-of-options', `${revision}^{commit}`]);
+    } catch {
+      throw new Error(`Unknown commit: ${revision}`);
+    }
+  }
+
+  /**
+   * Read file contents from the index or a commit without touching the working tree
+   *
+   * All files are read through one `git cat-file --batch` process. Files that
+   * are missing or larger than `maxFileSize` are returned as errors, like
+   * FileProcessor does for the working tree.
+   *
+   * @param filePaths - File paths relative to repo root
+   * @param source - Index or commit to read the files from
+   * @param options - Size limit, progress callback and cancellation signal
+   * @returns Promise that resolves to the content, or an error, of each file
+   */
+  async readFiles(
+    filePaths: string[],
+    source: Exclude<AnalysisSource, 'worktree'>,
+    options: Partial<Pick<ProcessingOptions, 'maxFileSize' | 'onProgress' | 'signal'>> = {}
+  ): Promise<Map<string, string | Error>> {
+    const maxFileSize = options.maxFileSize || DEFAULT_PROCESSING_OPTIONS.maxFileSize;
+    const revision = source === 'index' ? '' : source.commit;
+    const results = new Map<string, string | Error>();
+
+    checkCancellation(options.signal);
+
+    // Object names cannot span lines in batch input
+    const readableFiles = filePaths.filter(filePath => {
+      if (filePath.includes('\n')) {
+        results.set(filePath, createReadError('unknown', `Cannot read file name containing a newline: ${filePath}`));
+        return false;
+      }
+      return true;
+    });
+
+    // Check sizes first so oversized blobs are never loaded
+    const objects = await this.runGitBatch(
+      ['cat-file', '--batch-check'],
+      readableFiles.map(file => `${revision}:${file}`),
+      options.signal
+    );
+    const filesToRead: string[] = [];
+    readableFiles.forEach((filePath, index) => {
+      const object = objects[index];
+      if (!object || object.type !== 'blob') {
+        results.set(filePath, createReadError('not_found', `File not found in ${describeSource(source)}: ${filePath}`));
+      } else if (object.size > maxFileSize) {
+        results.set(filePath, createReadError(
+          'file_too_large',
+          `File size ${object.size} bytes exceeds limit of ${maxFileSize} bytes`
+        ));
+      } else {
+        filesToRead.push(filePath);
+      }
+    });
+
+    const blobs = await this.runGitBatch(
+      ['cat-file', '--batch'],
+      filesToRead.map(file => `${revision}:${file}`),
+      options.signal
+    );
+    for (const [index, filePath] of filesToRead.entries()) {
+      checkCancellation(options.signal);
+      const content = blobs[index]?.content;
+      results.set(filePath, content !== undefined
+        ? content
+        : createReadError('not_found', `File not found in ${describeSource(source)}: ${filePath}`));
+      options.onProgress?.(index + 1, filesToRead.length, filePath);
+    }
+
+    // Keep the order of the requested paths
+    return new Map(filePaths.map(filePath => [filePath, results.get(filePath)!]));
+  }
+
+  /**
+   * Read one file from the index or a commit
+   *
+   * @param filePath - File path relative to repo root
+   * @param source - Index or commit to read the file from
+   * @returns Promise that resolves to the file content
+   * @throws {Error} If the file does not exist there
+   */
+  async readFile(filePath: string, source: Exclude<AnalysisSource, 'worktree'>): Promise<string> {
+    const contentOrError = (await this.readFiles([filePath], source, { maxFileSize: Infinity })).get(filePath);
+    if (contentOrError instanceof Error || contentOrError === undefined) {
+      throw contentOrError || new Error(`File not found: ${filePath}`);
+    }
+    return contentOrError;
+  }
+
+  /**
+   * Get the commit hash that HEAD currently points to
+   *
+   * @returns Promise that resolves to the full commit hash, or null if the repository has no commits
+   */
+  async getHeadCommit(): Promise<string | null> {
+    try {
+      const output = await this.runGitCommand(['rev-parse', '--verify', 'HEAD']);
+      return output.length > 0 ? output : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the files that changed between two commits
+   *
+   * Renames are reported as a deletion plus an addition so callers only have
+   * to handle per-path changes.
+   *
+   * @param fromCommit - Base commit to compare against
+   * @param toCommit - Target commit (defaults to HEAD)
+   * @returns Promise that resolves to the list of changed files
+   * @throws {Error} If either commit cannot be resolved
+   */
+  async getChangedFiles(fromCommit: string, toCommit: string = 'HEAD'): Promise<GitFileChange[]> {
+    const output = await this.runGitCommand([
+      'diff', '--name-status', '--no-renames', '-z', fromCommit, toCommit
+    ]);
+
+    // With -z the output is a flat NUL-separated list of status/path pairs
+    const fields = output.split('\0').filter(field => field.length > 0);
+    const changes: GitFileChange[] = [];
+
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      const statusCode = fields[i]!.charAt(0);
+      const path = fields[i + 1]!;
+
+      switch (statusCode) {
+        case 'A':
+          changes.push({ status: 'added', path });
+          break;
+        case 'D':
+          changes.push({ status: 'deleted', path });
+          break;
+        case 'T':
+          changes.push({ status: 'type_changed', path });
+          break;
+        default:
+          changes.push({ status: 'modified', path });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Get the files whose working-tree contents differ from HEAD
+   *
+   * Staged and unstaged changes both count; untracked files do not.
+   *
+   * @returns Promise that resolves to file paths relative to repo root
+   */
+  async getUncommittedFiles(): Promise<string[]> {
+    const output = await this.runGitCommand(['diff', '--name-only', '--no-renames', '-z', 'HEAD', '--']);
+    return splitNulSeparated(output);
+  }
+
+  /**
+   * Get the files of the working tree at or below the given paths
+   *
+   * Directories expand to the files inside them. Tracked files are listed
+   * even when they were deleted from the working tree, untracked files only
+   * when `.gitignore` does not exclude them.
+   *
+   * @param paths - Files or directories relative to repo root
+   * @returns Promise that resolves to the matching file paths
+   */
+  async getWorkingTreeFiles(paths: string[]): Promise<string[]> {
+    const files = new Set<string>();
+
+    // Keep the command line short when many files change at once
+    for (let i = 0; i < paths.length; i += 500) {
+      const output = await this.runGitCommand([
+        '--literal-pathspecs', 'ls-files', '-z', '--cached', '--others', '--exclude-standard', '--',
+        ...paths.slice(i, i + 500)
+      ]);
+
+      for (const file of splitNulSeparated(output)) {
+        files.add(file);
+      }
+    }
+
+    return [...files];
+  }
+
+  /**
+   * Get the untracked paths of the working tree that `.gitignore` excludes
+   *
+   * Ignored directories are reported once, as the directory, rather than
+   * file by file.
+   *
+   * @param paths - Files or directories to check; the whole working tree when omitted
+   * @returns Promise that resolves to the ignored files and directories, without trailing slashes
+   */
+  async getIgnoredPaths(paths?: string[]): Promise<string[]> {
+    if (paths?.length === 0) {
+      return [];
+    }
+
+    const ignored = new Set<string>();
+    const pathspecs = paths ?? [];
+
+    // Keep the command line short when many files change at once
+    let i = 0;
+    do {
+      const output = await this.runGitCommand([
+        '--literal-pathspecs', 'ls-files', '-z', '--others', '--ignored', '--exclude-standard', '--directory', '--',
+        ...pathspecs.slice(i, i + 500)
+      ]);
+
+      for (const path of splitNulSeparated(output)) {
+        ignored.add(path.endsWith('/') ? path.slice(0, -1) : path);
+      }
+      i += 500;
+    } while (i < pathspecs.length);
+
+    return [...ignored];
+  }
+
+  /**
+   * Remove binary files from a list of repository paths
+   *
+   * @param filePaths - File paths relative to repo root
+   * @returns Promise that resolves to the non-binary paths
+   */
+  async filterTextFiles(filePaths: string[]): Promise<string[]> {
+    return this.filterBinaryFiles(filePaths);
+  }
+
   /**
    * Execute a git command in the repository directory
    *
@@ -129,7 +430,7 @@ export class GitProcessor {
 
       // Check for errors in stderr (git sometimes writes warnings to stderr)
       if (stderr && stderr.trim().length > 0) {
-        console.warn(`Git warning: ${stderr.trim()}`);
+        logger.warn(`Git warning: ${stderr.trim()}`);
       }
 
       return stdout.trim();
@@ -141,6 +442,89 @@ export class GitProcessor {
     }
   }
 
+/**
+   * Look up objects with a `git cat-file` batch command
+   *
+   * Aborting the signal stops the git process and the parsing of its output.
+   *
+   * @param args - `cat-file --batch` or `cat-file --batch-check`
+   * @param objectNames - Object names such as `HEAD:src/app.ts`, one per line of input
+   * @param signal - Cancellation signal
+   * @returns Promise that resolves to each object, or undefined if it is missing
+   * @throws {Error} If the git command fails or is cancelled
+   * @private
+   */
+  private async runGitBatch(
+    args: string[],
+    objectNames: string[],
+    signal?: AbortSignal
+  ): Promise<Array<GitBatchObject | undefined>> {
+    if (objectNames.length === 0) {
+      return [];
+    }
+
+    const gitExecutable = await this.findGitExecutable();
+    const output = await new Promise<Buffer>((resolveOutput, reject) => {
+      const child = spawn(gitExecutable, args, {
+        cwd: this.repoPath,
+        timeout: 30000, // 30 second timeout
+        signal
+      });
+      const chunks: Buffer[] = [];
+      let stderr = '';
+
+      child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+      child.on('error', error => reject(signal?.aborted ? new Error('File processing was cancelled') : error));
+      child.on('close', code => {
+        if (code === 0) {
+          resolveOutput(Buffer.concat(chunks));
+        } else {
+          reject(new Error(`Git command failed: git ${args.join(' ')}\n${stderr.trim()}`));
+        }
+      });
+
+      // A failed write shows up as a non-zero exit code
+      child.stdin.on('error', () => {});
+      child.stdin.end(`${objectNames.join('\n')}\n`);
+    });
+
+    // Each object is a header line `<oid> <type> <size>`, followed by the
+    // content and a newline with --batch, or `<name> missing`; names may
+    // contain spaces, so only the fixed prefix is split
+    const withContent = args.includes('--batch');
+    const objects: Array<GitBatchObject | undefined> = [];
+    let offset = 0;
+
+    for (let i = 0; i < objectNames.length; i++) {
+      checkCancellation(signal);
+      const headerEnd = output.indexOf(0x0a, offset);
+      if (headerEnd < 0) {
+        break;
+      }
+
+      const header = output.toString('utf8', offset, headerEnd);
+      const match = / (missing|ambiguous)$/.test(header) ? undefined : header.match(/^\S+ (\S+) (\d+)/);
+      offset = headerEnd + 1;
+
+      if (!match) {
+        objects.push(undefined);
+        continue;
+      }
+
+      const object: GitBatchObject = { type: match[1]!, size: Number(match[2]) };
+      if (withContent) {
+        object.content = output.toString('utf8', offset, offset + object.size);
+        offset += object.size + 1;
+      }
+      objects.push(object);
+    }
+
+    return objects;
+  }
+
 /**
    * Check if files are binary using git attributes
    *
@@ -208,3 +592,35 @@ export class GitProcessor {
     return this.repoPath;
   }
 }
+
+/**
+ * Split the output of a git command run with -z
+ */
+function splitNulSeparated(output: string): string[] {
+  return output.split('\0').filter(field => field.length > 0);
+}
+
+/**
+ * Create a file read error named after its error type, like FileProcessor does
+ */
+function createReadError(type: string, message: string): Error {
+  const error = new Error(message);
+  error.name = type;
+  return error;
+}
+
+/**
+ * Describe an analysis source for error messages
+ */
+function describeSource(source: Exclude<AnalysisSource, 'worktree'>): string {
+  return source === 'index' ? 'the index' : `commit ${source.commit}`;
+}
+
+/**
+ * Stop an operation whose signal was aborted, like FileProcessor does
+ */
+function checkCancellation(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error('File processing was cancelled');
+  }
+}
@@ -0,0 +1,1074 @@
+/**
+ * Import Alias Resolution
+ *
+ * This module reads the project configuration that changes how bare import
+ * specifiers resolve: `tsconfig.json`/`jsconfig.json` `baseUrl` and `paths`
+ * (following `extends` chains), statically readable webpack/vite `alias`
+ * settings, and workspace packages declared by `package.json` files. The
+ * ResultsAggregator uses it to map imports such as `@/components/Button`,
+ * `~/utils` or `@acme/ui` to files inside the repository.
+ *
+ * For Python it finds the source roots a module search path would contain
+ * (directories above top-level packages, `src/` layouts, the directory of
+ * `manage.py` and the package directories configured in `setup.py`,
+ * `setup.cfg` or `pyproject.toml`) and maps dotted module names onto them.
+ *
+ * For Go it reads the module path of every `go.mod` and maps package import
+ * paths below it to package directories.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join, posix } from 'node:path';
+import { parse } from '@babel/parser';
+import type { RepositoryFileReader } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Outcome of mapping a bare import specifier through the project configuration
+ */
+export interface AliasResolution {
+  /** Repository-relative paths to probe (extensions and index files are added by the caller) */
+  candidates: string[];
+  /** Whether the specifier is known to point into the repository, even if no candidate exists */
+  internal: boolean;
+}
+
+/**
+ * `compilerOptions.baseUrl`/`paths` of one tsconfig/jsconfig after following `extends`
+ */
+interface PathAliasConfig {
+  /** Repository-relative baseUrl directory, if configured */
+  baseUrl?: string;
+  /** Path mapping patterns with repository-relative targets */
+  paths: Array<{ pattern: string; targets: string[] }>;
+}
+
+/**
+ * A single bundler alias entry (webpack `resolve.alias`, vite `resolve.alias`)
+ */
+interface BundlerAlias {
+  /** Directory of the config file; the alias applies to files below it */
+  scopeDir: string;
+  /** Alias key */
+  find: string;
+  /** Whether only the exact specifier matches (webpack `key$`) */
+  exact: boolean;
+  /** Repository-relative replacement path */
+  replacement: string;
+}
+
+/**
+ * A package declared by a `package.json` inside the repository
+ */
+interface WorkspacePackage {
+  name: string;
+  /** Repository-relative package directory ('' for the root) */
+  dir: string;
+  manifest: Record<string, any>;
+}
+
+/**
+ * A Go module declared by a `go.mod` inside the repository
+ */
+interface GoModule {
+  /** Module path from the `module` directive */
+  path: string;
+  /** Repository-relative module directory ('' for the root) */
+  dir: string;
+}
+
+/**
+ * Raw compiler options collected while following an `extends` chain
+ */
+interface RawCompilerOptions {
+  baseUrl?: string;
+  baseUrlDir?: string;
+  paths?: Record<string, string[]>;
+  pathsDir?: string;
+  references?: string[];
+}
+
+const CONFIG_FILE_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+const BUNDLER_CONFIG_PATTERN = /(?:^|\/)(?:webpack(?:\.[\w-]+)*\.config|webpack\.[\w-]+|vite\.config|vitest\.config|craco\.config|vue\.config|rollup\.config)\.(?:c|m)?[jt]s$/;
+
+/**
+ * Conditions tried, in order, when a package `exports`/`imports` target is a conditions object
+ */
+const EXPORT_CONDITIONS = ['source', 'development', 'import', 'module', 'browser', 'node', 'require', 'default', 'types'];
+
+/**
+ * Conventional alias prefixes that always point into the project
+ */
+const CONVENTIONAL_ALIAS = /^[@~]\//;
+
+/**
+ * Build output directories whose files are usually generated from `src/`
+ */
+const BUILD_OUTPUT_DIR = /^(?:dist|build|lib|out)\//;
+
+/**
+ * Asset files that are imported by bundlers but filtered out as binary
+ */
+const BINARY_ASSET_EXTENSION = /\.(?:png|jpe?g|gif|webp|avif|ico|bmp|woff2?|ttf|otf|eot|mp3|mp4|webm|wav|pdf)$/i;
+
+const MAX_EXTENDS_DEPTH = 10;
+
+/**
+ * Files whose directory is a Python source root
+ */
+const PYTHON_PROJECT_FILES = ['manage.py', 'setup.py', 'setup.cfg', 'pyproject.toml'];
+
+/**
+ * Python packaging files that may configure package directories
+ */
+const PYTHON_PACKAGING_FILES = ['setup.py', 'setup.cfg', 'pyproject.toml'];
+
+/**
+ * Resolver for project-specific import aliases
+ *
+ * Instances are created with `ImportResolver.load`, which reads all
+ * configuration up front so that resolution itself is synchronous.
+ */
+export class ImportResolver {
+  private readonly pathConfigs = new Map<string, PathAliasConfig>();
+  private readonly bundlerAliases: BundlerAlias[] = [];
+  private readonly packages: WorkspacePackage[] = [];
+  private readonly goModules: GoModule[] = [];
+  private readonly trackedFiles: Set<string>;
+  private readonly directories = new Set<string>();
+  private readonly configForDirCache = new Map<string, PathAliasConfig | null>();
+  private readonly pythonRoots = new Set<string>(['']);
+  private readonly pythonRootsForDirCache = new Map<string, string[]>();
+
+  /**
+   * Create a resolver without alias configuration
+   *
+   * Python source roots that follow from the file layout alone are
+   * detected here; configured package directories are added by `load`.
+   *
+   * @param trackedFiles - Repository-relative paths of all tracked files
+   */
+  constructor(trackedFiles: Iterable<string>) {
+    this.trackedFiles = new Set(trackedFiles);
+
+    for (const filePath of this.trackedFiles) {
+      let dir = posix.dirname(filePath);
+      while (dir !== '.' && !this.directories.has(dir)) {
+        this.directories.add(dir);
+        dir = posix.dirname(dir);
+      }
+    }
+
+    this.collectPythonRoots();
+  }
+
+  /**
+   * Read alias configuration from a repository
+   *
+   * Unreadable or malformed configuration files are skipped.
+   *
+   * @param repositoryPath - Path to the repository root
+   * @param trackedFiles - Repository-relative paths of all tracked files
+   * @param readRepositoryFile - Reads configuration files (defaults to the working tree)
+   * @returns Promise that resolves to a ready-to-use resolver
+   */
+  static async load(
+    repositoryPath: string,
+    trackedFiles: string[],
+    readRepositoryFile: RepositoryFileReader = filePath => readFile(join(repositoryPath, filePath), 'utf8')
+  ): Promise<ImportResolver> {
+    const resolver = new ImportResolver(trackedFiles);
+
+    for (const filePath of trackedFiles) {
+      const fileName = posix.basename(filePath);
+
+      try {
+        if (CONFIG_FILE_NAMES.includes(fileName)) {
+          await resolver.loadPathConfig(readRepositoryFile, filePath);
+        } else if (fileName === 'package.json') {
+          await resolver.loadPackage(readRepositoryFile, filePath);
+        } else if (BUNDLER_CONFIG_PATTERN.test(filePath)) {
+          await resolver.loadBundlerAliases(readRepositoryFile, filePath);
+        } else if (PYTHON_PACKAGING_FILES.includes(fileName)) {
+          await resolver.loadPythonPackageDirs(readRepositoryFile, filePath);
+        } else if (fileName === 'go.mod') {
+          await resolver.loadGoModule(readRepositoryFile, filePath);
+        }
+      } catch (error) {
+        logger.warn(`⚠️  Could not read import aliases from ${filePath}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    // More specific aliases first
+    resolver.bundlerAliases.sort((a, b) => b.find.length - a.find.length);
+    resolver.packages.sort((a, b) => b.name.length - a.name.length);
+    resolver.goModules.sort((a, b) => b.path.length - a.path.length);
+
+    return resolver;
+  }
+
+  /**
+   * Map a bare (non-relative) import specifier to repository paths
+   *
+   * @param fromFile - Repository-relative path of the importing file
+   * @param specifier - Import specifier as written in the source
+   * @returns Candidate paths and whether the specifier is internal, or null for third-party packages
+   */
+  resolve(fromFile: string, specifier: string): AliasResolution | null {
+    const fromDir = posix.dirname(fromFile);
+
+    // 1. Bundler aliases are applied before TypeScript paths by the build
+    for (const alias of this.bundlerAliases) {
+      if (!this.isWithin(fromDir, alias.scopeDir)) {
+        continue;
+      }
+      if (specifier === alias.find || (!alias.exact && specifier.startsWith(`${alias.find}/`))) {
+        return {
+          candidates: [posix.join(alias.replacement, specifier.slice(alias.find.length))],
+          internal: true
+        };
+      }
+    }
+
+    // 2. tsconfig/jsconfig paths and baseUrl
+    const config = this.findPathConfig(fromDir);
+    if (config) {
+      const mapped = this.matchPaths(config, specifier);
+      if (mapped) {
+        return { candidates: mapped, internal: true };
+      }
+    }
+
+    // 3. Node subpath imports (`#internal/*`) of the nearest package
+    if (specifier.startsWith('#')) {
+      const owner = this.packages
+        .filter(pkg => this.isWithin(fromDir, pkg.dir))
+        .sort((a, b) => b.dir.length - a.dir.length)[0];
+      const targets = owner ? this.matchExportMap(owner.manifest.imports, specifier) : [];
+      return {
+        candidates: owner ? targets.flatMap(target => getPackageTargetCandidates(owner.dir, target)) : [],
+        internal: true
+      };
+    }
+
+    // 4. Workspace packages
+    for (const pkg of this.packages) {
+      if (pkg.name && (specifier === pkg.name || specifier.startsWith(`${pkg.name}/`))) {
+        return {
+          candidates: this.resolvePackageEntry(pkg, `.${specifier.slice(pkg.name.length)}`),
+          internal: true
+        };
+      }
+    }
+
+    // 5. Modules found relative to baseUrl
+    if (config?.baseUrl !== undefined) {
+      const candidate = posix.join(config.baseUrl, specifier);
+      const firstSegment = posix.join(config.baseUrl, specifier.split('/')[0] || '');
+      if (this.directories.has(firstSegment) || this.hasFileCandidate(candidate)) {
+        return { candidates: [candidate], internal: true };
+      }
+    }
+
+    // 6. Conventional aliases without configuration we could read
+    if (CONVENTIONAL_ALIAS.test(specifier)) {
+      return { candidates: [], internal: true };
+    }
+
+    return null;
+  }
+
+  /**
+   * Map a Python module name to repository paths
+   *
+   * Relative names (`.models`, `..`, `...utils.dates`) are resolved against
+   * the package of the importing file. Absolute names are looked up in every
+   * Python source root, starting with the roots that contain the importer.
+   *
+   * @param fromFile - Repository-relative path of the importing file
+   * @param moduleName - Dotted module name as written in the source
+   * @returns Candidate module paths (see `getPythonModuleCandidates`) and
+   *   whether the module is internal, or null for third-party and standard library modules
+   */
+  resolvePythonModule(fromFile: string, moduleName: string): AliasResolution | null {
+    const fromDir = normalizeDir(posix.dirname(fromFile));
+
+    if (moduleName.startsWith('.')) {
+      const level = moduleName.match(/^\.+/)![0].length;
+      let packageDir = fromDir;
+      for (let i = 1; i < level; i++) {
+        packageDir = posix.join(packageDir || '.', '..');
+      }
+
+      const rest = moduleName.slice(level).split('.').filter(Boolean).join('/');
+      return { candidates: [normalizeDir(posix.join(packageDir || '.', rest))], internal: true };
+    }
+
+    const modulePath = moduleName.split('.').join('/');
+    const topLevelName = moduleName.split('.')[0] || '';
+    const roots = this.getPythonRootsFor(fromDir);
+
+    const internal = roots.some(root => {
+      const topLevelPath = posix.join(root || '.', topLevelName);
+      return this.directories.has(topLevelPath) || this.trackedFiles.has(`${topLevelPath}.py`);
+    });
+
+    return internal
+      ? { candidates: roots.map(root => posix.join(root || '.', modulePath)), internal: true }
+      : null;
+  }
+
+  /**
+   * Map a Go package import path to its directory
+   *
+   * The path is matched against the modules declared by `go.mod` files,
+   * the most specific module first, so nested modules take precedence.
+   *
+   * @param importPath - Package import path as written in the source
+   * @returns The package directory, or null for standard library and third-party packages
+   */
+  resolveGoPackage(importPath: string): AliasResolution | null {
+    for (const module of this.goModules) {
+      if (importPath === module.path || importPath.startsWith(`${module.path}/`)) {
+        const subpath = importPath.slice(module.path.length + 1);
+        return { candidates: [normalizeDir(posix.join(module.dir || '.', subpath))], internal: true };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether a path refers to a file in the repository
+   *
+   * Binary assets are not part of the tracked text files, so an image or
+   * font path counts when its directory exists.
+   *
+   * @param filePath - Repository-relative path
+   * @returns True if the file is part of the repository
+   */
+  isRepositoryFile(filePath: string): boolean {
+    if (this.trackedFiles.has(filePath)) {
+      return true;
+    }
+
+    const dir = posix.dirname(filePath);
+    return BINARY_ASSET_EXTENSION.test(filePath) && (dir === '.' || this.directories.has(dir));
+  }
+
+  /**
+   * Read a tsconfig/jsconfig and its `extends` chain
+   *
+   * @private
+   */
+  private async loadPathConfig(readRepositoryFile: RepositoryFileReader, configPath: string): Promise<void> {
+    const dir = posix.dirname(configPath);
+
+    // tsconfig.json wins over jsconfig.json in the same directory
+    if (posix.basename(configPath) === 'jsconfig.json' && this.trackedFiles.has(posix.join(dir, 'tsconfig.json'))) {
+      return;
+    }
+
+    let options = await this.readCompilerOptions(readRepositoryFile, configPath, new Set());
+
+    // Solution-style configs (Vite templates) keep their options in referenced configs
+    if (!options.paths && options.baseUrl === undefined && options.references) {
+      for (const reference of options.references) {
+        const referenced = await this.readCompilerOptions(readRepositoryFile, reference, new Set());
+        if (referenced.paths || referenced.baseUrl !== undefined) {
+          options = referenced;
+          break;
+        }
+      }
+    }
+
+    if (!options.paths && options.baseUrl === undefined) {
+      return;
+    }
+
+    const config: PathAliasConfig = { paths: [] };
+    if (options.baseUrl !== undefined && options.baseUrlDir !== undefined) {
+      config.baseUrl = posix.join(options.baseUrlDir, options.baseUrl);
+    }
+
+    // paths are relative to baseUrl, or to the config declaring them (TypeScript 4.1+)
+    const pathsBase = config.baseUrl ?? options.pathsDir ?? dir;
+    for (const [pattern, targets] of Object.entries(options.paths ?? {})) {
+      if (Array.isArray(targets)) {
+        config.paths.push({
+          pattern,
+          targets: targets.filter(target => typeof target === 'string').map(target => posix.join(pathsBase, target))
+        });
+      }
+    }
+
+    // Longest prefix wins, like TypeScript
+    config.paths.sort((a, b) => b.pattern.indexOf('*') - a.pattern.indexOf('*') || b.pattern.length - a.pattern.length);
+
+    this.pathConfigs.set(dir, config);
+  }
+
+  /**
+   * Read `compilerOptions` of a config file, merging the configs it extends
+   *
+   * Directories in the result are repository-relative. Configs outside the
+   * repository (e.g. `@tsconfig/*` packages in node_modules) are read from
+   * disk when installed.
+   *
+   * @private
+   */
+  private async readCompilerOptions(
+    readRepositoryFile: RepositoryFileReader,
+    configPath: string,
+    visited: Set<string>
+  ): Promise<RawCompilerOptions> {
+    if (visited.has(configPath) || visited.size >= MAX_EXTENDS_DEPTH) {
+      return {};
+    }
+    visited.add(configPath);
+
+    const json = parseJsonWithComments(await readRepositoryFile(configPath));
+    const dir = posix.dirname(configPath);
+    let options: RawCompilerOptions = {};
+
+    const parents = Array.isArray(json.extends) ? json.extends : json.extends ? [json.extends] : [];
+    for (const parent of parents) {
+      if (typeof parent !== 'string') {
+        continue;
+      }
+      for (const parentPath of this.getExtendsCandidates(dir, parent)) {
+        try {
+          options = { ...options, ...(await this.readCompilerOptions(readRepositoryFile, parentPath, visited)) };
+          break;
+        } catch {
+          // Try the next candidate location
+        }
+      }
+    }
+
+    const compilerOptions = json.compilerOptions ?? {};
+    if (typeof compilerOptions.baseUrl === 'string') {
+      options.baseUrl = compilerOptions.baseUrl;
+      options.baseUrlDir = dir;
+    }
+    if (compilerOptions.paths && typeof compilerOptions.paths === 'object') {
+      options.paths = compilerOptions.paths;
+      options.pathsDir = dir;
+    }
+    if (Array.isArray(json.references)) {
+      options.references = json.references
+        .map((reference: any) => reference?.path)
+        .filter((referencePath: unknown): referencePath is string => typeof referencePath === 'string')
+        .map((referencePath: string) => {
+          const joined = posix.join(dir, referencePath);
+          return joined.endsWith('.json') ? joined : posix.join(joined, 'tsconfig.json');
+        });
+    }
+
+    return options;
+  }
+
+  /**
+   * Get possible locations of a config named in `extends`
+   *
+   * @private
+   */
+  private getExtendsCandidates(dir: string, parent: string): string[] {
+    if (parent.startsWith('.') || parent.startsWith('/')) {
+      const joined = posix.join(dir, parent);
+      return joined.endsWith('.json') ? [joined] : [`${joined}.json`, joined];
+    }
+
+    // Package configs are looked up in node_modules from the config directory upwards
+    const candidates: string[] = [];
+    let current = dir;
+    while (true) {
+      const base = posix.join(current, 'node_modules', parent);
+      candidates.push(...(parent.endsWith('.json') ? [base] : [`${base}.json`, posix.join(base, 'tsconfig.json')]));
+      if (current === '.' || current === '') {
+        break;
+      }
+      current = posix.dirname(current);
+    }
+    return candidates;
+  }
+
+  /**
+   * Record a workspace package from its manifest
+   *
+   * @private
+   */
+  private async loadPackage(readRepositoryFile: RepositoryFileReader, manifestPath: string): Promise<void> {
+    const manifest = JSON.parse(await readRepositoryFile(manifestPath));
+    const dir = posix.dirname(manifestPath);
+
+    if (manifest && typeof manifest === 'object') {
+      // Unnamed packages can still declare subpath `imports`
+      this.packages.push({
+        name: typeof manifest.name === 'string' ? manifest.name : '',
+        dir: dir === '.' ? '' : dir,
+        manifest
+      });
+    }
+  }
+
+  /**
+   * Record the module path declared by a `go.mod`
+   *
+   * @private
+   */
+  private async loadGoModule(readRepositoryFile: RepositoryFileReader, goModPath: string): Promise<void> {
+    const source = await readRepositoryFile(goModPath);
+    const match = source.match(/^\s*module\s+"?([^"\s]+)"?/m);
+
+    if (match) {
+      this.goModules.push({ path: match[1]!, dir: normalizeDir(posix.dirname(goModPath)) });
+    }
+  }
+
+  /**
+   * Extract statically readable aliases from a bundler config
+   *
+   * @private
+   */
+  private async loadBundlerAliases(readRepositoryFile: RepositoryFileReader, configPath: string): Promise<void> {
+    const source = await readRepositoryFile(configPath);
+    const ast = parse(source, {
+      sourceType: 'unambiguous',
+      plugins: ['typescript'],
+      errorRecovery: true
+    });
+    const scopeDir = posix.dirname(configPath);
+
+    walkAst(ast.program, node => {
+      if (node.type !== 'ObjectProperty' || getPropertyKey(node) !== 'alias') {
+        return;
+      }
+
+      const value = node.value;
+      if (value.type === 'ObjectExpression') {
+        // { '@': path.resolve(__dirname, 'src'), 'vue$': 'vue/dist/vue.esm.js' }
+        for (const property of value.properties) {
+          const find = property.type === 'ObjectProperty' ? getPropertyKey(property) : undefined;
+          if (find) {
+            this.addBundlerAlias(scopeDir, find, evaluatePath(property.value, scopeDir));
+          }
+        }
+      } else if (value.type === 'ArrayExpression') {
+        // [{ find: '@', replacement: fileURLToPath(new URL('./src', import.meta.url)) }]
+        for (const element of value.elements) {
+          if (element?.type !== 'ObjectExpression') {
+            continue;
+          }
+          const findProperty = element.properties.find((p: any) => getPropertyKey(p) === 'find');
+          const replacementProperty = element.properties.find((p: any) => getPropertyKey(p) === 'replacement');
+          if (findProperty?.value?.type === 'StringLiteral' && replacementProperty) {
+            this.addBundlerAlias(scopeDir, findProperty.value.value, evaluatePath(replacementProperty.value, scopeDir));
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Add a bundler alias that points into the repository
+   *
+   * Aliases that redirect to another package (`'react-native': 'react-native-web'`)
+   * are ignored.
+   *
+   * @private
+   */
+  private addBundlerAlias(scopeDir: string, find: string, replacement: string | undefined): void {
+    if (replacement === undefined || replacement.startsWith('..')) {
+      return;
+    }
+
+    const exact = find.endsWith('$');
+    this.bundlerAliases.push({
+      scopeDir: scopeDir === '.' ? '' : scopeDir,
+      find: exact ? find.slice(0, -1) : find,
+      exact,
+      replacement
+    });
+  }
+
+  /**
+   * Detect Python source roots from the file layout
+   *
+   * The parent of every top-level package (a directory with `__init__.py`
+   * whose parent has none) is a root, as is the directory of `manage.py` or
+   * a packaging file and its `src/` folder.
+   *
+   * @private
+   */
+  private collectPythonRoots(): void {
+    for (const filePath of this.trackedFiles) {
+      const fileName = posix.basename(filePath);
+      const dir = normalizeDir(posix.dirname(filePath));
+
+      if (fileName === '__init__.py' && dir !== '') {
+        const parentDir = normalizeDir(posix.dirname(dir));
+        if (!this.trackedFiles.has(posix.join(parentDir || '.', '__init__.py'))) {
+          this.pythonRoots.add(parentDir);
+        }
+      } else if (PYTHON_PROJECT_FILES.includes(fileName)) {
+        this.pythonRoots.add(dir);
+        const srcDir = posix.join(dir || '.', 'src');
+        if (this.directories.has(srcDir)) {
+          this.pythonRoots.add(srcDir);
+        }
+      }
+    }
+  }
+
+  /**
+   * Add the package directories configured by a Python packaging file
+   *
+   * @private
+   */
+  private async loadPythonPackageDirs(readRepositoryFile: RepositoryFileReader, configPath: string): Promise<void> {
+    const source = await readRepositoryFile(configPath);
+    const dir = posix.dirname(configPath);
+
+    for (const packageDir of extractPythonPackageDirs(source)) {
+      const root = normalizeDir(posix.join(dir, packageDir));
+      if (!root.startsWith('..') && (root === '' || this.directories.has(root))) {
+        this.pythonRoots.add(root);
+      }
+    }
+    this.pythonRootsForDirCache.clear();
+  }
+
+  /**
+   * Get the Python source roots to search from a directory, in priority order
+   *
+   * Roots containing the directory come first (innermost first), then the
+   * remaining roots; the directory itself is searched last, like the script
+   * directory Python puts on `sys.path`.
+   *
+   * @private
+   */
+  private getPythonRootsFor(dir: string): string[] {
+    const cached = this.pythonRootsForDirCache.get(dir);
+    if (cached) {
+      return cached;
+    }
+
+    const enclosing = [...this.pythonRoots]
+      .filter(root => this.isWithin(dir, root))
+      .sort((a, b) => b.length - a.length);
+    const others = [...this.pythonRoots]
+      .filter(root => !this.isWithin(dir, root))
+      .sort((a, b) => a.length - b.length || a.localeCompare(b));
+    const roots = [...new Set([...enclosing, ...others, dir])];
+
+    this.pythonRootsForDirCache.set(dir, roots);
+    return roots;
+  }
+
+  /**
+   * Find the tsconfig/jsconfig governing a directory
+   *
+   * @private
+   */
+  private findPathConfig(dir: string): PathAliasConfig | null {
+    const cached = this.configForDirCache.get(dir);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const config = this.pathConfigs.get(dir)
+      ?? (dir === '.' || dir === '' ? null : this.findPathConfig(posix.dirname(dir)));
+    this.configForDirCache.set(dir, config);
+    return config;
+  }
+
+  /**
+   * Apply tsconfig `paths` patterns to a specifier
+   *
+   * @private
+   */
+  private matchPaths(config: PathAliasConfig, specifier: string): string[] | null {
+    for (const { pattern, targets } of config.paths) {
+      const starIndex = pattern.indexOf('*');
+
+      if (starIndex === -1) {
+        if (pattern === specifier) {
+          return targets;
+        }
+        continue;
+      }
+
+      const prefix = pattern.slice(0, starIndex);
+      const suffix = pattern.slice(starIndex + 1);
+      if (specifier.length >= prefix.length + suffix.length && specifier.startsWith(prefix) && specifier.endsWith(suffix)) {
+        const captured = specifier.slice(prefix.length, specifier.length - suffix.length);
+        return targets.map(target => target.replace('*', captured));
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a subpath of a workspace package through `exports` or its entry fields
+   *
+   * @param pkg - Workspace package
+   * @param subpath - Package subpath such as `.` or `./button`
+   * @private
+   */
+  private resolvePackageEntry(pkg: WorkspacePackage, subpath: string): string[] {
+    const { manifest } = pkg;
+    let targets: string[] = [];
+
+    if (manifest.exports !== undefined) {
+      const exportMap = typeof manifest.exports === 'string' || Array.isArray(manifest.exports) ||
+        !Object.keys(manifest.exports).some(key => key.startsWith('.'))
+        ? { '.': manifest.exports }
+        : manifest.exports;
+      targets = this.matchExportMap(exportMap, subpath);
+    }
+
+    if (subpath === '.') {
+      targets.push(
+        ...['source', 'module', 'main']
+          .map(field => manifest[field])
+          .filter((entry): entry is string => typeof entry === 'string'),
+        'src/index',
+        'index'
+      );
+    } else {
+      targets.push(subpath, posix.join('src', subpath));
+    }
+
+    return [...new Set(targets.flatMap(target => getPackageTargetCandidates(pkg.dir, target)))];
+  }
+
+  /**
+   * Look up a key in an `exports`/`imports` map, including `*` patterns
+   *
+   * @private
+   */
+  private matchExportMap(map: unknown, key: string): string[] {
+    if (!map || typeof map !== 'object' || Array.isArray(map)) {
+      return [];
+    }
+
+    const entries = map as Record<string, unknown>;
+    if (key in entries) {
+      return collectExportTargets(entries[key]);
+    }
+
+    for (const [pattern, value] of Object.entries(entries)) {
+      const starIndex = pattern.indexOf('*');
+      if (starIndex === -1) {
+        continue;
+      }
+      const prefix = pattern.slice(0, starIndex);
+      const suffix = pattern.slice(starIndex + 1);
+      if (key.startsWith(prefix) && key.endsWith(suffix) && key.length >= prefix.length + suffix.length) {
+        const captured = key.slice(prefix.length, key.length - suffix.length);
+        return collectExportTargets(value).map(target => target.split('*').join(captured));
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Check whether a path or one of its extension variants is tracked
+   *
+   * @private
+   */
+  private hasFileCandidate(basePath: string): boolean {
+    return getModuleCandidates(basePath).some(candidate => this.trackedFiles.has(candidate));
+  }
+
+  /**
+   * Check whether a directory lies inside another (both repository-relative)
+   *
+   * @private
+   */
+  private isWithin(dir: string, parentDir: string): boolean {
+    const normalizedDir = dir === '.' ? '' : dir;
+    return parentDir === '' || normalizedDir === parentDir || normalizedDir.startsWith(`${parentDir}/`);
+  }
+}
+
+/**
+ * Get the files an extensionless module path may refer to
+ *
+ * TypeScript ESM code imports `./util.js` for `util.ts`, so script extensions
+ * are also swapped for their TypeScript counterparts.
+ *
+ * @param basePath - Repository-relative module path
+ * @returns Candidate file paths in resolution order
+ */
+export function getModuleCandidates(basePath: string): string[] {
+  const candidates = [
+    basePath,
+    `${basePath}.js`,
+    `${basePath}.ts`,
+    `${basePath}.jsx`,
+    `${basePath}.tsx`,
+    `${basePath}.mjs`,
+    `${basePath}.cjs`,
+    `${basePath}.py`,
+    `${basePath}/index.js`,
+    `${basePath}/index.ts`,
+    `${basePath}/index.jsx`,
+    `${basePath}/index.tsx`,
+    `${basePath}/__init__.py`
+  ];
+
+  const scriptExtension = basePath.match(/\.(m|c)?jsx?$/);
+  if (scriptExtension) {
+    const stem = basePath.slice(0, -scriptExtension[0].length);
+    const variant = scriptExtension[1] ?? '';
+    candidates.push(`${stem}.${variant}ts`, `${stem}.${variant}tsx`);
+  }
+
+  return candidates;
+}
+
+/**
+ * Get the files a Python module path may refer to
+ *
+ * @param basePath - Repository-relative module path (`app/services/billing`)
+ * @returns Candidate file paths in resolution order
+ */
+export function getPythonModuleCandidates(basePath: string): string[] {
+  if (basePath === '' || basePath === '.') {
+    return ['__init__.py'];
+  }
+  return [`${basePath}.py`, `${basePath}/__init__.py`];
+}
+
+/**
+ * Turn a package-relative target into repository paths
+ *
+ * Targets in build output folders (`./dist/index.js`) usually are not
+ * tracked, so the matching `src/` path is tried as well.
+ *
+ * @param packageDir - Repository-relative package directory ('' for the root)
+ * @param target - Target as written in the manifest (`./dist/index.js`)
+ * @returns Module paths to probe, in resolution order
+ */
+export function getPackageTargetCandidates(packageDir: string, target: string): string[] {
+  const normalized = posix.normalize(target).replace(/^\.\//, '');
+  const candidates = [posix.join(packageDir, normalized)];
+
+  if (BUILD_OUTPUT_DIR.test(normalized)) {
+    const sourcePath = normalized
+      .replace(BUILD_OUTPUT_DIR, 'src/')
+      .replace(/\.d\.ts$/, '')
+      .replace(/\.(?:c|m)?js$/, '');
+    candidates.push(posix.join(packageDir, sourcePath));
+  }
+
+  return candidates;
+}
+
+/**
+ * Extract package directories from `setup.py`, `setup.cfg` or `pyproject.toml`
+ *
+ * Recognizes `package_dir={'': 'src'}`, `find_packages('src')`,
+ * `find_packages(where='src')`, setup.cfg `where = src` and `= src` lines,
+ * setuptools `where = ["src"]`/`package-dir = {"" = "src"}` and Poetry
+ * `packages = [{ include = "app", from = "src" }]`.
+ */
+function extractPythonPackageDirs(source: string): string[] {
+  const dirs: string[] = [];
+  const patterns = [
+    /package_dir\s*=\s*\{\s*(?:''|"")\s*:\s*['"]([^'"]+)['"]/g,
+    /find_(?:namespace_)?packages\(\s*(?:where\s*=\s*)?['"]([^'"]+)['"]/g,
+    /package-dir\s*=\s*\{\s*""\s*=\s*"([^"]+)"/g,
+    /^\s*where\s*=\s*([\w./-]+)\s*$/gm,
+    /^\s*=\s*([\w./-]+)\s*$/gm,
+    /\bfrom\s*=\s*"([^"]+)"/g
+  ];
+
+  for (const pattern of patterns) {
+    for (const match of source.matchAll(pattern)) {
+      dirs.push(match[1]!);
+    }
+  }
+
+  // where = ["src", "plugins"]
+  for (const match of source.matchAll(/\bwhere\s*=\s*\[([^\]]*)\]/g)) {
+    for (const entry of match[1]!.matchAll(/['"]([^'"]+)['"]/g)) {
+      dirs.push(entry[1]!);
+    }
+  }
+
+  return dirs;
+}
+
+/**
+ * Use '' instead of '.' for the repository root
+ */
+function normalizeDir(dir: string): string {
+  return dir === '.' ? '' : dir;
+}
+
+/**
+ * Collect string targets from an `exports` value (string, array or conditions)
+ */
+function collectExportTargets(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectExportTargets);
+  }
+  if (value && typeof value === 'object') {
+    const conditions = value as Record<string, unknown>;
+    return EXPORT_CONDITIONS
+      .filter(condition => condition in conditions)
+      .flatMap(condition => collectExportTargets(conditions[condition]));
+  }
+  return [];
+}
+
+/**
+ * Parse JSON that may contain comments and trailing commas (tsconfig style)
+ */
+function parseJsonWithComments(text: string): any {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += next ?? '';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && next === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      result += '\n';
+    } else if (char === '/' && next === '*') {
+      i += 2;
+      while (i < text.length && !(text[i] === '*' && text[i + 1] === '/')) i++;
+      i++;
+    } else {
+      result += char;
+    }
+  }
+
+  return JSON.parse(result.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+/**
+ * Visit every node of a Babel AST
+ */
+function walkAst(node: any, visit: (node: any) => void): void {
+  if (!node || typeof node.type !== 'string') {
+    return;
+  }
+
+  visit(node);
+
+  for (const key of Object.keys(node)) {
+    if (key === 'loc' || key === 'leadingComments' || key === 'trailingComments') {
+      continue;
+    }
+    const child = node[key];
+    if (Array.isArray(child)) {
+      child.forEach(item => walkAst(item, visit));
+    } else if (child && typeof child === 'object') {
+      walkAst(child, visit);
+    }
+  }
+}
+
+/**
+ * Get the static key of an object property
+ */
+function getPropertyKey(property: any): string | undefined {
+  if (!property || property.computed) {
+    return undefined;
+  }
+  if (property.key?.type === 'Identifier') {
+    return property.key.name;
+  }
+  if (property.key?.type === 'StringLiteral') {
+    return property.key.value;
+  }
+  return undefined;
+}
+
+/**
+ * Evaluate a path expression from a bundler config
+ *
+ * Supports string literals, `path.resolve`/`path.join` with `__dirname` or
+ * `process.cwd()`, and `fileURLToPath(new URL('./src', import.meta.url))`.
+ *
+ * @param node - Babel expression node
+ * @param configDir - Repository-relative directory of the config file
+ * @returns Repository-relative path, or undefined if not statically known
+ */
+function evaluatePath(node: any, configDir: string): string | undefined {
+  if (!node) {
+    return undefined;
+  }
+
+  if (node.type === 'StringLiteral') {
+    // Bare strings alias another package rather than a directory
+    return node.value.startsWith('.') ? posix.join(configDir, node.value) : undefined;
+  }
+
+  if (node.type === 'TemplateLiteral' && node.expressions.length === 1 && isDirnameExpression(node.expressions[0])) {
+    const tail = node.quasis.map((quasi: any) => quasi.value.cooked ?? '').join('');
+    return posix.join(configDir, tail);
+  }
+
+  if (node.type !== 'CallExpression') {
+    return undefined;
+  }
+
+  const calleeName = node.callee.type === 'MemberExpression' ? node.callee.property?.name : node.callee.name;
+
+  if (calleeName === 'fileURLToPath' && node.arguments[0]?.type === 'NewExpression') {
+    const url = node.arguments[0].arguments[0];
+    return url?.type === 'StringLiteral' ? posix.join(configDir, url.value) : undefined;
+  }
+
+  if (calleeName === 'resolve' || calleeName === 'join') {
+    const segments: string[] = [];
+    for (const argument of node.arguments) {
+      if (isDirnameExpression(argument)) {
+        segments.length = 0;
+      } else if (argument.type === 'StringLiteral') {
+        segments.push(argument.value);
+      } else {
+        return undefined;
+      }
+    }
+    return posix.join(configDir, ...segments);
+  }
+
+  return undefined;
+}
+
+/**
+ * Check for `__dirname` or `process.cwd()`
+ */
+function isDirnameExpression(node: any): boolean {
+  if (node?.type === 'Identifier') {
+    return node.name === '__dirname';
+  }
+  return node?.type === 'CallExpression' &&
+    node.callee.type === 'MemberExpression' &&
+    node.callee.object?.name === 'process' &&
+    node.callee.property?.name === 'cwd';
+}
@@ -5,7 +5,7 @@
  * git processing, file analysis coordination, and result aggregation.
  */
 
-export { GitProcessor } from './git-processor.js';
+export { GitProcessor, type GitFileChange } from './git-processor.js';
 export {
   FileProcessor,
   DEFAULT_PROCESSING_OPTIONS,
@@ -22,3 +22,56 @@ export {
   type AggregationOptions,
   type CircularDependency
 } from './results-aggregator.js';
+export {
+  AnalysisCache,
+  type AnalysisCacheStats
+} from './analysis-cache.js';
+export {
+  ImportResolver,
+  getModuleCandidates,
+  getPythonModuleCandidates,
+  getPackageTargetCandidates,
+  type AliasResolution
+} from './import-resolver.js';
+export {
+  WorkspaceDetector,
+  type WorkspacePackageDefinition
+} from './workspace-detector.js';
+export { ManifestReader } from './manifest-reader.js';
+export { CallGraphBuilder, CallGraphIndex } from './call-graph.js';
+export {
+  RunnerProtocol,
+  RUNNER_PROTOCOL_VERSION,
+  parseRunnerMessage,
+  type RunnerEvent,
+  type RunnerMessage,
+  type RunnerOutput
+} from './runner-protocol.js';
+export {
+  ContextPacker,
+  type ContextDetail,
+  type RankedFile,
+  type PackedFile
+} from './context-packer.js';
+export {
+  RepositoryWatcher,
+  diffResults,
+  type RepositoryWatcherEvents,
+  type RepositoryWatcherHooks,
+  type FileChangedEvent,
+  type FileRemovedEvent,
+  type ResultUpdatedEvent,
+  type ResultDiff,
+  type DependencyEdge,
+  type FrameworkConfidenceChange,
+  type SummaryChange
+} from './repository-watcher.js';
+export {
+  OpenApiExporter,
+  exportOpenApi,
+  toOpenApiPath,
+  type OpenApiDocument,
+  type OpenApiExportOptions,
+  type OpenApiOperation,
+  type OpenApiParameter
+} from './openapi-exporter.js';
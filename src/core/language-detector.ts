@@ -35,6 +35,12 @@ const EXTENSION_MAP: Record<string, SupportedLanguage> = {
   // Dart
   '.dart': 'dart',
 
+  // Vue single-file components
+  '.vue': 'vue',
+
+  // Svelte components
+  '.svelte': 'svelte',
+
   // Other supported languages
   '.java': 'java',
   '.cpp': 'cpp',
@@ -320,6 +326,8 @@ export class LanguageDetector {
       '.ts', '.tsx', '.mts', '.cts',
       '.py', '.pyw', '.pyi',
       '.dart',
+      '.vue',
+      '.svelte',
       '.java',
       '.go',
       '.rs',
@@ -354,6 +362,11 @@ export class LanguageDetector {
       'typescript',
       'python',
       'dart',
+      'java',
+      'kotlin',
+      'go',
+      'vue',
+      'svelte',
     ];
 
     return deepAnalysisLanguages.includes(language);
@@ -0,0 +1,710 @@
+/**
+ * Dependency Manifest Inventory
+ *
+ * This module reads the dependencies declared by package manifests
+ * (`package.json`, `requirements*.txt`, `pyproject.toml`, `Pipfile`,
+ * `pubspec.yaml`) and the versions pinned by their lockfiles
+ * (`package-lock.json`, `yarn.lock`, `pnpm-lock.yaml`, `poetry.lock`,
+ * `uv.lock`, `Pipfile.lock`, `pubspec.lock`). The ResultsAggregator compares
+ * them with the packages the analyzed code imports to find undeclared
+ * imports, unused dependencies and development dependencies used by
+ * production code.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { builtinModules } from 'node:module';
+import { join, posix } from 'node:path';
+import type {
+  DeclaredDependency,
+  DeclaredPackages,
+  DependencyGraph,
+  DependencyScope,
+  FileAnalysis,
+  PackageEcosystem,
+  PackageUsage,
+  RepositoryFileReader
+} from '../types/index.js';
+import { shouldExcludeFile } from '../utils/test-file-filter.js';
+import {
+  extractYamlMap,
+  getTomlArray,
+  getTomlEntries,
+  getTomlString,
+  getTomlTable,
+  getTomlTableNames
+} from '../utils/manifest-formats.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * An external package referenced by an import specifier
+ */
+interface ImportedPackage {
+  ecosystem: PackageEcosystem;
+  /** Package name as imported (npm, pub) or top-level module (Python) */
+  name: string;
+  /** Normalized names of the packages that may provide the import */
+  candidates: string[];
+}
+
+/**
+ * Dependency groups and requirement files named like these only serve development
+ */
+const DEVELOPMENT_GROUP_PATTERN = /(^|[-_./])(dev|develop|development|test|tests|testing|lint|linting|docs?|typing|ci)([-_./]|$)/i;
+
+/**
+ * Files that only run during development even though they are not tests
+ */
+const DEVELOPMENT_FILE_PATTERN = /(^|\/)(tests?\/|test_[^/]*\.py$|conftest\.py$|noxfile\.py$|setup\.py$|[^/]*\.config\.[cm]?[jt]s$|\.[^/]*rc\.[cm]?js$)/;
+
+/**
+ * Languages whose external imports name npm packages
+ */
+const NPM_LANGUAGES = new Set(['javascript', 'typescript', 'vue', 'svelte']);
+
+/**
+ * Node.js built-in modules, imported with or without the `node:` prefix
+ */
+const NODE_BUILTIN_MODULES = new Set(builtinModules);
+
+/**
+ * Top-level modules of the Python standard library
+ */
+const PYTHON_STDLIB_MODULES = new Set([
+  'abc', 'aifc', 'argparse', 'array', 'ast', 'asynchat', 'asyncio', 'asyncore', 'atexit',
+  'audioop', 'base64', 'bdb', 'binascii', 'bisect', 'builtins', 'bz2', 'cProfile', 'calendar',
+  'cgi', 'cgitb', 'chunk', 'cmath', 'cmd', 'code', 'codecs', 'codeop', 'collections', 'colorsys',
+  'compileall', 'concurrent', 'configparser', 'contextlib', 'contextvars', 'copy', 'copyreg',
+  'crypt', 'csv', 'ctypes', 'curses', 'dataclasses', 'datetime', 'dbm', 'decimal', 'difflib',
+  'dis', 'distutils', 'doctest', 'email', 'encodings', 'ensurepip', 'enum', 'errno',
+  'faulthandler', 'fcntl', 'filecmp', 'fileinput', 'fnmatch', 'fractions', 'ftplib', 'functools',
+  'gc', 'genericpath', 'getopt', 'getpass', 'gettext', 'glob', 'graphlib', 'grp', 'gzip',
+  'hashlib', 'heapq', 'hmac', 'html', 'http', 'imaplib', 'imghdr', 'imp', 'importlib', 'inspect',
+  'io', 'ipaddress', 'itertools', 'json', 'keyword', 'linecache', 'locale', 'logging', 'lzma',
+  'mailbox', 'mailcap', 'marshal', 'math', 'mimetypes', 'mmap', 'modulefinder', 'msvcrt',
+  'multiprocessing', 'netrc', 'nis', 'nntplib', 'nt', 'ntpath', 'numbers', 'opcode', 'operator',
+  'optparse', 'os', 'ossaudiodev', 'pathlib', 'pdb', 'pickle', 'pickletools', 'pipes', 'pkgutil',
+  'platform', 'plistlib', 'poplib', 'posix', 'posixpath', 'pprint', 'profile', 'pstats', 'pty',
+  'pwd', 'py_compile', 'pyclbr', 'pydoc', 'pyexpat', 'queue', 'quopri', 'random', 're',
+  'readline', 'reprlib', 'resource', 'rlcompleter', 'runpy', 'sched', 'secrets', 'select',
+  'selectors', 'shelve', 'shlex', 'shutil', 'signal', 'site', 'smtpd', 'smtplib', 'sndhdr',
+  'socket', 'socketserver', 'spwd', 'sqlite3', 'sre_compile', 'sre_constants', 'sre_parse', 'ssl',
+  'stat', 'statistics', 'string', 'stringprep', 'struct', 'subprocess', 'sunau', 'symtable',
+  'sys', 'sysconfig', 'syslog', 'tabnanny', 'tarfile', 'telnetlib', 'tempfile', 'termios',
+  'textwrap', 'threading', 'time', 'timeit', 'tkinter', 'token', 'tokenize', 'tomllib', 'trace',
+  'traceback', 'tracemalloc', 'tty', 'turtle', 'types', 'typing', 'unicodedata', 'unittest',
+  'urllib', 'uu', 'uuid', 'venv', 'warnings', 'wave', 'weakref', 'webbrowser', 'winreg',
+  'winsound', 'wsgiref', 'xdrlib', 'xml', 'xmlrpc', 'zipapp', 'zipfile', 'zipimport', 'zlib',
+  'zoneinfo'
+]);
+
+/**
+ * Distributions whose import name differs from the package name, by lowercased import name
+ */
+const PYTHON_IMPORT_ALIASES: Record<string, string[]> = {
+  attr: ['attrs'],
+  bs4: ['beautifulsoup4'],
+  crypto: ['pycryptodome', 'pycrypto'],
+  cv2: ['opencv-python', 'opencv-python-headless', 'opencv-contrib-python'],
+  dateutil: ['python-dateutil'],
+  docx: ['python-docx'],
+  dotenv: ['python-dotenv'],
+  engineio: ['python-engineio'],
+  faiss: ['faiss-cpu', 'faiss-gpu'],
+  fitz: ['pymupdf'],
+  git: ['gitpython'],
+  grpc: ['grpcio'],
+  jose: ['python-jose'],
+  jwt: ['pyjwt'],
+  magic: ['python-magic'],
+  multipart: ['python-multipart'],
+  mysqldb: ['mysqlclient'],
+  openssl: ['pyopenssl'],
+  pil: ['pillow'],
+  pkg_resources: ['setuptools'],
+  pptx: ['python-pptx'],
+  psycopg2: ['psycopg2-binary'],
+  serial: ['pyserial'],
+  skimage: ['scikit-image'],
+  sklearn: ['scikit-learn'],
+  slugify: ['python-slugify'],
+  socketio: ['python-socketio'],
+  telegram: ['python-telegram-bot'],
+  usb: ['pyusb'],
+  websocket: ['websocket-client'],
+  win32api: ['pywin32'],
+  yaml: ['pyyaml'],
+  zmq: ['pyzmq']
+};
+
+/**
+ * Declared dependencies of all manifests in a repository
+ *
+ * Instances are created with `ManifestReader.load`, which reads the
+ * manifests and lockfiles up front.
+ */
+export class ManifestReader {
+  private readonly dependencies: DeclaredDependency[] = [];
+  /** Declarations by `ecosystem:normalized name` */
+  private readonly declarations = new Map<string, DeclaredDependency[]>();
+  /** Ecosystems with at least one manifest */
+  private readonly ecosystems = new Set<PackageEcosystem>();
+  /** Normalized names of the packages the repository itself publishes */
+  private readonly ownPackages = new Set<string>();
+  /** Top-level names of the repository's own Python modules and packages */
+  private readonly localPythonModules = new Set<string>();
+  /** Locked versions by `ecosystem:lockfile directory`, then normalized package name */
+  private readonly lockedVersions = new Map<string, Map<string, string>>();
+
+  /**
+   * Read the manifests and lockfiles of a repository
+   *
+   * Unreadable or malformed files are skipped.
+   *
+   * @param repositoryPath - Path to the repository root
+   * @param trackedFiles - Repository-relative paths of all tracked files
+   * @param readRepositoryFile - Reads configuration files (defaults to the working tree)
+   * @returns Promise that resolves to the dependency inventory
+   */
+  static async load(
+    repositoryPath: string,
+    trackedFiles: string[],
+    readRepositoryFile: RepositoryFileReader = filePath => readFile(join(repositoryPath, filePath), 'utf8')
+  ): Promise<ManifestReader> {
+    const reader = new ManifestReader();
+
+    for (const filePath of trackedFiles) {
+      const fileName = posix.basename(filePath);
+      const dir = normalizeDir(posix.dirname(filePath));
+
+      if (fileName.endsWith('.py')) {
+        reader.localPythonModules.add(fileName.slice(0, -3));
+        for (const segment of dir.split('/').filter(Boolean)) {
+          reader.localPythonModules.add(segment);
+        }
+      }
+
+      try {
+        if (fileName === 'package.json') {
+          await reader.loadPackageJson(readRepositoryFile, filePath);
+        } else if (/^requirements.*\.txt$/.test(fileName) || (posix.basename(dir) === 'requirements' && fileName.endsWith('.txt'))) {
+          await reader.loadRequirements(readRepositoryFile, filePath);
+        } else if (fileName === 'pyproject.toml') {
+          await reader.loadPyproject(readRepositoryFile, filePath);
+        } else if (fileName === 'Pipfile') {
+          await reader.loadPipfile(readRepositoryFile, filePath);
+        } else if (fileName === 'pubspec.yaml') {
+          await reader.loadPubspec(readRepositoryFile, filePath);
+        } else if (['package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'poetry.lock', 'uv.lock', 'Pipfile.lock', 'pubspec.lock'].includes(fileName)) {
+          await reader.loadLockfile(readRepositoryFile, filePath);
+        }
+      } catch (error) {
+        logger.warn(`⚠️  Could not read dependency manifest ${filePath}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    for (const dependency of reader.dependencies) {
+      const resolvedVersion = reader.findLockedVersion(dependency);
+      if (resolvedVersion && !dependency.resolved_version) {
+        dependency.resolved_version = resolvedVersion;
+      }
+    }
+
+    return reader;
+  }
+
+  /**
+   * Get the dependencies of all manifests, in manifest and declaration order
+   *
+   * @returns Declared dependencies
+   */
+  getDependencies(): DeclaredDependency[] {
+    return [...this.dependencies];
+  }
+
+  /**
+   * Compare the declared dependencies with the external imports of the analyzed files
+   *
+   * A file sees the manifests of its ecosystem in its own and all parent
+   * directories. Ecosystems without a manifest are not compared, since
+   * their dependencies cannot be known.
+   *
+   * @param analyses - Analyzed files by repository-relative path
+   * @param dependencies - Dependency graph with external imports kept as written
+   * @returns Declared dependencies with the detected mismatches
+   */
+  compareImports(analyses: Map<string, FileAnalysis>, dependencies: DependencyGraph): DeclaredPackages {
+    const undeclaredImports = new Map<string, PackageUsage>();
+    const devDependenciesInProduction = new Map<string, PackageUsage>();
+    const importingFiles = new Map<string, string[]>();
+
+    for (const [filePath, fileDependencies] of Object.entries(dependencies)) {
+      const language = analyses.get(filePath)?.language;
+
+      for (const specifier of fileDependencies) {
+        const imported = analyses.has(specifier) ? undefined : getImportedPackage(language, specifier);
+        if (!imported || !this.ecosystems.has(imported.ecosystem) || this.isOwnPackage(imported)) {
+          continue;
+        }
+
+        for (const candidate of imported.candidates) {
+          const key = `${imported.ecosystem}:${candidate}`;
+          if (!importingFiles.has(key)) {
+            importingFiles.set(key, []);
+          }
+          importingFiles.get(key)!.push(filePath);
+        }
+
+        const declarations = this.findDeclarations(filePath, imported);
+        if (declarations.length === 0) {
+          addUsage(undeclaredImports, imported, filePath);
+        } else if (declarations.every(declaration => declaration.scope === 'development') && !isDevelopmentFile(filePath)) {
+          addUsage(devDependenciesInProduction, imported, filePath);
+        }
+      }
+    }
+
+    const unusedDependencies = this.dependencies.filter(dependency => {
+      if (dependency.scope !== 'production' || dependency.name.startsWith('@types/')) {
+        return false;
+      }
+      const manifestDir = normalizeDir(posix.dirname(dependency.manifest));
+      const files = importingFiles.get(`${dependency.ecosystem}:${normalizeName(dependency.ecosystem, dependency.name)}`) ?? [];
+      return !files.some(filePath => isWithin(filePath, manifestDir));
+    });
+
+    return {
+      dependencies: this.getDependencies(),
+      undeclared_imports: sortUsages(undeclaredImports),
+      unused_dependencies: unusedDependencies,
+      dev_dependencies_in_production: sortUsages(devDependenciesInProduction)
+    };
+  }
+
+  /**
+   * Find the declarations of an imported package visible from a file
+   *
+   * @private
+   */
+  private findDeclarations(filePath: string, imported: ImportedPackage): DeclaredDependency[] {
+    return imported.candidates
+      .flatMap(candidate => this.declarations.get(`${imported.ecosystem}:${candidate}`) ?? [])
+      .filter(declaration => isWithin(filePath, normalizeDir(posix.dirname(declaration.manifest))));
+  }
+
+  /**
+   * Check whether an import refers to the repository itself
+   *
+   * Covers a package importing its own name (`package:app/...` in Dart, a
+   * Python project importing its module) and Python modules of the
+   * repository that the import resolver could not place.
+   *
+   * @private
+   */
+  private isOwnPackage(imported: ImportedPackage): boolean {
+    return imported.candidates.some(candidate => this.ownPackages.has(`${imported.ecosystem}:${candidate}`)) ||
+      (imported.ecosystem === 'pypi' && this.localPythonModules.has(imported.name));
+  }
+
+  /**
+   * Record a declared dependency
+   *
+   * @private
+   */
+  private addDependency(
+    manifest: string,
+    ecosystem: PackageEcosystem,
+    name: string,
+    scope: DependencyScope,
+    versionSpec?: string,
+    resolvedVersion?: string
+  ): void {
+    const dependency: DeclaredDependency = {
+      name,
+      ecosystem,
+      scope,
+      ...(versionSpec && { version_spec: versionSpec }),
+      ...(resolvedVersion && { resolved_version: resolvedVersion }),
+      manifest
+    };
+
+    const key = `${ecosystem}:${normalizeName(ecosystem, name)}`;
+    if (!this.declarations.has(key)) {
+      this.declarations.set(key, []);
+    }
+    this.declarations.get(key)!.push(dependency);
+    this.dependencies.push(dependency);
+  }
+
+  /**
+   * Read `dependencies`, `devDependencies`, `peerDependencies` and `optionalDependencies`
+   *
+   * @private
+   */
+  private async loadPackageJson(readRepositoryFile: RepositoryFileReader, manifestPath: string): Promise<void> {
+    const manifest = JSON.parse(await readRepositoryFile(manifestPath));
+    if (!manifest || typeof manifest !== 'object') {
+      return;
+    }
+
+    this.ecosystems.add('npm');
+    if (typeof manifest.name === 'string') {
+      this.ownPackages.add(`npm:${manifest.name}`);
+    }
+
+    const fields: Array<[string, DependencyScope]> = [
+      ['dependencies', 'production'],
+      ['devDependencies', 'development'],
+      ['peerDependencies', 'peer'],
+      ['optionalDependencies', 'optional']
+    ];
+    for (const [field, scope] of fields) {
+      const declared = manifest[field];
+      if (!declared || typeof declared !== 'object') {
+        continue;
+      }
+      for (const [name, versionSpec] of Object.entries(declared)) {
+        this.addDependency(manifestPath, 'npm', name, scope, typeof versionSpec === 'string' ? versionSpec : undefined);
+      }
+    }
+  }
+
+  /**
+   * Read a pip requirements file
+   *
+   * Files named after development tasks (`requirements-dev.txt`,
+   * `requirements/test.txt`) declare development dependencies.
+   *
+   * @private
+   */
+  private async loadRequirements(readRepositoryFile: RepositoryFileReader, requirementsPath: string): Promise<void> {
+    const source = await readRepositoryFile(requirementsPath);
+    const fileName = posix.basename(requirementsPath).replace(/^requirements/, '');
+    const scope: DependencyScope = DEVELOPMENT_GROUP_PATTERN.test(fileName) ? 'development' : 'production';
+
+    this.ecosystems.add('pypi');
+    for (const line of source.split('\n')) {
+      const requirement = line.replace(/(^|\s)#.*$/, '').trim();
+      // Options such as `-r base.txt`, `-e .` or `--index-url`
+      if (requirement && !requirement.startsWith('-')) {
+        this.addPythonRequirement(requirementsPath, requirement, scope);
+      }
+    }
+  }
+
+  /**
+   * Read PEP 621, PEP 735 and Poetry dependencies of a `pyproject.toml`
+   *
+   * @private
+   */
+  private async loadPyproject(readRepositoryFile: RepositoryFileReader, configPath: string): Promise<void> {
+    const source = await readRepositoryFile(configPath);
+    const projectName = getTomlString(getTomlTable(source, 'project'), 'name') ??
+      getTomlString(getTomlTable(source, 'tool.poetry'), 'name');
+    if (projectName) {
+      this.ownPackages.add(`pypi:${normalizeName('pypi', projectName)}`);
+    }
+
+    const tableNames = getTomlTableNames(source);
+    const hasDependencies = tableNames.some(table =>
+      table === 'dependency-groups' || table === 'project.optional-dependencies' || /^tool\.poetry\..*dependencies$/.test(table)
+    ) || getTomlArray(getTomlTable(source, 'project'), 'dependencies').length > 0;
+    if (!hasDependencies) {
+      return;
+    }
+
+    this.ecosystems.add('pypi');
+    for (const requirement of getTomlArray(getTomlTable(source, 'project'), 'dependencies')) {
+      this.addPythonRequirement(configPath, requirement, 'production');
+    }
+
+    for (const table of ['project.optional-dependencies', 'dependency-groups']) {
+      for (const [group, value] of getTomlEntries(getTomlTable(source, table))) {
+        const scope: DependencyScope = DEVELOPMENT_GROUP_PATTERN.test(group) ? 'development' : 'optional';
+        for (const requirement of getTomlArray(`${group} = ${value}`, group)) {
+          this.addPythonRequirement(configPath, requirement, scope);
+        }
+      }
+    }
+
+    for (const table of tableNames) {
+      const group = table.match(/^tool\.poetry\.group\.(.+)\.dependencies$/)?.[1];
+      if (table === 'tool.poetry.dependencies') {
+        this.addPoetryDependencies(configPath, getTomlTable(source, table), 'production');
+      } else if (table === 'tool.poetry.dev-dependencies') {
+        this.addPoetryDependencies(configPath, getTomlTable(source, table), 'development');
+      } else if (group) {
+        this.addPoetryDependencies(configPath, getTomlTable(source, table), DEVELOPMENT_GROUP_PATTERN.test(group) ? 'development' : 'optional');
+      }
+    }
+  }
+
+  /**
+   * Read the `[packages]` and `[dev-packages]` of a Pipfile
+   *
+   * @private
+   */
+  private async loadPipfile(readRepositoryFile: RepositoryFileReader, pipfilePath: string): Promise<void> {
+    const source = await readRepositoryFile(pipfilePath);
+
+    this.ecosystems.add('pypi');
+    this.addPoetryDependencies(pipfilePath, getTomlTable(source, 'packages'), 'production');
+    this.addPoetryDependencies(pipfilePath, getTomlTable(source, 'dev-packages'), 'development');
+  }
+
+  /**
+   * Read the `dependencies` and `dev_dependencies` of a `pubspec.yaml`
+   *
+   * @private
+   */
+  private async loadPubspec(readRepositoryFile: RepositoryFileReader, pubspecPath: string): Promise<void> {
+    const source = await readRepositoryFile(pubspecPath);
+    const name = source.match(/^name\s*:\s*['"]?([\w]+)/m)?.[1];
+
+    this.ecosystems.add('pub');
+    if (name) {
+      this.ownPackages.add(`pub:${name}`);
+    }
+
+    for (const [key, scope] of [['dependencies', 'production'], ['dev_dependencies', 'development']] as const) {
+      for (const [packageName, versionSpec] of Object.entries(extractYamlMap(source, key))) {
+        this.addDependency(pubspecPath, 'pub', packageName, scope, versionSpec || undefined);
+      }
+    }
+  }
+
+  /**
+   * Read the installed versions of a lockfile
+   *
+   * @private
+   */
+  private async loadLockfile(readRepositoryFile: RepositoryFileReader, lockfilePath: string): Promise<void> {
+    const source = await readRepositoryFile(lockfilePath);
+    const fileName = posix.basename(lockfilePath);
+    const versions = new Map<string, string>();
+    let ecosystem: PackageEcosystem = 'npm';
+
+    if (fileName === 'package-lock.json' || fileName === 'npm-shrinkwrap.json') {
+      const lockfile = JSON.parse(source);
+      // lockfileVersion 2/3 list installed paths, version 1 nests by name
+      for (const [installPath, entry] of Object.entries<any>(lockfile?.packages ?? {})) {
+        const name = installPath.match(/^node_modules\/((?:@[^/]+\/)?[^/]+)$/)?.[1];
+        if (name && typeof entry?.version === 'string') {
+          versions.set(name, entry.version);
+        }
+      }
+      for (const [name, entry] of Object.entries<any>(lockfile?.dependencies ?? {})) {
+        if (!versions.has(name) && typeof entry?.version === 'string') {
+          versions.set(name, entry.version);
+        }
+      }
+    } else if (fileName === 'yarn.lock') {
+      let names: string[] = [];
+      for (const line of source.split('\n')) {
+        if (/^\S.*:\s*$/.test(line) && !line.startsWith('#')) {
+          // `"react@^18.2.0", react@^18.0.0:` (v1) or `"react@npm:^18.2.0":` (berry)
+          names = line.replace(/:\s*$/, '').split(',')
+            .map(descriptor => descriptor.trim().replace(/^"|"$/g, ''))
+            .filter(descriptor => descriptor.lastIndexOf('@') > 0)
+            .map(descriptor => descriptor.slice(0, descriptor.lastIndexOf('@')));
+          continue;
+        }
+        const version = line.match(/^\s+version:?\s+"?([^"\s]+)"?/)?.[1];
+        if (version) {
+          for (const name of names.filter(name => !versions.has(name))) {
+            versions.set(name, version);
+          }
+          names = [];
+        }
+      }
+    } else if (fileName === 'pnpm-lock.yaml') {
+      for (const key of Object.keys(extractYamlMap(source, 'packages'))) {
+        // `/react@18.2.0` (v6), `react@18.2.0(peer@1.0.0)` (v9) or `/react/18.2.0` (v5)
+        const descriptor = key.replace(/^\//, '').replace(/\(.*$/, '');
+        const match = descriptor.match(/^((?:@[^/@]+\/)?[^/@]+)@(.+)$/) ?? descriptor.match(/^((?:@[^/]+\/)?[^/]+)\/([^/]+)$/);
+        if (match && !versions.has(match[1]!)) {
+          versions.set(match[1]!, match[2]!);
+        }
+      }
+    } else if (fileName === 'poetry.lock' || fileName === 'uv.lock') {
+      ecosystem = 'pypi';
+      for (const block of source.split(/^\[\[package\]\]\s*$/m).slice(1)) {
+        const name = getTomlString(block, 'name');
+        const version = getTomlString(block, 'version');
+        if (name && version) {
+          versions.set(normalizeName('pypi', name), version);
+        }
+      }
+    } else if (fileName === 'Pipfile.lock') {
+      ecosystem = 'pypi';
+      const lockfile = JSON.parse(source);
+      for (const section of ['default', 'develop']) {
+        for (const [name, entry] of Object.entries<any>(lockfile?.[section] ?? {})) {
+          if (typeof entry?.version === 'string') {
+            versions.set(normalizeName('pypi', name), entry.version.replace(/^==/, ''));
+          }
+        }
+      }
+    } else if (fileName === 'pubspec.lock') {
+      ecosystem = 'pub';
+      for (const [name, version] of Object.entries(extractYamlMap(source, 'packages'))) {
+        if (version) {
+          versions.set(name, version);
+        }
+      }
+    }
+
+    this.lockedVersions.set(`${ecosystem}:${normalizeDir(posix.dirname(lockfilePath))}`, versions);
+  }
+
+  /**
+   * Find the version of a dependency in the nearest lockfile of its ecosystem
+   *
+   * @private
+   */
+  private findLockedVersion(dependency: DeclaredDependency): string | undefined {
+    let dir = normalizeDir(posix.dirname(dependency.manifest));
+
+    while (true) {
+      const versions = this.lockedVersions.get(`${dependency.ecosystem}:${dir}`);
+      if (versions) {
+        return versions.get(normalizeName(dependency.ecosystem, dependency.name));
+      }
+      if (dir === '') {
+        return undefined;
+      }
+      dir = normalizeDir(posix.dirname(dir));
+    }
+  }
+
+  /**
+   * Record a PEP 508 requirement such as `requests[socks]>=2.31; python_version > "3.8"`
+   *
+   * Exact pins (`==2.31.0`) are also the resolved version.
+   *
+   * @private
+   */
+  private addPythonRequirement(manifest: string, requirement: string, scope: DependencyScope): void {
+    const match = requirement.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*([^;]*)/);
+    if (!match) {
+      return;
+    }
+
+    const versionSpec = match[2]!.trim().replace(/^\((.*)\)$/, '$1');
+    const pinned = versionSpec.match(/^===?\s*([^\s,*]+)$/)?.[1];
+    this.addDependency(manifest, 'pypi', match[1]!, scope, versionSpec.startsWith('@') ? undefined : versionSpec, pinned);
+  }
+
+  /**
+   * Record the entries of a Poetry or Pipfile dependency table
+   *
+   * Values are a version string or an inline table with a `version` key;
+   * `optional = true` makes a dependency optional.
+   *
+   * @private
+   */
+  private addPoetryDependencies(manifest: string, tableBody: string, scope: DependencyScope): void {
+    for (const [name, value] of getTomlEntries(tableBody)) {
+      if (name.toLowerCase() === 'python') {
+        continue;
+      }
+
+      const versionSpec = value.startsWith('{')
+        ? getTomlString(value.slice(1, -1).replace(/,\s*/g, '\n'), 'version')
+        : getTomlString(`version = ${value}`, 'version');
+      const dependencyScope = /\boptional\s*=\s*true\b/.test(value) ? 'optional' : scope;
+      this.addDependency(manifest, 'pypi', name, dependencyScope, versionSpec === '*' ? undefined : versionSpec);
+    }
+  }
+}
+
+/**
+ * Get the external package an import specifier of a file refers to
+ *
+ * Built-in modules and specifiers that only bundlers or frameworks
+ * understand (`$app/stores`, `virtual:pwa`, `~/utils`) are not packages.
+ */
+function getImportedPackage(language: string | undefined, specifier: string): ImportedPackage | undefined {
+  if (language && NPM_LANGUAGES.has(language)) {
+    // npm package names cannot start with `.` or `_` (the analyzer's `__exports__` marker)
+    if (/^[./_$#~]|^@\/|^[a-z][\w+.-]*:/i.test(specifier)) {
+      return undefined;
+    }
+    const name = specifier.split('/').slice(0, specifier.startsWith('@') ? 2 : 1).join('/');
+    return NODE_BUILTIN_MODULES.has(name) || NODE_BUILTIN_MODULES.has(specifier)
+      ? undefined
+      : { ecosystem: 'npm', name, candidates: [name] };
+  }
+
+  if (language === 'python') {
+    const segments = specifier.split('.');
+    const name = segments[0]!;
+    if (!name || name.startsWith('_') || PYTHON_STDLIB_MODULES.has(name)) {
+      return undefined;
+    }
+    // Namespace packages are distributed as `google-cloud-storage` for `google.cloud.storage`
+    const prefixes = segments.map((_, index) => normalizeName('pypi', segments.slice(0, index + 1).join('.')));
+    return {
+      ecosystem: 'pypi',
+      name,
+      candidates: [...new Set([...prefixes, ...(PYTHON_IMPORT_ALIASES[name.toLowerCase()] ?? [])])]
+    };
+  }
+
+  if (language === 'dart') {
+    const name = specifier.match(/^package:([\w]+)\//)?.[1];
+    return name ? { ecosystem: 'pub', name, candidates: [name] } : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Normalize a package name for comparison (PEP 503 for Python)
+ */
+function normalizeName(ecosystem: PackageEcosystem, name: string): string {
+  return ecosystem === 'pypi' ? name.toLowerCase().replace(/[-_.]+/g, '-') : name;
+}
+
+/**
+ * Check whether a file belongs to tests, configuration or build scripts
+ */
+function isDevelopmentFile(filePath: string): boolean {
+  return shouldExcludeFile(filePath) || DEVELOPMENT_FILE_PATTERN.test(filePath);
+}
+
+/**
+ * Add a file to the usage of an imported package
+ */
+function addUsage(usages: Map<string, PackageUsage>, imported: ImportedPackage, filePath: string): void {
+  const key = `${imported.ecosystem}:${imported.name}`;
+  if (!usages.has(key)) {
+    usages.set(key, { name: imported.name, ecosystem: imported.ecosystem, files: [] });
+  }
+  const usage = usages.get(key)!;
+  if (!usage.files.includes(filePath)) {
+    usage.files.push(filePath);
+  }
+}
+
+/**
+ * Sort package usages by ecosystem and name, and their files by path
+ */
+function sortUsages(usages: Map<string, PackageUsage>): PackageUsage[] {
+  return [...usages.values()]
+    .map(usage => ({ ...usage, files: [...usage.files].sort() }))
+    .sort((a, b) => a.ecosystem.localeCompare(b.ecosystem) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Check whether a file lies in a directory ('' for the repository root)
+ */
+function isWithin(filePath: string, dir: string): boolean {
+  return dir === '' || filePath.startsWith(`${dir}/`);
+}
+
+/**
+ * Use '' instead of '.' for the repository root
+ */
+function normalizeDir(dir: string): string {
+  return dir === '.' ? '' : dir;
+}
@@ -0,0 +1,309 @@
+/**
+ * OpenAPI Document Export
+ *
+ * This module turns the API endpoints found by the ApiDetector into an
+ * OpenAPI 3.1 document. Framework route syntax (`:id`, `<int:id>`,
+ * `(?P<id>...)`, `{id}`) is rewritten to OpenAPI path templates, path
+ * parameters are typed where the route converter tells us the type, and
+ * operations are tagged by controller class or source file.
+ */
+
+import { ApiDetector, type DetailedApiEndpoint } from '../patterns/api-detector.js';
+import type { AnalysisResult, FileAnalysis } from '../types/index.js';
+
+/**
+ * Options for the generated document
+ */
+export interface OpenApiExportOptions {
+  /** `info.title` (defaults to 'API') */
+  title?: string;
+  /** `info.version` (defaults to '0.0.0') */
+  version?: string;
+  /** `info.description` */
+  description?: string;
+  /** Server URLs listed in `servers` */
+  servers?: string[];
+}
+
+/**
+ * JSON Schema subset used for path parameters
+ */
+export interface OpenApiSchema {
+  type: 'string' | 'integer' | 'number' | 'boolean';
+  format?: string;
+}
+
+/**
+ * OpenAPI parameter object
+ */
+export interface OpenApiParameter {
+  name: string;
+  in: 'path';
+  required: true;
+  schema: OpenApiSchema;
+}
+
+/**
+ * OpenAPI operation object with the source location of its handler
+ */
+export interface OpenApiOperation {
+  operationId: string;
+  summary?: string;
+  tags: string[];
+  parameters?: OpenApiParameter[];
+  responses: Record<string, { description: string }>;
+  'x-source': {
+    file: string;
+    line: number;
+    framework: string;
+  };
+}
+
+/**
+ * OpenAPI 3.1 document
+ */
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  servers?: Array<{ url: string }>;
+  tags: Array<{ name: string; description?: string }>;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+}
+
+/**
+ * A route rewritten as an OpenAPI path template
+ */
+export interface OpenApiPathTemplate {
+  /** Path with `{name}` placeholders */
+  path: string;
+  /** Path parameters in order of appearance */
+  parameters: OpenApiParameter[];
+}
+
+/**
+ * Schemas for Django/Flask path converters and Express parameter patterns
+ */
+const CONVERTER_SCHEMAS: Record<string, OpenApiSchema> = {
+  int: { type: 'integer' },
+  float: { type: 'number' },
+  uuid: { type: 'string', format: 'uuid' },
+  str: { type: 'string' },
+  string: { type: 'string' },
+  slug: { type: 'string' },
+  path: { type: 'string' }
+};
+
+/**
+ * Endpoint types whose handler is a view class rather than a function
+ */
+const CLASS_VIEW_TYPES = ['django_class_view', 'django_rest_framework'];
+
+/**
+ * Exporter from detected endpoints to an OpenAPI document
+ */
+export class OpenApiExporter {
+  private options: OpenApiExportOptions;
+
+  /**
+   * Create a new exporter
+   *
+   * @param options - Document metadata
+   */
+  constructor(options: OpenApiExportOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Build an OpenAPI document from detected endpoints
+   *
+   * The first endpoint found for a method and path wins; endpoints without
+   * an HTTP method or route are skipped.
+   *
+   * @param endpoints - Endpoints from `ApiDetector.detectEndpoints`
+   * @returns OpenAPI 3.1 document
+   */
+  exportEndpoints(endpoints: DetailedApiEndpoint[]): OpenApiDocument {
+    const paths: Record<string, Record<string, OpenApiOperation>> = {};
+    const tags = new Map<string, string>();
+    const operationIds = new Set<string>();
+
+    for (const endpoint of endpoints) {
+      if (!endpoint.method || !endpoint.route) {
+        continue;
+      }
+
+      const template = toOpenApiPath(endpoint.route, endpoint.parameters);
+      const method = endpoint.method.toLowerCase();
+      const pathItem = paths[template.path] ?? (paths[template.path] = {});
+      if (pathItem[method]) {
+        continue;
+      }
+
+      const tag = this.getTag(endpoint);
+      if (!tags.has(tag)) {
+        tags.set(tag, `Defined in ${endpoint.filePath}`);
+      }
+
+      pathItem[method] = {
+        operationId: this.createOperationId(endpoint, template.path, operationIds),
+        ...(endpoint.handlerFunction && { summary: endpoint.handlerFunction }),
+        tags: [tag],
+        ...(template.parameters.length > 0 && { parameters: template.parameters }),
+        responses: {
+          [endpoint.method === 'POST' ? '201' : '200']: { description: 'Successful response' }
+        },
+        'x-source': {
+          file: endpoint.filePath,
+          line: endpoint.line,
+          framework: endpoint.framework
+        }
+      };
+    }
+
+    const sortedPaths: Record<string, Record<string, OpenApiOperation>> = {};
+    for (const path of Object.keys(paths).sort()) {
+      sortedPaths[path] = paths[path]!;
+    }
+
+    return {
+      openapi: '3.1.0',
+      info: {
+        title: this.options.title ?? 'API',
+        version: this.options.version ?? '0.0.0',
+        ...(this.options.description && { description: this.options.description })
+      },
+      ...(this.options.servers && this.options.servers.length > 0 && {
+        servers: this.options.servers.map(url => ({ url }))
+      }),
+      tags: [...tags.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, description]) => ({ name, description })),
+      paths: sortedPaths
+    };
+  }
+
+  /**
+   * Get the tag grouping an endpoint: its controller class, or its file
+   *
+   * @private
+   */
+  private getTag(endpoint: DetailedApiEndpoint): string {
+    const handler = endpoint.handlerFunction;
+    if (handler && handler.includes('.')) {
+      return handler.split('.')[0]!;
+    }
+    if (handler && CLASS_VIEW_TYPES.includes(endpoint.type)) {
+      return handler;
+    }
+    return endpoint.filePath;
+  }
+
+  /**
+   * Create an operationId that is unique within the document
+   *
+   * @private
+   */
+  private createOperationId(endpoint: DetailedApiEndpoint, path: string, used: Set<string>): string {
+    // Next.js route handlers are named after their method (export function GET)
+    const handler = endpoint.handlerFunction && endpoint.handlerFunction !== 'anonymous' &&
+      endpoint.handlerFunction !== endpoint.method
+      ? endpoint.handlerFunction.replace(/\W+/g, '_')
+      : `${endpoint.method!.toLowerCase()}${path.replace(/[^A-Za-z0-9]+/g, '_')}`;
+
+    let operationId = CLASS_VIEW_TYPES.includes(endpoint.type)
+      ? `${handler}_${endpoint.method!.toLowerCase()}`
+      : handler;
+    for (let suffix = 2; used.has(operationId); suffix++) {
+      operationId = `${handler}_${suffix}`;
+    }
+
+    used.add(operationId);
+    return operationId;
+  }
+}
+
+/**
+ * Build an OpenAPI 3.1 document from the API endpoints of an analysis
+ *
+ * Endpoints are detected again from the file analyses in the result, so
+ * results loaded from a saved JSON file work as well.
+ *
+ * @param result - Repository analysis result
+ * @param options - Document metadata
+ * @returns OpenAPI 3.1 document
+ *
+ * @example
+ * ```typescript
+ * const result = await analyzeRepository('/path/to/repo');
+ * const spec = exportOpenApi(result, { title: 'Billing API', version: '2.0.0' });
+ * ```
+ */
+export function exportOpenApi(result: AnalysisResult, options: OpenApiExportOptions = {}): OpenApiDocument {
+  const fileAnalyses = new Map<string, FileAnalysis>();
+  for (const files of Object.values(result.folder_structure)) {
+    for (const file of files) {
+      fileAnalyses.set(file.path, file);
+    }
+  }
+
+  const endpoints = new ApiDetector().detectEndpoints(fileAnalyses);
+  return new OpenApiExporter(options).exportEndpoints(endpoints);
+}
+
+/**
+ * Rewrite a framework route as an OpenAPI path template
+ *
+ * Handles Express (`:id`, `:id?`, `:id(\\d+)`, `*`), Django/Flask
+ * (`<int:id>`, `<id>`), Django regex groups (`(?P<id>[0-9]+)`) and
+ * NestJS/FastAPI (`{id}`) syntax.
+ *
+ * @param route - Route as written in the source
+ * @param knownParameters - Parameters reported by the detector, used for their types
+ * @returns Path template and its parameters
+ */
+export function toOpenApiPath(
+  route: string,
+  knownParameters: DetailedApiEndpoint['parameters'] = []
+): OpenApiPathTemplate {
+  const parameters: OpenApiParameter[] = [];
+  let wildcardIndex = 0;
+
+  const addParameter = (name: string, schema?: OpenApiSchema): string => {
+    if (!parameters.some(parameter => parameter.name === name)) {
+      const known = knownParameters.find(parameter => parameter.name === name);
+      parameters.push({
+        name,
+        in: 'path',
+        required: true,
+        schema: schema ?? (known?.type ? CONVERTER_SCHEMAS[known.type] : undefined) ?? { type: 'string' }
+      });
+    }
+    return `{${name}}`;
+  };
+
+  const path = route
+    // Django regex routes: ^users/(?P<pk>[0-9]+)/$
+    .replace(/^\^/, '')
+    .replace(/\$$/, '')
+    .replace(/\(\?P<(\w+)>([^)]*)\)/g, (_, name: string, pattern: string) =>
+      addParameter(name, /^\[0-9\]\+$|^\\d\+$/.test(pattern) ? CONVERTER_SCHEMAS['int'] : undefined))
+    // Django/Flask converters: <int:pk>, <slug>
+    .replace(/<(?:(\w+):)?(\w+)>/g, (_, converter: string | undefined, name: string) =>
+      addParameter(name, converter ? CONVERTER_SCHEMAS[converter] ?? { type: 'string' } : undefined))
+    // Express parameters: :id, :id?, :id(\d+)
+    .replace(/:(\w+)(?:\(([^)]*)\))?\??/g, (_, name: string, pattern: string | undefined) =>
+      addParameter(name, pattern === '\\d+' ? CONVERTER_SCHEMAS['int'] : undefined))
+    // Existing templates: {id}
+    .replace(/\{(\w+)\}/g, (_, name: string) => addParameter(name))
+    // Express wildcards
+    .replace(/\*/g, () => addParameter(`wildcard${wildcardIndex++}`));
+
+  return {
+    path: path.startsWith('/') ? path : `/${path}`,
+    parameters
+  };
+}
@@ -0,0 +1,532 @@
+/**
+ * Repository Watcher
+ *
+ * Keeps an analysis result current while the developer edits the working
+ * tree. Events for paths excluded by `.gitignore` are dropped as they
+ * arrive; the others are collected until the tree has been quiet for the
+ * debounce interval and then handled as one batch: only the files whose
+ * content changed are re-analyzed, and the result is re-aggregated so that
+ * dependency edges, framework confidences and summaries follow the edit.
+ * Listeners receive what changed (`fileChanged`, `fileRemoved` and a
+ * `resultUpdated` diff) rather than the whole result, which stays available
+ * as `watcher.result`.
+ */
+
+import { EventEmitter } from 'node:events';
+import { watch, type FSWatcher } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { join, posix, sep } from 'node:path';
+import { GitProcessor } from './git-processor.js';
+import { FileProcessor } from './file-processor.js';
+import type { AnalysisCoordinator } from './analysis-coordinator.js';
+import type { AnalysisResult, DependencyGraph, FileAnalysis, ProjectSummary, WatchOptions } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Default quiet time before a batch of changes is analyzed
+ */
+const DEFAULT_DEBOUNCE_MS = 200;
+
+/**
+ * A file that was added to or modified in the working tree
+ */
+export interface FileChangedEvent {
+  path: string;
+  status: 'added' | 'modified';
+  /** New analysis of the file */
+  analysis: FileAnalysis;
+}
+
+/**
+ * An analyzed file that was deleted or is now ignored
+ */
+export interface FileRemovedEvent {
+  path: string;
+}
+
+/**
+ * An import of one repository file by another
+ */
+export interface DependencyEdge {
+  from: string;
+  to: string;
+}
+
+/**
+ * A framework whose detection confidence changed; 0 means not detected
+ */
+export interface FrameworkConfidenceChange {
+  name: string;
+  previous: number;
+  current: number;
+}
+
+/**
+ * Summary fields that changed, with their new values
+ *
+ * Language and extension counts list only the changed entries, with 0 for
+ * entries that no longer occur.
+ */
+export interface SummaryChange {
+  total_files?: number;
+  total_lines?: number;
+  languages?: Record<string, number>;
+  extensions?: Record<string, number>;
+}
+
+/**
+ * Differences between two analysis results
+ */
+export interface ResultDiff {
+  dependencies: {
+    added: DependencyEdge[];
+    removed: DependencyEdge[];
+  };
+  frameworks: FrameworkConfidenceChange[];
+  summary: SummaryChange;
+}
+
+/**
+ * The result was updated after a batch of changes
+ */
+export interface ResultUpdatedEvent extends ResultDiff {
+  changed_files: string[];
+  removed_files: string[];
+}
+
+/**
+ * Events emitted by a repository watcher
+ */
+export interface RepositoryWatcherEvents {
+  fileChanged: [FileChangedEvent];
+  fileRemoved: [FileRemovedEvent];
+  resultUpdated: [ResultUpdatedEvent];
+  error: [Error];
+}
+
+/**
+ * The files touched by a batch of changes
+ */
+export interface WatchBatch {
+  /** Files added, modified or removed since the previous aggregation */
+  changedFiles: string[];
+  /** All non-binary files of the working tree after the batch */
+  repositoryFiles: string[];
+  /** Whether files were added or removed, so that `repositoryFiles` differs from the previous aggregation */
+  fileListChanged: boolean;
+}
+
+/**
+ * Steps of the analysis pipeline the watcher delegates to
+ */
+export interface RepositoryWatcherHooks {
+  /** Keep the files the analysis options include */
+  selectFiles(filePaths: string[]): string[];
+  /** Build the result from the analyses of all files */
+  aggregate(analysisMap: Map<string, FileAnalysis>, batch: WatchBatch): Promise<AnalysisResult>;
+}
+
+/**
+ * Watches a repository's working tree and updates its analysis result
+ */
+export class RepositoryWatcher extends EventEmitter<RepositoryWatcherEvents> {
+  private readonly repositoryPath: string;
+  private readonly coordinator: AnalysisCoordinator;
+  private readonly hooks: RepositoryWatcherHooks;
+  private readonly options: WatchOptions;
+  private readonly gitProcessor: GitProcessor;
+  private readonly fileProcessor: FileProcessor;
+  private readonly analysisMap = new Map<string, FileAnalysis>();
+  /** Content hashes of the files analyzed since watching started */
+  private readonly contentHashes = new Map<string, string>();
+  private readonly pendingPaths = new Set<string>();
+  /** Non-binary files of the working tree */
+  private readonly repositoryFiles = new Set<string>();
+  /** Ignored files and directories seen so far; events below them are dropped */
+  private readonly ignoredPaths = new Set<string>();
+  /** Files changed by batches that left every analysis as it was, e.g. manifest edits */
+  private readonly unaggregatedFiles = new Set<string>();
+  private fileListChanged = false;
+  private currentResult: AnalysisResult;
+  private fsWatcher?: FSWatcher;
+  private debounceTimer?: NodeJS.Timeout;
+  private processing: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  /**
+   * @param repositoryPath - Path to the git repository
+   * @param result - Initial analysis of the repository
+   * @param coordinator - Coordinator to re-analyze changed files with
+   * @param hooks - Filtering and aggregation of the analysis pipeline
+   * @param options - Analysis options, plus the debounce interval
+   */
+  constructor(
+    repositoryPath: string,
+    result: AnalysisResult,
+    coordinator: AnalysisCoordinator,
+    hooks: RepositoryWatcherHooks,
+    options: WatchOptions = {}
+  ) {
+    super();
+    this.repositoryPath = repositoryPath;
+    this.currentResult = result;
+    this.coordinator = coordinator;
+    this.hooks = hooks;
+    this.options = options;
+    this.gitProcessor = new GitProcessor(repositoryPath);
+    this.fileProcessor = new FileProcessor(repositoryPath);
+
+    for (const files of Object.values(result.folder_structure)) {
+      for (const file of files) {
+        this.analysisMap.set(file.path, file);
+      }
+    }
+  }
+
+  /**
+   * The current analysis result
+   */
+  get result(): AnalysisResult {
+    return this.currentResult;
+  }
+
+  /**
+   * Start watching the working tree
+   *
+   * Aborting `options.signal` closes the watcher.
+   */
+  async start(): Promise<void> {
+    if (this.fsWatcher || this.closed) {
+      return;
+    }
+
+    for (const file of await this.gitProcessor.getSourceFiles('worktree')) {
+      this.repositoryFiles.add(file);
+    }
+    for (const path of await this.gitProcessor.getIgnoredPaths()) {
+      this.ignoredPaths.add(path);
+    }
+
+    this.fsWatcher = watch(this.repositoryPath, { recursive: true }, (_eventType, filename) => {
+      if (filename) {
+        this.queuePath(filename.toString());
+      }
+    });
+    this.fsWatcher.on('error', error => this.reportError(error));
+
+    this.options.signal?.addEventListener('abort', () => void this.close(), { once: true });
+    logger.info(`👀 Watching ${this.repositoryPath} for changes`);
+  }
+
+  /**
+   * Stop watching; resolves once the batch being analyzed is finished
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.fsWatcher?.close();
+    this.fsWatcher = undefined;
+    clearTimeout(this.debounceTimer);
+    this.pendingPaths.clear();
+    await this.processing;
+  }
+
+  /**
+   * Add a changed path to the next batch and restart the debounce timer
+   *
+   * @private
+   */
+  private queuePath(filename: string): void {
+    const path = filename.split(sep).join('/');
+    if (this.closed || path === '.git' || path.startsWith('.git/') || this.isIgnored(path)) {
+      return;
+    }
+
+    this.pendingPaths.add(path);
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      const paths = [...this.pendingPaths];
+      this.pendingPaths.clear();
+      // Batches run one after another so each starts from the previous result
+      this.processing = this.processing
+        .then(() => this.applyChanges(paths))
+        .catch(error => this.reportError(error));
+    }, this.options.debounce_ms ?? DEFAULT_DEBOUNCE_MS);
+  }
+
+  /**
+   * Re-analyze the files of a batch and emit what changed
+   *
+   * @private
+   */
+  private async applyChanges(paths: string[]): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+
+    // Remember newly ignored paths so their later events are dropped right away;
+    // a changed .gitignore can un-ignore paths, so the list is rebuilt then
+    const gitignoreChanged = paths.some(path => posix.basename(path) === '.gitignore');
+    if (gitignoreChanged) {
+      this.ignoredPaths.clear();
+    }
+    for (const path of await this.gitProcessor.getIgnoredPaths(gitignoreChanged ? undefined : paths)) {
+      this.ignoredPaths.add(path);
+    }
+
+    // Directories expand to their files; ignored untracked files drop out
+    const existingFiles = new Set<string>();
+    for (const file of await this.gitProcessor.getWorkingTreeFiles(paths)) {
+      if (await isFile(join(this.repositoryPath, file))) {
+        existingFiles.add(file);
+      }
+    }
+
+    const isInBatch = (file: string) => paths.some(path => file === path || file.startsWith(`${path}/`));
+    const removedFiles = [...this.analysisMap.keys()].filter(file => !existingFiles.has(file) && isInBatch(file));
+
+    // Keep the file list current for the aggregation
+    const textFiles = await this.gitProcessor.filterTextFiles([...existingFiles]);
+    const addedRepositoryFiles = textFiles.filter(file => !this.repositoryFiles.has(file));
+    const removedRepositoryFiles = [...this.repositoryFiles].filter(file => !existingFiles.has(file) && isInBatch(file));
+    for (const file of addedRepositoryFiles) {
+      this.repositoryFiles.add(file);
+    }
+    for (const file of removedRepositoryFiles) {
+      this.repositoryFiles.delete(file);
+    }
+    for (const file of [...textFiles, ...removedRepositoryFiles]) {
+      this.unaggregatedFiles.add(file);
+    }
+    this.fileListChanged ||= addedRepositoryFiles.length > 0 || removedRepositoryFiles.length > 0;
+
+    const filesToAnalyze = this.hooks.selectFiles(textFiles);
+    const changedAnalyses = await this.analyzeChangedFiles(filesToAnalyze);
+
+    if (this.closed || (changedAnalyses.size === 0 && removedFiles.length === 0)) {
+      return;
+    }
+
+    const addedFiles = new Set([...changedAnalyses.keys()].filter(file => !this.analysisMap.has(file)));
+    for (const file of removedFiles) {
+      this.analysisMap.delete(file);
+      this.contentHashes.delete(file);
+    }
+    for (const [file, analysis] of changedAnalyses) {
+      this.analysisMap.set(file, analysis);
+    }
+
+    const previousResult = this.currentResult;
+    const batch: WatchBatch = {
+      changedFiles: [...this.unaggregatedFiles],
+      repositoryFiles: [...this.repositoryFiles],
+      fileListChanged: this.fileListChanged
+    };
+    this.unaggregatedFiles.clear();
+    this.fileListChanged = false;
+    this.currentResult = await this.hooks.aggregate(this.analysisMap, batch);
+    logger.info(`🔄 Updated analysis: ${changedAnalyses.size} changed, ${removedFiles.length} removed`);
+
+    const aggregatedAnalyses = new Map<string, FileAnalysis>();
+    for (const files of Object.values(this.currentResult.folder_structure)) {
+      for (const file of files) {
+        aggregatedAnalyses.set(file.path, file);
+      }
+    }
+
+    for (const [file, analysis] of changedAnalyses) {
+      this.emit('fileChanged', {
+        path: file,
+        status: addedFiles.has(file) ? 'added' : 'modified',
+        analysis: aggregatedAnalyses.get(file) || analysis
+      });
+    }
+    for (const file of removedFiles) {
+      this.emit('fileRemoved', { path: file });
+    }
+
+    this.emit('resultUpdated', {
+      changed_files: [...changedAnalyses.keys()].sort(),
+      removed_files: removedFiles.sort(),
+      ...diffResults(previousResult, this.currentResult)
+    });
+  }
+
+  /**
+   * Analyze the files whose content differs from when they were last analyzed
+   *
+   * Files that cannot be read or analyzed are reported through
+   * `on_file_error`; unreadable files keep their previous analysis.
+   *
+   * @private
+   */
+  private async analyzeChangedFiles(filePaths: string[]): Promise<Map<string, FileAnalysis>> {
+    const results = await this.fileProcessor.processFiles(
+      filePaths,
+      async (content, filePath) => {
+        const hash = createHash('sha1').update(content).digest('hex');
+        if (this.contentHashes.get(filePath) === hash) {
+          return null;
+        }
+
+        const { analysis } = await this.coordinator.analyzeFile(filePath, content);
+        this.contentHashes.set(filePath, hash);
+        return analysis;
+      },
+      {
+        concurrencyLimit: this.options.concurrency || 10,
+        maxFileSize: this.options.max_file_size || 1024 * 1024 // 1MB default
+      }
+    );
+
+    const analyses = new Map<string, FileAnalysis>();
+    for (const [filePath, analysisOrError] of results) {
+      if (analysisOrError instanceof Error) {
+        this.options.on_file_error?.(filePath, analysisOrError.message);
+      } else if (analysisOrError) {
+        if (analysisOrError.error) {
+          this.options.on_file_error?.(filePath, analysisOrError.error);
+        }
+        analyses.set(filePath, analysisOrError);
+      }
+    }
+
+    return analyses;
+  }
+
+  /**
+   * Check whether a path is, or lies below, an ignored path
+   *
+   * @private
+   */
+  private isIgnored(path: string): boolean {
+    for (let current = path; current !== '.'; current = posix.dirname(current)) {
+      if (this.ignoredPaths.has(current)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Emit an error to listeners, or log it when nobody listens
+   *
+   * @private
+   */
+  private reportError(error: unknown): void {
+    const watchError = error instanceof Error ? error : new Error(String(error));
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', watchError);
+    } else {
+      logger.warn('⚠️  Failed to update analysis after file changes:', watchError.message);
+    }
+  }
+}
+
+/**
+ * Compare the dependency edges, framework confidences and summaries of two results
+ *
+ * @param previous - Result before the changes
+ * @param current - Result after the changes
+ * @returns The differences between the results
+ */
+export function diffResults(previous: AnalysisResult, current: AnalysisResult): ResultDiff {
+  const previousEdges = getDependencyEdges(previous.dependencies);
+  const currentEdges = getDependencyEdges(current.dependencies);
+
+  return {
+    dependencies: {
+      added: [...currentEdges].filter(edge => !previousEdges.has(edge)).map(toDependencyEdge),
+      removed: [...previousEdges].filter(edge => !currentEdges.has(edge)).map(toDependencyEdge)
+    },
+    frameworks: diffFrameworks(previous.summary.frameworks || {}, current.summary.frameworks || {}),
+    summary: diffSummary(previous.summary, current.summary)
+  };
+}
+
+/**
+ * Get the edges of a dependency graph as sorted `from\0to` keys
+ *
+ * The analyzer's `__exports__` marker is not a file and is left out.
+ */
+function getDependencyEdges(dependencies: DependencyGraph): Set<string> {
+  const edges: string[] = [];
+  for (const [from, targets] of Object.entries(dependencies)) {
+    for (const to of targets) {
+      if (to !== '__exports__') {
+        edges.push(`${from}\0${to}`);
+      }
+    }
+  }
+  return new Set(edges.sort());
+}
+
+/**
+ * Turn an edge key back into an edge
+ */
+function toDependencyEdge(key: string): DependencyEdge {
+  const [from, to] = key.split('\0');
+  return { from: from!, to: to! };
+}
+
+/**
+ * List the frameworks whose confidence changed, by name
+ */
+function diffFrameworks(previous: Record<string, number>, current: Record<string, number>): FrameworkConfidenceChange[] {
+  const names = [...new Set([...Object.keys(previous), ...Object.keys(current)])].sort();
+
+  return names
+    .map(name => ({ name, previous: previous[name] || 0, current: current[name] || 0 }))
+    .filter(change => change.previous !== change.current);
+}
+
+/**
+ * Collect the summary fields that changed
+ */
+function diffSummary(previous: ProjectSummary, current: ProjectSummary): SummaryChange {
+  const change: SummaryChange = {};
+
+  if (previous.total_files !== current.total_files) {
+    change.total_files = current.total_files;
+  }
+  if (previous.total_lines !== current.total_lines) {
+    change.total_lines = current.total_lines;
+  }
+
+  const languages = diffCounts(previous.languages, current.languages);
+  if (languages) {
+    change.languages = languages;
+  }
+  const extensions = diffCounts(previous.extensions, current.extensions);
+  if (extensions) {
+    change.extensions = extensions;
+  }
+
+  return change;
+}
+
+/**
+ * Collect the counts that changed, or undefined when none did
+ */
+function diffCounts(previous: Record<string, number>, current: Record<string, number>): Record<string, number> | undefined {
+  const changed: Record<string, number> = {};
+
+  for (const key of new Set([...Object.keys(previous), ...Object.keys(current)])) {
+    if ((previous[key] || 0) !== (current[key] || 0)) {
+      changed[key] = current[key] || 0;
+    }
+  }
+
+  return Object.keys(changed).length > 0 ? changed : undefined;
+}
+
+/**
+ * Check whether a path is an existing regular file
+ */
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
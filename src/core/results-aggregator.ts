@@ -7,20 +7,30 @@
  * and relative import resolution.
  */
 
-import { resolve, dirname, join, relative, sep } from 'path';
+import { resolve, dirname, join, relative, sep, posix } from 'path';
 import type {
   AnalysisResult,
   FileAnalysis,
   ProjectSummary,
   DependencyGraph,
   AnalysisMetadata,
-  FrameworkDetection
+  FrameworkDetection,
+  CircularDependency,
+  ImportEdge,
+  PackageSummary
 } from '../types/index.js';
 import { ANALYSIS_ENGINE_VERSION } from '../types/index.js'; // Regular import for value
 import type { AnalysisResult as CoordinatorResult } from './analysis-coordinator.js';
 import type { DetailedApiEndpoint } from '../patterns/api-detector.js';
 import type { DetailedStatePattern } from '../patterns/state-detector.js';
 import type { DetailedEventHandler } from '../patterns/event-detector.js';
+import { IpcDetector } from '../patterns/ipc-detector.js';
+import { ElectronDetector } from '../patterns/electron-detector.js';
+import { FrameworkDetector } from '../patterns/framework-detector.js';
+import { getModuleCandidates, getPythonModuleCandidates, ImportResolver } from './import-resolver.js';
+import type { WorkspaceDetector, WorkspacePackageDefinition } from './workspace-detector.js';
+import type { ManifestReader } from './manifest-reader.js';
+import { CallGraphBuilder } from './call-graph.js';
 
 /**
  * Configuration options for results aggregation
@@ -32,8 +42,12 @@ export interface AggregationOptions {
   includeFrameworks?: boolean;
   /** Whether to detect circular dependencies */
   detectCircularDependencies?: boolean;
-  /** Maximum depth for circular dependency detection */
-  maxCircularDepth?: number;
+  /** Project alias configuration for resolving non-relative imports */
+  importResolver?: ImportResolver;
+  /** Monorepo workspace packages to summarize separately */
+  workspace?: WorkspaceDetector;
+  /** Declared dependencies to compare with the imported packages */
+  manifests?: ManifestReader;
 }
 
 /**
@@ -43,34 +57,55 @@ interface ImportResolutionContext {
   /** All analyzed files for reference */
   allFiles: Set<string>;
   /** Cache for resolved imports */
-  resolvedCache: Map<string, string>;
+  resolvedCache: Map<string, ImportResolution>;
   /** Repository absolute path */
   repoAbsPath: string;
+  /** Resolver for Python module names (the configured one, or one built from the analyzed files) */
+  pythonResolver: ImportResolver;
+  /** Analyzed non-test Go files by package directory */
+  goPackageFiles: Map<string, string[]>;
 }
 
 /**
- * Circular dependency detection result
+ * How a single import specifier resolved
+ *
+ * - `file`: an analyzed file, recorded in the dependency graph
+ * - `asset`: a tracked file that was not analyzed (stylesheets, JSON, ...)
+ * - `unresolved`: points into the repository but no file matched
+ * - `external`: a third-party package or built-in module
  */
-export interface CircularDependency {
-  /** Files involved in the circular dependency */
-  files: string[];
-  /** Import chain that creates the cycle */
-  chain: string[];
-}
+type ImportResolution =
+  | { type: 'file'; path: string }
+  | { type: 'asset' }
+  | { type: 'unresolved' }
+  | { type: 'external' };
+
+/**
+ * Languages whose bare imports go through tsconfig/bundler/workspace aliases
+ */
+const ALIAS_RESOLVED_LANGUAGES = new Set(['javascript', 'typescript']);
+
+export type { CircularDependency } from '../types/index.js';
 
 /**
  * Results aggregator that combines individual file analyses into final output
  */
 export class ResultsAggregator {
-  private options: Required<AggregationOptions>;
+  private options: Required<Omit<AggregationOptions, 'importResolver' | 'workspace' | 'manifests'>>;
+  private importResolver: ImportResolver | undefined;
+  private workspace: WorkspaceDetector | undefined;
+  private manifests: ManifestReader | undefined;
 
   constructor(options: AggregationOptions) {
+    const { importResolver, workspace, manifests, ...aggregationOptions } = options;
     this.options = {
       includeFrameworks: true,
       detectCircularDependencies: true,
-      maxCircularDepth: 10,
-      ...options
+      ...aggregationOptions
     };
+    this.importResolver = importResolver;
+    this.workspace = workspace;
+    this.manifests = manifests;
   }
 
   /**
@@ -92,7 +127,46 @@ export class ResultsAggregator {
     eventHandlers: DetailedEventHandler[],
     startTime: number
   ): AnalysisResult {
-    // Convert coordinator results to enriched file analyses
+    const analyses = new Map<string, FileAnalysis>();
+    for (const [filePath, coordinatorResult] of fileAnalyses) {
+      analyses.set(filePath, coordinatorResult.analysis);
+    }
+
+    return this.aggregateFileAnalyses(
+      analyses,
+      frameworkDetections,
+      apiEndpoints,
+      statePatterns,
+      eventHandlers,
+      startTime
+    );
+  }
+
+  /**
+   * Aggregate plain file analyses into final output format
+   *
+   * Used when analyses do not come straight from the coordinator, e.g. when an
+   * incremental run merges cached and previous results with re-analyzed files.
+   * The folder structure, summary and dependency graph are always rebuilt from
+   * the complete set of analyses.
+   *
+   * @param fileAnalyses - File analyses keyed by path relative to repository root
+   * @param frameworkDetections - Framework detection results
+   * @param apiEndpoints - API endpoint detection results
+   * @param statePatterns - State management pattern results
+   * @param eventHandlers - Event handler detection results
+   * @param startTime - Analysis start time for duration calculation
+   * @returns Complete analysis result matching Python format
+   */
+  aggregateFileAnalyses(
+    fileAnalyses: Map<string, FileAnalysis>,
+    frameworkDetections: FrameworkDetection[],
+    apiEndpoints: DetailedApiEndpoint[],
+    statePatterns: DetailedStatePattern[],
+    eventHandlers: DetailedEventHandler[],
+    startTime: number
+  ): AnalysisResult {
+    // Enrich file analyses with pattern detection results
     const enrichedAnalyses = this.enrichFileAnalyses(
       fileAnalyses,
       apiEndpoints,
@@ -100,14 +174,36 @@ export class ResultsAggregator {
       eventHandlers
     );
 
+    // Build dependency graph
+    const { dependencies, unresolvedImports, importEdges } = this.buildDependencyGraph(enrichedAnalyses);
+
+    // Assign Electron process roles, following imports to files without their own evidence
+    const electronDetector = new ElectronDetector();
+    for (const [filePath, role] of electronDetector.classifyProcessRoles(enrichedAnalyses, importEdges)) {
+      enrichedAnalyses.get(filePath)!.process_role = role;
+    }
+    const electronSecurity = electronDetector.auditSecurity(enrichedAnalyses);
+
     // Build folder structure
     const folderStructure = this.buildFolderStructure(enrichedAnalyses);
 
     // Calculate summary statistics
     const summary = this.calculateSummary(enrichedAnalyses, frameworkDetections);
 
-    // Build dependency graph
-    const dependencies = this.buildDependencyGraph(enrichedAnalyses);
+    // Detect import cycles between repository files
+    const cycles = this.detectCircularDependencies(dependencies, importEdges);
+
+    // Link calls between functions and methods through the import edges
+    const callGraph = new CallGraphBuilder().build(enrichedAnalyses, importEdges);
+
+    // Link Electron IPC handlers, senders and listeners by channel
+    const ipc = new IpcDetector().detectChannels(enrichedAnalyses);
+
+    // Summarize each workspace package of a monorepo
+    const packages = this.buildPackageSummaries(enrichedAnalyses, dependencies, importEdges);
+
+    // Compare declared dependencies with the packages the code imports
+    const packagesDeclared = this.manifests?.compareImports(enrichedAnalyses, dependencies);
 
     // Create metadata
     const metadata: AnalysisMetadata = {
@@ -121,15 +217,25 @@ export class ResultsAggregator {
       folder_structure: folderStructure,
       summary,
       dependencies,
+      ...(Object.keys(unresolvedImports).length > 0 && { unresolved_imports: unresolvedImports }),
+      ...(cycles.length > 0 && { cycles }),
+      ...((callGraph.edges.length > 0 || callGraph.unresolved.length > 0) && { call_graph: callGraph }),
+      ...(ipc.channels.length > 0 && { ipc }),
+      ...(electronSecurity.length > 0 && { electron_security: electronSecurity }),
+      ...(packages.length > 0 && { packages }),
+      ...(packagesDeclared && { packages_declared: packagesDeclared }),
       metadata
     };
   }
 
   /**
    * Enrich file analyses with pattern detection results
+   *
+   * Analyses may come from a previous result, so fields derived during
+   * aggregation are rebuilt rather than carried over.
    */
   private enrichFileAnalyses(
-    fileAnalyses: Map<string, CoordinatorResult>,
+    fileAnalyses: Map<string, FileAnalysis>,
     apiEndpoints: DetailedApiEndpoint[],
     statePatterns: DetailedStatePattern[],
     eventHandlers: DetailedEventHandler[]
@@ -141,9 +247,7 @@ export class ResultsAggregator {
     const statePatternsByFile = this.groupByFile(statePatterns);
     const eventHandlersByFile = this.groupByFile(eventHandlers);
 
-    for (const [filePath, coordinatorResult] of fileAnalyses) {
-      const baseAnalysis = coordinatorResult.analysis;
-
+    for (const [filePath, baseAnalysis] of fileAnalyses) {
       // Convert detailed pattern results to the format expected by FileAnalysis
     //   const api_endpoints = apiEndpointsByFile.get(filePath)?.map(endpoint => ({
     //     type: endpoint.framework,
@@ -175,6 +279,7 @@ export class ResultsAggregator {
         state_changes: state_changes.length > 0 ? state_changes : undefined,
         event_handlers: event_handlers.length > 0 ? event_handlers : undefined
       };
+      delete enrichedAnalysis.process_role;
 
       enrichedAnalyses.set(filePath, enrichedAnalysis);
     }
@@ -275,21 +380,143 @@ export class ResultsAggregator {
   }
 
   /**
-   * Build dependency graph with relative import resolution
+   * Summarize each workspace package
+   *
+   * Frameworks are detected from the package's own files and manifests, so
+   * a backend package does not report the frontend framework of its siblings.
+   * Package dependencies are the workspace packages its files import.
+   */
+  private buildPackageSummaries(
+    analyses: Map<string, FileAnalysis>,
+    dependencies: DependencyGraph,
+    importEdges: ImportEdge[]
+  ): PackageSummary[] {
+    const workspacePackages = this.workspace?.getPackages() ?? [];
+    if (workspacePackages.length === 0) {
+      return [];
+    }
+
+    const filesByPackage = new Map<string, Map<string, FileAnalysis>>();
+    for (const [filePath, analysis] of analyses) {
+      const pkg = this.workspace!.findPackage(filePath);
+      if (pkg) {
+        if (!filesByPackage.has(pkg.path)) {
+          filesByPackage.set(pkg.path, new Map());
+        }
+        filesByPackage.get(pkg.path)!.set(filePath, analysis);
+      }
+    }
+
+    const packageDependencies = new Map<string, Set<string>>();
+    const addPackageDependency = (from: WorkspacePackageDefinition | undefined, to: WorkspacePackageDefinition | undefined) => {
+      if (from && to && from !== to) {
+        if (!packageDependencies.has(from.path)) {
+          packageDependencies.set(from.path, new Set());
+        }
+        packageDependencies.get(from.path)!.add(to.name);
+      }
+    };
+
+    for (const edge of importEdges) {
+      addPackageDependency(this.workspace!.findPackage(edge.from), this.workspace!.findPackage(edge.to));
+    }
+    // Imports of workspace packages whose entry point is not an analyzed file
+    for (const [filePath, fileDependencies] of Object.entries(dependencies)) {
+      for (const dependency of fileDependencies) {
+        const imported = workspacePackages.find(pkg => dependency === pkg.name || dependency.startsWith(`${pkg.name}/`));
+        addPackageDependency(this.workspace!.findPackage(filePath), imported);
+      }
+    }
+
+    return workspacePackages.map(pkg => {
+      const packageAnalyses = filesByPackage.get(pkg.path) ?? new Map<string, FileAnalysis>();
+      const declaredDependencies = (this.manifests?.getDependencies() ?? [])
+        .filter(dependency => dependency.manifest.startsWith(`${pkg.path}/`));
+      const { total_files, total_lines, languages, frameworks } = this.calculateSummary(
+        packageAnalyses,
+        this.options.includeFrameworks && packageAnalyses.size > 0
+          ? new FrameworkDetector().detectFrameworks(packageAnalyses, declaredDependencies)
+          : []
+      );
+
+      return {
+        name: pkg.name,
+        path: pkg.path,
+        declared_by: pkg.declared_by,
+        total_files,
+        total_lines,
+        languages,
+        ...(frameworks && { frameworks }),
+        entry_points: this.findPackageEntryPoints(pkg, packageAnalyses),
+        dependencies: [...(packageDependencies.get(pkg.path) ?? [])].sort()
+      };
+    });
+  }
+
+  /**
+   * Find the analyzed files a workspace package is imported or executed through
+   *
+   * The main entry is whatever an import of the package name resolves to;
+   * declared executables (`bin`, Python console scripts) are added to it.
    */
-  private buildDependencyGraph(analyses: Map<string, FileAnalysis>): DependencyGraph {
+  private findPackageEntryPoints(
+    pkg: WorkspacePackageDefinition,
+    packageAnalyses: Map<string, FileAnalysis>
+  ): string[] {
+    const getCandidates = pkg.manifest === 'pyproject.toml' ? getPythonModuleCandidates : getModuleCandidates;
+    const mainEntry = pkg.manifest === 'package.json'
+      ? this.importResolver?.resolve(posix.join(pkg.path, 'package.json'), pkg.name)?.candidates ?? []
+      : [];
+
+    const entryPoints = [mainEntry, ...pkg.entries.map(entry => [entry])]
+      .map(basePaths => basePaths
+        .flatMap(basePath => getCandidates(basePath))
+        .find(candidate => packageAnalyses.has(candidate)))
+      .filter((entryPoint): entryPoint is string => entryPoint !== undefined);
+
+    return [...new Set(entryPoints)];
+  }
+
+  /**
+   * Build dependency graph with relative and alias import resolution
+   *
+   * Internal imports become repository file paths, third-party imports are
+   * kept as written. Internal imports that match no file are returned
+   * separately instead of being mistaken for packages. The import behind
+   * each file-to-file dependency is returned as an edge.
+   */
+  private buildDependencyGraph(analyses: Map<string, FileAnalysis>): {
+    dependencies: DependencyGraph;
+    unresolvedImports: DependencyGraph;
+    importEdges: ImportEdge[];
+  } {
     const dependencies: DependencyGraph = {};
+    const unresolvedImports: DependencyGraph = {};
+    const importEdges: ImportEdge[] = [];
 
     // Create resolution context
     const context: ImportResolutionContext = {
       allFiles: new Set(analyses.keys()),
       resolvedCache: new Map(),
-      repoAbsPath: resolve(this.options.repositoryPath)
+      repoAbsPath: resolve(this.options.repositoryPath),
+      pythonResolver: this.importResolver ?? new ImportResolver(analyses.keys()),
+      goPackageFiles: new Map()
     };
 
+    for (const filePath of analyses.keys()) {
+      if (filePath.endsWith('.go') && !filePath.endsWith('_test.go')) {
+        const packageDir = posix.dirname(filePath);
+        if (!context.goPackageFiles.has(packageDir)) {
+          context.goPackageFiles.set(packageDir, []);
+        }
+        context.goPackageFiles.get(packageDir)!.push(filePath);
+      }
+    }
+
     // Process each file's imports
     for (const [filePath, analysis] of analyses) {
       const fileDependencies: string[] = [];
+      const fileUnresolved: string[] = [];
 
       if (analysis.imports) {
         for (const [modulePath, importedNames] of Object.entries(analysis.imports)) {
@@ -298,15 +525,31 @@ export class ResultsAggregator {
             continue;
           }
 
-          if (modulePath.startsWith('.')) {
-            // Relative import - resolve to internal file
-            const resolved = this.resolveRelativeImport(filePath, modulePath, context);
-            if (resolved) {
-              fileDependencies.push(resolved);
-            }
+          let resolutions: ImportResolution[];
+          if (analysis.language === 'python') {
+            resolutions = this.resolvePythonImport(filePath, modulePath, importedNames, context);
+          } else if (analysis.language === 'go') {
+            resolutions = this.resolveGoImport(modulePath, context);
           } else {
-            // External dependency - include as-is
-            fileDependencies.push(modulePath);
+            resolutions = [this.resolveImport(filePath, analysis, modulePath, context)];
+          }
+
+          for (const resolution of resolutions) {
+            if (resolution.type === 'file') {
+              if (!fileDependencies.includes(resolution.path)) {
+                importEdges.push({
+                  from: filePath,
+                  to: resolution.path,
+                  specifier: modulePath,
+                  line: analysis.import_lines?.[modulePath]
+                });
+              }
+              fileDependencies.push(resolution.path);
+            } else if (resolution.type === 'external') {
+              fileDependencies.push(modulePath);
+            } else if (resolution.type === 'unresolved') {
+              fileUnresolved.push(modulePath);
+            }
           }
         }
       }
@@ -316,9 +559,136 @@ export class ResultsAggregator {
       if (uniqueDependencies.length > 0) {
         dependencies[filePath] = uniqueDependencies;
       }
+      if (fileUnresolved.length > 0) {
+        unresolvedImports[filePath] = [...new Set(fileUnresolved)].sort();
+      }
+    }
+
+    return { dependencies, unresolvedImports, importEdges };
+  }
+
+  /**
+   * Resolve one import of a file
+   */
+  private resolveImport(
+    filePath: string,
+    analysis: FileAnalysis,
+    modulePath: string,
+    context: ImportResolutionContext
+  ): ImportResolution {
+    if (modulePath.startsWith('.') || this.isRelativeDartImport(analysis, modulePath)) {
+      // Relative import - resolve to internal file
+      return this.resolveRelativeImport(filePath, modulePath, context);
+    }
+
+    if (this.importResolver && analysis.language && ALIAS_RESOLVED_LANGUAGES.has(analysis.language)) {
+      const cacheKey = `${filePath}:${modulePath}`;
+      const cached = context.resolvedCache.get(cacheKey);
+      if (cached) {
+        return cached;
+      }
+
+      const aliasResolution = this.importResolver.resolve(filePath, modulePath);
+      let resolution: ImportResolution = { type: 'external' };
+      if (aliasResolution) {
+        resolution = this.findCandidateFile(aliasResolution.candidates, context)
+          ?? (aliasResolution.internal ? { type: 'unresolved' } : { type: 'external' });
+      }
+
+      context.resolvedCache.set(cacheKey, resolution);
+      return resolution;
     }
 
-    return dependencies;
+    // External dependency - include as-is
+    return { type: 'external' };
+  }
+
+  /**
+   * Resolve one Python import statement
+   *
+   * `from package import name` may import a submodule rather than an
+   * attribute, so each imported name is tried as a submodule first; the
+   * module itself is the dependency when none of them is a file.
+   */
+  private resolvePythonImport(
+    filePath: string,
+    modulePath: string,
+    importedNames: string[],
+    context: ImportResolutionContext
+  ): ImportResolution[] {
+    const submoduleFiles: ImportResolution[] = [];
+
+    for (const importedName of importedNames) {
+      const name = importedName.split(' as ')[0]!.trim();
+      // `import a.b` records the module itself as the imported name
+      if (!/^\w+$/.test(name) || name === modulePath) {
+        continue;
+      }
+
+      const submodule = modulePath.endsWith('.') ? `${modulePath}${name}` : `${modulePath}.${name}`;
+      const resolution = this.resolvePythonModule(filePath, submodule, context);
+      if (resolution.type === 'file') {
+        submoduleFiles.push(resolution);
+      }
+    }
+
+    return submoduleFiles.length > 0
+      ? submoduleFiles
+      : [this.resolvePythonModule(filePath, modulePath, context)];
+  }
+
+  /**
+   * Resolve a dotted Python module name to an analyzed file
+   */
+  private resolvePythonModule(
+    fromFile: string,
+    moduleName: string,
+    context: ImportResolutionContext
+  ): ImportResolution {
+    const cacheKey = `${fromFile}:${moduleName}`;
+    const cached = context.resolvedCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const moduleResolution = context.pythonResolver.resolvePythonModule(fromFile, moduleName);
+    let resolution: ImportResolution = { type: 'external' };
+    if (moduleResolution) {
+      resolution = this.findCandidateFile(moduleResolution.candidates, context, getPythonModuleCandidates)
+        ?? { type: 'unresolved' };
+    }
+
+    context.resolvedCache.set(cacheKey, resolution);
+    return resolution;
+  }
+
+  /**
+   * Resolve a Go package import to the files of the package
+   *
+   * A package is a directory, so every analyzed non-test file in it is a
+   * dependency. Import paths below a `go.mod` module path that match no
+   * analyzed package are unresolved; all others are external.
+   */
+  private resolveGoImport(importPath: string, context: ImportResolutionContext): ImportResolution[] {
+    const packageResolution = this.importResolver?.resolveGoPackage(importPath);
+    if (!packageResolution) {
+      return [{ type: 'external' }];
+    }
+
+    const packageFiles = context.goPackageFiles.get(packageResolution.candidates[0] || '.') || [];
+    return packageFiles.length > 0
+      ? [...packageFiles].sort().map((path): ImportResolution => ({ type: 'file', path }))
+      : [{ type: 'unresolved' }];
+  }
+
+  /**
+   * Check whether a Dart import URI refers to a file relative to the importer
+   *
+   * Dart relative imports need no `./` prefix (`import 'widgets/card.dart'`);
+   * anything with a scheme such as `package:` or `dart:` is external.
+   */
+  private isRelativeDartImport(analysis: FileAnalysis, modulePath: string): boolean {
+    return analysis.language === 'dart' && !/^[a-z][\w+.-]*:/i.test(modulePath);
   }
 
   /**
@@ -328,120 +698,238 @@ export class ResultsAggregator {
     fromFile: string,
     importPath: string,
     context: ImportResolutionContext
-  ): string | null {
+  ): ImportResolution {
     // Create cache key
     const cacheKey = `${fromFile}:${importPath}`;
-    if (context.resolvedCache.has(cacheKey)) {
-      return context.resolvedCache.get(cacheKey) || null;
+    const cached = context.resolvedCache.get(cacheKey);
+    if (cached) {
+      return cached;
     }
 
     // Get the directory of the importing file
     const fromDir = dirname(join(context.repoAbsPath, fromFile));
 
-    // Resolve the import path
-    let resolvedPath: string;
-    try {
-      resolvedPath = resolve(fromDir, importPath);
-    } catch (error) {
-      context.resolvedCache.set(cacheKey, '');
-      return null;
-    }
-
-    // Convert back to relative path from repository root
+    // Resolve the import path and convert back to relative path from repository root
     let relativePath: string;
     try {
-      relativePath = relative(context.repoAbsPath, resolvedPath);
+      relativePath = relative(context.repoAbsPath, resolve(fromDir, importPath));
       // Normalize path separators for cross-platform compatibility
       relativePath = relativePath.split(sep).join('/');
     } catch (error) {
-      context.resolvedCache.set(cacheKey, '');
-      return null;
+      context.resolvedCache.set(cacheKey, { type: 'unresolved' });
+      return { type: 'unresolved' };
     }
 
-    // Try different file extensions and index file patterns
-    const candidatePaths = [
-      relativePath,
-      `${relativePath}.js`,
-      `${relativePath}.ts`,
-      `${relativePath}.jsx`,
-      `${relativePath}.tsx`,
-      `${relativePath}.py`,
-      `${relativePath}/index.js`,
-      `${relativePath}/index.ts`,
-      `${relativePath}/index.jsx`,
-      `${relativePath}/index.tsx`,
-      `${relativePath}/__init__.py`
-    ];
+    const resolution = this.findCandidateFile([relativePath], context) ?? { type: 'unresolved' };
+    context.resolvedCache.set(cacheKey, resolution);
+    return resolution;
+  }
+
+  /**
+   * Find the first analyzed (or otherwise tracked) file matching module paths
+   *
+   * Tries each path as-is and with the usual extensions and index files.
+   *
+   * @param getCandidates - Expands a module path into the files it may refer to
+   * @returns The resolution, or undefined if no candidate exists
+   */
+  private findCandidateFile(
+    basePaths: string[],
+    context: ImportResolutionContext,
+    getCandidates: (basePath: string) => string[] = getModuleCandidates
+  ): ImportResolution | undefined {
+    const candidatePaths = basePaths.flatMap(basePath => getCandidates(basePath));
 
     // Find the first candidate that exists in our analyzed files
     for (const candidatePath of candidatePaths) {
       if (context.allFiles.has(candidatePath)) {
-        context.resolvedCache.set(cacheKey, candidatePath);
-        return candidatePath;
+        return { type: 'file', path: candidatePath };
       }
     }
 
-    // Not found
-    context.resolvedCache.set(cacheKey, '');
-    return null;
+    // Tracked files that were filtered out of the analysis (stylesheets, assets, ...)
+    if (this.importResolver && candidatePaths.some(candidatePath => this.importResolver!.isRepositoryFile(candidatePath))) {
+      return { type: 'asset' };
+    }
+
+    return undefined;
   }
 
   /**
    * Detect circular dependencies in the dependency graph
+   *
+   * Files are grouped into strongly connected components (Tarjan's
+   * algorithm), so every cycle is reported once no matter how many import
+   * chains run through it. Each group gets its shortest chain as a
+   * representative.
+   *
+   * @param dependencies - Dependency graph keyed by repository file
+   * @param importEdges - Imports behind the file-to-file dependencies, used to describe each step
+   * @returns Cycles sorted by the first file of their chain
    */
-  detectCircularDependencies(dependencies: DependencyGraph): CircularDependency[] {
+  detectCircularDependencies(dependencies: DependencyGraph, importEdges: ImportEdge[] = []): CircularDependency[] {
     if (!this.options.detectCircularDependencies) {
       return [];
     }
 
-    const cycles: CircularDependency[] = [];
-    const visited = new Set<string>();
-    const recursionStack = new Set<string>();
+    // Only files that import something can be part of a cycle
+    const successors = new Map<string, string[]>();
+    for (const [file, fileDependencies] of Object.entries(dependencies)) {
+      successors.set(file, fileDependencies.filter(dependency => dependency in dependencies));
+    }
 
-    const dfs = (file: string, path: string[]): void => {
-      if (path.length > this.options.maxCircularDepth) {
-        return; // Prevent infinite recursion
+    const edgesByKey = new Map<string, ImportEdge>();
+    for (const edge of importEdges) {
+      edgesByKey.set(`${edge.from}\n${edge.to}`, edge);
+    }
+
+    const cycles: CircularDependency[] = [];
+    for (const component of this.findStronglyConnectedComponents(successors)) {
+      const members = new Set(component);
+      const isCycle = component.length > 1 || successors.get(component[0]!)!.includes(component[0]!);
+      if (!isCycle) {
+        continue;
       }
 
-      if (recursionStack.has(file)) {
-        // Found a cycle
-        const cycleStart = path.indexOf(file);
-        const cycleFiles = path.slice(cycleStart);
-        cycleFiles.push(file); // Complete the cycle
-
-        cycles.push({
-          files: [...new Set(cycleFiles)],
-          chain: cycleFiles
-        });
-        return;
+      const chain = this.findShortestCycle(component.sort(), members, successors);
+      cycles.push({
+        files: component,
+        chain,
+        edges: chain.slice(1).map((to, index) => {
+          const from = chain[index]!;
+          return edgesByKey.get(`${from}\n${to}`) ?? { from, to };
+        })
+      });
+    }
+
+    return cycles.sort((a, b) => a.chain[0]!.localeCompare(b.chain[0]!));
+  }
+
+  /**
+   * Find strongly connected components with an iterative Tarjan's algorithm
+   *
+   * Iterative so that long import chains cannot overflow the call stack.
+   */
+  private findStronglyConnectedComponents(successors: Map<string, string[]>): string[][] {
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+    let nextIndex = 0;
+
+    const open = (file: string) => {
+      indices.set(file, nextIndex);
+      lowLinks.set(file, nextIndex);
+      nextIndex++;
+      stack.push(file);
+      onStack.add(file);
+    };
+
+    for (const root of [...successors.keys()].sort()) {
+      if (indices.has(root)) {
+        continue;
       }
 
-      if (visited.has(file)) {
-        return; // Already processed
+      open(root);
+      const work: Array<{ file: string; next: number }> = [{ file: root, next: 0 }];
+
+      while (work.length > 0) {
+        const frame = work[work.length - 1]!;
+        const fileSuccessors = successors.get(frame.file)!;
+
+        if (frame.next < fileSuccessors.length) {
+          const successor = fileSuccessors[frame.next++]!;
+          if (!indices.has(successor)) {
+            open(successor);
+            work.push({ file: successor, next: 0 });
+          } else if (onStack.has(successor)) {
+            lowLinks.set(frame.file, Math.min(lowLinks.get(frame.file)!, indices.get(successor)!));
+          }
+          continue;
+        }
+
+        work.pop();
+        const parent = work[work.length - 1];
+        if (parent) {
+          lowLinks.set(parent.file, Math.min(lowLinks.get(parent.file)!, lowLinks.get(frame.file)!));
+        }
+
+        if (lowLinks.get(frame.file) === indices.get(frame.file)) {
+          const component: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== frame.file);
+          components.push(component);
+        }
       }
+    }
 
-      visited.add(file);
-      recursionStack.add(file);
+    return components;
+  }
 
-      const fileDependencies = dependencies[file] || [];
-      for (const dependency of fileDependencies) {
-        // Only check internal dependencies (files, not external packages)
-        if (dependencies[dependency]) {
-          dfs(dependency, [...path, file]);
+  /**
+   * Find the shortest cycle inside a strongly connected component
+   *
+   * Runs a breadth-first search from every file back to itself; ties go to
+   * the alphabetically first start file.
+   *
+   * @returns Chain of files that starts and ends with the same file
+   */
+  private findShortestCycle(
+    sortedFiles: string[],
+    members: Set<string>,
+    successors: Map<string, string[]>
+  ): string[] {
+    let shortest: string[] = [];
+
+    for (const start of sortedFiles) {
+      const previous = new Map<string, string>();
+      const queue = [start];
+      let found = false;
+
+      for (let head = 0; head < queue.length && !found; head++) {
+        const file = queue[head]!;
+        for (const successor of successors.get(file)!) {
+          if (!members.has(successor)) {
+            continue;
+          }
+          if (successor === start) {
+            previous.set(start, file);
+            found = true;
+            break;
+          }
+          if (!previous.has(successor)) {
+            previous.set(successor, file);
+            queue.push(successor);
+          }
         }
       }
 
-      recursionStack.delete(file);
-    };
+      if (!found) {
+        continue;
+      }
 
-    // Check each file for cycles
-    for (const file in dependencies) {
-      if (!visited.has(file)) {
-        dfs(file, []);
+      const chain = [start];
+      let current = previous.get(start)!;
+      while (current !== start) {
+        chain.unshift(current);
+        current = previous.get(current)!;
+      }
+      chain.unshift(start);
+
+      if (shortest.length === 0 || chain.length < shortest.length) {
+        shortest = chain;
+      }
+      if (shortest.length === 2) {
+        break; // A file importing itself cannot be beaten
       }
     }
 
-    return cycles;
+    return shortest;
   }
 
   /**
@@ -0,0 +1,252 @@
+/**
+ * Runner Child-Process Protocol
+ *
+ * An analysis runner (see `electron-test-runner.ts`) talks to the process
+ * that spawned it in newline-delimited JSON. The runner writes one message
+ * per line to stdout: `progress` and `phase` while it works, `warning` and
+ * `file_error` for problems it recovers from, and finally either the result
+ * as `result_chunk` messages followed by `done`, or a single `error`. The
+ * host may write commands to the runner's stdin the same way; `cancel`
+ * aborts the running analysis. Every line carries the protocol version `v`.
+ */
+
+import { createInterface } from 'node:readline';
+import type { AnalysisPhase } from '../types/index.js';
+import type { Logger } from '../utils/logger.js';
+
+/**
+ * Version of the message schema, bumped on incompatible changes
+ */
+export const RUNNER_PROTOCOL_VERSION = 1;
+
+/**
+ * Default number of characters of the result sent per `result_chunk`
+ */
+const RESULT_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Analysis progress, as passed to `AnalysisOptions.on_progress`
+ */
+export interface RunnerProgressEvent {
+  type: 'progress';
+  completed: number;
+  total: number;
+  current?: string;
+}
+
+/**
+ * The analysis entered a new phase
+ */
+export interface RunnerPhaseEvent {
+  type: 'phase';
+  phase: AnalysisPhase;
+}
+
+/**
+ * A diagnostic message of the engine
+ */
+export interface RunnerWarningEvent {
+  type: 'warning';
+  message: string;
+}
+
+/**
+ * A file could not be read or analyzed
+ */
+export interface RunnerFileErrorEvent {
+  type: 'file_error';
+  file: string;
+  error: string;
+}
+
+/**
+ * A piece of the result text; pieces are numbered from 0
+ */
+export interface RunnerResultChunkEvent {
+  type: 'result_chunk';
+  index: number;
+  data: string;
+}
+
+/**
+ * The result was sent completely
+ */
+export interface RunnerDoneEvent {
+  type: 'done';
+  /** Number of `result_chunk` messages sent */
+  chunks: number;
+  /** Length of the result text in characters */
+  length: number;
+  /** File the result was also written to */
+  output_path?: string;
+}
+
+/**
+ * The analysis failed or was cancelled; no result follows
+ */
+export interface RunnerErrorEvent {
+  type: 'error';
+  message: string;
+  cancelled: boolean;
+}
+
+/**
+ * Message body written by the runner
+ */
+export type RunnerEvent =
+  | RunnerProgressEvent
+  | RunnerPhaseEvent
+  | RunnerWarningEvent
+  | RunnerFileErrorEvent
+  | RunnerResultChunkEvent
+  | RunnerDoneEvent
+  | RunnerErrorEvent;
+
+/**
+ * Command body written by the host
+ */
+export interface RunnerCancelCommand {
+  type: 'cancel';
+}
+
+/**
+ * Line of the protocol, in either direction
+ */
+export type RunnerMessage = (RunnerEvent | RunnerCancelCommand) & { v: number };
+
+/**
+ * Destination of runner messages, such as `process.stdout`
+ */
+export interface RunnerOutput {
+  write(chunk: string, callback?: (error?: Error | null) => void): unknown;
+}
+
+const EVENT_TYPES = new Set<string>([
+  'progress', 'phase', 'warning', 'file_error', 'result_chunk', 'done', 'error', 'cancel'
+]);
+
+/**
+ * Writes runner messages and reads host commands
+ */
+export class RunnerProtocol {
+  private readonly output: RunnerOutput;
+
+  /**
+   * Create a protocol writing to an output stream
+   *
+   * @param output - Stream the messages are written to
+   */
+  constructor(output: RunnerOutput) {
+    this.output = output;
+  }
+
+  /**
+   * Write a message as one JSON line
+   *
+   * @param event - Message body
+   */
+  send(event: RunnerEvent): void {
+    this.output.write(`${JSON.stringify({ v: RUNNER_PROTOCOL_VERSION, ...event })}\n`);
+  }
+
+  /**
+   * Write the result text as `result_chunk` messages followed by `done`
+   *
+   * @param text - Result text
+   * @param outputPath - File the result was also written to
+   * @param chunkSize - Characters per chunk
+   */
+  sendResult(text: string, outputPath?: string, chunkSize: number = RESULT_CHUNK_SIZE): void {
+    let chunks = 0;
+    for (let offset = 0; offset < text.length; offset += chunkSize) {
+      this.send({ type: 'result_chunk', index: chunks++, data: text.slice(offset, offset + chunkSize) });
+    }
+    this.send({
+      type: 'done',
+      chunks,
+      length: text.length,
+      ...(outputPath !== undefined && { output_path: outputPath })
+    });
+  }
+
+  /**
+   * Wait until everything written so far has been handed to the output
+   */
+  flush(): Promise<void> {
+    return new Promise(resolve => {
+      this.output.write('', () => resolve());
+    });
+  }
+
+  /**
+   * Create a logger that reports warnings and errors as `warning` messages
+   *
+   * Debug and info messages are dropped so that the output only contains
+   * protocol lines.
+   */
+  createLogger(): Logger {
+    const warn = (message: string, ...details: unknown[]) => {
+      this.send({ type: 'warning', message: [message, ...details.map(formatDetail)].join(' ').trim() });
+    };
+    return { debug: () => {}, info: () => {}, warn, error: warn };
+  }
+
+  /**
+   * Read host commands from an input stream and abort on `cancel`
+   *
+   * Lines that are not protocol messages are ignored.
+   *
+   * @param input - Stream the host writes commands to, such as `process.stdin`
+   * @param controller - Controller whose signal the analysis was started with
+   * @returns Function that stops reading
+   */
+  listen(input: NodeJS.ReadableStream, controller: AbortController): () => void {
+    const lines = createInterface({ input, crlfDelay: Infinity });
+    lines.on('line', line => {
+      if (parseRunnerMessage(line)?.type === 'cancel') {
+        controller.abort();
+      }
+    });
+    return () => lines.close();
+  }
+}
+
+/**
+ * Parse one line of the protocol
+ *
+ * @param line - JSON line written by a runner or host
+ * @returns The message, or undefined for blank lines, other output, unknown
+ *   message types and other protocol versions
+ */
+export function parseRunnerMessage(line: string): RunnerMessage | undefined {
+  if (!line.trim().startsWith('{')) {
+    return undefined;
+  }
+
+  try {
+    const message = JSON.parse(line);
+    if (message?.v !== RUNNER_PROTOCOL_VERSION || !EVENT_TYPES.has(message.type)) {
+      return undefined;
+    }
+    return message as RunnerMessage;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Format an extra logger argument for a warning message
+ */
+function formatDetail(detail: unknown): string {
+  if (detail instanceof Error) {
+    return detail.message;
+  }
+  if (typeof detail === 'string') {
+    return detail;
+  }
+  try {
+    return JSON.stringify(detail) ?? String(detail);
+  } catch {
+    return String(detail);
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * Monorepo Workspace Discovery
+ *
+ * This module finds the packages of a monorepo: npm/yarn `workspaces` in
+ * `package.json`, `pnpm-workspace.yaml` and `lerna.json` package globs, Nx
+ * projects (`project.json`), Turborepo's conventional `apps/*` and
+ * `packages/*` folders, and Python packages with their own `pyproject.toml`
+ * below the repository root. The ResultsAggregator uses them to summarize
+ * each package separately.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join, posix } from 'node:path';
+import type { RepositoryFileReader, WorkspaceSource } from '../types/index.js';
+import { getPackageTargetCandidates } from './import-resolver.js';
+import { extractYamlList, getTomlTable, getTomlString, getTomlStrings } from '../utils/manifest-formats.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * A package of the workspace
+ */
+export interface WorkspacePackageDefinition {
+  /** Package name from its manifest, or its directory name */
+  name: string;
+  /** Repository-relative package directory */
+  path: string;
+  /** Configuration that makes the directory a workspace package */
+  declared_by: WorkspaceSource;
+  /** Manifest describing the package */
+  manifest: 'package.json' | 'project.json' | 'pyproject.toml';
+  /** Module paths of declared executables (`bin`, `[project.scripts]`) */
+  entries: string[];
+}
+
+/**
+ * A workspace package glob and the file declaring it
+ */
+interface WorkspacePattern {
+  /** Repository-relative glob; `!` excludes matching directories */
+  pattern: string;
+  source: WorkspaceSource;
+}
+
+/**
+ * Package folders Turborepo projects use when the package manager config is not tracked
+ */
+const DEFAULT_TURBO_PATTERNS = ['apps/*', 'packages/*'];
+
+/**
+ * Package folders Lerna uses when `lerna.json` lists none
+ */
+const DEFAULT_LERNA_PATTERNS = ['packages/*'];
+
+/**
+ * Packages of a monorepo workspace
+ *
+ * Instances are created with `WorkspaceDetector.load`, which reads the
+ * workspace configuration and package manifests up front.
+ */
+export class WorkspaceDetector {
+  private readonly packages: WorkspacePackageDefinition[] = [];
+
+  /**
+   * Discover the workspace packages of a repository
+   *
+   * Unreadable or malformed configuration files are skipped.
+   *
+   * @param repositoryPath - Path to the repository root
+   * @param trackedFiles - Repository-relative paths of all tracked files
+   * @param readRepositoryFile - Reads configuration files (defaults to the working tree)
+   * @returns Promise that resolves to the discovered workspace
+   */
+  static async load(
+    repositoryPath: string,
+    trackedFiles: string[],
+    readRepositoryFile: RepositoryFileReader = filePath => readFile(join(repositoryPath, filePath), 'utf8')
+  ): Promise<WorkspaceDetector> {
+    const detector = new WorkspaceDetector();
+    const manifests = new Map<string, Record<string, any>>();
+    const patterns: WorkspacePattern[] = [];
+    let turboConfigDir: string | undefined;
+    let usesNx = false;
+
+    for (const filePath of trackedFiles) {
+      const fileName = posix.basename(filePath);
+      const dir = normalizeDir(posix.dirname(filePath));
+
+      try {
+        if (fileName === 'package.json') {
+          const manifest = JSON.parse(await readRepositoryFile(filePath));
+          if (!manifest || typeof manifest !== 'object') {
+            continue;
+          }
+          manifests.set(dir, manifest);
+
+          // "workspaces": [...] or the yarn form "workspaces": { "packages": [...] }
+          const workspaces = Array.isArray(manifest.workspaces) ? manifest.workspaces : manifest.workspaces?.packages;
+          patterns.push(...toWorkspacePatterns(dir, workspaces, 'package.json'));
+        } else if (fileName === 'pnpm-workspace.yaml') {
+          const source = await readRepositoryFile(filePath);
+          patterns.push(...toWorkspacePatterns(dir, extractYamlList(source, 'packages'), 'pnpm-workspace.yaml'));
+        } else if (fileName === 'lerna.json') {
+          const config = JSON.parse(await readRepositoryFile(filePath));
+          patterns.push(...toWorkspacePatterns(dir, config?.packages ?? DEFAULT_LERNA_PATTERNS, 'lerna.json'));
+        } else if (fileName === 'turbo.json' && turboConfigDir === undefined) {
+          turboConfigDir = dir;
+        } else if (fileName === 'nx.json') {
+          usesNx = true;
+        }
+      } catch (error) {
+        logger.warn(`⚠️  Could not read workspace configuration from ${filePath}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    // Turborepo relies on the package manager's workspaces
+    if (turboConfigDir !== undefined && !patterns.some(pattern => !pattern.pattern.startsWith('!'))) {
+      patterns.push(...toWorkspacePatterns(turboConfigDir, DEFAULT_TURBO_PATTERNS, 'turbo.json'));
+    }
+
+    for (const [dir, manifest] of manifests) {
+      const source = detector.matchWorkspacePatterns(dir, patterns);
+      if (dir !== '' && source) {
+        detector.packages.push({
+          name: typeof manifest.name === 'string' && manifest.name ? manifest.name : posix.basename(dir),
+          path: dir,
+          declared_by: source,
+          manifest: 'package.json',
+          entries: getBinTargets(manifest.bin).flatMap(target => getPackageTargetCandidates(dir, target))
+        });
+      }
+    }
+
+    for (const filePath of trackedFiles) {
+      const fileName = posix.basename(filePath);
+      const dir = normalizeDir(posix.dirname(filePath));
+      if (dir === '' || detector.packages.some(pkg => pkg.path === dir)) {
+        continue;
+      }
+
+      try {
+        if (fileName === 'project.json' && usesNx) {
+          await detector.loadNxProject(readRepositoryFile, filePath);
+        } else if (fileName === 'pyproject.toml') {
+          await detector.loadPythonPackage(readRepositoryFile, filePath);
+        }
+      } catch (error) {
+        logger.warn(`⚠️  Could not read workspace package from ${filePath}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    detector.packages.sort((a, b) => a.path.localeCompare(b.path));
+    return detector;
+  }
+
+  /**
+   * Get all workspace packages, sorted by directory
+   *
+   * @returns Workspace packages
+   */
+  getPackages(): WorkspacePackageDefinition[] {
+    return [...this.packages];
+  }
+
+  /**
+   * Find the package a file belongs to
+   *
+   * Nested packages take precedence over the packages containing them.
+   *
+   * @param filePath - Repository-relative file path
+   * @returns The innermost package containing the file, if any
+   */
+  findPackage(filePath: string): WorkspacePackageDefinition | undefined {
+    let owner: WorkspacePackageDefinition | undefined;
+
+    for (const pkg of this.packages) {
+      if (filePath.startsWith(`${pkg.path}/`) && (!owner || pkg.path.length > owner.path.length)) {
+        owner = pkg;
+      }
+    }
+
+    return owner;
+  }
+
+  /**
+   * Get the source of the last workspace pattern deciding about a directory
+   *
+   * Later patterns win, so `!packages/internal` after `packages/*`
+   * excludes that package.
+   *
+   * @returns Source of the including pattern, or undefined if the directory is not a package
+   * @private
+   */
+  private matchWorkspacePatterns(dir: string, patterns: WorkspacePattern[]): WorkspaceSource | undefined {
+    let source: WorkspaceSource | undefined;
+
+    for (const { pattern, source: patternSource } of patterns) {
+      const excluded = pattern.startsWith('!');
+      if (globToRegExp(excluded ? pattern.slice(1) : pattern).test(dir)) {
+        source = excluded ? undefined : source ?? patternSource;
+      }
+    }
+
+    return source;
+  }
+
+  /**
+   * Add an Nx project declared by a `project.json`
+   *
+   * @private
+   */
+  private async loadNxProject(readRepositoryFile: RepositoryFileReader, projectPath: string): Promise<void> {
+    const project = JSON.parse(await readRepositoryFile(projectPath));
+    const dir = normalizeDir(posix.dirname(projectPath));
+
+    this.packages.push({
+      name: typeof project?.name === 'string' && project.name ? project.name : posix.basename(dir),
+      path: dir,
+      declared_by: 'nx.json',
+      manifest: 'project.json',
+      entries: []
+    });
+  }
+
+  /**
+   * Add a Python package with its own `pyproject.toml`
+   *
+   * Console scripts (`cli = "acme.cli:main"`) become entries pointing at
+   * their module, in the package directory or its `src/` layout.
+   *
+   * @private
+   */
+  private async loadPythonPackage(readRepositoryFile: RepositoryFileReader, configPath: string): Promise<void> {
+    const source = await readRepositoryFile(configPath);
+    const dir = normalizeDir(posix.dirname(configPath));
+    const name = getTomlString(getTomlTable(source, 'project'), 'name') ??
+      getTomlString(getTomlTable(source, 'tool.poetry'), 'name') ??
+      posix.basename(dir);
+
+    const scripts = [
+      ...getTomlStrings(getTomlTable(source, 'project.scripts')),
+      ...getTomlStrings(getTomlTable(source, 'tool.poetry.scripts'))
+    ];
+    const entries = scripts.flatMap(script => {
+      const modulePath = script.split(':')[0]!.trim().split('.').join('/');
+      return modulePath ? [posix.join(dir, modulePath), posix.join(dir, 'src', modulePath)] : [];
+    });
+
+    this.packages.push({ name, path: dir, declared_by: 'pyproject.toml', manifest: 'pyproject.toml', entries });
+  }
+}
+
+/**
+ * Turn the package globs of a workspace configuration into repository-relative patterns
+ */
+function toWorkspacePatterns(configDir: string, globs: unknown, source: WorkspaceSource): WorkspacePattern[] {
+  if (!Array.isArray(globs)) {
+    return [];
+  }
+
+  return globs
+    .filter((glob): glob is string => typeof glob === 'string' && glob.trim() !== '')
+    .map(glob => {
+      const excluded = glob.startsWith('!');
+      const relativeGlob = (excluded ? glob.slice(1) : glob).replace(/^\.\//, '').replace(/\/+$/, '');
+      const pattern = normalizeDir(posix.join(configDir || '.', relativeGlob));
+      return { pattern: excluded ? `!${pattern}` : pattern, source };
+    });
+}
+
+/**
+ * Convert a workspace glob (`packages/*`, `apps/**`) into a regular expression for directories
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split(/(\*\*\/?|\*)/)
+    .map(part => {
+      if (part === '**/') return '(?:.*/)?';
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Get the targets of a `bin` field (a path, or an object of command names to paths)
+ */
+function getBinTargets(bin: unknown): string[] {
+  if (typeof bin === 'string') {
+    return [bin];
+  }
+  if (bin && typeof bin === 'object' && !Array.isArray(bin)) {
+    return Object.values(bin).filter((target): target is string => typeof target === 'string');
+  }
+  return [];
+}
+
+/**
+ * Use '' instead of '.' for the repository root
+ */
+function normalizeDir(dir: string): string {
+  return dir === '.' ? '' : dir;
+}
@@ -14,23 +14,51 @@ import { FrameworkDetector } from './patterns/framework-detector.js';
 import { ApiDetector } from './patterns/api-detector.js';
 import { StateDetector } from './patterns/state-detector.js';
 import { EventDetector } from './patterns/event-detector.js';
+import { AnalysisCache } from './core/analysis-cache.js';
+import { ImportResolver } from './core/import-resolver.js';
+import { WorkspaceDetector } from './core/workspace-detector.js';
+import { ManifestReader } from './core/manifest-reader.js';
+import { ContextPacker, type ContextDetail } from './core/context-packer.js';
+import { RepositoryWatcher } from './core/repository-watcher.js';
+import type { GitFileChange } from './core/git-processor.js';
+import { join, resolve as resolvePath } from 'node:path';
+import { readFile } from 'node:fs/promises';
 
 import type {
   AnalysisResult,
-  AnalysisOptions
+  AnalysisOptions,
+  FileAnalysis,
+  DeclaredDependency,
+  TextOutputOptions,
+  WatchOptions,
+  AnalysisSource,
+  RepositoryFileReader
 } from './types/index.js';
 import { ANALYSIS_ENGINE_VERSION } from './types/index.js'; // Regular import for value
 import { shouldExcludeFile, filterTestFiles, getFilterStats } from './utils/test-file-filter.js';
+import { estimateTokens } from './utils/token-estimate.js';
+import { logger } from './utils/logger.js';
 
 // Re-export core types for convenience
 export type {
   AnalysisResult,
   AnalysisOptions,
+  TextOutputOptions,
+  WatchOptions,
+  AnalysisSource,
+  AnalysisPhase,
   FileAnalysis,
   ProjectSummary,
   DependencyGraph,
   FrameworkDetection,
-  SupportedLanguage
+  SupportedLanguage,
+  IncrementalAnalysisInfo,
+  PackageSummary,
+  DeclaredPackages,
+  DeclaredDependency,
+  CallGraph,
+  CallEdge,
+  UnresolvedCall
 } from './types/index.js';
 
 // Re-export core classes for advanced usage
@@ -38,7 +66,18 @@ export {
   GitProcessor,
   FileProcessor,
   AnalysisCoordinator,
-  ResultsAggregator
+  ResultsAggregator,
+  AnalysisCache,
+  OpenApiExporter,
+  CallGraphIndex,
+  ContextPacker
+} from './core/index.js';
+
+// Re-export OpenAPI export of detected endpoints
+export {
+  exportOpenApi,
+  type OpenApiDocument,
+  type OpenApiExportOptions
 } from './core/index.js';
 
 // Re-export pattern detection classes
@@ -46,11 +85,42 @@ export {
   FrameworkDetector,
   ApiDetector,
   StateDetector,
-  EventDetector
+  EventDetector,
+  IpcDetector,
+  ElectronDetector
 } from './patterns/index.js';
 
 export { ANALYSIS_ENGINE_VERSION } from './types/index.js';
 
+// Re-export the logger hook and the runner child-process protocol
+export {
+  setLogger,
+  consoleLogger,
+  silentLogger,
+  type Logger
+} from './utils/logger.js';
+export {
+  RunnerProtocol,
+  RUNNER_PROTOCOL_VERSION,
+  parseRunnerMessage,
+  type RunnerEvent,
+  type RunnerMessage
+} from './core/index.js';
+
+// Re-export the watch-mode events
+export {
+  RepositoryWatcher,
+  diffResults,
+  type RepositoryWatcherEvents,
+  type FileChangedEvent,
+  type FileRemovedEvent,
+  type ResultUpdatedEvent,
+  type ResultDiff,
+  type DependencyEdge,
+  type FrameworkConfidenceChange,
+  type SummaryChange
+} from './core/index.js';
+
 /**
  * Analyze a git repository and return comprehensive analysis results
  *
@@ -95,49 +165,22 @@ export async function analyzeRepository(
     // Initialize core components
     const gitProcessor = new GitProcessor(repositoryPath);
     const fileProcessor = new FileProcessor(repositoryPath);
-    const analysisCoordinator = new AnalysisCoordinator();
-
-    // Initialize pattern detectors
-    const frameworkDetector = new FrameworkDetector();
-    const apiDetector = new ApiDetector();
-    const stateDetector = new StateDetector();
-    const eventDetector = new EventDetector();
-
-    // Initialize results aggregator
-    const resultsAggregator = new ResultsAggregator({
-      repositoryPath,
-      includeFrameworks: true,
-      detectCircularDependencies: true
-    });
+    const analysisCoordinator = options.coordinator || new AnalysisCoordinator();
+    const cache = options.use_cache ? await openAnalysisCache(repositoryPath, options) : null;
 
     // Phase 1: Discover git-tracked files
+    options.on_phase?.('discovering');
     if (options.on_progress) {
       options.on_progress(0, 100, 'Discovering files...');
     }
 
-    const trackedFiles = await gitProcessor.getTrackedFiles();
+    const source = await resolveAnalysisSource(gitProcessor, options.source);
+    const trackedFiles = await gitProcessor.getSourceFiles(source);
+    const analyzedCommit = await getAnalyzedCommit(gitProcessor, source);
+    const readRepositoryFile = createRepositoryFileReader(gitProcessor, source);
 
     // Apply file filters if specified
-    let filesToAnalyze = trackedFiles;
-    
-    // Filter by extensions first
-    if (options.extensions) {
-      filesToAnalyze = filesToAnalyze.filter(file =>
-        options.extensions!.some(ext => file.endsWith(ext))
-      );
-    }
-
-    // Filter out test files if requested
-    if (options.exclude_test_files) {
-      const beforeTestFilter = filesToAnalyze.length;
-      filesToAnalyze = filterTestFiles(filesToAnalyze);
-      const afterTestFilter = filesToAnalyze.length;
-      const excludedCount = beforeTestFilter - afterTestFilter;
-      
-      if (options.on_progress && excludedCount > 0) {
-        console.log(`   Excluded ${excludedCount} test files from analysis`);
-      }
-    }
+    let filesToAnalyze = filterFilesForAnalysis(trackedFiles, options);
 
     // Apply limit if specified
     if (options.limit) {
@@ -146,84 +189,223 @@ export async function analyzeRepository(
 
     if (filesToAnalyze.length === 0) {
       // Return empty result if no files to analyze
-      return {
-        folder_structure: {},
-        summary: {
-          total_files: 0,
-          total_lines: 0,
-          languages: {},
-          extensions: {}
-        },
-        dependencies: {},
-        metadata: {
-          timestamp: new Date().toISOString(),
-          duration_ms: Date.now() - startTime,
-          engine_version: ANALYSIS_ENGINE_VERSION,
-          repository_path: repositoryPath
-        }
-      };
+      return createEmptyResult(repositoryPath, startTime);
     }
 
     // Phase 2: Read and process files
-    const fileContents = await fileProcessor.processFiles(
-      filesToAnalyze,
-      async (content, filePath) => content, // Just return content, coordinator will analyze
-      {
-        concurrencyLimit: options.concurrency || 10,
-        maxFileSize: options.max_file_size || 1024 * 1024, // 1MB default
-        onProgress: options.on_progress ? (completed, total, current) => {
-          const phase2Progress = Math.floor((completed / total) * 30) + 10; // 10-40%
-          options.on_progress!(phase2Progress, 100, `Reading ${current}`);
-        } : undefined,
-        signal: options.signal
-      }
+    const filesForAnalysis = await readFilesForAnalysis(fileProcessor, gitProcessor, filesToAnalyze, source, options);
+
+    // Phase 3: Analyze files with coordinator
+    const { analyses: analysisMap } = await analyzeFileContents(
+      analysisCoordinator,
+      filesForAnalysis,
+      cache,
+      options
     );
 
-    // Convert file contents to analysis input format
-    const filesForAnalysis = new Map<string, string>();
-    for (const [filePath, contentOrError] of fileContents) {
-      if (contentOrError instanceof Error) {
-        // Skip files that couldn't be read, but include empty content to track the error
-        filesForAnalysis.set(filePath, '');
-      } else {
-        filesForAnalysis.set(filePath, contentOrError);
+    // Phase 4: Run pattern detection
+    options.on_phase?.('detecting');
+    if (options.on_progress) {
+      options.on_progress(70, 100, 'Detecting patterns...');
+    }
+
+    const manifests = await ManifestReader.load(repositoryPath, trackedFiles, readRepositoryFile);
+    const [frameworkDetections, apiEndpoints, statePatterns, eventHandlers] = await detectPatterns(
+      analysisMap,
+      manifests.getDependencies()
+    );
+
+    // Phase 5: Aggregate results
+    options.on_phase?.('aggregating');
+    if (options.on_progress) {
+      options.on_progress(90, 100, 'Aggregating results...');
+    }
+
+    const resultsAggregator = await createResultsAggregator(repositoryPath, trackedFiles, manifests, readRepositoryFile);
+    const finalResult = resultsAggregator.aggregateFileAnalyses(
+      analysisMap,
+      frameworkDetections,
+      apiEndpoints,
+      statePatterns,
+      eventHandlers,
+      startTime
+    );
+
+    if (analyzedCommit && finalResult.metadata) {
+      finalResult.metadata.commit = analyzedCommit;
+
+      const uncommittedFiles = await getUncommittedFiles(gitProcessor, source, analysisMap);
+      if (uncommittedFiles.length > 0) {
+        finalResult.metadata.uncommitted_files = uncommittedFiles;
       }
     }
 
-    // Phase 3: Analyze files with coordinator
-    const fileAnalyses = await analysisCoordinator.analyzeFiles(filesForAnalysis, {
-      signal: options.signal,
-      on_progress: options.on_progress ? (completed, total, current) => {
-        const phase3Progress = Math.floor((completed / total) * 30) + 40; // 40-70%
-        options.on_progress!(phase3Progress, 100, `Analyzing ${current}`);
-      } : undefined
-    });
+    if (cache) {
+      await cache.save();
+    }
 
-    // Phase 4: Run pattern detection
+    options.on_phase?.('complete');
     if (options.on_progress) {
-      options.on_progress(70, 100, 'Detecting patterns...');
+      options.on_progress(100, 100, 'Analysis complete');
+    }
+
+    return finalResult;
+
+  } catch (error) {
+    // Ensure we always return a valid result structure, even on error
+    return createErrorResult(repositoryPath, startTime, error);
+  }
+}
+
+/**
+ * Re-analyze a repository starting from a previous analysis result
+ *
+ * Only files that were added or modified between the commit recorded in
+ * `previousResult.metadata.commit` and the current HEAD are read and parsed
+ * again, together with files that have uncommitted edits now or had them in
+ * the previous result; deleted files are dropped and every other file
+ * analysis is reused.
+ * Pattern detection, the folder structure, summary and dependency graph are
+ * then rebuilt from the merged set of analyses. Re-analyzed files go through
+ * the persistent analysis cache, so content seen before (e.g. after switching
+ * branches back and forth) is not parsed twice.
+ *
+ * With a `{ commit }` source the target is that commit instead of HEAD.
+ * When the previous result has no commit, failed, or its commit is no longer
+ * reachable, or the source is the working tree or the index, this falls back
+ * to a full (cached) analysis.
+ *
+ * @param repositoryPath - Absolute or relative path to the git repository
+ * @param previousResult - Result of an earlier analyzeRepository/analyzeRepositoryIncremental call
+ * @param options - Configuration options; file filters should match the previous run
+ * @returns Promise that resolves to analysis results for the current HEAD (or source commit)
+ *
+ * @example
+ * ```typescript
+ * const first = await analyzeRepository('./my-project');
+ * // ... commits happen ...
+ * const updated = await analyzeRepositoryIncremental('./my-project', first);
+ * console.log(`Re-analyzed ${updated.metadata?.incremental?.changed_files} files`);
+ * ```
+ */
+export async function analyzeRepositoryIncremental(
+  repositoryPath: string,
+  previousResult: AnalysisResult,
+  options: AnalysisOptions = {}
+): Promise<AnalysisResult> {
+  const startTime = Date.now();
+  const baseCommit = previousResult.metadata?.commit;
+
+  // Working-tree and index contents have no commit to compare against
+  if (!baseCommit || previousResult.metadata?.error || options.source === 'worktree' || options.source === 'index') {
+    return analyzeRepository(repositoryPath, { ...options, use_cache: true });
+  }
+
+  try {
+    const gitProcessor = new GitProcessor(repositoryPath);
+    const fileProcessor = new FileProcessor(repositoryPath);
+    const analysisCoordinator = options.coordinator || new AnalysisCoordinator();
+    const cache = await openAnalysisCache(repositoryPath, options);
+
+    // Phase 1: Find what changed since the previous result
+    options.on_phase?.('comparing');
+    if (options.on_progress) {
+      options.on_progress(0, 100, 'Comparing commits...');
+    }
+
+    const source = await resolveAnalysisSource(gitProcessor, options.source);
+    const targetCommit = await getAnalyzedCommit(gitProcessor, source);
+    if (!targetCommit) {
+      return createEmptyResult(repositoryPath, startTime);
     }
 
-    // Extract just the FileAnalysis objects for pattern detection
-    const analysisMap = new Map<string, any>();
-    for (const [filePath, result] of fileAnalyses) {
-      analysisMap.set(filePath, result.analysis);
+    let changes: GitFileChange[];
+    try {
+      changes = await gitProcessor.getChangedFiles(baseCommit, targetCommit);
+    } catch {
+      // Base commit is gone (rebased, shallow clone, different repository)
+      return analyzeRepository(repositoryPath, { ...options, use_cache: true });
     }
 
-    const [frameworkDetections, apiEndpoints, statePatterns, eventHandlers] = await Promise.all([
-      Promise.resolve(frameworkDetector.detectFrameworks(analysisMap)),
-      Promise.resolve(apiDetector.detectEndpoints(analysisMap)),
-      Promise.resolve(stateDetector.detectStatePatterns(analysisMap)),
-      Promise.resolve(eventDetector.detectEventHandlers(analysisMap))
+    // Start from the previous file analyses
+    const analysisMap = new Map<string, FileAnalysis>();
+    for (const files of Object.values(previousResult.folder_structure)) {
+      for (const file of files) {
+        analysisMap.set(file.path, file);
+      }
+    }
+
+    let removedFiles = 0;
+    const changedPaths: string[] = [];
+    for (const change of changes) {
+      // Stale analyses are dropped either way; changed files are re-added below
+      const wasAnalyzed = analysisMap.delete(change.path);
+      if (change.status === 'deleted') {
+        removedFiles += wasAnalyzed ? 1 : 0;
+      } else {
+        changedPaths.push(change.path);
+      }
+    }
+
+    // The previous result may hold working-tree contents of edited files, which
+    // are stale whatever is analyzed now; HEAD analyses read the working tree,
+    // so files edited since the previous result are stale too
+    const trackedFiles = await gitProcessor.getSourceFiles(source);
+    const trackedPaths = new Set(trackedFiles);
+    const committedPaths = new Set(changes.map(change => change.path));
+    const editedPaths = new Set([
+      ...(previousResult.metadata?.uncommitted_files || []),
+      ...(source === undefined ? await gitProcessor.getUncommittedFiles() : [])
     ]);
 
-    // Phase 5: Aggregate results
+    for (const path of editedPaths) {
+      if (committedPaths.has(path)) continue;
+      analysisMap.delete(path);
+      if (trackedPaths.has(path)) {
+        changedPaths.push(path);
+      }
+    }
+
+    const filesToAnalyze = filterFilesForAnalysis(
+      await gitProcessor.filterTextFiles(changedPaths),
+      options
+    );
+
+    // Phase 2-3: Read and analyze only the changed files
+    const filesForAnalysis = await readFilesForAnalysis(fileProcessor, gitProcessor, filesToAnalyze, source, options);
+    const { analyses: changedAnalyses, cacheHits } = await analyzeFileContents(
+      analysisCoordinator,
+      filesForAnalysis,
+      cache,
+      options
+    );
+
+    for (const [filePath, analysis] of changedAnalyses) {
+      analysisMap.set(filePath, analysis);
+    }
+
+    // Phase 4: Pattern detection runs on the merged set so cross-file evidence stays consistent
+    options.on_phase?.('detecting');
+    if (options.on_progress) {
+      options.on_progress(70, 100, 'Detecting patterns...');
+    }
+
+    const readRepositoryFile = createRepositoryFileReader(gitProcessor, source);
+    const manifests = await ManifestReader.load(repositoryPath, trackedFiles, readRepositoryFile);
+    const [frameworkDetections, apiEndpoints, statePatterns, eventHandlers] = await detectPatterns(
+      analysisMap,
+      manifests.getDependencies()
+    );
+
+    // Phase 5: Rebuild folder structure, summary and dependencies
+    options.on_phase?.('aggregating');
     if (options.on_progress) {
       options.on_progress(90, 100, 'Aggregating results...');
     }
 
-    const finalResult = resultsAggregator.aggregateResults(
-      fileAnalyses,
+    const resultsAggregator = await createResultsAggregator(repositoryPath, trackedFiles, manifests, readRepositoryFile);
+    const finalResult = resultsAggregator.aggregateFileAnalyses(
+      analysisMap,
       frameworkDetections,
       apiEndpoints,
       statePatterns,
@@ -231,6 +413,25 @@ export async function analyzeRepository(
       startTime
     );
 
+    if (finalResult.metadata) {
+      finalResult.metadata.commit = targetCommit;
+
+      const uncommittedFiles = await getUncommittedFiles(gitProcessor, source, analysisMap);
+      if (uncommittedFiles.length > 0) {
+        finalResult.metadata.uncommitted_files = uncommittedFiles;
+      }
+
+      finalResult.metadata.incremental = {
+        base_commit: baseCommit,
+        changed_files: changedAnalyses.size,
+        removed_files: removedFiles,
+        cache_hits: cacheHits
+      };
+    }
+
+    await cache.save();
+
+    options.on_phase?.('complete');
     if (options.on_progress) {
       options.on_progress(100, 100, 'Analysis complete');
     }
@@ -238,27 +439,373 @@ export async function analyzeRepository(
     return finalResult;
 
   } catch (error) {
-    // Ensure we always return a valid result structure, even on error
-    const errorMessage = error instanceof Error ? error.message : String(error);
-
-    return {
-      folder_structure: {},
-      summary: {
-        total_files: 0,
-        total_lines: 0,
-        languages: {},
-        extensions: {}
-      },
-      dependencies: {},
-      metadata: {
-        timestamp: new Date().toISOString(),
-        duration_ms: Date.now() - startTime,
-        engine_version: ANALYSIS_ENGINE_VERSION,
-        repository_path: repositoryPath,
-        error: errorMessage
-      } as any // Allow error in metadata
-    };
+    return createErrorResult(repositoryPath, startTime, error);
+  }
+}
+
+/**
+ * Analyze a repository and keep the result current while its working tree changes
+ *
+ * After a full analysis, file-system changes are collected until the tree
+ * has been quiet for `debounce_ms` and then handled as one batch. The
+ * working tree is always analyzed, whatever `source` says: files excluded by
+ * `.gitignore` are skipped, untracked files are picked up, and only files
+ * whose content changed are re-analyzed. Manifests and import and workspace
+ * configuration are read again only when one of them changes or files are
+ * added or removed. The watcher emits
+ * `fileChanged` and `fileRemoved` for each file and one `resultUpdated` per
+ * batch with the changed dependency edges, framework confidences and summary
+ * fields. The updated result describes the working tree, so it records no
+ * commit and is not a base for analyzeRepositoryIncremental.
+ *
+ * @param repositoryPath - Absolute or relative path to the git repository
+ * @param options - Configuration options, plus the debounce interval
+ * @returns Promise that resolves to the running watcher; call `close()` to stop it
+ * @throws {Error} If the initial analysis fails
+ *
+ * @example
+ * ```typescript
+ * const watcher = await watchRepository('./my-project', { exclude_test_files: true });
+ * watcher.on('resultUpdated', update => {
+ *   console.log(`Changed: ${update.changed_files.join(', ')}`);
+ *   console.log(`New imports:`, update.dependencies.added);
+ * });
+ * // ... later ...
+ * await watcher.close();
+ * ```
+ */
+export async function watchRepository(
+  repositoryPath: string,
+  options: WatchOptions = {}
+): Promise<RepositoryWatcher> {
+  const analysisCoordinator = options.coordinator || new AnalysisCoordinator();
+  const initialResult = await analyzeRepository(repositoryPath, {
+    ...options,
+    source: 'worktree',
+    coordinator: analysisCoordinator
+  });
+
+  const error = initialResult.metadata?.error;
+  if (error) {
+    throw new Error(`Failed to analyze ${repositoryPath}: ${error}`);
+  }
+
+  // Configuration read for the last batch, with the files it was read from
+  let configuration: { manifests: ManifestReader; resultsAggregator: ResultsAggregator; files: Set<string> } | undefined;
+
+  const watcher = new RepositoryWatcher(repositoryPath, initialResult, analysisCoordinator, {
+    selectFiles: filePaths => filterFilesForAnalysis(filePaths, options),
+    aggregate: async (analysisMap, batch) => {
+      const startTime = Date.now();
+
+      if (!configuration || batch.fileListChanged || batch.changedFiles.some(file => configuration!.files.has(file))) {
+        const files = new Set<string>();
+        const readRepositoryFile: RepositoryFileReader = filePath => {
+          files.add(filePath);
+          return readFile(join(repositoryPath, filePath), 'utf8');
+        };
+
+        const manifests = await ManifestReader.load(repositoryPath, batch.repositoryFiles, readRepositoryFile);
+        const resultsAggregator = await createResultsAggregator(
+          repositoryPath,
+          batch.repositoryFiles,
+          manifests,
+          readRepositoryFile
+        );
+        configuration = { manifests, resultsAggregator, files };
+      }
+
+      const { manifests, resultsAggregator } = configuration;
+      const [frameworkDetections, apiEndpoints, statePatterns, eventHandlers] = await detectPatterns(
+        analysisMap,
+        manifests.getDependencies()
+      );
+
+      return resultsAggregator.aggregateFileAnalyses(
+        analysisMap,
+        frameworkDetections,
+        apiEndpoints,
+        statePatterns,
+        eventHandlers,
+        startTime
+      );
+    }
+  }, options);
+
+  await watcher.start();
+  return watcher;
+}
+
+/**
+ * Create the results aggregator with the repository's import alias configuration
+ */
+async function createResultsAggregator(
+  repositoryPath: string,
+  trackedFiles: string[],
+  manifests: ManifestReader,
+  readRepositoryFile?: RepositoryFileReader
+): Promise<ResultsAggregator> {
+  return new ResultsAggregator({
+    repositoryPath,
+    includeFrameworks: true,
+    detectCircularDependencies: true,
+    importResolver: await ImportResolver.load(repositoryPath, trackedFiles, readRepositoryFile),
+    workspace: await WorkspaceDetector.load(repositoryPath, trackedFiles, readRepositoryFile),
+    manifests
+  });
+}
+
+/**
+ * Apply the extension and test-file filters from the analysis options
+ */
+function filterFilesForAnalysis(files: string[], options: AnalysisOptions): string[] {
+  let filesToAnalyze = files;
+
+  // Filter by extensions first
+  if (options.extensions) {
+    filesToAnalyze = filesToAnalyze.filter(file =>
+      options.extensions!.some(ext => file.endsWith(ext))
+    );
+  }
+
+  // Filter out test files if requested
+  if (options.exclude_test_files) {
+    const beforeTestFilter = filesToAnalyze.length;
+    filesToAnalyze = filterTestFiles(filesToAnalyze);
+    const afterTestFilter = filesToAnalyze.length;
+    const excludedCount = beforeTestFilter - afterTestFilter;
+
+    if (options.on_progress && excludedCount > 0) {
+      logger.info(`   Excluded ${excludedCount} test files from analysis`);
+    }
+  }
+
+  return filesToAnalyze;
+}
+
+/**
+ * Read file contents for analysis (10-40% of overall progress), from the
+ * working tree or, for index and commit sources, from git's object database
+ */
+async function readFilesForAnalysis(
+  fileProcessor: FileProcessor,
+  gitProcessor: GitProcessor,
+  filePaths: string[],
+  source: AnalysisSource | undefined,
+  options: AnalysisOptions
+): Promise<Map<string, string>> {
+  options.on_phase?.('reading');
+  const readOptions = {
+    maxFileSize: options.max_file_size || 1024 * 1024, // 1MB default
+    onProgress: options.on_progress ? (completed: number, total: number, current?: string) => {
+      const phase2Progress = Math.floor((completed / total) * 30) + 10; // 10-40%
+      options.on_progress!(phase2Progress, 100, `Reading ${current}`);
+    } : undefined,
+    signal: options.signal
+  };
+
+  const fileContents = source === undefined || source === 'worktree'
+    ? await fileProcessor.processFiles(
+        filePaths,
+        async (content, filePath) => content, // Just return content, coordinator will analyze
+        { ...readOptions, concurrencyLimit: options.concurrency || 10 }
+      )
+    : await gitProcessor.readFiles(filePaths, source, readOptions);
+
+  // Convert file contents to analysis input format
+  const filesForAnalysis = new Map<string, string>();
+  for (const [filePath, contentOrError] of fileContents) {
+    if (contentOrError instanceof Error) {
+      // Skip files that couldn't be read, but include empty content to track the error
+      options.on_file_error?.(filePath, contentOrError.message);
+      filesForAnalysis.set(filePath, '');
+    } else {
+      filesForAnalysis.set(filePath, contentOrError);
+    }
+  }
+
+  return filesForAnalysis;
+}
+
+/**
+ * Resolve a commit source to its full hash, so every read sees the same commit
+ */
+async function resolveAnalysisSource(
+  gitProcessor: GitProcessor,
+  source: AnalysisSource | undefined
+): Promise<AnalysisSource | undefined> {
+  if (source !== undefined && typeof source === 'object') {
+    return { commit: await gitProcessor.resolveCommit(source.commit) };
+  }
+  return source;
+}
+
+/**
+ * Get the commit an analysis of the source describes: HEAD by default, none
+ * for the working tree and the index
+ */
+async function getAnalyzedCommit(
+  gitProcessor: GitProcessor,
+  source: AnalysisSource | undefined
+): Promise<string | null> {
+  if (source === undefined) {
+    return gitProcessor.getHeadCommit();
+  }
+  return typeof source === 'object' ? source.commit : null;
+}
+
+/**
+ * Get the analyzed files whose working-tree contents differ from HEAD; only
+ * the default source reads HEAD's files from the working tree
+ */
+async function getUncommittedFiles(
+  gitProcessor: GitProcessor,
+  source: AnalysisSource | undefined,
+  analysisMap: Map<string, FileAnalysis>
+): Promise<string[]> {
+  if (source !== undefined) {
+    return [];
+  }
+  const uncommittedFiles = await gitProcessor.getUncommittedFiles();
+  return uncommittedFiles.filter(filePath => analysisMap.has(filePath)).sort();
+}
+
+/**
+ * Create the reader for configuration files of index and commit sources;
+ * other sources read them from the working tree
+ */
+function createRepositoryFileReader(
+  gitProcessor: GitProcessor,
+  source: AnalysisSource | undefined
+): RepositoryFileReader | undefined {
+  if (source === undefined || source === 'worktree') {
+    return undefined;
+  }
+  return filePath => gitProcessor.readFile(filePath, source);
+}
+
+/**
+ * Analyze file contents with the coordinator (40-70% of overall progress),
+ * answering from the analysis cache where possible
+ */
+async function analyzeFileContents(
+  analysisCoordinator: AnalysisCoordinator,
+  filesForAnalysis: Map<string, string>,
+  cache: AnalysisCache | null,
+  options: AnalysisOptions
+): Promise<{ analyses: Map<string, FileAnalysis>; cacheHits: number }> {
+  const analyses = new Map<string, FileAnalysis>();
+  const uncachedFiles = new Map<string, string>();
+
+  for (const [filePath, content] of filesForAnalysis) {
+    const cached = cache?.get(filePath, content);
+    if (cached) {
+      analyses.set(filePath, cached);
+    } else {
+      uncachedFiles.set(filePath, content);
+    }
+  }
+
+  options.on_phase?.('analyzing');
+  const fileAnalyses = await analysisCoordinator.analyzeFiles(uncachedFiles, {
+    signal: options.signal,
+    on_progress: options.on_progress ? (completed, total, current) => {
+      const phase3Progress = Math.floor((completed / total) * 30) + 40; // 40-70%
+      options.on_progress!(phase3Progress, 100, `Analyzing ${current}`);
+    } : undefined
+  });
+
+  for (const [filePath, result] of fileAnalyses) {
+    if (result.analysis.error) {
+      options.on_file_error?.(filePath, result.analysis.error);
+    }
+    analyses.set(filePath, result.analysis);
+    cache?.set(uncachedFiles.get(filePath) ?? '', result.analysis);
+  }
+
+  // Keep the original file order for deterministic downstream processing
+  const orderedAnalyses = new Map<string, FileAnalysis>();
+  for (const filePath of filesForAnalysis.keys()) {
+    const analysis = analyses.get(filePath);
+    if (analysis) {
+      orderedAnalyses.set(filePath, analysis);
+    }
   }
+
+  return {
+    analyses: orderedAnalyses,
+    cacheHits: filesForAnalysis.size - uncachedFiles.size
+  };
+}
+
+/**
+ * Run all pattern detectors over the file analyses
+ */
+async function detectPatterns(analysisMap: Map<string, FileAnalysis>, declaredDependencies: DeclaredDependency[]) {
+  const frameworkDetector = new FrameworkDetector();
+  const apiDetector = new ApiDetector();
+  const stateDetector = new StateDetector();
+  const eventDetector = new EventDetector();
+
+  return Promise.all([
+    Promise.resolve(frameworkDetector.detectFrameworks(analysisMap, declaredDependencies)),
+    Promise.resolve(apiDetector.detectEndpoints(analysisMap)),
+    Promise.resolve(stateDetector.detectStatePatterns(analysisMap)),
+    Promise.resolve(eventDetector.detectEventHandlers(analysisMap))
+  ]);
+}
+
+/**
+ * Open the persistent analysis cache for a repository
+ */
+async function openAnalysisCache(
+  repositoryPath: string,
+  options: AnalysisOptions
+): Promise<AnalysisCache> {
+  const cachePath = options.cache_path
+    ? resolvePath(options.cache_path)
+    : join(resolvePath(repositoryPath), '.git', 'code-analysis-cache.json');
+
+  const cache = new AnalysisCache(cachePath);
+  await cache.load();
+  return cache;
+}
+
+/**
+ * Create the result returned when there are no files to analyze
+ */
+function createEmptyResult(repositoryPath: string, startTime: number): AnalysisResult {
+  return {
+    folder_structure: {},
+    summary: {
+      total_files: 0,
+      total_lines: 0,
+      languages: {},
+      extensions: {}
+    },
+    dependencies: {},
+    metadata: {
+      timestamp: new Date().toISOString(),
+      duration_ms: Date.now() - startTime,
+      engine_version: ANALYSIS_ENGINE_VERSION,
+      repository_path: repositoryPath
+    }
+  };
+}
+
+/**
+ * Create a valid (empty) result structure carrying an error message
+ */
+function createErrorResult(repositoryPath: string, startTime: number, error: unknown): AnalysisResult {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const result = createEmptyResult(repositoryPath, startTime);
+
+  result.metadata = {
+    ...result.metadata!,
+    error: errorMessage
+  };
+
+  return result;
 }
 
 /**
@@ -274,7 +821,7 @@ export async function quickAnalyze(
 ): Promise<AnalysisResult> {
   return analyzeRepository(repositoryPath, {
     limit,
-    extensions: ['.js', '.jsx', '.ts', '.tsx', '.py', '.dart'],
+    extensions: ['.js', '.jsx', '.ts', '.tsx', '.vue', '.svelte', '.py', '.dart', '.java', '.kt', '.go'],
     concurrency: 5
   });
 }
@@ -336,7 +883,7 @@ const KEY_ABBREVIATIONS: Record<string, string> = {
  * Keys to skip when removeLineNumbers is true
  */
 const LINE_NUMBER_KEYS = [
-  'line_number', 'line', 'ln', 'start_line', 'end_line',
+  'line_number', 'line', 'ln', 'start_line', 'end_line', 'end_line_number', 'import_lines', 'export_lines',
   'lines', 'characters', 'non_empty_lines', 'avg_line_length',
   'total_lines', 'blank_lines', 'comment_lines', 'code_lines',
   'file_size', 'bytes', 'word_count', 'char_count'
@@ -570,28 +1117,89 @@ function formatFileContent(filePath: string, fileData: any, config: FlatConfig):
   return lines.join('\n');
 }
 
+/**
+ * Format the signatures of a file, without docstrings
+ */
+function formatFileSignatures(filePath: string, fileData: any, config: FlatConfig): string {
+  const functions = Object.fromEntries(Object.entries(fileData.functions || {})
+    .map(([signature, functionInfo]: [string, any]) => [signature, { ...functionInfo, docstring: undefined }]));
+  const classes = Object.fromEntries(Object.entries(fileData.classes || {})
+    .map(([className, classInfo]: [string, any]) => [className, { ...classInfo, docstring: undefined }]));
+
+  return formatFileContent(filePath, { functions, classes }, config);
+}
+
 /**
  * Convert analysis result to flat text format
+ *
+ * Without packing options every file is written in full, sorted by path.
+ * With a focus or query, files are sorted by relevance instead; with a token
+ * budget, the lower-ranked files are shortened to their signatures or path,
+ * or left out, so that the estimated size of the text fits the budget.
  */
-function convertAnalysisToFlatText(analysisResult: AnalysisResult, config: FlatConfig = DEFAULT_FLAT_CONFIG): string {
+function convertAnalysisToFlatText(
+  analysisResult: AnalysisResult,
+  config: FlatConfig = DEFAULT_FLAT_CONFIG,
+  packing: Pick<TextOutputOptions, 'maxTokens' | 'focusPaths' | 'query'> = {}
+): string {
   const fileMap = extractFileInfo(analysisResult);
   const outputLines: string[] = [];
+  const sectionLines: string[] = [];
+  appendAnalysisSections(sectionLines, analysisResult);
 
-  // Sort files by path for consistent output
-  const sortedPaths = Array.from(fileMap.keys()).sort();
-
-  sortedPaths.forEach(filePath => {
-    const fileData = fileMap.get(filePath);
+  const fileContents = new Map<string, string>();
+  fileMap.forEach((fileData, filePath) => {
     const content = formatFileContent(filePath, fileData, config);
-    
     if (content && content.trim().length > 0) {
-      outputLines.push(`<file path="${filePath}"/>`);
-      outputLines.push(content);
+      fileContents.set(filePath, content);
     }
   });
 
-  // Add dependencies if present
-  if (analysisResult.dependencies && Object.keys(analysisResult.dependencies).length > 0) {
+  const renderFile = (filePath: string, detail: ContextDetail): string => {
+    const content = detail === 'full'
+      ? fileContents.get(filePath)!
+      : detail === 'signatures' ? formatFileSignatures(filePath, fileMap.get(filePath), config) : '';
+    return content ? [`<file path="${filePath}"/>`, content].join(config.fileSeparator) : `<file path="${filePath}"/>`;
+  };
+  const renderDependencies = (filePath: string, detail: ContextDetail): string => {
+    const deps = analysisResult.dependencies?.[filePath];
+    return detail === 'full' && Array.isArray(deps) && deps.length > 0 ? `  ${filePath}: ${deps.join(', ')}` : '';
+  };
+
+  const isPacked = packing.maxTokens !== undefined || (packing.focusPaths || []).length > 0 || !!packing.query;
+  let files: Array<{ path: string; detail: ContextDetail; text: string }>;
+
+  if (!isPacked) {
+    // Sort files by path for consistent output
+    files = Array.from(fileContents.keys()).sort()
+      .map(filePath => ({ path: filePath, detail: 'full' as const, text: renderFile(filePath, 'full') }));
+  } else {
+    const packer = new ContextPacker(packing);
+    const rankedFiles = packer.rankFiles(analysisResult).filter(file => fileContents.has(file.path));
+    files = rankedFiles.map(file => ({ path: file.path, detail: 'full' as const, text: renderFile(file.path, 'full') }));
+
+    if (packing.maxTokens !== undefined) {
+      // The header and the sections after the files are written regardless of the budget
+      const fileCount = rankedFiles.length;
+      const header = formatContextHeader(packing.maxTokens, {
+        full: fileCount, signatures: fileCount, path: fileCount, omitted: fileCount
+      });
+      const reservedTokens = estimateTokens([
+        header, '\n<dependencies>', '</dependencies>', ...sectionLines
+      ].join(config.fileSeparator)) + estimateTokens(config.fileSeparator);
+
+      files = packer.pack(rankedFiles, renderFile, packing.maxTokens - reservedTokens, config.fileSeparator, renderDependencies);
+      const count = (detail: ContextDetail) => files.filter(file => file.detail === detail).length;
+      outputLines.push(formatContextHeader(packing.maxTokens, {
+        full: count('full'), signatures: count('signatures'), path: count('path'), omitted: fileCount - files.length
+      }));
+    }
+  }
+
+  files.forEach(file => outputLines.push(file.text));
+
+  // Add dependencies if present; packed output lists those of the files written in full
+  if (!isPacked && analysisResult.dependencies && Object.keys(analysisResult.dependencies).length > 0) {
     outputLines.push('\n<dependencies>');
     Object.entries(analysisResult.dependencies).forEach(([file, deps]) => {
       if (Array.isArray(deps) && deps.length > 0) {
@@ -600,10 +1208,93 @@ function convertAnalysisToFlatText(analysisResult: AnalysisResult, config: FlatC
     });
     outputLines.push('</dependencies>');
   }
+  const packedDependencies = isPacked ? files.map(file => renderDependencies(file.path, file.detail)).filter(line => line) : [];
+  if (packedDependencies.length > 0) {
+    outputLines.push('\n<dependencies>', ...packedDependencies, '</dependencies>');
+  }
+
+  outputLines.push(...sectionLines);
 
   return outputLines.join(config.fileSeparator);
 }
 
+/**
+ * Format the header describing how the files were packed into the budget
+ */
+function formatContextHeader(maxTokens: number, counts: Record<ContextDetail | 'omitted', number>): string {
+  return `<context budget="${maxTokens}" full="${counts.full}" signatures="${counts.signatures}" ` +
+    `paths="${counts.path}" omitted="${counts.omitted}"/>`;
+}
+
+/**
+ * Append the repository-wide sections that follow the files and dependencies
+ */
+function appendAnalysisSections(outputLines: string[], analysisResult: AnalysisResult): void {
+  // Add import cycles with the import behind each step
+  if (analysisResult.cycles && analysisResult.cycles.length > 0) {
+    outputLines.push('\n<cycles>');
+    analysisResult.cycles.forEach(cycle => {
+      const cycleLines = [`  ${cycle.chain.join(' -> ')}`];
+      cycle.edges.forEach(edge => {
+        const location = edge.line !== undefined ? `${edge.from}:${edge.line}` : edge.from;
+        cycleLines.push(`    ${location} imports ${edge.specifier ?? edge.to}`);
+      });
+      outputLines.push(cycleLines.join('\n'));
+    });
+    outputLines.push('</cycles>');
+  }
+
+  // Add Electron IPC channels with both sides of each channel
+  if (analysisResult.ipc && analysisResult.ipc.channels.length > 0) {
+    outputLines.push('\n<ipc>');
+    analysisResult.ipc.channels.forEach(channel => {
+      const flags = [...(channel.dynamic ? ['dynamic'] : []), ...(channel.issues || [])];
+      const channelLines = [`  ${channel.channel}${flags.length > 0 ? ` [${flags.join(', ')}]` : ''}`];
+      const roles = [
+        ['handler', channel.handlers],
+        ['sender', channel.senders],
+        ['push', channel.pushes],
+        ['listener', channel.listeners]
+      ] as const;
+      roles.forEach(([role, references]) => {
+        references.forEach(reference => {
+          const container = reference.container ? ` in ${reference.container}` : '';
+          const exposed = reference.exposed_as ? ` as ${reference.exposed_as}` : '';
+          channelLines.push(`    ${role} ${reference.file}:${reference.line} ${reference.method}${container}${exposed}`);
+          (reference.callers || []).forEach(caller => {
+            channelLines.push(`      caller ${caller.file}:${caller.line}${caller.container ? ` in ${caller.container}` : ''}`);
+          });
+        });
+      });
+      outputLines.push(channelLines.join('\n'));
+    });
+    outputLines.push('</ipc>');
+  }
+
+  // Add Electron security findings
+  if (analysisResult.electron_security && analysisResult.electron_security.length > 0) {
+    outputLines.push('\n<electron_security>');
+    analysisResult.electron_security.forEach(finding => {
+      outputLines.push(`  ${finding.rule} ${finding.file}:${finding.line} ${finding.evidence}`);
+    });
+    outputLines.push('</electron_security>');
+  }
+}
+
+/**
+ * Convert an analysis result to the flat text format
+ *
+ * @param analysisResult - Result of analyzeRepository or analyzeRepositoryIncremental
+ * @param options - Token budget, focus paths and query for packing the text (optional)
+ * @returns Flat text, as returned by analyzeRepositoryToText
+ */
+export function formatAnalysisAsText(
+  analysisResult: AnalysisResult,
+  options: Pick<TextOutputOptions, 'maxTokens' | 'focusPaths' | 'query'> = {}
+): string {
+  return convertAnalysisToFlatText(analysisResult, DEFAULT_FLAT_CONFIG, options);
+}
+
 /**
  * Analyze a git repository and return the result as flat text format
  * 
@@ -612,8 +1303,13 @@ function convertAnalysisToFlatText(analysisResult: AnalysisResult, config: FlatC
  * 1. npm run analyze:save "/path/to/repo" temp.json
  * 2. npm run clean-json temp.json output.txt
  * 
+ * With `maxTokens`, the files are ranked by dependency-graph centrality,
+ * closeness to `focusPaths`, framework entry points and matches of `query`,
+ * and the lower-ranked files are shortened to their signatures, then to their
+ * path, until the locally estimated token count fits the budget.
+ *
  * @param repositoryPath - Path to the git repository
- * @param options - Analysis options (optional)
+ * @param options - Analysis and text output options (optional)
  * @returns Promise that resolves to the flat text format
  * 
  * @example
@@ -627,18 +1323,27 @@ function convertAnalysisToFlatText(analysisResult: AnalysisResult, config: FlatC
  * });
  * 
  * console.log(flatText);
+ *
+ * // Fit the most relevant files for a question into 8000 tokens
+ * const context = await analyzeRepositoryToText('/path/to/repo', {
+ *   maxTokens: 8000,
+ *   focusPaths: ['src/checkout'],
+ *   query: 'apply discount code'
+ * });
  * ```
  */
 export async function analyzeRepositoryToText(
   repositoryPath: string,
-  options: AnalysisOptions = {}
+  options: TextOutputOptions = {}
 ): Promise<string> {
+  const { maxTokens, focusPaths, query, ...analysisOptions } = options;
+
   // Perform the analysis first (excluding test files by default like analyze:save)
   const analysisResult = await analyzeRepository(repositoryPath, {
     exclude_test_files: true,
-    ...options
+    ...analysisOptions
   });
 
   // Convert to flat text format
-  return convertAnalysisToFlatText(analysisResult);
+  return formatAnalysisAsText(analysisResult, { maxTokens, focusPaths, query });
 }
@@ -20,7 +20,13 @@ import type {
   FunctionInfo,
   ClassInfo,
   Decorator,
-  SupportedLanguage
+  SupportedLanguage,
+  ApiEndpoint,
+  FunctionCall,
+  HttpMethod,
+  IpcCall,
+  BrowserWindowInfo,
+  StateLibraryCall
 } from '../types/index.js';
 
 /**
@@ -60,6 +66,87 @@ const PARSER_OPTIONS: Record<string, ParserOptions> = {
   },
 };
 
+/**
+ * HTTP methods recognised in `app.get('/path', handler)`-style route registrations
+ */
+const ROUTE_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'];
+
+/**
+ * Electron IPC methods that register a listener, keyed by IPC object
+ */
+const IPC_LISTENER_METHODS: Record<string, string[]> = {
+  ipcMain: ['handle', 'handleOnce', 'on', 'once'],
+  ipcRenderer: ['on', 'once']
+};
+
+/**
+ * Electron IPC methods that use a channel, keyed by IPC object
+ *
+ * `event.sender` is the `webContents` of the renderer that sent a message.
+ */
+const IPC_CHANNEL_METHODS: Record<string, { object: string; methods: string[] }> = {
+  ipcMain: { object: 'ipcMain', methods: ['handle', 'handleOnce', 'on', 'once'] },
+  ipcRenderer: { object: 'ipcRenderer', methods: ['invoke', 'send', 'sendSync', 'on', 'once'] },
+  webContents: { object: 'webContents', methods: ['send'] },
+  sender: { object: 'webContents', methods: ['send'] }
+};
+
+/**
+ * State management APIs recorded as state calls, keyed by the module they are imported from
+ */
+const STATE_LIBRARY_APIS: Record<string, string[]> = {
+  'react': ['createContext', 'useContext'],
+  'zustand': ['create', 'createStore'],
+  'zustand/vanilla': ['createStore'],
+  'jotai': ['atom', 'useAtom', 'useAtomValue', 'useSetAtom'],
+  'jotai/utils': ['atomWithStorage', 'atomFamily'],
+  'recoil': ['atom', 'selector', 'atomFamily', 'selectorFamily', 'useRecoilState', 'useRecoilValue', 'useSetRecoilState'],
+  '@tanstack/react-query': ['useQuery', 'useMutation', 'useInfiniteQuery', 'useSuspenseQuery'],
+  'react-query': ['useQuery', 'useMutation', 'useInfiniteQuery'],
+  'vue': ['ref', 'shallowRef', 'reactive', 'shallowReactive', 'computed'],
+  'pinia': ['defineStore'],
+  'svelte/store': ['writable', 'readable', 'derived']
+};
+
+/**
+ * Browser globals reached through `window` that are not preload APIs
+ */
+const WINDOW_PROPERTIES = [
+  'location', 'history', 'document', 'navigator', 'localStorage', 'sessionStorage',
+  'console', 'performance', 'crypto', 'screen', 'parent', 'top', 'opener'
+];
+
+/**
+ * IPC calls inside objects assigned to variables, resolved once the
+ * `contextBridge.exposeInMainWorld` calls of the file are known
+ */
+interface BridgeExposures {
+  /** Exposed variable names mapped to their API name */
+  variables: Map<string, string>;
+  /** Calls inside a variable's object, with their member path */
+  pending: Array<{ call: IpcCall; variable: string; member: string }>;
+}
+
+/**
+ * A local name bound by an import declaration
+ */
+interface ImportBinding {
+  /** Module specifier */
+  source: string;
+  /** Imported name (`default`, or `*` for a namespace import) */
+  imported: string;
+}
+
+/**
+ * Timer functions that look like state setters but are not
+ */
+const NON_SETTER_CALLS = ['setTimeout', 'setInterval', 'setImmediate'];
+
+/**
+ * Maximum length of a source snippet recorded as evidence
+ */
+const MAX_SNIPPET_LENGTH = 80;
+
 /**
  * Babel-based analyzer for JavaScript and TypeScript files
  *
@@ -74,12 +161,14 @@ export class BabelAnalyzer {
    * @param content - Source code content
    * @param language - Programming language ('javascript' or 'typescript')
    * @param filePath - File path for context (used in error messages)
+   * @param implicitImports - APIs usable without an import, by module (auto-imports in Vue SFCs)
    * @returns Promise that resolves to detailed file analysis
    */
   async parseJavaScript(
       content: string,
       language: 'javascript' | 'typescript',
-      filePath: string = 'unknown'
+      filePath: string = 'unknown',
+      implicitImports: Record<string, string[]> = {}
     ): Promise<FileAnalysis> {
       try {
         // Dynamically import traverse to handle ES module compatibility
@@ -99,24 +188,45 @@ export class BabelAnalyzer {
           classes: {},
         };
 
+        // Module directives ('use client', 'use server')
+        const directives = ast.program.directives.map(directive => directive.value.value);
+        if (directives.length > 0) {
+          analysis.directives = directives;
+        }
+
         // Extract JSDoc comments first (for later association)
         const jsdocComments = this.extractJSDocComments(ast, content);
 
+        // Function nodes mapped to their recorded info, so calls inside a body
+        // can be attributed to the innermost named function or method
+        const functionOwners = new Map<t.Node, FunctionInfo>();
+
+        const bridgeExposures: BridgeExposures = { variables: new Map(), pending: [] };
+
+        // Local names bound by imports, for attributing calls to imported functions
+        const importBindings = new Map<string, ImportBinding>();
+
         // Use Babel traverse to walk the AST
         traverse(ast, {
           // Import declarations
           ImportDeclaration: (path: any) => {
-            this.processImportDeclaration(path, analysis);
+            this.processImportDeclaration(path, analysis, importBindings);
           },
 
           // Function declarations
           FunctionDeclaration: (path: any) => {
-            this.processFunctionDeclaration(path, analysis, jsdocComments);
+            const functionInfo = this.processFunctionDeclaration(path, analysis, jsdocComments);
+            if (functionInfo) {
+              functionOwners.set(path.node, functionInfo);
+            }
           },
 
           // Arrow function expressions (assigned to variables)
           VariableDeclarator: (path: any) => {
-            this.processVariableDeclarator(path, analysis, jsdocComments);
+            const functionInfo = this.processVariableDeclarator(path, analysis, jsdocComments);
+            if (functionInfo) {
+              functionOwners.set(path.node.init, functionInfo);
+            }
           },
 
           // Class declarations
@@ -126,7 +236,38 @@ export class BabelAnalyzer {
 
           // Method definitions (inside classes)
           ClassMethod: (path: any) => {
-            this.processClassMethod(path, analysis, jsdocComments);
+            const methodInfo = this.processClassMethod(path, analysis, jsdocComments);
+            if (methodInfo) {
+              functionOwners.set(path.node, methodInfo);
+            }
+          },
+
+          // Calls inside function bodies (state updates, listeners, routes)
+          CallExpression: (path: any) => {
+            this.processCallExpression(
+              path, analysis, functionOwners, content, bridgeExposures, importBindings, implicitImports
+            );
+          },
+
+          // JSX event handler attributes (onClick={...})
+          JSXAttribute: (path: any) => {
+            this.processJSXAttribute(path, functionOwners, content);
+          },
+
+          // Electron windows: new BrowserWindow({ webPreferences: {...} })
+          NewExpression: (path: any) => {
+            this.processNewExpression(path, analysis);
+          },
+
+          // DOM usage (renderer code): JSX, document.*, window.*
+          JSXElement: () => {
+            analysis.uses_dom = true;
+          },
+
+          MemberExpression: (path: any) => {
+            if (t.isIdentifier(path.node.object) && ['document', 'window'].includes(path.node.object.name)) {
+              analysis.uses_dom = true;
+            }
           },
 
           // Export declarations
@@ -139,6 +280,17 @@ export class BabelAnalyzer {
           },
         });
 
+        // Calls are kept once all imports and functions of the file are known
+        this.resolveFunctionCalls(analysis, functionOwners, importBindings);
+
+        // const api = {...}; contextBridge.exposeInMainWorld('api', api)
+        for (const { call, variable, member } of bridgeExposures.pending) {
+          const apiName = bridgeExposures.variables.get(variable);
+          if (apiName) {
+            call.exposed_as = `${apiName}.${member}`;
+          }
+        }
+
         return analysis;
 
       } catch (error) {
@@ -201,9 +353,10 @@ export class BabelAnalyzer {
    *
    * @param path - Babel node path for import
    * @param analysis - Analysis result to update
+   * @param importBindings - Local names bound by imports, to update
    * @private
    */
-  private processImportDeclaration(path: any, analysis: FileAnalysis): void {
+  private processImportDeclaration(path: any, analysis: FileAnalysis, importBindings: Map<string, ImportBinding>): void {
     const importNode = path.node;
     const source = importNode.source.value;
 
@@ -215,17 +368,27 @@ export class BabelAnalyzer {
       analysis.imports[source] = [];
     }
 
+    if (!analysis.import_lines) {
+      analysis.import_lines = {};
+    }
+    if (importNode.loc && analysis.import_lines[source] === undefined) {
+      analysis.import_lines[source] = importNode.loc.start.line;
+    }
+
     // Extract imported names
     for (const specifier of importNode.specifiers) {
       if (t.isImportDefaultSpecifier(specifier)) {
         analysis.imports[source].push(specifier.local.name);
+        importBindings.set(specifier.local.name, { source, imported: 'default' });
       } else if (t.isImportSpecifier(specifier)) {
         const importedName = t.isIdentifier(specifier.imported)
           ? specifier.imported.name
           : specifier.imported.value;
         analysis.imports[source].push(importedName);
+        importBindings.set(specifier.local.name, { source, imported: importedName });
       } else if (t.isImportNamespaceSpecifier(specifier)) {
         analysis.imports[source].push(`* as ${specifier.local.name}`);
+        importBindings.set(specifier.local.name, { source, imported: '*' });
       }
     }
   }
@@ -242,9 +405,9 @@ export class BabelAnalyzer {
     path: any,
     analysis: FileAnalysis,
     jsdocComments: Map<number, string>
-  ): void {
+  ): FunctionInfo | undefined {
     const funcNode = path.node;
-    if (!funcNode.id) return; // Skip anonymous functions
+    if (!funcNode.id) return undefined; // Skip anonymous functions
 
     const funcName = funcNode.id.name;
     const params = funcNode.params.map((param: any) => this.getParamName(param));
@@ -269,8 +432,11 @@ export class BabelAnalyzer {
       is_async: funcNode.async || false,
       parameters: params,
       line_number: funcLine,
+      end_line_number: funcNode.loc?.end.line || funcLine,
     };
 
+    this.addFunctionDirectives(funcNode, functionInfo);
+
     if (isComponent) {
       functionInfo.is_component = true;
     }
@@ -284,6 +450,7 @@ export class BabelAnalyzer {
     }
 
     analysis.functions[funcSignature] = functionInfo;
+    return functionInfo;
   }
 
   /**
@@ -298,16 +465,16 @@ export class BabelAnalyzer {
     path: any,
     analysis: FileAnalysis,
     jsdocComments: Map<number, string>
-  ): void {
+  ): FunctionInfo | undefined {
     const declarator = path.node;
 
     // Check if this is an arrow function
     if (!t.isArrowFunctionExpression(declarator.init) && !t.isFunctionExpression(declarator.init)) {
-      return;
+      return undefined;
     }
 
     if (!t.isIdentifier(declarator.id)) {
-      return;
+      return undefined;
     }
 
     const funcName = declarator.id.name;
@@ -332,8 +499,11 @@ export class BabelAnalyzer {
       is_async: t.isArrowFunctionExpression(funcNode) ? funcNode.async : funcNode.async,
       parameters: params,
       line_number: funcLine,
+      end_line_number: funcNode.loc?.end.line || funcLine,
     };
 
+    this.addFunctionDirectives(funcNode, functionInfo);
+
     if (isComponent) {
       functionInfo.is_component = true;
     }
@@ -347,6 +517,22 @@ export class BabelAnalyzer {
     }
 
     analysis.functions[funcSignature] = functionInfo;
+    return functionInfo;
+  }
+
+/**
+   * Record the directives at the start of a function body (`'use server'`)
+   *
+   * @param funcNode - Function declaration or expression
+   * @param functionInfo - Function info to update
+   * @private
+   */
+  private addFunctionDirectives(funcNode: t.Function, functionInfo: FunctionInfo): void {
+    if (!t.isBlockStatement(funcNode.body) || funcNode.body.directives.length === 0) {
+      return;
+    }
+
+    functionInfo.directives = funcNode.body.directives.map(directive => directive.value.value);
   }
 
 /**
@@ -456,13 +642,13 @@ export class BabelAnalyzer {
     path: any,
     analysis: FileAnalysis,
     jsdocComments: Map<number, string>
-  ): void {
+  ): FunctionInfo | undefined {
     const methodNode = path.node;
 
     // Find the parent class
     const classPath = path.findParent((p: any) => t.isClassDeclaration(p.node));
     if (!classPath || !t.isClassDeclaration(classPath.node) || !classPath.node.id) {
-      return;
+      return undefined;
     }
 
     const className = classPath.node.id.name;
@@ -481,6 +667,7 @@ export class BabelAnalyzer {
       is_async: methodNode.async || false,
       parameters: params,
       line_number: methodLine,
+      end_line_number: methodNode.loc?.end.line || methodLine,
     };
 
     // Initialize class if not exists
@@ -495,6 +682,863 @@ export class BabelAnalyzer {
     }
 
     analysis.classes[className].methods[methodSignature] = methodInfo;
+    return methodInfo;
+  }
+
+  /**
+   * Process call expressions for state, event and route evidence
+   *
+   * Calls are attributed to the innermost named function or class method.
+   * Route registrations outside any function are recorded at file level,
+   * which is where Express apps usually declare them.
+   *
+   * @param path - Babel node path for the call
+   * @param analysis - Analysis result to update
+   * @param functionOwners - Map of function nodes to their recorded info
+   * @param content - Original source content
+   * @param bridgeExposures - Preload API objects of the file
+   * @param importBindings - Local names bound by imports
+   * @param implicitImports - APIs usable without an import, by module
+   * @private
+   */
+  private processCallExpression(
+    path: any,
+    analysis: FileAnalysis,
+    functionOwners: Map<t.Node, FunctionInfo>,
+    content: string,
+    bridgeExposures: BridgeExposures,
+    importBindings: Map<string, ImportBinding>,
+    implicitImports: Record<string, string[]>
+  ): void {
+    const callNode: t.CallExpression = path.node;
+    const callee = callNode.callee;
+    const line = callNode.loc?.start.line || 0;
+    const owner = this.findOwningFunction(path, functionOwners);
+
+    if (owner) {
+      this.recordFunctionCall(callNode, owner);
+    }
+
+    const calleeName = t.isIdentifier(callee) ? callee.name : undefined;
+    const memberObject = t.isMemberExpression(callee) ? this.getMemberObjectName(callee) : undefined;
+    const memberProperty = t.isMemberExpression(callee) && t.isIdentifier(callee.property)
+      ? callee.property.name
+      : undefined;
+
+    // Route registrations: app.get('/path', handler)
+    const route = this.getRouteRegistration(path, memberProperty);
+    if (route) {
+      const endpoint: ApiEndpoint = {
+        type: 'express_route',
+        method: route.method,
+        route: route.path,
+        line: line
+      };
+      if (owner) {
+        owner.api_endpoints.push(endpoint);
+      } else {
+        if (!analysis.api_endpoints) {
+          analysis.api_endpoints = [];
+        }
+        analysis.api_endpoints.push(endpoint);
+      }
+      return;
+    }
+
+    // Electron IPC: ipcMain.handle('channel', fn), ipcRenderer.invoke('channel'), window.api.load()
+    this.recordIpcCall(path, analysis, memberObject, memberProperty, content, bridgeExposures);
+    this.recordBridgeCall(path, analysis);
+
+    // State libraries: create(...), useContext(ThemeContext), atom(0), useQuery({ queryKey })
+    this.recordStateLibraryCall(
+      path, analysis, calleeName, memberObject, memberProperty, content, importBindings, implicitImports
+    );
+
+    // Electron shell.openExternal(url)
+    if (memberObject === 'shell' && memberProperty === 'openExternal' && callNode.arguments[0]) {
+      const urlArg = callNode.arguments[0];
+      const trusted = t.isStringLiteral(urlArg) ||
+        (t.isTemplateLiteral(urlArg) && (urlArg.expressions.length === 0 ||
+          /^(https?:\/\/[^/]+\/|mailto:)/.test(urlArg.quasis[0]?.value.raw || '')));
+
+      if (!analysis.open_external_calls) {
+        analysis.open_external_calls = [];
+      }
+      analysis.open_external_calls.push({ line, argument: this.getSnippet(urlArg, content, 40), trusted });
+    }
+
+    if (!owner) {
+      return;
+    }
+
+    // State hooks: const [count, setCount] = useState(0)
+    const hookName = calleeName || (memberObject === 'React' ? memberProperty : undefined);
+    if (hookName === 'useState' || hookName === 'useReducer') {
+      const snippet = t.isVariableDeclarator(path.parent)
+        ? `${this.getSnippet(path.parent.id, content)} = ${this.describeCall(callNode, content)}`
+        : this.describeCall(callNode, content);
+      owner.state_changes.push({ snippet, line });
+      return;
+    }
+
+    // State updates: setCount(...), this.setState(...), dispatch(...)
+    const isSetterCall = calleeName !== undefined &&
+      /^set[A-Z]/.test(calleeName) &&
+      !NON_SETTER_CALLS.includes(calleeName);
+    const isClassSetState = memberProperty === 'setState' && t.isThisExpression((callee as t.MemberExpression).object);
+    const isDispatch = calleeName === 'dispatch' || memberProperty === 'dispatch';
+
+    if (isSetterCall || isClassSetState || isDispatch) {
+      owner.state_changes.push({ snippet: this.describeCall(callNode, content), line });
+      return;
+    }
+
+    // Event listeners: el.addEventListener('click', fn), ipcMain.handle('channel', fn)
+    const isDomListener = memberProperty === 'addEventListener';
+    const isIpcListener = memberObject !== undefined &&
+      memberProperty !== undefined &&
+      (IPC_LISTENER_METHODS[memberObject]?.includes(memberProperty) || false);
+
+    if (isDomListener || isIpcListener) {
+      owner.event_handlers.push({ snippet: this.describeCall(callNode, content), line });
+    }
+  }
+
+  /**
+   * Record a call inside a function body for the call graph
+   *
+   * Only callees written as an identifier or a plain member chain
+   * (`format`, `utils.format`, `this.save`) are recorded.
+   *
+   * @param callNode - Call expression node
+   * @param owner - Function or method containing the call
+   * @private
+   */
+  private recordFunctionCall(callNode: t.CallExpression, owner: FunctionInfo): void {
+    const callee = this.getCalleePath(callNode.callee);
+    const line = callNode.loc?.start.line || 0;
+    if (!callee) {
+      return;
+    }
+
+    if (!owner.calls) {
+      owner.calls = [];
+    }
+    if (!owner.calls.some(call => call.callee === callee && call.line === line)) {
+      owner.calls.push({ callee, line });
+    }
+  }
+
+  /**
+   * Keep the calls of imported and same-file functions and mark their import
+   *
+   * Calls of globals, parameters and local variables (`console.log`,
+   * `items.map`) cannot be followed to a declaration and are dropped.
+   *
+   * @param analysis - Analysis result to update
+   * @param functionOwners - Map of function nodes to their recorded info
+   * @param importBindings - Local names bound by imports
+   * @private
+   */
+  private resolveFunctionCalls(
+    analysis: FileAnalysis,
+    functionOwners: Map<t.Node, FunctionInfo>,
+    importBindings: Map<string, ImportBinding>
+  ): void {
+    const localNames = new Set([
+      ...Object.keys(analysis.functions || {}).map(signature => signature.split('(')[0]!),
+      ...Object.keys(analysis.classes || {}),
+      'this'
+    ]);
+
+    for (const functionInfo of new Set(functionOwners.values())) {
+      if (!functionInfo.calls) {
+        continue;
+      }
+
+      const calls: FunctionCall[] = [];
+      for (const call of functionInfo.calls) {
+        const root = call.callee.split('.')[0]!;
+        const binding = importBindings.get(root);
+        if (binding) {
+          calls.push({ ...call, source: binding.source, imported: binding.imported });
+        } else if (localNames.has(root)) {
+          calls.push(call);
+        }
+      }
+
+      if (calls.length > 0) {
+        functionInfo.calls = calls;
+      } else {
+        delete functionInfo.calls;
+      }
+    }
+  }
+
+  /**
+   * Get the dotted path of a callee such as `utils.format` or `this.save`
+   *
+   * @param callee - Callee node of a call expression
+   * @returns Dotted path, or undefined for computed or dynamic callees
+   * @private
+   */
+  private getCalleePath(callee: t.Node): string | undefined {
+    if (t.isIdentifier(callee)) {
+      return callee.name;
+    }
+    if (t.isThisExpression(callee)) {
+      return 'this';
+    }
+    if (t.isMemberExpression(callee) && !callee.computed && t.isIdentifier(callee.property)) {
+      const object = this.getCalleePath(callee.object);
+      return object ? `${object}.${callee.property.name}` : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Record an Electron IPC call with its channel
+   *
+   * Calls inside an object exposed with `contextBridge.exposeInMainWorld`
+   * are recorded with the API member wrapping them (`api.getUser`).
+   *
+   * @param path - Babel node path for the call
+   * @param analysis - Analysis result to update
+   * @param memberObject - Object the method is called on
+   * @param memberProperty - Called method name
+   * @param content - Original source content
+   * @param bridgeExposures - Preload API objects of the file
+   * @private
+   */
+  private recordIpcCall(
+    path: any,
+    analysis: FileAnalysis,
+    memberObject: string | undefined,
+    memberProperty: string | undefined,
+    content: string,
+    bridgeExposures: BridgeExposures
+  ): void {
+    const callNode: t.CallExpression = path.node;
+
+    if (memberProperty === 'exposeInMainWorld') {
+      const [apiName, api] = callNode.arguments;
+      if (t.isStringLiteral(apiName) && t.isIdentifier(api)) {
+        bridgeExposures.variables.set(api.name, apiName.value);
+      }
+      return;
+    }
+
+    const ipcObject = memberObject ? IPC_CHANNEL_METHODS[memberObject] : undefined;
+    const channelArg = callNode.arguments[0];
+    if (!ipcObject || !memberProperty || !ipcObject.methods.includes(memberProperty) || !channelArg) {
+      return;
+    }
+
+    const call: IpcCall = {
+      method: `${ipcObject.object}.${memberProperty}`,
+      channel: '',
+      line: callNode.loc?.start.line || 0
+    };
+
+    if (t.isStringLiteral(channelArg)) {
+      call.channel = channelArg.value;
+    } else if (t.isTemplateLiteral(channelArg) && channelArg.expressions.length === 0) {
+      call.channel = channelArg.quasis.map(quasi => quasi.value.cooked ?? quasi.value.raw).join('');
+    } else {
+      call.channel = this.getSnippet(channelArg, content, 40);
+      call.dynamic_channel = true;
+    }
+
+    const container = this.getContainerName(path);
+    if (container) {
+      call.container = container;
+    }
+
+    const bridgeMember = this.getBridgeMember(path);
+    if (bridgeMember?.api) {
+      call.exposed_as = `${bridgeMember.api}.${bridgeMember.member}`;
+    } else if (bridgeMember?.variable) {
+      bridgeExposures.pending.push({ call, variable: bridgeMember.variable, member: bridgeMember.member });
+    }
+
+    if (!analysis.ipc_calls) {
+      analysis.ipc_calls = [];
+    }
+    analysis.ipc_calls.push(call);
+  }
+
+  /**
+   * Record a call of a Zustand, Jotai, Recoil, React Query or React Context API
+   *
+   * Only APIs imported from their library (or implicitly available) are
+   * recorded, so unrelated functions named `create` or `atom` are ignored.
+   * Callees are looked up by their local name, so aliased imports such as
+   * `import { atom as jotaiAtom } from 'jotai'` are recorded under the
+   * library and API they come from. Calls of the `set` parameter of a
+   * Zustand store creator are recorded as `set` with the store as target.
+   *
+   * @param path - Babel node path for the call
+   * @param analysis - Analysis result to update
+   * @param calleeName - Called function name, for plain calls
+   * @param memberObject - Object the method is called on, for member calls
+   * @param memberProperty - Called method name, for member calls
+   * @param content - Original source content
+   * @param importBindings - Local names bound by imports
+   * @param implicitImports - APIs usable without an import, by module
+   * @private
+   */
+  private recordStateLibraryCall(
+    path: any,
+    analysis: FileAnalysis,
+    calleeName: string | undefined,
+    memberObject: string | undefined,
+    memberProperty: string | undefined,
+    content: string,
+    importBindings: Map<string, ImportBinding>,
+    implicitImports: Record<string, string[]>
+  ): void {
+    const callNode: t.CallExpression = path.node;
+    let call: StateLibraryCall | undefined;
+
+    if (calleeName) {
+      const binding = importBindings.get(calleeName);
+      const module = binding
+        ? (STATE_LIBRARY_APIS[binding.source]?.includes(binding.imported) ? binding.source : undefined)
+        : Object.keys(STATE_LIBRARY_APIS).find(moduleName =>
+          STATE_LIBRARY_APIS[moduleName]!.includes(calleeName) && implicitImports[moduleName]?.includes(calleeName));
+      const store = module ? undefined : this.getZustandStore(path, calleeName, importBindings);
+
+      if (module) {
+        call = { module, api: binding ? binding.imported : calleeName, line: 0 };
+      } else if (store !== undefined) {
+        call = { module: 'zustand', api: 'set', line: 0, ...(store && { target: store }) };
+      }
+    } else if (memberObject && memberProperty && STATE_LIBRARY_APIS['react']!.includes(memberProperty)) {
+      // React.useContext(ThemeContext)
+      const binding = importBindings.get(memberObject);
+      if (binding?.source === 'react' && (binding.imported === 'default' || binding.imported === '*')) {
+        call = { module: 'react', api: memberProperty, line: 0 };
+      }
+    }
+
+    if (!call) {
+      return;
+    }
+    call.line = callNode.loc?.start.line || 0;
+
+    if (call.api !== 'set') {
+      const target = this.getAssignedName(path);
+      if (target) {
+        call.target = target;
+      }
+    }
+
+    const [firstArg] = callNode.arguments;
+    if (t.isIdentifier(firstArg) && call.api.startsWith('use')) {
+      call.argument = firstArg.name;
+    }
+
+    const keyProperty = call.module === 'recoil'
+      ? 'key'
+      : call.api === 'useMutation' ? 'mutationKey' : 'queryKey';
+    if (call.module === 'recoil' || call.module.endsWith('react-query')) {
+      if (t.isObjectExpression(firstArg)) {
+        const property = firstArg.properties.find((prop): prop is t.ObjectProperty =>
+          t.isObjectProperty(prop) && t.isIdentifier(prop.key, { name: keyProperty }));
+        if (property) {
+          call.key = t.isStringLiteral(property.value) ? property.value.value : this.getSnippet(property.value, content, 40);
+        }
+      } else if (call.module !== 'recoil' && (t.isArrayExpression(firstArg) || t.isStringLiteral(firstArg))) {
+        call.key = this.getSnippet(firstArg, content, 40);
+      }
+    } else if (call.module === 'pinia' && t.isStringLiteral(firstArg)) {
+      call.key = firstArg.value;
+    }
+
+    const container = this.getContainerName(path);
+    if (container) {
+      call.container = container;
+    }
+
+    if (!analysis.state_calls) {
+      analysis.state_calls = [];
+    }
+    analysis.state_calls.push(call);
+  }
+
+  /**
+   * Find the Zustand store whose `set` parameter a call invokes
+   *
+   * The creator may be wrapped in middleware (`create(persist((set) => ...))`)
+   * and `create` may be curried (`create<State>()((set) => ...)`).
+   *
+   * @param path - Babel node path for the call
+   * @param calleeName - Called function name
+   * @param importBindings - Local names bound by imports
+   * @returns Store variable name, `''` for an unassigned store, or undefined if this is not a `set` call
+   * @private
+   */
+  private getZustandStore(
+    path: any,
+    calleeName: string,
+    importBindings: Map<string, ImportBinding>
+  ): string | undefined {
+    const creators = [...importBindings]
+      .filter(([, { source, imported }]) => source.startsWith('zustand') && STATE_LIBRARY_APIS[source]?.includes(imported))
+      .map(([localName]) => localName);
+    const binding = creators.length > 0 ? path.scope.getBinding(calleeName) : undefined;
+    if (!binding || binding.kind !== 'param') {
+      return undefined;
+    }
+
+    const functionPath = binding.path.parentPath;
+    if (!functionPath?.isFunction() || functionPath.node.params[0] !== binding.path.node) {
+      return undefined;
+    }
+
+    for (let current = functionPath; current.parentPath?.isCallExpression(); current = current.parentPath) {
+      const callee = current.parentPath.node.callee;
+      const creator = t.isCallExpression(callee) ? callee.callee : callee;
+      if (t.isIdentifier(creator) && creators.includes(creator.name)) {
+        return this.getAssignedName(current.parentPath) || '';
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the variable a call's result is assigned to
+   *
+   * Curried calls such as `create<State>()(...)` are followed to the outer call.
+   *
+   * @param path - Babel node path for the call
+   * @returns Variable name, if the result is assigned to an identifier
+   * @private
+   */
+  private getAssignedName(path: any): string | undefined {
+    let current = path;
+    while (t.isCallExpression(current.parent) && current.parent.callee === current.node) {
+      current = current.parentPath;
+    }
+
+    return t.isVariableDeclarator(current.parent) && t.isIdentifier(current.parent.id)
+      ? current.parent.id.name
+      : undefined;
+  }
+
+  /**
+   * Record an Electron `new BrowserWindow({...})` with its literal webPreferences
+   *
+   * @param path - Babel node path for the new expression
+   * @param analysis - Analysis result to update
+   * @private
+   */
+  private processNewExpression(path: any, analysis: FileAnalysis): void {
+    const newNode: t.NewExpression = path.node;
+    const callee = newNode.callee;
+    const className = t.isIdentifier(callee)
+      ? callee.name
+      : t.isMemberExpression(callee) && t.isIdentifier(callee.property) ? callee.property.name : undefined;
+    if (className !== 'BrowserWindow') {
+      return;
+    }
+
+    const browserWindow: BrowserWindowInfo = {
+      line: newNode.loc?.start.line || 0,
+      web_preferences: {}
+    };
+
+    const options = newNode.arguments[0];
+    const webPreferences = t.isObjectExpression(options)
+      ? options.properties.find((property): property is t.ObjectProperty =>
+        t.isObjectProperty(property) && t.isIdentifier(property.key, { name: 'webPreferences' }))
+      : undefined;
+
+    if (webPreferences && t.isObjectExpression(webPreferences.value)) {
+      for (const property of webPreferences.value.properties) {
+        if (!t.isObjectProperty(property) || !t.isIdentifier(property.key)) continue;
+
+        if (t.isBooleanLiteral(property.value)) {
+          browserWindow.web_preferences[property.key.name] = property.value.value;
+        } else if (property.key.name === 'preload') {
+          const preload = this.getPathLiteral(property.value);
+          if (preload) {
+            browserWindow.preload = preload;
+          }
+        }
+      }
+    }
+
+    if (!analysis.browser_windows) {
+      analysis.browser_windows = [];
+    }
+    analysis.browser_windows.push(browserWindow);
+  }
+
+  /**
+   * Get the literal part of a file path expression
+   *
+   * `'preload.js'`, `join(__dirname, '../preload/index.js')` and
+   * `` `${__dirname}/preload.js` `` yield the path relative to the
+   * directory they are resolved against.
+   *
+   * @param node - Path expression
+   * @returns Literal path, if the expression contains one
+   * @private
+   */
+  private getPathLiteral(node: t.Node): string | undefined {
+    let literal: string | undefined;
+
+    if (t.isStringLiteral(node)) {
+      literal = node.value;
+    } else if (t.isCallExpression(node)) {
+      const parts = node.arguments
+        .filter((arg): arg is t.StringLiteral => t.isStringLiteral(arg))
+        .map(arg => arg.value);
+      literal = parts.length > 0 ? parts.join('/') : undefined;
+    } else if (t.isTemplateLiteral(node)) {
+      literal = node.quasis.map(quasi => quasi.value.cooked ?? quasi.value.raw).join('').replace(/^\//, '');
+    }
+
+    return literal || undefined;
+  }
+
+  /**
+   * Record a renderer call of a preload API: `window.api.getUser(id)`
+   *
+   * @param path - Babel node path for the call
+   * @param analysis - Analysis result to update
+   * @private
+   */
+  private recordBridgeCall(path: any, analysis: FileAnalysis): void {
+    const members: string[] = [];
+    let node: t.Node = (path.node as t.CallExpression).callee;
+
+    while (t.isMemberExpression(node) && !node.computed && t.isIdentifier(node.property)) {
+      members.unshift(node.property.name);
+      node = node.object;
+    }
+
+    if (!t.isIdentifier(node, { name: 'window' }) || members.length < 2 || WINDOW_PROPERTIES.includes(members[0]!)) {
+      return;
+    }
+
+    if (!analysis.bridge_calls) {
+      analysis.bridge_calls = [];
+    }
+    const container = this.getContainerName(path);
+    analysis.bridge_calls.push({
+      api: members.join('.'),
+      line: path.node.loc?.start.line || 0,
+      ...(container && { container })
+    });
+  }
+
+  /**
+   * Find the object member an IPC call is wrapped in
+   *
+   * Walks up through nested object literals, collecting property names,
+   * until the object is passed to `contextBridge.exposeInMainWorld` or
+   * assigned to a variable.
+   *
+   * @param path - Babel node path for the call
+   * @returns API name or variable holding the object, and the member path
+   * @private
+   */
+  private getBridgeMember(path: any): { api?: string; variable?: string; member: string } | undefined {
+    const keys: string[] = [];
+
+    for (let current = path.parentPath; current && !current.isProgram(); current = current.parentPath) {
+      const node = current.node;
+
+      if ((t.isObjectProperty(node) || t.isObjectMethod(node)) && !node.computed) {
+        if (t.isIdentifier(node.key)) keys.unshift(node.key.name);
+        else if (t.isStringLiteral(node.key)) keys.unshift(node.key.value);
+        continue;
+      }
+
+      if (!t.isObjectExpression(node) || keys.length === 0) continue;
+
+      const parent = current.parent;
+      const member = keys.join('.');
+      if (t.isCallExpression(parent) && parent.arguments[1] === node &&
+          t.isMemberExpression(parent.callee) && t.isIdentifier(parent.callee.property, { name: 'exposeInMainWorld' }) &&
+          t.isStringLiteral(parent.arguments[0])) {
+        return { api: parent.arguments[0].value, member };
+      }
+      if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
+        return { variable: parent.id.name, member };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the name of the innermost named function enclosing a node
+   *
+   * Anonymous callbacks are skipped, so a call inside
+   * `app.whenReady().then(() => ...)` in `function main()` yields `main`.
+   *
+   * @param path - Babel node path to start from
+   * @returns Function name (`Class.method` for class methods), if any
+   * @private
+   */
+  private getContainerName(path: any): string | undefined {
+    for (let current = path.getFunctionParent(); current; current = current.getFunctionParent()) {
+      const node = current.node;
+      const parent = current.parent;
+
+      if ((t.isFunctionDeclaration(node) || t.isFunctionExpression(node)) && node.id) {
+        return node.id.name;
+      }
+      if (t.isClassMethod(node) && t.isIdentifier(node.key)) {
+        const classNode = current.parentPath.parent;
+        return t.isClassDeclaration(classNode) && classNode.id
+          ? `${classNode.id.name}.${node.key.name}`
+          : node.key.name;
+      }
+      if (t.isObjectMethod(node) && t.isIdentifier(node.key)) {
+        return node.key.name;
+      }
+      if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
+        return parent.id.name;
+      }
+      if (t.isObjectProperty(parent) && t.isIdentifier(parent.key)) {
+        return parent.key.name;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Process JSX attributes for event handler props
+   *
+   * @param path - Babel node path for the JSX attribute
+   * @param functionOwners - Map of function nodes to their recorded info
+   * @param content - Original source content
+   * @private
+   */
+  private processJSXAttribute(
+    path: any,
+    functionOwners: Map<t.Node, FunctionInfo>,
+    content: string
+  ): void {
+    const attribute: t.JSXAttribute = path.node;
+    if (!t.isJSXIdentifier(attribute.name) || !/^on[A-Z]/.test(attribute.name.name)) {
+      return;
+    }
+
+    const owner = this.findOwningFunction(path, functionOwners);
+    if (!owner) {
+      return;
+    }
+
+    const value = t.isJSXExpressionContainer(attribute.value)
+      ? `{${this.getSnippet(attribute.value.expression, content, 40)}}`
+      : '';
+    const line = attribute.loc?.start.line || 0;
+
+    owner.event_handlers.push({ snippet: `${attribute.name.name}=${value}`, line });
+  }
+
+  /**
+   * Find the recorded function or method that encloses a node
+   *
+   * @param path - Babel node path to start from
+   * @param functionOwners - Map of function nodes to their recorded info
+   * @returns Function info of the innermost recorded function, if any
+   * @private
+   */
+  private findOwningFunction(path: any, functionOwners: Map<t.Node, FunctionInfo>): FunctionInfo | undefined {
+    const ownerPath = path.findParent((p: any) => functionOwners.has(p.node));
+    return ownerPath ? functionOwners.get(ownerPath.node) : undefined;
+  }
+
+  /**
+   * Get the name of the object a member call is made on
+   *
+   * Returns the last identifier, so `window.electron.ipcRenderer.on`
+   * yields `ipcRenderer`.
+   *
+   * @param callee - Member expression callee
+   * @returns Object name, if it can be determined statically
+   * @private
+   */
+  private getMemberObjectName(callee: t.MemberExpression): string | undefined {
+    const object = callee.object;
+    if (t.isIdentifier(object)) {
+      return object.name;
+    }
+    if (t.isMemberExpression(object) && t.isIdentifier(object.property)) {
+      return object.property.name;
+    }
+    return undefined;
+  }
+
+  /**
+   * Check whether a call registers an HTTP route
+   *
+   * Only calls on an Express app or router with a literal path starting with
+   * `/` and at least one handler argument are accepted, so HTTP clients like
+   * `axios.get('/api', config)` and lookups like `map.get('/key', value)`
+   * are ignored.
+   *
+   * @param path - Babel node path for the call
+   * @param memberProperty - Called method name
+   * @returns HTTP method and route path, if this is a route registration
+   * @private
+   */
+  private getRouteRegistration(
+    path: any,
+    memberProperty: string | undefined
+  ): { method: HttpMethod; path: string } | undefined {
+    const callNode: t.CallExpression = path.node;
+    if (!memberProperty || !ROUTE_METHODS.includes(memberProperty) || callNode.arguments.length < 2) {
+      return undefined;
+    }
+
+    const receiver = (callNode.callee as t.MemberExpression).object;
+    if (!t.isIdentifier(receiver) || !this.isExpressRouter(path.scope.getBinding(receiver.name))) {
+      return undefined;
+    }
+
+    const firstArg = callNode.arguments[0];
+    let routePath: string | undefined;
+
+    if (t.isStringLiteral(firstArg)) {
+      routePath = firstArg.value;
+    } else if (t.isTemplateLiteral(firstArg) && firstArg.expressions.length === 0) {
+      routePath = firstArg.quasis.map(quasi => quasi.value.cooked ?? quasi.value.raw).join('');
+    }
+
+    if (!routePath || !routePath.startsWith('/')) {
+      return undefined;
+    }
+
+    return { method: memberProperty.toUpperCase() as HttpMethod, path: routePath };
+  }
+
+  /**
+   * Check whether a binding holds an Express app or router
+   *
+   * Accepts variables initialized with `express()`, `express.Router()` or
+   * `Router()`, and parameters typed with a type imported from `express`
+   * (`app: Express`, `router: express.Router`).
+   *
+   * @param binding - Babel scope binding of the receiver
+   * @returns True if the receiver is an Express app or router
+   * @private
+   */
+  private isExpressRouter(binding: any): boolean {
+    if (!binding) {
+      return false;
+    }
+
+    if (binding.kind === 'param') {
+      const annotation = binding.path.node.typeAnnotation;
+      const typeName = t.isTSTypeAnnotation(annotation) && t.isTSTypeReference(annotation.typeAnnotation)
+        ? annotation.typeAnnotation.typeName
+        : undefined;
+      const root = t.isTSQualifiedName(typeName) ? typeName.left : typeName;
+      return t.isIdentifier(root) && this.getExpressImport(binding.path.scope.getBinding(root.name)) !== undefined;
+    }
+
+    const declarator = binding.path.node;
+    if (!t.isVariableDeclarator(declarator) || !t.isCallExpression(declarator.init)) {
+      return false;
+    }
+
+    const constructor = declarator.init.callee;
+    if (t.isIdentifier(constructor)) {
+      const imported = this.getExpressImport(binding.path.scope.getBinding(constructor.name));
+      return imported === 'default' || imported === 'Router';
+    }
+    if (t.isMemberExpression(constructor) && t.isIdentifier(constructor.object) &&
+        t.isIdentifier(constructor.property, { name: 'Router' })) {
+      const imported = this.getExpressImport(binding.path.scope.getBinding(constructor.object.name));
+      return imported === 'default' || imported === '*';
+    }
+    return false;
+  }
+
+  /**
+   * Get what a binding imports from `express`
+   *
+   * Covers ES imports, `const express = require('express')` and
+   * `const { Router } = require('express')`.
+   *
+   * @param binding - Babel scope binding
+   * @returns Imported name (`default`, `*` or a named export), if the binding imports `express`
+   * @private
+   */
+  private getExpressImport(binding: any): string | undefined {
+    if (!binding) {
+      return undefined;
+    }
+
+    const node = binding.path.node;
+    const parent = binding.path.parent;
+    // Type-only imports are bound too, though not as kind 'module'
+    if (t.isImportDeclaration(parent)) {
+      if (parent.source.value !== 'express') {
+        return undefined;
+      }
+      if (t.isImportSpecifier(node)) {
+        return t.isIdentifier(node.imported) ? node.imported.name : node.imported.value;
+      }
+      return t.isImportNamespaceSpecifier(node) ? '*' : 'default';
+    }
+
+    if (!t.isVariableDeclarator(node) || !t.isCallExpression(node.init) ||
+        !t.isIdentifier(node.init.callee, { name: 'require' }) ||
+        !t.isStringLiteral(node.init.arguments[0], { value: 'express' })) {
+      return undefined;
+    }
+    if (t.isIdentifier(node.id)) {
+      return 'default';
+    }
+    const property = t.isObjectPattern(node.id)
+      ? node.id.properties.find((prop): prop is t.ObjectProperty =>
+        t.isObjectProperty(prop) && t.isIdentifier(prop.value, { name: binding.identifier.name }))
+      : undefined;
+    return property && t.isIdentifier(property.key) ? property.key.name : undefined;
+  }
+
+  /**
+   * Describe a call compactly, replacing inline callbacks with `...`
+   *
+   * @param callNode - Call expression node
+   * @param content - Original source content
+   * @returns Short description such as `ipcMain.handle('load', ...)`
+   * @private
+   */
+  private describeCall(callNode: t.CallExpression, content: string): string {
+    const callee = this.getSnippet(callNode.callee, content);
+    const args = callNode.arguments.map(arg =>
+      t.isFunction(arg) ? '...' : this.getSnippet(arg, content, 40)
+    );
+    return `${callee}(${args.join(', ')})`;
+  }
+
+  /**
+   * Get the source text of a node with whitespace collapsed
+   *
+   * @param node - AST node
+   * @param content - Original source content
+   * @param maxLength - Maximum snippet length before truncation
+   * @returns Source snippet
+   * @private
+   */
+  private getSnippet(node: t.Node, content: string, maxLength: number = MAX_SNIPPET_LENGTH): string {
+    if (node.start == null || node.end == null) {
+      return '';
+    }
+
+    const snippet = content.slice(node.start, node.end).replace(/\s+/g, ' ').trim();
+    return snippet.length > maxLength ? `${snippet.slice(0, maxLength - 3)}...` : snippet;
   }
 
   /**
@@ -508,8 +1552,6 @@ export class BabelAnalyzer {
     path: any,
     analysis: FileAnalysis
   ): void {
-    // For now, we'll just track that exports exist
-    // Could be expanded to track specific export information
     if (!analysis.imports) {
       analysis.imports = {};
     }
@@ -518,5 +1560,49 @@ export class BabelAnalyzer {
     if (!analysis.imports['__exports__']) {
       analysis.imports['__exports__'] = ['default'];
     }
+
+    // Record the exported names with the line of their export
+    const node = path.node;
+    const line = node.loc?.start.line || 0;
+    const names: string[] = [];
+
+    if (t.isExportDefaultDeclaration(node)) {
+      names.push('default');
+      const declaration = node.declaration;
+      if (t.isIdentifier(declaration)) {
+        analysis.default_export = declaration.name;
+      } else if ((t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) && declaration.id) {
+        analysis.default_export = declaration.id.name;
+      }
+    } else if (t.isExportNamedDeclaration(node)) {
+      const declaration = node.declaration;
+      if (t.isVariableDeclaration(declaration)) {
+        for (const declarator of declaration.declarations) {
+          if (t.isIdentifier(declarator.id)) {
+            names.push(declarator.id.name);
+          }
+        }
+      } else if (declaration && 'id' in declaration && t.isIdentifier(declaration.id)) {
+        names.push(declaration.id.name);
+      }
+
+      for (const specifier of node.specifiers) {
+        const exported = specifier.exported;
+        names.push(t.isIdentifier(exported) ? exported.name : exported.value);
+      }
+    }
+
+    if (names.length === 0) {
+      return;
+    }
+
+    if (!analysis.exports) analysis.exports = [];
+    if (!analysis.export_lines) analysis.export_lines = {};
+    for (const name of names) {
+      if (!analysis.exports.includes(name)) {
+        analysis.exports.push(name);
+        analysis.export_lines[name] = line;
+      }
+    }
   }
 }
@@ -0,0 +1,503 @@
+/**
+ * Dart Tree-sitter Analyzer
+ *
+ * This module extracts imports, top-level functions, classes, mixins,
+ * annotations and Flutter `setState` calls from Dart source files using
+ * the bundled tree-sitter-dart grammar.
+ */
+
+import type Parser from 'web-tree-sitter';
+import { TreeSitterManager } from './tree-sitter-manager.js';
+import type {
+  FileAnalysis,
+  FunctionInfo,
+  ClassInfo,
+  Decorator
+} from '../types/index.js';
+
+type SyntaxNode = Parser.SyntaxNode;
+
+/**
+ * Tree-sitter queries for Dart constructs
+ */
+const DART_QUERIES = {
+  // import, export and part directives all create a file dependency
+  DIRECTIVES: `
+    (import_specification) @directive
+    (library_export) @directive
+    (part_directive) @directive
+  `,
+
+  // Top-level functions are a signature followed by a body directly under the program
+  FUNCTIONS: `
+    (program (function_signature name: (identifier) @name) @signature)
+  `,
+
+  CLASSES: `
+    (class_definition name: (identifier) @name) @class
+    (mixin_declaration (identifier) @name) @class
+  `,
+
+  SET_STATE: `
+    ((identifier) @callee . (selector (argument_part)) @call (#eq? @callee "setState"))
+  `
+};
+
+/**
+ * Signature node types that declare a callable class member
+ */
+const MEMBER_SIGNATURE_TYPES = new Set([
+  'function_signature',
+  'getter_signature',
+  'setter_signature',
+  'constructor_signature',
+  'constant_constructor_signature',
+  'factory_constructor_signature',
+  'redirecting_factory_constructor_signature'
+]);
+
+/**
+ * Flutter base classes whose subclasses are widgets or widget state
+ */
+const FLUTTER_COMPONENT_BASES = ['StatelessWidget', 'StatefulWidget', 'State'];
+
+/**
+ * Maximum length of a source snippet recorded as evidence
+ */
+const MAX_SNIPPET_LENGTH = 80;
+
+/**
+ * Dart code analyzer built on Tree-sitter
+ *
+ * This class turns a Dart syntax tree into the same `FileAnalysis` shape the
+ * Babel and Python analyzers produce, so framework, state and dependency
+ * detection work on Flutter projects.
+ */
+export class DartAnalyzer {
+  private treeSitterManager: TreeSitterManager;
+
+  /**
+   * Create a new DartAnalyzer
+   *
+   * @param treeSitterManager - Manager with the Dart grammar loaded
+   */
+  constructor(treeSitterManager: TreeSitterManager) {
+    this.treeSitterManager = treeSitterManager;
+  }
+
+  /**
+   * Analyze a Dart file
+   *
+   * @param content - Dart source code content
+   * @param filePath - File path for context
+   * @returns Promise that resolves to detailed file analysis
+   * @throws {Error} If the Dart grammar is not available or parsing fails
+   */
+  async analyzeDart(content: string, filePath: string = 'unknown'): Promise<FileAnalysis> {
+    const tree = await this.treeSitterManager.parseFile(content, 'dart');
+
+    const analysis: FileAnalysis = {
+      path: filePath,
+      language: 'dart',
+      imports: {},
+      functions: {},
+      classes: {},
+    };
+
+    // Functions keyed by the start of their signature, used to attach setState calls
+    const functionsBySignature = new Map<number, FunctionInfo>();
+
+    try {
+      this.extractDirectives(tree, analysis);
+      this.extractFunctions(tree, analysis, functionsBySignature);
+      this.extractClasses(tree, analysis, functionsBySignature);
+      this.extractSetStateCalls(tree, functionsBySignature);
+    } finally {
+      tree.delete();
+    }
+
+    return analysis;
+  }
+
+  /**
+   * Extract import, export and part directives
+   *
+   * Imports are keyed by URI. A `show` combinator lists the imported names,
+   * a prefix import is recorded as `* as prefix`, everything else as `*`.
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis to populate
+   * @private
+   */
+  private extractDirectives(tree: Parser.Tree, analysis: FileAnalysis): void {
+    const imports = analysis.imports!;
+    const importLines: Record<string, number> = {};
+    const captures = this.treeSitterManager.query(tree, DART_QUERIES.DIRECTIVES, 'dart');
+
+    for (const directive of captures) {
+      const uriNode = directive.node.descendantsOfType('uri')[0];
+      const uri = uriNode ? this.unquote(uriNode.text) : '';
+      if (!uri) {
+        continue;
+      }
+
+      const shownNames = directive.node.namedChildren
+        .filter(child => child.type === 'combinator' && child.text.startsWith('show'))
+        .flatMap(child => child.namedChildren.map(name => name.text));
+      const prefix = directive.node.namedChildren.find(child => child.type === 'identifier');
+
+      let names: string[];
+      if (shownNames.length > 0) {
+        names = shownNames;
+      } else if (prefix) {
+        names = [`* as ${prefix.text}`];
+      } else {
+        names = ['*'];
+      }
+
+      if (!imports[uri]) {
+        imports[uri] = [];
+        importLines[uri] = directive.node.startPosition.row + 1;
+      }
+      for (const name of names) {
+        if (!imports[uri].includes(name)) {
+          imports[uri].push(name);
+        }
+      }
+    }
+
+    analysis.import_lines = importLines;
+  }
+
+  /**
+   * Extract top-level functions
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis to populate
+   * @param functionsBySignature - Registry of extracted functions
+   * @private
+   */
+  private extractFunctions(
+    tree: Parser.Tree,
+    analysis: FileAnalysis,
+    functionsBySignature: Map<number, FunctionInfo>
+  ): void {
+    const captures = this.treeSitterManager.query(tree, DART_QUERIES.FUNCTIONS, 'dart');
+
+    for (const capture of captures) {
+      if (capture.name !== 'signature') {
+        continue;
+      }
+
+      const extracted = this.createFunctionInfo(capture.node, capture.node);
+      if (extracted) {
+        analysis.functions![extracted.signature] = extracted.info;
+        functionsBySignature.set(capture.node.startIndex, extracted.info);
+      }
+    }
+  }
+
+  /**
+   * Extract classes and mixins together with their methods
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis to populate
+   * @param functionsBySignature - Registry of extracted functions
+   * @private
+   */
+  private extractClasses(
+    tree: Parser.Tree,
+    analysis: FileAnalysis,
+    functionsBySignature: Map<number, FunctionInfo>
+  ): void {
+    const captures = this.treeSitterManager.query(tree, DART_QUERIES.CLASSES, 'dart');
+
+    for (const capture of captures) {
+      if (capture.name !== 'class') {
+        continue;
+      }
+
+      const classNode = capture.node;
+      const nameNode = classNode.childForFieldName('name')
+        ?? classNode.namedChildren.find(child => child.type === 'identifier');
+      if (!nameNode) {
+        continue;
+      }
+
+      const baseClasses = this.getBaseClasses(classNode);
+      const decorators = this.getAnnotations(classNode);
+      const classInfo: ClassInfo = {
+        docstring: this.getDocComment(classNode),
+        methods: {},
+        base_classes: baseClasses,
+        line_number: classNode.startPosition.row + 1,
+      };
+
+      if (decorators.length > 0) {
+        classInfo.decorators = decorators;
+      }
+      if (baseClasses.some(base => FLUTTER_COMPONENT_BASES.includes(base))) {
+        classInfo.is_component = true;
+      }
+
+      const body = classNode.childForFieldName('body')
+        ?? classNode.namedChildren.find(child => child.type === 'class_body');
+
+      for (const member of body?.namedChildren ?? []) {
+        if (member.type !== 'method_signature' && member.type !== 'declaration') {
+          continue;
+        }
+
+        const signatureNode = member.namedChildren.find(child => MEMBER_SIGNATURE_TYPES.has(child.type));
+        if (!signatureNode) {
+          continue;
+        }
+
+        const extracted = this.createFunctionInfo(signatureNode, member);
+        if (extracted) {
+          classInfo.methods[extracted.signature] = extracted.info;
+          functionsBySignature.set(member.startIndex, extracted.info);
+        }
+      }
+
+      analysis.classes![nameNode.text] = classInfo;
+    }
+  }
+
+  /**
+   * Attach `setState(...)` calls to the function that makes them
+   *
+   * @param tree - Parsed syntax tree
+   * @param functionsBySignature - Registry of extracted functions
+   * @private
+   */
+  private extractSetStateCalls(
+    tree: Parser.Tree,
+    functionsBySignature: Map<number, FunctionInfo>
+  ): void {
+    const captures = this.treeSitterManager.query(tree, DART_QUERIES.SET_STATE, 'dart');
+
+    for (const capture of captures) {
+      if (capture.name !== 'callee') {
+        continue;
+      }
+
+      const owner = this.findOwningFunction(capture.node, functionsBySignature);
+      if (!owner) {
+        continue;
+      }
+
+      const call = capture.node.nextNamedSibling;
+      const snippet = this.getSnippet(`setState${call ? call.text : '()'}`);
+      owner.state_changes.push({ snippet, line: capture.node.startPosition.row + 1 });
+    }
+  }
+
+  /**
+   * Build function info from a signature node
+   *
+   * @param signatureNode - function, getter, setter or constructor signature
+   * @param declarationNode - Node whose siblings hold the annotations and body
+   * @returns Function signature key and info, or undefined if unnamed
+   * @private
+   */
+  private createFunctionInfo(
+    signatureNode: SyntaxNode,
+    declarationNode: SyntaxNode
+  ): { signature: string; info: FunctionInfo } | undefined {
+    const name = this.getMemberName(signatureNode);
+    if (!name) {
+      return undefined;
+    }
+
+    const parameterList = signatureNode.namedChildren.find(child => child.type === 'formal_parameter_list');
+    const parameters = parameterList
+      ? parameterList.descendantsOfType('formal_parameter')
+        .map(parameter => parameter.childForFieldName('name')?.text)
+        .filter((parameterName): parameterName is string => Boolean(parameterName))
+      : [];
+
+    const body = declarationNode.nextNamedSibling?.type === 'function_body'
+      ? declarationNode.nextNamedSibling
+      : null;
+
+    const info: FunctionInfo = {
+      docstring: this.getDocComment(declarationNode),
+      state_changes: [],
+      event_handlers: [],
+      api_endpoints: [],
+      is_async: Boolean(body && /^async\b/.test(body.text)),
+      parameters,
+      line_number: signatureNode.startPosition.row + 1,
+    };
+
+    const decorators = this.getAnnotations(declarationNode);
+    if (decorators.length > 0) {
+      info.decorators = decorators;
+    }
+
+    return { signature: `${name}(${parameters.join(', ')})`, info };
+  }
+
+  /**
+   * Get the declared name of a function, accessor or constructor
+   *
+   * Named constructors keep their class prefix (`User.fromJson`), accessors
+   * are prefixed with `get`/`set`.
+   *
+   * @private
+   */
+  private getMemberName(signatureNode: SyntaxNode): string | undefined {
+    const nameNode = signatureNode.childForFieldName('name');
+
+    switch (signatureNode.type) {
+      case 'getter_signature':
+        return nameNode ? `get ${nameNode.text}` : undefined;
+      case 'setter_signature':
+        return nameNode ? `set ${nameNode.text}` : undefined;
+      case 'function_signature':
+        return nameNode?.text;
+      default: {
+        // Constructors: `Name`, `Name.named`, `const Name`, `factory Name.named`
+        const parts = signatureNode.namedChildren
+          .filter(child => child.type === 'identifier' || child.type === 'qualified')
+          .map(child => child.text.replace(/^\./, ''));
+        return parts.length > 0 ? parts.join('.') : undefined;
+      }
+    }
+  }
+
+  /**
+   * Get superclass, mixins and interfaces of a class or mixin declaration
+   *
+   * Type arguments are dropped so `State<HomePage>` is reported as `State`.
+   *
+   * @private
+   */
+  private getBaseClasses(classNode: SyntaxNode): string[] {
+    const baseClasses: string[] = [];
+    const typeNames = (node: SyntaxNode) => node.namedChildren
+      .filter(child => child.type === 'type_identifier')
+      .map(child => child.text);
+
+    for (const child of classNode.namedChildren) {
+      if (child.type === 'superclass') {
+        baseClasses.push(...typeNames(child));
+        const mixins = child.namedChildren.find(grandchild => grandchild.type === 'mixins');
+        if (mixins) {
+          baseClasses.push(...typeNames(mixins));
+        }
+      } else if (child.type === 'mixins' || child.type === 'interfaces') {
+        baseClasses.push(...typeNames(child));
+      } else if (classNode.type === 'mixin_declaration' && child.type === 'type_identifier') {
+        // `mixin Foo on Bar` constraints
+        baseClasses.push(child.text);
+      }
+    }
+
+    return [...new Set(baseClasses)];
+  }
+
+  /**
+   * Collect the annotations written directly before a declaration
+   *
+   * @private
+   */
+  private getAnnotations(node: SyntaxNode): Decorator[] {
+    const decorators: Decorator[] = [];
+    let sibling = node.previousNamedSibling;
+
+    while (sibling && (sibling.type === 'annotation' || sibling.type === 'marker_annotation' || sibling.type === 'comment' || sibling.type === 'documentation_comment')) {
+      if (sibling.type === 'annotation' || sibling.type === 'marker_annotation') {
+        const nameNode = sibling.childForFieldName('name');
+        const argumentsNode = sibling.childForFieldName('arguments');
+        const decorator: Decorator = {
+          name: nameNode ? nameNode.text : sibling.text.replace(/^@/, ''),
+          line_number: sibling.startPosition.row + 1,
+        };
+
+        if (argumentsNode) {
+          decorator.arguments = argumentsNode.namedChildren.map(argument => argument.text);
+        }
+
+        decorators.unshift(decorator);
+      }
+      sibling = sibling.previousNamedSibling;
+    }
+
+    return decorators;
+  }
+
+  /**
+   * Get the `///` documentation comment written before a declaration
+   *
+   * @private
+   */
+  private getDocComment(node: SyntaxNode): string {
+    const lines: string[] = [];
+    let sibling = node.previousNamedSibling;
+    let nextRow = node.startPosition.row;
+
+    // Only comments and annotations on the lines directly above belong to the declaration
+    while (sibling && sibling.endPosition.row >= nextRow - 1) {
+      nextRow = sibling.startPosition.row;
+      if (sibling.type === 'comment' || sibling.type === 'documentation_comment') {
+        if (!sibling.text.startsWith('///')) {
+          break;
+        }
+        lines.unshift(sibling.text.replace(/^\/\/\/\s?/, ''));
+      } else if (sibling.type !== 'annotation' && sibling.type !== 'marker_annotation') {
+        break;
+      }
+      sibling = sibling.previousNamedSibling;
+    }
+
+    return lines.join('\n').trim();
+  }
+
+  /**
+   * Find the function whose body contains a node
+   *
+   * @private
+   */
+  private findOwningFunction(
+    node: SyntaxNode,
+    functionsBySignature: Map<number, FunctionInfo>
+  ): FunctionInfo | undefined {
+    let current: SyntaxNode | null = node.parent;
+
+    while (current) {
+      if (current.type === 'function_body') {
+        const declaration = current.previousNamedSibling;
+        const owner = declaration ? functionsBySignature.get(declaration.startIndex) : undefined;
+        if (owner) {
+          return owner;
+        }
+      }
+      current = current.parent;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Remove quotes from a Dart string literal
+   *
+   * @private
+   */
+  private unquote(literal: string): string {
+    return literal.replace(/^r?(['"]{1,3})([\s\S]*)\1$/, '$2').trim();
+  }
+
+  /**
+   * Collapse whitespace and truncate a snippet
+   *
+   * @private
+   */
+  private getSnippet(source: string): string {
+    const snippet = source.replace(/\s+/g, ' ').trim();
+    return snippet.length > MAX_SNIPPET_LENGTH
+      ? `${snippet.slice(0, MAX_SNIPPET_LENGTH - 3)}...`
+      : snippet;
+  }
+}
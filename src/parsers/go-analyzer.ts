@@ -0,0 +1,847 @@
+/**
+ * Go Tree-sitter Analyzer
+ *
+ * This module extracts the package, imports, functions, methods, structs
+ * and interfaces of Go source files using the bundled tree-sitter-go
+ * grammar. Methods are grouped under their receiver type in `classes`.
+ *
+ * Route registrations of net/http, Gorilla Mux, Gin, Echo and Chi are
+ * recorded as API endpoints of the function that makes them. Each router's
+ * framework follows from the constructor (`gin.Default()`, `chi.NewRouter()`)
+ * or parameter type (`r *mux.Router`) it comes from, so a file may mix
+ * frameworks. Prefixes of
+ * router groups (`r.Group("/v1")`), Gorilla subrouters
+ * (`r.PathPrefix("/api").Subrouter()`) and Chi `r.Route("/users", ...)`
+ * blocks are followed within that function.
+ */
+
+import type Parser from 'web-tree-sitter';
+import { TreeSitterManager } from './tree-sitter-manager.js';
+import type {
+  FileAnalysis,
+  FunctionInfo,
+  ClassInfo,
+  ApiEndpoint,
+  HttpMethod
+} from '../types/index.js';
+
+type SyntaxNode = Parser.SyntaxNode;
+
+/**
+ * Tree-sitter queries for Go constructs
+ */
+const GO_QUERIES = {
+  PACKAGE: `
+    (package_clause (package_identifier) @name)
+  `,
+
+  IMPORTS: `
+    (import_spec) @import
+  `,
+
+  TYPES: `
+    (type_spec) @type
+  `,
+
+  FUNCTIONS: `
+    (function_declaration) @function
+  `,
+
+  METHODS: `
+    (method_declaration) @method
+  `
+};
+
+/**
+ * Router frameworks whose route registrations are recognized
+ */
+type GoRouterFramework = 'net/http' | 'Gorilla Mux' | 'Gin' | 'Echo' | 'Chi';
+
+/**
+ * Router packages with the functions that create a router and the router
+ * types, in the order they are preferred for routers of unknown origin
+ */
+const GO_ROUTER_PACKAGES: Array<{
+  pattern: RegExp;
+  framework: GoRouterFramework;
+  constructors: string[];
+  types: string[];
+}> = [
+  {
+    pattern: /^github\.com\/gin-gonic\/gin$/,
+    framework: 'Gin',
+    constructors: ['Default', 'New'],
+    types: ['Engine', 'RouterGroup', 'IRouter', 'IRoutes']
+  },
+  { pattern: /^github\.com\/labstack\/echo(\/v\d+)?$/, framework: 'Echo', constructors: ['New'], types: ['Echo', 'Group'] },
+  { pattern: /^github\.com\/go-chi\/chi(\/v\d+)?$/, framework: 'Chi', constructors: ['NewRouter', 'NewMux'], types: ['Router', 'Mux'] },
+  { pattern: /^github\.com\/gorilla\/mux$/, framework: 'Gorilla Mux', constructors: ['NewRouter'], types: ['Router'] },
+  { pattern: /^net\/http$/, framework: 'net/http', constructors: ['NewServeMux'], types: ['ServeMux'] }
+];
+
+/**
+ * A router expression: the framework it belongs to and its route prefix
+ */
+interface GoRouter {
+  framework: GoRouterFramework;
+  prefix: string;
+}
+
+/**
+ * What the route registrations of a file are resolved against
+ */
+interface GoRouterContext {
+  /** Framework of routers whose origin is unknown */
+  defaultFramework: GoRouterFramework;
+  /** Framework of each imported router package, by the name it is used under */
+  packages: Map<string, GoRouterFramework>;
+  /** Routers held by package-level variables */
+  globals: Map<string, GoRouter>;
+}
+
+/**
+ * Registration methods taking `(path, handler)` that handle one HTTP method
+ */
+const ROUTE_METHODS: Record<GoRouterFramework, Record<string, HttpMethod>> = {
+  'net/http': {},
+  'Gorilla Mux': {},
+  Gin: {
+    GET: 'GET', POST: 'POST', PUT: 'PUT', DELETE: 'DELETE', PATCH: 'PATCH', HEAD: 'HEAD', OPTIONS: 'OPTIONS'
+  },
+  Echo: {
+    GET: 'GET', POST: 'POST', PUT: 'PUT', DELETE: 'DELETE', PATCH: 'PATCH', HEAD: 'HEAD', OPTIONS: 'OPTIONS'
+  },
+  Chi: {
+    Get: 'GET', Post: 'POST', Put: 'PUT', Delete: 'DELETE', Patch: 'PATCH', Head: 'HEAD', Options: 'OPTIONS'
+  }
+};
+
+/**
+ * Registration methods taking `(path, handler)` that handle every HTTP method
+ */
+const ANY_METHOD_ROUTE_METHODS: Record<GoRouterFramework, string[]> = {
+  'net/http': ['HandleFunc', 'Handle'],
+  'Gorilla Mux': ['HandleFunc', 'Handle'],
+  Gin: ['Any'],
+  Echo: ['Any'],
+  Chi: ['HandleFunc', 'Handle']
+};
+
+/**
+ * Registration methods taking `(method, path, handler)`
+ */
+const EXPLICIT_METHOD_ROUTE_METHODS: Record<GoRouterFramework, string[]> = {
+  'net/http': [],
+  'Gorilla Mux': [],
+  Gin: ['Handle'],
+  Echo: ['Add'],
+  Chi: ['Method', 'MethodFunc']
+};
+
+/**
+ * Valid HTTP methods for `Methods(...)`, `Handle(method, ...)` and `"GET /path"` patterns
+ */
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
+
+/**
+ * A Go 1.22 ServeMux pattern: `[METHOD ][HOST]/PATH`
+ */
+const SERVE_MUX_PATTERN = /^(?:([A-Z]+)\s+)?[^/\s]*(\/.*)$/;
+
+/**
+ * Maximum length of a handler expression recorded for a route
+ */
+const MAX_HANDLER_LENGTH = 60;
+
+/**
+ * Go code analyzer built on Tree-sitter
+ *
+ * This class turns a Go syntax tree into the same `FileAnalysis` shape the
+ * other analyzers produce, so route and dependency detection work on Go
+ * services.
+ */
+export class GoAnalyzer {
+  private treeSitterManager: TreeSitterManager;
+
+  /**
+   * Create a new GoAnalyzer
+   *
+   * @param treeSitterManager - Manager with the Go grammar loaded
+   */
+  constructor(treeSitterManager: TreeSitterManager) {
+    this.treeSitterManager = treeSitterManager;
+  }
+
+  /**
+   * Analyze a Go file
+   *
+   * @param content - Go source code content
+   * @param filePath - File path for context
+   * @returns Promise that resolves to detailed file analysis
+   * @throws {Error} If the Go grammar is not available or parsing fails
+   */
+  async analyzeGo(content: string, filePath: string = 'unknown'): Promise<FileAnalysis> {
+    const tree = await this.treeSitterManager.parseFile(content, 'go');
+
+    const analysis: FileAnalysis = {
+      path: filePath,
+      language: 'go',
+      imports: {},
+      functions: {},
+      classes: {},
+    };
+
+    try {
+      this.extractPackage(tree, analysis);
+      this.extractImports(tree, analysis);
+      this.extractTypes(tree, analysis);
+
+      const context = this.createRouterContext(tree, analysis);
+      this.extractFunctions(tree, analysis, context);
+      this.extractMethods(tree, analysis, context);
+    } finally {
+      tree.delete();
+    }
+
+    return analysis;
+  }
+
+  /**
+   * Extract the package clause
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis to populate
+   * @private
+   */
+  private extractPackage(tree: Parser.Tree, analysis: FileAnalysis): void {
+    const [capture] = this.treeSitterManager.query(tree, GO_QUERIES.PACKAGE, 'go');
+
+    if (capture) {
+      analysis.package = capture.text;
+    }
+  }
+
+  /**
+   * Extract import specs
+   *
+   * Imports are keyed by package path with the name the package is used
+   * under: its alias, `_`, `.` or the last path element without a major
+   * version suffix (`github.com/labstack/echo/v4` -> `echo`).
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis to populate
+   * @private
+   */
+  private extractImports(tree: Parser.Tree, analysis: FileAnalysis): void {
+    const imports = analysis.imports!;
+    const importLines: Record<string, number> = {};
+    const captures = this.treeSitterManager.query(tree, GO_QUERIES.IMPORTS, 'go');
+
+    for (const capture of captures) {
+      const pathNode = capture.node.childForFieldName('path');
+      const path = pathNode ? this.unquote(pathNode.text) : '';
+      if (!path) {
+        continue;
+      }
+
+      const name = capture.node.childForFieldName('name')?.text ?? this.getDefaultPackageName(path);
+
+      if (!imports[path]) {
+        imports[path] = [];
+        importLines[path] = capture.node.startPosition.row + 1;
+      }
+      if (!imports[path].includes(name)) {
+        imports[path].push(name);
+      }
+    }
+
+    analysis.import_lines = importLines;
+  }
+
+  /**
+   * Extract struct and interface types
+   *
+   * Embedded fields and embedded interfaces are reported as base classes,
+   * interface method specs as methods.
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis to populate
+   * @private
+   */
+  private extractTypes(tree: Parser.Tree, analysis: FileAnalysis): void {
+    const captures = this.treeSitterManager.query(tree, GO_QUERIES.TYPES, 'go');
+
+    for (const capture of captures) {
+      const typeSpec = capture.node;
+      const name = typeSpec.childForFieldName('name')?.text;
+      const typeNode = typeSpec.childForFieldName('type');
+      if (!name || !typeNode || (typeNode.type !== 'struct_type' && typeNode.type !== 'interface_type')) {
+        continue;
+      }
+
+      // A lone spec is documented above its `type` keyword
+      const declaration = typeSpec.parent?.type === 'type_declaration' && typeSpec.parent.namedChildren.length === 1
+        ? typeSpec.parent
+        : typeSpec;
+
+      const classInfo: ClassInfo = {
+        docstring: this.getDocComment(declaration),
+        methods: {},
+        base_classes: [],
+        line_number: typeSpec.startPosition.row + 1,
+        end_line_number: typeSpec.endPosition.row + 1,
+      };
+
+      if (typeNode.type === 'struct_type') {
+        const fields = typeNode.namedChildren.find(child => child.type === 'field_declaration_list');
+        for (const field of fields?.namedChildren ?? []) {
+          const fieldType = field.childForFieldName('type');
+          if (field.type === 'field_declaration' && !field.childForFieldName('name') && fieldType) {
+            classInfo.base_classes!.push(this.getRawTypeName(fieldType));
+          }
+        }
+      } else {
+        for (const element of typeNode.namedChildren) {
+          if (element.type === 'method_spec' || element.type === 'method_elem') {
+            const extracted = this.createFunctionInfo(element, element.childForFieldName('name')?.text);
+            if (extracted) {
+              classInfo.methods[extracted.signature] = extracted.info;
+            }
+          } else if (element.type === 'constraint_elem' || element.type === 'type_elem') {
+            classInfo.base_classes!.push(...element.namedChildren.map(type => this.getRawTypeName(type)));
+          }
+        }
+      }
+
+      analysis.classes![name] = classInfo;
+    }
+  }
+
+  /**
+   * Extract functions
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis to populate
+   * @param context - Router packages and package-level routers of the file
+   * @private
+   */
+  private extractFunctions(tree: Parser.Tree, analysis: FileAnalysis, context: GoRouterContext): void {
+    const captures = this.treeSitterManager.query(tree, GO_QUERIES.FUNCTIONS, 'go');
+
+    for (const capture of captures) {
+      const extracted = this.createFunctionInfo(capture.node, capture.node.childForFieldName('name')?.text);
+      if (extracted) {
+        this.collectRoutes(
+          capture.node.childForFieldName('body'),
+          context,
+          extracted.info.api_endpoints,
+          this.getParameterRouters(capture.node, context)
+        );
+        analysis.functions![extracted.signature] = extracted.info;
+      }
+    }
+  }
+
+  /**
+   * Extract methods and group them under their receiver type
+   *
+   * Receiver types declared in another file of the package get a class
+   * entry without a line number.
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis to populate
+   * @param context - Router packages and package-level routers of the file
+   * @private
+   */
+  private extractMethods(tree: Parser.Tree, analysis: FileAnalysis, context: GoRouterContext): void {
+    const captures = this.treeSitterManager.query(tree, GO_QUERIES.METHODS, 'go');
+
+    for (const capture of captures) {
+      const receiverType = capture.node.childForFieldName('receiver')
+        ?.namedChildren[0]
+        ?.childForFieldName('type');
+      const extracted = this.createFunctionInfo(capture.node, capture.node.childForFieldName('name')?.text);
+      if (!receiverType || !extracted) {
+        continue;
+      }
+
+      const typeName = this.getRawTypeName(receiverType);
+      if (!analysis.classes![typeName]) {
+        analysis.classes![typeName] = { docstring: '', methods: {}, base_classes: [] };
+      }
+
+      this.collectRoutes(
+        capture.node.childForFieldName('body'),
+        context,
+        extracted.info.api_endpoints,
+        this.getParameterRouters(capture.node, context)
+      );
+      analysis.classes![typeName].methods[extracted.signature] = extracted.info;
+    }
+  }
+
+  /**
+   * Build function info from a function, method or interface method spec
+   *
+   * @param declarationNode - Node with `parameters` and `result` fields
+   * @param name - Declared name
+   * @returns Function signature key and info, or undefined if unnamed
+   * @private
+   */
+  private createFunctionInfo(
+    declarationNode: SyntaxNode,
+    name: string | undefined
+  ): { signature: string; info: FunctionInfo } | undefined {
+    if (!name) {
+      return undefined;
+    }
+
+    // `id, name string` declares two parameters
+    const parameters = (declarationNode.childForFieldName('parameters')?.namedChildren ?? [])
+      .flatMap(parameter => parameter.namedChildren
+        .filter(child => child.type === 'identifier')
+        .map(child => child.text));
+
+    const info: FunctionInfo = {
+      docstring: this.getDocComment(declarationNode),
+      state_changes: [],
+      event_handlers: [],
+      api_endpoints: [],
+      parameters,
+      line_number: declarationNode.startPosition.row + 1,
+      end_line_number: declarationNode.endPosition.row + 1,
+    };
+
+    const result = declarationNode.childForFieldName('result');
+    if (result) {
+      info.return_type = result.text;
+    }
+
+    return { signature: `${name}(${parameters.join(', ')})`, info };
+  }
+
+  /**
+   * Build the router context of a file
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis with the imports of the file
+   * @returns Router packages and package-level routers of the file
+   * @private
+   */
+  private createRouterContext(tree: Parser.Tree, analysis: FileAnalysis): GoRouterContext {
+    const packages = new Map<string, GoRouterFramework>();
+    for (const [path, names] of Object.entries(analysis.imports || {})) {
+      const routerPackage = GO_ROUTER_PACKAGES.find(({ pattern }) => pattern.test(path));
+      for (const name of routerPackage ? names : []) {
+        packages.set(name, routerPackage!.framework);
+      }
+    }
+
+    const context: GoRouterContext = {
+      defaultFramework: this.getRouterFramework(analysis),
+      packages,
+      globals: new Map()
+    };
+
+    // var r = chi.NewRouter()
+    for (const declaration of tree.rootNode.namedChildren) {
+      if (declaration.type === 'var_declaration') {
+        for (const spec of declaration.namedChildren.filter(child => child.type === 'var_spec')) {
+          this.recordRouterVariables(spec, context, context.globals);
+        }
+      }
+    }
+
+    return context;
+  }
+
+  /**
+   * Get the routers in scope of a function: package-level routers and
+   * parameters of a router type (`r *gin.Engine`, `r chi.Router`)
+   *
+   * @param declarationNode - Function or method declaration
+   * @param context - Router context of the file
+   * @returns Router of each variable in scope
+   * @private
+   */
+  private getParameterRouters(declarationNode: SyntaxNode, context: GoRouterContext): Map<string, GoRouter> {
+    const routers = new Map(context.globals);
+
+    for (const parameter of declarationNode.childForFieldName('parameters')?.namedChildren ?? []) {
+      const type = parameter.childForFieldName('type')?.text.match(/^\*?(\w+)\.(\w+)$/);
+      const framework = type ? context.packages.get(type[1]!) : undefined;
+      if (!framework || !GO_ROUTER_PACKAGES.find(entry => entry.framework === framework)!.types.includes(type![2]!)) {
+        continue;
+      }
+
+      for (const name of parameter.namedChildren.filter(child => child.type === 'identifier')) {
+        routers.set(name.text, { framework, prefix: '' });
+      }
+    }
+
+    return routers;
+  }
+
+  /**
+   * Collect the route registrations in a function body
+   *
+   * Router variables carry their framework and prefix in `routers`; a
+   * variable without an entry is a router of the file's default framework
+   * without prefix.
+   *
+   * @param node - Function body or a node inside it
+   * @param context - Router context of the file
+   * @param routes - Endpoints of the function to append to
+   * @param routers - Router of each variable in scope
+   * @private
+   */
+  private collectRoutes(
+    node: SyntaxNode | null,
+    context: GoRouterContext,
+    routes: ApiEndpoint[],
+    routers: Map<string, GoRouter>
+  ): void {
+    if (!node) {
+      return;
+    }
+
+    if (node.type === 'short_var_declaration' || node.type === 'assignment_statement' || node.type === 'var_spec') {
+      this.recordRouterVariables(node, context, routers);
+    }
+
+    if (node.type === 'call_expression') {
+      const handled = this.recordRouteCall(node, context, routes, routers);
+      if (handled) {
+        return;
+      }
+    }
+
+    for (const child of node.namedChildren) {
+      this.collectRoutes(child, context, routes, routers);
+    }
+  }
+
+  /**
+   * Record router variables assigned a new router, group or subrouter
+   *
+   * @private
+   */
+  private recordRouterVariables(node: SyntaxNode, context: GoRouterContext, routers: Map<string, GoRouter>): void {
+    const left = node.childForFieldName('left') ?? node.childForFieldName('name');
+    const right = node.childForFieldName('right') ?? node.childForFieldName('value');
+    if (!left || !right) {
+      return;
+    }
+
+    const names = left.type === 'expression_list' ? left.namedChildren : [left];
+    const values = right.type === 'expression_list' ? right.namedChildren : [right];
+
+    names.forEach((nameNode, index) => {
+      const value = values[index];
+      const router = value ? this.getCreatedRouter(value, context, routers) : undefined;
+      if (nameNode.type === 'identifier' && router) {
+        routers.set(nameNode.text, router);
+      }
+    });
+  }
+
+  /**
+   * Record a route registration call, or follow a Chi `Route`/`Group` block
+   *
+   * @returns True if the call and its arguments need no further walking
+   * @private
+   */
+  private recordRouteCall(
+    callNode: SyntaxNode,
+    context: GoRouterContext,
+    routes: ApiEndpoint[],
+    routers: Map<string, GoRouter>
+  ): boolean {
+    const callee = callNode.childForFieldName('function');
+    if (!callee || callee.type !== 'selector_expression') {
+      return false;
+    }
+
+    const member = callee.childForFieldName('field')?.text || '';
+    const receiver = callee.childForFieldName('operand');
+    const args = callNode.childForFieldName('arguments')?.namedChildren ?? [];
+    if (!receiver) {
+      return false;
+    }
+
+    // Gorilla Mux: r.HandleFunc("/users", h).Methods("GET", http.MethodPost)
+    if (member === 'Methods' && receiver.type === 'call_expression') {
+      const methods = args
+        .map(arg => this.getHttpMethod(arg))
+        .filter((method): method is HttpMethod => method !== undefined);
+      const registered: ApiEndpoint[] = [];
+      this.recordRouteCall(receiver, context, registered, routers);
+      for (const route of registered) {
+        routes.push(...(methods.length > 0 ? methods.map(method => ({ ...route, method })) : [route]));
+      }
+      return registered.length > 0;
+    }
+
+    const router = this.getRouter(receiver, context, routers);
+    const routerFramework = router.framework;
+
+    // Chi: r.Route("/users", func(r chi.Router) { ... }) and r.Group(func(r chi.Router) { ... })
+    if (routerFramework === 'Chi' && (member === 'Route' || member === 'Group')) {
+      const block = args.find(arg => arg.type === 'func_literal');
+      const path = member === 'Route' && args[0] ? this.getStringValue(args[0]) : '';
+      if (block && path !== undefined) {
+        const scoped = new Map(routers);
+        const routerParameter = block.childForFieldName('parameters')?.namedChildren[0]
+          ?.namedChildren.find(child => child.type === 'identifier');
+        if (routerParameter) {
+          scoped.set(routerParameter.text, { framework: 'Chi', prefix: this.joinPath(router.prefix, path) });
+        }
+        this.collectRoutes(block.childForFieldName('body'), context, routes, scoped);
+        return true;
+      }
+    }
+
+    let method: HttpMethod | undefined;
+    let pathArgument: SyntaxNode | undefined;
+    if (ROUTE_METHODS[routerFramework][member]) {
+      method = ROUTE_METHODS[routerFramework][member];
+      pathArgument = args[0];
+    } else if (ANY_METHOD_ROUTE_METHODS[routerFramework].includes(member)) {
+      pathArgument = args[0];
+    } else if (EXPLICIT_METHOD_ROUTE_METHODS[routerFramework].includes(member) && args[0]) {
+      method = this.getHttpMethod(args[0]);
+      pathArgument = args[1];
+      if (!method) {
+        return false;
+      }
+    } else {
+      return false;
+    }
+
+    // Middleware may precede the handler, which is always the last argument
+    let path = pathArgument ? this.getStringValue(pathArgument) : undefined;
+    const handler = args.at(-1);
+    if (path === undefined || !handler || handler === pathArgument) {
+      return false;
+    }
+
+    // Go 1.22 ServeMux patterns carry the method: "GET /users/{id}"
+    if (routerFramework === 'net/http') {
+      const pattern = path.match(SERVE_MUX_PATTERN);
+      if (!pattern) {
+        return false;
+      }
+      method = pattern[1] ? this.getHttpMethod(pattern[1]) : undefined;
+      path = pattern[2]!;
+    }
+
+    const endpoint: ApiEndpoint = {
+      type: 'go_route',
+      route: this.joinPath(router.prefix, path),
+      line: callNode.startPosition.row + 1,
+      framework: routerFramework,
+    };
+    if (method) {
+      endpoint.method = method;
+    }
+    if (handler.type !== 'func_literal') {
+      endpoint.handler = handler.text.replace(/\s+/g, ' ').slice(0, MAX_HANDLER_LENGTH);
+    }
+
+    routes.push(endpoint);
+    return false;
+  }
+
+  /**
+   * Get the router a registration is made on
+   *
+   * Package-level calls such as `http.HandleFunc("GET /users/{id}", h)` use
+   * the default ServeMux.
+   *
+   * @returns Router of a variable, new router, group or subrouter; the
+   *   file's default framework without prefix for any other router
+   * @private
+   */
+  private getRouter(node: SyntaxNode, context: GoRouterContext, routers: Map<string, GoRouter>): GoRouter {
+    if (node.type === 'identifier') {
+      const packageFramework = routers.has(node.text) ? undefined : context.packages.get(node.text);
+      return routers.get(node.text) ??
+        { framework: packageFramework === 'net/http' ? 'net/http' : context.defaultFramework, prefix: '' };
+    }
+    return this.getCreatedRouter(node, context, routers) ?? { framework: context.defaultFramework, prefix: '' };
+  }
+
+  /**
+   * Get the router created by a constructor, group or subrouter expression
+   *
+   * Recognizes the router constructors of each package (`gin.Default()`,
+   * `chi.NewRouter()`), `r.Group("/v1", ...)` (Gin, Echo),
+   * `r.PathPrefix("/api").Subrouter()` (Gorilla Mux) and `r.With(middleware)` (Chi).
+   *
+   * @returns Router with its full prefix, or undefined if the expression does not create one
+   * @private
+   */
+  private getCreatedRouter(
+    node: SyntaxNode,
+    context: GoRouterContext,
+    routers: Map<string, GoRouter>
+  ): GoRouter | undefined {
+    if (node.type !== 'call_expression') {
+      return undefined;
+    }
+
+    const callee = node.childForFieldName('function');
+    const receiver = callee?.childForFieldName('operand');
+    if (!callee || callee.type !== 'selector_expression' || !receiver) {
+      return undefined;
+    }
+
+    const member = callee.childForFieldName('field')?.text;
+    const firstArg = node.childForFieldName('arguments')?.namedChildren[0];
+
+    const packageFramework = receiver.type === 'identifier' && !routers.has(receiver.text)
+      ? context.packages.get(receiver.text)
+      : undefined;
+    if (packageFramework) {
+      const { constructors } = GO_ROUTER_PACKAGES.find(entry => entry.framework === packageFramework)!;
+      return member && constructors.includes(member) ? { framework: packageFramework, prefix: '' } : undefined;
+    }
+
+    if (member === 'Group' && firstArg) {
+      const path = this.getStringValue(firstArg);
+      const router = this.getRouter(receiver, context, routers);
+      return path !== undefined ? { ...router, prefix: this.joinPath(router.prefix, path) } : undefined;
+    }
+
+    if (member === 'Subrouter' && receiver.type === 'call_expression') {
+      const prefixCall = receiver.childForFieldName('function');
+      const prefixArg = receiver.childForFieldName('arguments')?.namedChildren[0];
+      const routerNode = prefixCall?.childForFieldName('operand');
+      if (prefixCall?.childForFieldName('field')?.text === 'PathPrefix' && prefixArg && routerNode) {
+        const path = this.getStringValue(prefixArg);
+        const router = this.getRouter(routerNode, context, routers);
+        return path !== undefined ? { ...router, prefix: this.joinPath(router.prefix, path) } : undefined;
+      }
+    }
+
+    if (member === 'With') {
+      return this.getRouter(receiver, context, routers);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the router framework assumed for routers of unknown origin in a file
+   *
+   * @private
+   */
+  private getRouterFramework(analysis: FileAnalysis): GoRouterFramework {
+    const importPaths = Object.keys(analysis.imports || {});
+
+    for (const { pattern, framework } of GO_ROUTER_PACKAGES) {
+      if (importPaths.some(path => pattern.test(path))) {
+        return framework;
+      }
+    }
+    return 'net/http';
+  }
+
+  /**
+   * Get the HTTP method of `"GET"`, `http.MethodGet` or a bare method name
+   *
+   * @private
+   */
+  private getHttpMethod(node: SyntaxNode | string): HttpMethod | undefined {
+    let name: string | undefined;
+    if (typeof node === 'string') {
+      name = node;
+    } else if (node.type === 'selector_expression') {
+      name = node.childForFieldName('field')?.text.replace(/^Method/, '');
+    } else {
+      name = this.getStringValue(node);
+    }
+
+    const method = name?.toUpperCase();
+    return HTTP_METHODS.find(httpMethod => httpMethod === method);
+  }
+
+  /**
+   * Get the value of a string literal
+   *
+   * @returns Unquoted value, or undefined for other expressions
+   * @private
+   */
+  private getStringValue(node: SyntaxNode): string | undefined {
+    if (node.type !== 'interpreted_string_literal' && node.type !== 'raw_string_literal') {
+      return undefined;
+    }
+    return this.unquote(node.text);
+  }
+
+  /**
+   * Join a router prefix and a route path
+   *
+   * @private
+   */
+  private joinPath(prefix: string, path: string): string {
+    if (!prefix) return path || '/';
+    if (!path || path === '/') return prefix;
+    return `${prefix.replace(/\/+$/, '')}${path.startsWith('/') ? path : `/${path}`}`;
+  }
+
+  /**
+   * Get the package name an import path is used under by default
+   *
+   * @private
+   */
+  private getDefaultPackageName(path: string): string {
+    const elements = path.split('/');
+    let name = elements.pop() || path;
+
+    // github.com/labstack/echo/v4 -> echo, gopkg.in/yaml.v3 -> yaml
+    if (/^v\d+$/.test(name) && elements.length > 0) {
+      name = elements.pop()!;
+    }
+    return name.replace(/\.v\d+$/, '');
+  }
+
+  /**
+   * Get the `//` comment lines written directly above a declaration
+   *
+   * @private
+   */
+  private getDocComment(node: SyntaxNode): string {
+    const lines: string[] = [];
+    let comment = node.previousNamedSibling;
+    let nextRow = node.startPosition.row;
+
+    while (comment && comment.type === 'comment' && comment.endPosition.row === nextRow - 1) {
+      lines.unshift(comment.text.replace(/^\/\/\s?|^\/\*+\s*|\s*\*\/$/g, ''));
+      nextRow = comment.startPosition.row;
+      comment = comment.previousNamedSibling;
+    }
+
+    return lines.join('\n').trim();
+  }
+
+  /**
+   * Get a type name without pointer, package qualifier arguments or type arguments
+   *
+   * `*Store`, `Store[T]` -> `Store`; embedded `*sync.Mutex` -> `sync.Mutex`.
+   *
+   * @private
+   */
+  private getRawTypeName(typeNode: SyntaxNode): string {
+    return typeNode.text.replace(/^\*/, '').replace(/\[[\s\S]*$/, '').trim();
+  }
+
+  /**
+   * Remove quotes from a Go string literal
+   *
+   * @private
+   */
+  private unquote(literal: string): string {
+    return literal.replace(/^(["`])([\s\S]*)\1$/, '$2');
+  }
+}
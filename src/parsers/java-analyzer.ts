@@ -0,0 +1,407 @@
+/**
+ * Java Tree-sitter Analyzer
+ *
+ * This module extracts the package, imports, classes, interfaces, enums,
+ * records, methods and annotations of Java source files using the bundled
+ * tree-sitter-java grammar.
+ */
+
+import type Parser from 'web-tree-sitter';
+import { TreeSitterManager } from './tree-sitter-manager.js';
+import type {
+  FileAnalysis,
+  FunctionInfo,
+  ClassInfo,
+  Decorator
+} from '../types/index.js';
+
+type SyntaxNode = Parser.SyntaxNode;
+
+/**
+ * Tree-sitter queries for Java constructs
+ */
+const JAVA_QUERIES = {
+  PACKAGE: `
+    (package_declaration) @package
+  `,
+
+  IMPORTS: `
+    (import_declaration) @import
+  `,
+
+  // Nested types are matched too and keyed by their enclosing types
+  CLASSES: `
+    (class_declaration) @class
+    (interface_declaration) @class
+    (enum_declaration) @class
+    (record_declaration) @class
+    (annotation_type_declaration) @class
+  `
+};
+
+/**
+ * Declaration node types that define a type
+ */
+const TYPE_DECLARATION_TYPES = new Set([
+  'class_declaration',
+  'interface_declaration',
+  'enum_declaration',
+  'record_declaration',
+  'annotation_type_declaration'
+]);
+
+/**
+ * Member node types that declare a method or constructor
+ */
+const METHOD_DECLARATION_TYPES = new Set([
+  'method_declaration',
+  'constructor_declaration',
+  'compact_constructor_declaration',
+  'annotation_type_element_declaration'
+]);
+
+/**
+ * Modifier children that are not keywords
+ */
+const NON_KEYWORD_MODIFIER_TYPES = new Set([
+  'annotation',
+  'marker_annotation',
+  'line_comment',
+  'block_comment'
+]);
+
+/**
+ * Java code analyzer built on Tree-sitter
+ *
+ * This class turns a Java syntax tree into the same `FileAnalysis` shape the
+ * other analyzers produce, so framework, route and dependency detection
+ * work on Spring and other JVM projects.
+ */
+export class JavaAnalyzer {
+  private treeSitterManager: TreeSitterManager;
+
+  /**
+   * Create a new JavaAnalyzer
+   *
+   * @param treeSitterManager - Manager with the Java grammar loaded
+   */
+  constructor(treeSitterManager: TreeSitterManager) {
+    this.treeSitterManager = treeSitterManager;
+  }
+
+  /**
+   * Analyze a Java file
+   *
+   * @param content - Java source code content
+   * @param filePath - File path for context
+   * @returns Promise that resolves to detailed file analysis
+   * @throws {Error} If the Java grammar is not available or parsing fails
+   */
+  async analyzeJava(content: string, filePath: string = 'unknown'): Promise<FileAnalysis> {
+    const tree = await this.treeSitterManager.parseFile(content, 'java');
+
+    const analysis: FileAnalysis = {
+      path: filePath,
+      language: 'java',
+      imports: {},
+      functions: {},
+      classes: {},
+    };
+
+    try {
+      this.extractPackage(tree, analysis);
+      this.extractImports(tree, analysis);
+      this.extractClasses(tree, analysis);
+    } finally {
+      tree.delete();
+    }
+
+    return analysis;
+  }
+
+  /**
+   * Extract the package declaration
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis to populate
+   * @private
+   */
+  private extractPackage(tree: Parser.Tree, analysis: FileAnalysis): void {
+    const [capture] = this.treeSitterManager.query(tree, JAVA_QUERIES.PACKAGE, 'java');
+    const nameNode = capture?.node.namedChildren.find(child =>
+      child.type === 'scoped_identifier' || child.type === 'identifier');
+
+    if (nameNode) {
+      analysis.package = nameNode.text;
+    }
+  }
+
+  /**
+   * Extract import declarations
+   *
+   * Imports are keyed by package: `import a.b.C;` imports `C` from `a.b`,
+   * `import a.b.*;` imports `*` and `import static a.b.C.d;` imports `d`
+   * from `a.b.C`.
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis to populate
+   * @private
+   */
+  private extractImports(tree: Parser.Tree, analysis: FileAnalysis): void {
+    const imports = analysis.imports!;
+    const importLines: Record<string, number> = {};
+    const captures = this.treeSitterManager.query(tree, JAVA_QUERIES.IMPORTS, 'java');
+
+    for (const capture of captures) {
+      const nameNode = capture.node.namedChildren.find(child =>
+        child.type === 'scoped_identifier' || child.type === 'identifier');
+      if (!nameNode) {
+        continue;
+      }
+
+      const isWildcard = capture.node.namedChildren.some(child => child.type === 'asterisk');
+      const path = nameNode.text.replace(/\s+/g, '');
+      const separator = path.lastIndexOf('.');
+
+      // a.b.* -> a.b: *, a.b.C -> a.b: C
+      const [moduleName, name] = isWildcard
+        ? [path, '*']
+        : separator > 0 ? [path.slice(0, separator), path.slice(separator + 1)] : [path, path];
+
+      if (!imports[moduleName]) {
+        imports[moduleName] = [];
+        importLines[moduleName] = capture.node.startPosition.row + 1;
+      }
+      if (!imports[moduleName].includes(name)) {
+        imports[moduleName].push(name);
+      }
+    }
+
+    analysis.import_lines = importLines;
+  }
+
+  /**
+   * Extract classes, interfaces, enums and records together with their methods
+   *
+   * Nested types are keyed by their enclosing types (`Outer.Inner`).
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis to populate
+   * @private
+   */
+  private extractClasses(tree: Parser.Tree, analysis: FileAnalysis): void {
+    const captures = this.treeSitterManager.query(tree, JAVA_QUERIES.CLASSES, 'java');
+
+    for (const capture of captures) {
+      const classNode = capture.node;
+      const name = this.getQualifiedTypeName(classNode);
+      if (!name) {
+        continue;
+      }
+
+      const baseClasses = this.getBaseClasses(classNode);
+      const decorators = this.getAnnotations(classNode);
+      const classInfo: ClassInfo = {
+        docstring: this.getDocComment(classNode),
+        methods: {},
+        base_classes: baseClasses,
+        line_number: this.getDeclarationLine(classNode),
+        end_line_number: classNode.endPosition.row + 1,
+      };
+
+      if (decorators.length > 0) {
+        classInfo.decorators = decorators;
+      }
+
+      const body = classNode.childForFieldName('body');
+      const members = (body?.namedChildren ?? []).flatMap(member =>
+        // Enum methods follow the constants in an enum_body_declarations node
+        member.type === 'enum_body_declarations' ? member.namedChildren : [member]);
+
+      for (const member of members) {
+        if (!METHOD_DECLARATION_TYPES.has(member.type)) {
+          continue;
+        }
+
+        const extracted = this.createFunctionInfo(member);
+        if (extracted) {
+          classInfo.methods[extracted.signature] = extracted.info;
+        }
+      }
+
+      analysis.classes![name] = classInfo;
+    }
+  }
+
+  /**
+   * Build method info from a method or constructor declaration
+   *
+   * @param declarationNode - Method, constructor or annotation element declaration
+   * @returns Method signature key and info, or undefined if unnamed
+   * @private
+   */
+  private createFunctionInfo(declarationNode: SyntaxNode): { signature: string; info: FunctionInfo } | undefined {
+    const name = declarationNode.childForFieldName('name')?.text;
+    if (!name) {
+      return undefined;
+    }
+
+    const parameterList = declarationNode.childForFieldName('parameters');
+    const parameters = (parameterList?.namedChildren ?? [])
+      .map(parameter => parameter.type === 'spread_parameter'
+        ? parameter.namedChildren.find(child => child.type === 'variable_declarator')?.childForFieldName('name')?.text
+        : parameter.childForFieldName('name')?.text)
+      .filter((parameterName): parameterName is string => Boolean(parameterName));
+
+    const info: FunctionInfo = {
+      docstring: this.getDocComment(declarationNode),
+      state_changes: [],
+      event_handlers: [],
+      api_endpoints: [],
+      parameters,
+      line_number: this.getDeclarationLine(declarationNode),
+      end_line_number: declarationNode.endPosition.row + 1,
+    };
+
+    const returnType = declarationNode.childForFieldName('type');
+    if (returnType) {
+      info.return_type = returnType.text;
+    }
+
+    const decorators = this.getAnnotations(declarationNode);
+    if (decorators.length > 0) {
+      info.decorators = decorators;
+    }
+
+    return { signature: `${name}(${parameters.join(', ')})`, info };
+  }
+
+  /**
+   * Get the name of a type declaration prefixed with its enclosing types
+   *
+   * @private
+   */
+  private getQualifiedTypeName(classNode: SyntaxNode): string | undefined {
+    const name = classNode.childForFieldName('name')?.text;
+    if (!name) {
+      return undefined;
+    }
+
+    const names = [name];
+    for (let current = classNode.parent; current; current = current.parent) {
+      if (TYPE_DECLARATION_TYPES.has(current.type)) {
+        const enclosingName = current.childForFieldName('name')?.text;
+        if (enclosingName) {
+          names.unshift(enclosingName);
+        }
+      }
+    }
+
+    return names.join('.');
+  }
+
+  /**
+   * Get the superclass and implemented or extended interfaces of a type
+   *
+   * Type arguments are dropped so `JpaRepository<User, Long>` is reported
+   * as `JpaRepository`.
+   *
+   * @private
+   */
+  private getBaseClasses(classNode: SyntaxNode): string[] {
+    const baseClasses: string[] = [];
+
+    for (const child of classNode.namedChildren) {
+      if (child.type === 'superclass') {
+        baseClasses.push(...child.namedChildren.map(type => this.getRawTypeName(type)));
+      } else if (child.type === 'super_interfaces' || child.type === 'extends_interfaces') {
+        const typeList = child.namedChildren.find(grandchild => grandchild.type === 'type_list');
+        baseClasses.push(...(typeList?.namedChildren ?? []).map(type => this.getRawTypeName(type)));
+      }
+    }
+
+    return [...new Set(baseClasses)];
+  }
+
+  /**
+   * Get the annotations in the modifiers of a declaration
+   *
+   * Arguments are kept as written, so `@RequestMapping(value = "/x")` has
+   * the argument `value = "/x"`.
+   *
+   * @private
+   */
+  private getAnnotations(declarationNode: SyntaxNode): Decorator[] {
+    const modifiers = declarationNode.namedChildren.find(child => child.type === 'modifiers');
+    const decorators: Decorator[] = [];
+
+    for (const annotation of modifiers?.namedChildren ?? []) {
+      if (annotation.type !== 'annotation' && annotation.type !== 'marker_annotation') {
+        continue;
+      }
+
+      const nameNode = annotation.childForFieldName('name');
+      const argumentsNode = annotation.childForFieldName('arguments');
+      const decorator: Decorator = {
+        name: nameNode ? nameNode.text : annotation.text.replace(/^@/, ''),
+        line_number: annotation.startPosition.row + 1,
+      };
+
+      if (argumentsNode) {
+        decorator.arguments = argumentsNode.namedChildren.map(argument => argument.text);
+      }
+
+      decorators.push(decorator);
+    }
+
+    return decorators;
+  }
+
+  /**
+   * Get the Javadoc comment written before a declaration
+   *
+   * @private
+   */
+  private getDocComment(declarationNode: SyntaxNode): string {
+    const comment = declarationNode.previousNamedSibling;
+
+    if (!comment || comment.type !== 'block_comment' || !comment.text.startsWith('/**') ||
+        comment.endPosition.row < declarationNode.startPosition.row - 1) {
+      return '';
+    }
+
+    return comment.text
+      .replace(/^\/\*\*|\*\/$/g, '')
+      .split('\n')
+      .map(line => line.replace(/^\s*\*\s?/, ''))
+      .join('\n')
+      .trim();
+  }
+
+  /**
+   * Get the line of a declaration after its annotations
+   *
+   * @private
+   */
+  private getDeclarationLine(declarationNode: SyntaxNode): number {
+    const modifiers = declarationNode.firstChild;
+    if (!modifiers || modifiers.type !== 'modifiers') {
+      return declarationNode.startPosition.row + 1;
+    }
+
+    // The annotations are part of the declaration, it starts at the first keyword or type after them
+    const start = modifiers.children.find(child => !NON_KEYWORD_MODIFIER_TYPES.has(child.type))
+      ?? modifiers.nextSibling
+      ?? declarationNode;
+    return start.startPosition.row + 1;
+  }
+
+  /**
+   * Get a type name without its type arguments
+   *
+   * @private
+   */
+  private getRawTypeName(typeNode: SyntaxNode): string {
+    return typeNode.text.replace(/<[\s\S]*$/, '').trim();
+  }
+}
@@ -0,0 +1,427 @@
+/**
+ * Kotlin Tree-sitter Analyzer
+ *
+ * This module extracts the package, imports, top-level functions, classes,
+ * interfaces, objects, methods and annotations of Kotlin source files using
+ * the bundled tree-sitter-kotlin grammar.
+ */
+
+import type Parser from 'web-tree-sitter';
+import { TreeSitterManager } from './tree-sitter-manager.js';
+import type {
+  FileAnalysis,
+  FunctionInfo,
+  ClassInfo,
+  Decorator
+} from '../types/index.js';
+
+type SyntaxNode = Parser.SyntaxNode;
+
+/**
+ * Tree-sitter queries for Kotlin constructs
+ */
+const KOTLIN_QUERIES = {
+  PACKAGE: `
+    (package_header (identifier) @name)
+  `,
+
+  IMPORTS: `
+    (import_header) @import
+  `,
+
+  FUNCTIONS: `
+    (source_file (function_declaration) @function)
+  `,
+
+  // Interfaces are class declarations too; nested types are keyed by their enclosing types
+  CLASSES: `
+    (class_declaration) @class
+    (object_declaration) @class
+    (companion_object) @class
+  `
+};
+
+/**
+ * Declaration node types that define a type
+ */
+const TYPE_DECLARATION_TYPES = new Set([
+  'class_declaration',
+  'object_declaration',
+  'companion_object'
+]);
+
+/**
+ * Modifier children that are not keywords
+ */
+const NON_KEYWORD_MODIFIER_TYPES = new Set([
+  'annotation',
+  'line_comment',
+  'multiline_comment'
+]);
+
+/**
+ * Kotlin code analyzer built on Tree-sitter
+ *
+ * This class turns a Kotlin syntax tree into the same `FileAnalysis` shape
+ * the other analyzers produce, so framework, route and dependency detection
+ * work on Spring, Ktor and Android projects written in Kotlin.
+ */
+export class KotlinAnalyzer {
+  private treeSitterManager: TreeSitterManager;
+
+  /**
+   * Create a new KotlinAnalyzer
+   *
+   * @param treeSitterManager - Manager with the Kotlin grammar loaded
+   */
+  constructor(treeSitterManager: TreeSitterManager) {
+    this.treeSitterManager = treeSitterManager;
+  }
+
+  /**
+   * Analyze a Kotlin file
+   *
+   * @param content - Kotlin source code content
+   * @param filePath - File path for context
+   * @returns Promise that resolves to detailed file analysis
+   * @throws {Error} If the Kotlin grammar is not available or parsing fails
+   */
+  async analyzeKotlin(content: string, filePath: string = 'unknown'): Promise<FileAnalysis> {
+    const tree = await this.treeSitterManager.parseFile(content, 'kotlin');
+
+    const analysis: FileAnalysis = {
+      path: filePath,
+      language: 'kotlin',
+      imports: {},
+      functions: {},
+      classes: {},
+    };
+
+    try {
+      this.extractPackage(tree, analysis);
+      this.extractImports(tree, analysis);
+      this.extractFunctions(tree, analysis);
+      this.extractClasses(tree, analysis);
+    } finally {
+      tree.delete();
+    }
+
+    return analysis;
+  }
+
+  /**
+   * Extract the package header
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis to populate
+   * @private
+   */
+  private extractPackage(tree: Parser.Tree, analysis: FileAnalysis): void {
+    const [capture] = this.treeSitterManager.query(tree, KOTLIN_QUERIES.PACKAGE, 'kotlin');
+
+    if (capture) {
+      analysis.package = capture.text.replace(/\s+/g, '');
+    }
+  }
+
+  /**
+   * Extract import headers
+   *
+   * Imports are keyed by package: `import a.b.C` imports `C` from `a.b`,
+   * `import a.b.*` imports `*` and `import a.b.C as D` imports `C as D`.
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis to populate
+   * @private
+   */
+  private extractImports(tree: Parser.Tree, analysis: FileAnalysis): void {
+    const imports = analysis.imports!;
+    const importLines: Record<string, number> = {};
+    const captures = this.treeSitterManager.query(tree, KOTLIN_QUERIES.IMPORTS, 'kotlin');
+
+    for (const capture of captures) {
+      const children = capture.node.namedChildren;
+      const identifier = children.find(child => child.type === 'identifier');
+      if (!identifier) {
+        continue;
+      }
+
+      const path = identifier.text.replace(/\s+/g, '');
+      const alias = children.find(child => child.type === 'import_alias')?.namedChildren[0]?.text;
+      const separator = path.lastIndexOf('.');
+
+      // a.b.* -> a.b: *, a.b.C -> a.b: C
+      const [moduleName, importedName] = children.some(child => child.type === 'wildcard_import')
+        ? [path, '*']
+        : separator > 0 ? [path.slice(0, separator), path.slice(separator + 1)] : [path, path];
+      const name = alias ? `${importedName} as ${alias}` : importedName;
+
+      if (!imports[moduleName]) {
+        imports[moduleName] = [];
+        importLines[moduleName] = capture.node.startPosition.row + 1;
+      }
+      if (!imports[moduleName].includes(name)) {
+        imports[moduleName].push(name);
+      }
+    }
+
+    analysis.import_lines = importLines;
+  }
+
+  /**
+   * Extract top-level functions
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis to populate
+   * @private
+   */
+  private extractFunctions(tree: Parser.Tree, analysis: FileAnalysis): void {
+    const captures = this.treeSitterManager.query(tree, KOTLIN_QUERIES.FUNCTIONS, 'kotlin');
+
+    for (const capture of captures) {
+      const extracted = this.createFunctionInfo(capture.node);
+      if (extracted) {
+        analysis.functions![extracted.signature] = extracted.info;
+      }
+    }
+  }
+
+  /**
+   * Extract classes, interfaces, objects and companion objects together with their methods
+   *
+   * Nested types are keyed by their enclosing types (`Outer.Inner`), an
+   * unnamed companion object is keyed `Outer.Companion`.
+   *
+   * @param tree - Parsed syntax tree
+   * @param analysis - Analysis to populate
+   * @private
+   */
+  private extractClasses(tree: Parser.Tree, analysis: FileAnalysis): void {
+    const captures = this.treeSitterManager.query(tree, KOTLIN_QUERIES.CLASSES, 'kotlin');
+
+    for (const capture of captures) {
+      const classNode = capture.node;
+      const name = this.getQualifiedTypeName(classNode);
+      if (!name) {
+        continue;
+      }
+
+      const baseClasses = this.getBaseClasses(classNode);
+      const decorators = this.getAnnotations(classNode);
+      const classInfo: ClassInfo = {
+        docstring: this.getDocComment(classNode),
+        methods: {},
+        base_classes: baseClasses,
+        line_number: this.getDeclarationLine(classNode),
+        end_line_number: classNode.endPosition.row + 1,
+      };
+
+      if (decorators.length > 0) {
+        classInfo.decorators = decorators;
+      }
+
+      const body = classNode.namedChildren.find(child =>
+        child.type === 'class_body' || child.type === 'enum_class_body');
+
+      for (const member of body?.namedChildren ?? []) {
+        if (member.type !== 'function_declaration' && member.type !== 'secondary_constructor') {
+          continue;
+        }
+
+        const extracted = this.createFunctionInfo(member);
+        if (extracted) {
+          classInfo.methods[extracted.signature] = extracted.info;
+        }
+      }
+
+      analysis.classes![name] = classInfo;
+    }
+  }
+
+  /**
+   * Build function info from a function declaration or secondary constructor
+   *
+   * @param declarationNode - `function_declaration` or `secondary_constructor`
+   * @returns Function signature key and info, or undefined if unnamed
+   * @private
+   */
+  private createFunctionInfo(declarationNode: SyntaxNode): { signature: string; info: FunctionInfo } | undefined {
+    const children = declarationNode.namedChildren;
+    const name = declarationNode.type === 'secondary_constructor'
+      ? 'constructor'
+      : children.find(child => child.type === 'simple_identifier')?.text;
+    if (!name) {
+      return undefined;
+    }
+
+    const parameterList = children.find(child => child.type === 'function_value_parameters');
+    const parameters = (parameterList?.namedChildren ?? [])
+      .filter(parameter => parameter.type === 'parameter')
+      .map(parameter => parameter.namedChildren.find(child => child.type === 'simple_identifier')?.text)
+      .filter((parameterName): parameterName is string => Boolean(parameterName));
+
+    const modifiers = children.find(child => child.type === 'modifiers');
+    const info: FunctionInfo = {
+      docstring: this.getDocComment(declarationNode),
+      state_changes: [],
+      event_handlers: [],
+      api_endpoints: [],
+      is_async: Boolean(modifiers?.namedChildren.some(modifier =>
+        modifier.type === 'function_modifier' && modifier.text === 'suspend')),
+      parameters,
+      line_number: this.getDeclarationLine(declarationNode),
+      end_line_number: declarationNode.endPosition.row + 1,
+    };
+
+    // The return type follows the parameters: `fun find(id: Long): User? = ...`
+    const returnType = parameterList?.nextNamedSibling;
+    if (returnType && returnType.type !== 'function_body' && returnType.type !== 'type_constraints' &&
+        declarationNode.type === 'function_declaration') {
+      info.return_type = returnType.text;
+    }
+
+    const decorators = this.getAnnotations(declarationNode);
+    if (decorators.length > 0) {
+      info.decorators = decorators;
+    }
+
+    return { signature: `${name}(${parameters.join(', ')})`, info };
+  }
+
+  /**
+   * Get the name of a type declaration prefixed with its enclosing types
+   *
+   * @private
+   */
+  private getQualifiedTypeName(classNode: SyntaxNode): string | undefined {
+    const names: string[] = [];
+
+    for (let current: SyntaxNode | null = classNode; current; current = current.parent) {
+      if (!TYPE_DECLARATION_TYPES.has(current.type)) {
+        continue;
+      }
+
+      const name = current.namedChildren.find(child => child.type === 'type_identifier')?.text
+        ?? (current.type === 'companion_object' ? 'Companion' : undefined);
+      if (!name) {
+        return undefined;
+      }
+      names.unshift(name);
+    }
+
+    return names.join('.');
+  }
+
+  /**
+   * Get the superclass and interfaces of a type
+   *
+   * Type arguments are dropped so `CrudRepository<User, Long>` is reported
+   * as `CrudRepository`.
+   *
+   * @private
+   */
+  private getBaseClasses(classNode: SyntaxNode): string[] {
+    const baseClasses: string[] = [];
+
+    for (const specifier of classNode.namedChildren) {
+      if (specifier.type !== 'delegation_specifier') {
+        continue;
+      }
+
+      // `Base()` is a constructor invocation, `Interface` and `Interface by delegate` are user types
+      const typeNode = specifier.descendantsOfType('user_type')[0];
+      if (typeNode) {
+        baseClasses.push(this.getRawTypeName(typeNode));
+      }
+    }
+
+    return [...new Set(baseClasses)];
+  }
+
+  /**
+   * Get the annotations in the modifiers of a declaration
+   *
+   * Arguments are kept as written, so `@RequestMapping(value = ["/x"])` has
+   * the argument `value = ["/x"]`.
+   *
+   * @private
+   */
+  private getAnnotations(declarationNode: SyntaxNode): Decorator[] {
+    const modifiers = declarationNode.namedChildren.find(child => child.type === 'modifiers');
+    const decorators: Decorator[] = [];
+
+    for (const annotation of modifiers?.namedChildren ?? []) {
+      if (annotation.type !== 'annotation') {
+        continue;
+      }
+
+      const invocation = annotation.namedChildren.find(child => child.type === 'constructor_invocation');
+      const typeNode = (invocation ?? annotation).namedChildren.find(child => child.type === 'user_type');
+      const argumentsNode = invocation?.namedChildren.find(child => child.type === 'value_arguments');
+      const decorator: Decorator = {
+        name: typeNode ? this.getRawTypeName(typeNode) : annotation.text.replace(/^@/, ''),
+        line_number: annotation.startPosition.row + 1,
+      };
+
+      if (argumentsNode) {
+        decorator.arguments = argumentsNode.namedChildren.map(argument => argument.text);
+      }
+
+      decorators.push(decorator);
+    }
+
+    return decorators;
+  }
+
+  /**
+   * Get the KDoc comment written before a declaration
+   *
+   * @private
+   */
+  private getDocComment(declarationNode: SyntaxNode): string {
+    // A comment after the imports is parsed as the last child of the import list
+    let comment = declarationNode.previousNamedSibling;
+    while (comment && comment.type !== 'multiline_comment' && comment.lastNamedChild) {
+      comment = comment.lastNamedChild;
+    }
+
+    if (!comment || comment.type !== 'multiline_comment' || !comment.text.startsWith('/**') ||
+        comment.endPosition.row < declarationNode.startPosition.row - 1) {
+      return '';
+    }
+
+    return comment.text
+      .replace(/^\/\*\*|\*\/$/g, '')
+      .split('\n')
+      .map(line => line.replace(/^\s*\*\s?/, ''))
+      .join('\n')
+      .trim();
+  }
+
+  /**
+   * Get the line of a declaration after its annotations
+   *
+   * @private
+   */
+  private getDeclarationLine(declarationNode: SyntaxNode): number {
+    const modifiers = declarationNode.firstChild;
+    if (!modifiers || modifiers.type !== 'modifiers') {
+      return declarationNode.startPosition.row + 1;
+    }
+
+    // The annotations are part of the declaration, it starts at the first modifier or keyword after them
+    const start = modifiers.children.find(child => !NON_KEYWORD_MODIFIER_TYPES.has(child.type))
+      ?? modifiers.nextSibling
+      ?? declarationNode;
+    return start.startPosition.row + 1;
+  }
+
+  /**
+   * Get a type name without its type arguments
+   *
+   * @private
+   */
+  private getRawTypeName(typeNode: SyntaxNode): string {
+    return typeNode.text.replace(/<[\s\S]*$/, '').trim();
+  }
+}
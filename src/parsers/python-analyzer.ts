@@ -1,11 +1,14 @@
 /**
- * Python Regex-Based Analyzer
+ * Python Analyzer
  *
- * This module provides comprehensive Python code analysis using regex patterns.
- * It extracts functions, classes, imports, docstrings, and Django-specific patterns
- * including views, models, serializers, and decorators.
+ * This module provides comprehensive Python code analysis. It walks the
+ * Tree-sitter syntax tree when the Python grammar is loaded and falls back to
+ * regex patterns otherwise. It extracts functions, classes, imports, docstrings,
+ * and Django-specific patterns including views, models, serializers, and decorators.
  */
 
+import type Parser from 'web-tree-sitter';
+import type { TreeSitterManager } from './tree-sitter-manager.js';
 import type {
   FileAnalysis,
   FunctionInfo,
@@ -13,7 +16,8 @@ import type {
   SupportedLanguage,
   ApiEndpoint,
   Decorator,
-  HttpMethod
+  HttpMethod,
+  RouterKind
 } from '../types/index.js';
 
 /**
@@ -45,18 +49,125 @@ const PYTHON_PATTERNS = {
 
   // HTTP method patterns in classes
   HTTP_METHODS: /def\s+(get|post|put|patch|delete|head|options)\s*\(/gi,
+
+  // FastAPI/Flask route containers: app = FastAPI(...), app.include_router(...)
+  ROUTER_DECLARATION: /^[ \t]*(\w+)[ \t]*(?::[^=\n]+)?=[ \t]*(?:\w+\.)*(FastAPI|APIRouter|Flask|Blueprint)[ \t]*\(/gm,
+  ROUTER_INCLUSION: /^[ \t]*(\w+(?:\.\w+)*)\.(include_router|register_blueprint)[ \t]*\(/gm,
 };
 
+type SyntaxNode = Parser.SyntaxNode;
+
+/**
+ * Statements whose nested blocks can still declare module or class members
+ * (`if TYPE_CHECKING:`, `try: ... except ImportError:`, ...)
+ */
+const PYTHON_COMPOUND_STATEMENTS = new Set([
+  'block',
+  'if_statement',
+  'elif_clause',
+  'else_clause',
+  'try_statement',
+  'except_clause',
+  'finally_clause',
+  'with_statement',
+  'for_statement',
+  'while_statement'
+]);
+
+/**
+ * Constructors creating FastAPI and Flask applications, routers and blueprints
+ */
+const ROUTER_CONSTRUCTORS: RouterKind[] = ['FastAPI', 'APIRouter', 'Flask', 'Blueprint'];
+
+/**
+ * Split the arguments of a call into their source texts
+ *
+ * @param text - Source starting right after the opening parenthesis
+ * @returns Top-level arguments up to the matching closing parenthesis
+ */
+function splitCallArguments(text: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let depth = 0;
+  let quote: string | undefined;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+
+    if (quote) {
+      current += char;
+      if (char === '\\') {
+        current += text[++i] ?? '';
+      } else if (char === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+
+    if (char === '#') {
+      while (i + 1 < text.length && text[i + 1] !== '\n') i++;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      if (depth === 0) break;
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      if (current.trim()) args.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim()) args.push(current.trim());
+  return args;
+}
+
+/**
+ * Get the string value of a keyword argument such as `prefix='/items'`
+ *
+ * @param args - Argument texts of a call
+ * @param names - Accepted keyword names
+ * @returns The unquoted string, or undefined if absent or not a string literal
+ */
+function getStringKeywordArgument(args: string[], names: string[]): string | undefined {
+  for (const arg of args) {
+    const match = arg.match(/^(\w+)\s*=(?!=)\s*[rRuU]?(['"])(.*)\2$/s);
+    if (match && names.includes(match[1]!)) {
+      return match[3];
+    }
+  }
+  return undefined;
+}
+
 /**
- * Python code analyzer using regex patterns
+ * Python code analyzer
  *
  * This class provides comprehensive analysis of Python code, with special
  * support for Django patterns, REST API endpoints, and Python-specific constructs.
  */
 export class PythonAnalyzer {
+  private treeSitterManager: TreeSitterManager | undefined;
 
   /**
-   * Analyze a Python file using regex patterns
+   * Create a new PythonAnalyzer
+   *
+   * @param treeSitterManager - Optional manager with the Python grammar; without
+   *   it (or when the WASM runtime is unavailable) only regex analysis is used
+   */
+  constructor(treeSitterManager?: TreeSitterManager) {
+    this.treeSitterManager = treeSitterManager;
+  }
+
+  /**
+   * Analyze a Python file
+   *
+   * Uses the Tree-sitter grammar when it is loaded and the file parses without
+   * syntax errors, and the regex patterns otherwise.
    *
    * @param content - Python source code content
    * @param filePath - File path for context (used in error messages)
@@ -65,6 +176,32 @@ export class PythonAnalyzer {
   async analyzePython(
     content: string,
     filePath: string = 'unknown'
+  ): Promise<FileAnalysis> {
+    if (this.treeSitterManager?.hasParser('python')) {
+      try {
+        const analysis = await this.analyzeWithTreeSitter(content, filePath);
+        if (analysis) {
+          return analysis;
+        }
+      } catch (error) {
+        // Fall back to regex analysis below
+      }
+    }
+
+    return this.analyzeWithRegex(content, filePath);
+  }
+
+  /**
+   * Analyze a Python file using regex patterns
+   *
+   * @param content - Python source code content
+   * @param filePath - File path for context (used in error messages)
+   * @returns Promise that resolves to detailed file analysis
+   * @private
+   */
+  private async analyzeWithRegex(
+    content: string,
+    filePath: string
   ): Promise<FileAnalysis> {
     try {
       // Initialize analysis result
@@ -83,6 +220,7 @@ export class PythonAnalyzer {
       this.extractImports(content, analysis);
       this.extractFunctions(content, lines, analysis);
       this.extractClasses(content, lines, analysis);
+      this.extractRouters(content, analysis);
 
       // Add basic metrics
       analysis.lines = lines.length;
@@ -106,6 +244,424 @@ export class PythonAnalyzer {
   }
 
 /**
+   * Analyze a Python file by walking its Tree-sitter syntax tree
+   *
+   * @param content - Python source code content
+   * @param filePath - File path for context
+   * @returns File analysis, or undefined if the file has syntax errors
+   * @private
+   */
+  private async analyzeWithTreeSitter(
+    content: string,
+    filePath: string
+  ): Promise<FileAnalysis | undefined> {
+    const tree = await this.treeSitterManager!.parseFile(content, 'python');
+
+    try {
+      // Error recovery can attach statements to the wrong scope; the
+      // line-based regexes are more predictable for broken files
+      if (tree.rootNode.hasError()) {
+        return undefined;
+      }
+
+      const lines = content.split('\n');
+      const analysis: FileAnalysis = {
+        path: filePath,
+        language: 'python' as SupportedLanguage,
+        imports: {},
+        functions: {},
+        classes: {},
+      };
+
+      const moduleDocstring = this.getBlockDocstring(tree.rootNode);
+      if (moduleDocstring) {
+        analysis.module_docstring = moduleDocstring;
+      }
+
+      this.collectImportNodes(tree.rootNode, analysis);
+      this.collectScopeMembers(tree.rootNode, [], analysis);
+      this.collectRouterNodes(tree.rootNode, analysis);
+
+      analysis.lines = lines.length;
+      analysis.characters = content.length;
+      analysis.non_empty_lines = lines.filter(line => line.trim().length > 0).length;
+      analysis.avg_line_length = content.length / lines.length;
+
+      return analysis;
+    } finally {
+      tree.delete();
+    }
+  }
+
+  /**
+   * Record import statements from a syntax tree
+   *
+   * Produces the same shape as the regex path: `import a.b as c` is stored
+   * under `a.b` as `a.b as c`, `from m import x as y` under `m` as `x as y`.
+   *
+   * @param root - Module node
+   * @param analysis - Analysis result to update
+   * @private
+   */
+  private collectImportNodes(root: SyntaxNode, analysis: FileAnalysis): void {
+    const imports = analysis.imports!;
+    const importLines: Record<string, number> = {};
+    analysis.import_lines = importLines;
+    const addImport = (module: string, item: string, line: number) => {
+      if (!imports[module]) {
+        imports[module] = [];
+        importLines[module] = line;
+      }
+      imports[module].push(item);
+    };
+
+    const importNodes = root.descendantsOfType(['import_statement', 'import_from_statement', 'future_import_statement']);
+
+    for (const node of importNodes) {
+      const line = node.startPosition.row + 1;
+      const moduleNode = node.childForFieldName('module_name');
+      const names = node.namedChildren.filter(child =>
+        (child.type === 'dotted_name' || child.type === 'aliased_import') &&
+        child.startIndex !== moduleNode?.startIndex
+      );
+
+      if (node.type === 'import_statement') {
+        for (const name of names) {
+          const module = name.type === 'aliased_import'
+            ? name.childForFieldName('name')?.text
+            : name.text;
+          if (module) {
+            addImport(module, name.text, line);
+          }
+        }
+        continue;
+      }
+
+      const module = node.type === 'future_import_statement'
+        ? '__future__'
+        : moduleNode?.text;
+      if (!module) {
+        continue;
+      }
+
+      if (node.namedChildren.some(child => child.type === 'wildcard_import')) {
+        addImport(module, '*', line);
+      }
+      for (const name of names) {
+        addImport(module, name.text, line);
+      }
+    }
+  }
+
+  /**
+   * Record FastAPI/Flask route containers and where they are mounted
+   *
+   * Calls are found at any depth so application factories such as
+   * `create_app()` are covered.
+   *
+   * @param root - Module node
+   * @param analysis - Analysis result to update
+   * @private
+   */
+  private collectRouterNodes(root: SyntaxNode, analysis: FileAnalysis): void {
+    for (const call of root.descendantsOfType('call')) {
+      const callee = call.childForFieldName('function')?.text;
+      if (!callee) {
+        continue;
+      }
+
+      const args = (call.childForFieldName('arguments')?.namedChildren ?? [])
+        .filter(argument => argument.type !== 'comment')
+        .map(argument => argument.text);
+
+      const parent = call.parent;
+      const left = parent?.type === 'assignment' && parent.childForFieldName('right')?.startIndex === call.startIndex
+        ? parent.childForFieldName('left')
+        : null;
+
+      this.addRouterCall(
+        analysis,
+        callee,
+        args,
+        call.startPosition.row + 1,
+        left?.type === 'identifier' ? left.text : undefined
+      );
+    }
+  }
+
+  /**
+   * Record a router constructor assignment or an `include_router`/`register_blueprint` call
+   *
+   * @param analysis - Analysis result to update
+   * @param callee - Called expression (`APIRouter`, `app.include_router`)
+   * @param args - Argument texts
+   * @param line - Line of the call
+   * @param target - Variable the call result is assigned to
+   * @private
+   */
+  private addRouterCall(analysis: FileAnalysis, callee: string, args: string[], line: number, target?: string): void {
+    const member = callee.split('.').pop() ?? callee;
+
+    if ((member === 'include_router' || member === 'register_blueprint') && callee.includes('.')) {
+      const child = args.find(arg => !/^\w+\s*=(?!=)/.test(arg));
+      if (!child) {
+        return;
+      }
+
+      if (!analysis.router_includes) analysis.router_includes = [];
+      const prefix = getStringKeywordArgument(args, ['prefix', 'url_prefix']);
+      analysis.router_includes.push({
+        parent: callee.slice(0, -member.length - 1),
+        child,
+        ...(prefix !== undefined && { prefix }),
+        line
+      });
+      return;
+    }
+
+    const kind = ROUTER_CONSTRUCTORS.find(constructor => constructor === member);
+    if (kind && target) {
+      if (!analysis.routers) analysis.routers = [];
+      const prefix = getStringKeywordArgument(args, ['prefix', 'url_prefix']);
+      analysis.routers.push({
+        name: target,
+        kind,
+        ...(prefix !== undefined && { prefix }),
+        line
+      });
+    }
+  }
+
+  /**
+   * Record functions and classes declared in a scope
+   *
+   * Top-level functions are keyed by signature, nested functions by their
+   * qualified name (`outer.inner()`, `Service.run.retry()`). Methods are
+   * stored on their class; nested classes are keyed `Outer.Inner`.
+   *
+   * @param scopeNode - Module, block or compound statement to walk
+   * @param scope - Names of the enclosing functions and classes
+   * @param analysis - Analysis result to update
+   * @param classInfo - Class receiving methods when walking a class body
+   * @private
+   */
+  private collectScopeMembers(
+    scopeNode: SyntaxNode,
+    scope: string[],
+    analysis: FileAnalysis,
+    classInfo?: ClassInfo
+  ): void {
+    for (const statement of scopeNode.namedChildren) {
+      const definition = statement.type === 'decorated_definition'
+        ? statement.childForFieldName('definition')
+        : statement;
+      if (!definition) {
+        continue;
+      }
+
+      const decorators = statement.type === 'decorated_definition'
+        ? statement.namedChildren
+          .filter(child => child.type === 'decorator')
+          .map(decorator => this.createDecoratorFromNode(decorator))
+        : [];
+
+      if (definition.type === 'function_definition') {
+        const name = definition.childForFieldName('name')?.text;
+        if (!name) {
+          continue;
+        }
+
+        const functionInfo = this.createFunctionInfoFromNode(definition, name, decorators);
+        const signature = `${name}(${(functionInfo.parameters || []).join(', ')})`;
+
+        if (classInfo) {
+          classInfo.methods[signature] = functionInfo;
+        } else {
+          analysis.functions![[...scope, signature].join('.')] = functionInfo;
+        }
+
+        const body = definition.childForFieldName('body');
+        if (body) {
+          this.collectScopeMembers(body, [...scope, name], analysis);
+        }
+      } else if (definition.type === 'class_definition') {
+        const name = definition.childForFieldName('name')?.text;
+        if (!name) {
+          continue;
+        }
+
+        const nestedClass = this.createClassInfoFromNode(definition, decorators);
+        analysis.classes![[...scope, name].join('.')] = nestedClass;
+
+        const body = definition.childForFieldName('body');
+        if (body) {
+          this.collectScopeMembers(body, [...scope, name], analysis, nestedClass);
+        }
+      } else if (PYTHON_COMPOUND_STATEMENTS.has(statement.type)) {
+        this.collectScopeMembers(statement, scope, analysis, classInfo);
+      }
+    }
+  }
+
+  /**
+   * Build function info from a `function_definition` node
+   *
+   * @param node - Function definition node
+   * @param name - Function name
+   * @param decorators - Decorators applied to the function
+   * @returns Function information
+   * @private
+   */
+  private createFunctionInfoFromNode(node: SyntaxNode, name: string, decorators: Decorator[]): FunctionInfo {
+    const lineNumber = node.startPosition.row + 1;
+    const parameters = (node.childForFieldName('parameters')?.namedChildren ?? [])
+      .map(parameter => this.formatParameterNode(parameter))
+      .filter((parameter): parameter is string => Boolean(parameter));
+    const body = node.childForFieldName('body');
+    const returnType = node.childForFieldName('return_type');
+
+    const functionInfo: FunctionInfo = {
+      docstring: body ? this.getBlockDocstring(body) : '',
+      state_changes: [],
+      event_handlers: [],
+      api_endpoints: [],
+      is_async: node.children.some(child => child.type === 'async'),
+      parameters: parameters,
+      line_number: lineNumber,
+      end_line_number: node.endPosition.row + 1,
+    };
+
+    if (returnType) {
+      functionInfo.return_type = returnType.text;
+    }
+
+    if (decorators.length > 0) {
+      functionInfo.decorators = decorators;
+    }
+
+    const apiEndpoints = this.extractAPIEndpoints(decorators.map(decorator => decorator.name), name, lineNumber);
+    if (apiEndpoints.length > 0) {
+      functionInfo.api_endpoints = apiEndpoints;
+    }
+
+    return functionInfo;
+  }
+
+  /**
+   * Build class info from a `class_definition` node
+   *
+   * @param node - Class definition node
+   * @param decorators - Decorators applied to the class
+   * @returns Class information without methods
+   * @private
+   */
+  private createClassInfoFromNode(node: SyntaxNode, decorators: Decorator[]): ClassInfo {
+    // Keyword arguments such as metaclass=... are not base classes
+    const baseClasses = (node.childForFieldName('superclasses')?.namedChildren ?? [])
+      .filter(argument => argument.type !== 'keyword_argument' && argument.type !== 'comment')
+      .map(argument => argument.text);
+    const body = node.childForFieldName('body');
+
+    const classInfo: ClassInfo = {
+      docstring: body ? this.getBlockDocstring(body) : '',
+      methods: {},
+      base_classes: baseClasses,
+      line_number: node.startPosition.row + 1,
+      end_line_number: node.endPosition.row + 1,
+    };
+
+    if (decorators.length > 0) {
+      classInfo.decorators = decorators;
+    }
+
+    if (this.isDjangoModel(baseClasses) ||
+        this.isDjangoSerializer(baseClasses) ||
+        this.isDjangoViewClass(baseClasses)) {
+      classInfo.is_component = true;
+    }
+
+    return classInfo;
+  }
+
+  /**
+   * Build decorator information from a `decorator` node
+   *
+   * @param node - Decorator node
+   * @returns Decorator name, call arguments and line
+   * @private
+   */
+  private createDecoratorFromNode(node: SyntaxNode): Decorator {
+    const expression = node.namedChildren.find(child => child.type !== 'comment');
+    const decorator: Decorator = {
+      name: expression?.text ?? node.text.replace(/^@/, ''),
+      line_number: node.startPosition.row + 1,
+    };
+
+    if (expression?.type === 'call') {
+      decorator.name = expression.childForFieldName('function')?.text ?? decorator.name;
+      decorator.arguments = (expression.childForFieldName('arguments')?.namedChildren ?? [])
+        .filter(argument => argument.type !== 'comment')
+        .map(argument => argument.text);
+    }
+
+    return decorator;
+  }
+
+  /**
+   * Format a parameter node the way the regex path does, without defaults
+   *
+   * @param node - Child of a `parameters` node
+   * @returns Parameter text such as `x`, `x: int`, `*args`, or undefined for `*` and `/` separators
+   * @private
+   */
+  private formatParameterNode(node: SyntaxNode): string | undefined {
+    switch (node.type) {
+      case 'default_parameter':
+        return node.childForFieldName('name')?.text;
+      case 'typed_default_parameter': {
+        const name = node.childForFieldName('name')?.text;
+        const type = node.childForFieldName('type')?.text;
+        return name && type ? `${name}: ${type}` : name;
+      }
+      case 'keyword_separator':
+      case 'positional_separator':
+      case 'comment':
+        return undefined;
+      default:
+        return node.text;
+    }
+  }
+
+  /**
+   * Get the docstring of a module, class or function body
+   *
+   * @param block - Module or block node
+   * @returns Docstring content or empty string
+   * @private
+   */
+  private getBlockDocstring(block: SyntaxNode): string {
+    const firstStatement = block.namedChildren.find(child => child.type !== 'comment');
+    const expression = firstStatement?.type === 'expression_statement'
+      ? firstStatement.namedChildren[0]
+      : undefined;
+
+    if (!expression || expression.type !== 'string') {
+      return '';
+    }
+
+    const match = expression.text.match(/^[rRuU]?("""|'''|"|')([\s\S]*)\1$/);
+    if (!match || match[2] === undefined) {
+      return '';
+    }
+
+    return match[2]
+      .split('\n')
+      .map(line => line.trim())
+      .join('\n')
+      .trim();
+  }
+
+  /**
    * Extract import statements from Python code
    *
    * @param content - Source code content
@@ -114,6 +670,7 @@ export class PythonAnalyzer {
    */
   private extractImports(content: string, analysis: FileAnalysis): void {
     analysis.imports = {};
+    analysis.import_lines = {};
 
     // Clean content to handle multi-line imports properly
     const cleanContent = content.replace(/\\\n\s*/g, ' '); // Handle line continuations
@@ -128,6 +685,7 @@ export class PythonAnalyzer {
 
       // Handle multi-line imports with parentheses
       if ((line.startsWith('from ') && line.includes('import')) || line.startsWith('import ')) {
+        const lineNumber = i + 1;
         // Check if this import spans multiple lines
         if (line.includes('(') && !line.includes(')')) {
           // Multi-line import - collect all lines until closing parenthesis
@@ -144,7 +702,7 @@ export class PythonAnalyzer {
           i = j - 1; // Skip processed lines
         }
 
-        this.parseImportLine(line, analysis);
+        this.parseImportLine(line, analysis, lineNumber);
       }
     }
   }
@@ -154,13 +712,17 @@ export class PythonAnalyzer {
    *
    * @param importLine - Complete import statement
    * @param analysis - Analysis result to update
+   * @param lineNumber - Line the statement starts on
    * @private
    */
-  private parseImportLine(importLine: string, analysis: FileAnalysis): void {
+  private parseImportLine(importLine: string, analysis: FileAnalysis, lineNumber: number): void {
     // Ensure imports object exists
     if (!analysis.imports) {
       analysis.imports = {};
     }
+    if (!analysis.import_lines) {
+      analysis.import_lines = {};
+    }
 
     // Remove extra whitespace and parentheses
     const cleanLine = importLine.replace(/[()]/g, '').replace(/\s+/g, ' ').trim();
@@ -177,6 +739,7 @@ export class PythonAnalyzer {
 
         if (!analysis.imports[module]) {
           analysis.imports[module] = [];
+          analysis.import_lines[module] = lineNumber;
         }
         analysis.imports[module].push(...importItems);
       }
@@ -194,6 +757,7 @@ export class PythonAnalyzer {
           if (moduleName) {
             if (!analysis.imports[moduleName]) {
               analysis.imports[moduleName] = [];
+              analysis.import_lines[moduleName] = lineNumber;
             }
             analysis.imports[moduleName].push(module);
           }
@@ -269,11 +833,11 @@ export class PythonAnalyzer {
 
       // Add decorators if found
       if (decorators.length > 0) {
-        functionInfo.decorators = decorators.map(name => ({ name }));
+        functionInfo.decorators = decorators;
       }
 
       // Check for Django patterns and add API endpoints
-      const apiEndpoints = this.extractAPIEndpoints(decorators, functionName, lineNumber);
+      const apiEndpoints = this.extractAPIEndpoints(decorators.map(decorator => decorator.name), functionName, lineNumber);
       if (apiEndpoints.length > 0) {
         functionInfo.api_endpoints = apiEndpoints;
       }
@@ -282,6 +846,30 @@ export class PythonAnalyzer {
     }
   }
 
+  /**
+   * Extract FastAPI/Flask route containers and where they are mounted
+   *
+   * @param content - Source code content
+   * @param analysis - Analysis result to update
+   * @private
+   */
+  private extractRouters(content: string, analysis: FileAnalysis): void {
+    const calls = [
+      ...[...content.matchAll(PYTHON_PATTERNS.ROUTER_DECLARATION)].map(match => ({
+        match, callee: match[2]!, target: match[1]
+      })),
+      ...[...content.matchAll(PYTHON_PATTERNS.ROUTER_INCLUSION)].map(match => ({
+        match, callee: `${match[1]}.${match[2]}`, target: undefined
+      }))
+    ].sort((a, b) => a.match.index! - b.match.index!);
+
+    for (const { match, callee, target } of calls) {
+      const start = match.index! + match[0].length;
+      const line = content.slice(0, start).split('\n').length;
+      this.addRouterCall(analysis, callee, splitCallArguments(content.slice(start)), line, target);
+    }
+  }
+
   /**
    * Extract class definitions from Python code
    *
@@ -386,11 +974,11 @@ export class PythonAnalyzer {
    *
    * @param lines - Source code lines
    * @param functionLineNumber - Line number of the function
-   * @returns Array of decorator names
+   * @returns Decorators with their call arguments, in source order
    * @private
    */
-  private findDecoratorsBeforeFunction(lines: string[], functionLineNumber: number): string[] {
-    const decorators: string[] = [];
+  private findDecoratorsBeforeFunction(lines: string[], functionLineNumber: number): Decorator[] {
+    const decorators: Decorator[] = [];
 
     // Look backwards from function line to find decorators
     // Start from the line before the function definition
@@ -402,9 +990,15 @@ export class PythonAnalyzer {
 
       if (trimmedLine.startsWith('@')) {
         // Extract decorator name, handling both simple and complex forms
-        const decoratorMatch = trimmedLine.match(/@(\w+(?:\.\w+)?)/);
+        const decoratorMatch = trimmedLine.match(/@(\w+(?:\.\w+)*)(\s*\()?/);
         if (decoratorMatch && decoratorMatch[1]) {
-          decorators.unshift(decoratorMatch[1]); // Add to beginning to maintain order
+          const decorator: Decorator = { name: decoratorMatch[1], line_number: i + 1 };
+          if (decoratorMatch[2]) {
+            // Arguments may continue on the following lines up to the function
+            const callText = [trimmedLine, ...lines.slice(i + 1, functionLineNumber - 1)].join('\n');
+            decorator.arguments = splitCallArguments(callText.slice(decoratorMatch.index! + decoratorMatch[0].length));
+          }
+          decorators.unshift(decorator); // Add to beginning to maintain order
         }
       } else if (trimmedLine) {
         // Check if this is a continuation of a multi-line decorator
@@ -600,7 +1194,8 @@ export class PythonAnalyzer {
         const methodSignature = `${methodName}(${parameters.join(', ')})`;
 
         // Find decorators and docstring
-        const decoratorNames = this.findDecoratorsBeforeFunction(lines, methodLineNumber);
+        const decorators = this.findDecoratorsBeforeFunction(lines, methodLineNumber);
+        const decoratorNames = decorators.map(decorator => decorator.name);
         const docstring = this.findFunctionDocstring(lines, methodLineNumber);
 
         const methodInfo: FunctionInfo = {
@@ -615,7 +1210,7 @@ export class PythonAnalyzer {
 
         // Add decorators if found
         if (decoratorNames.length > 0) {
-          methodInfo.decorators = decoratorNames.map(name => ({ name }));
+          methodInfo.decorators = decorators;
         }
 
         // Check for Django patterns and add API endpoints
@@ -0,0 +1,235 @@
+/**
+ * Svelte Component Analyzer
+ *
+ * This module splits `.svelte` files into their instance `<script>` and
+ * `<script context="module">` blocks, analyzes each with the Babel analyzer
+ * and merges the results. The component itself is recorded as a function
+ * whose parameters are its props (`export let`), with its `$:` reactive
+ * statements and store writes as state changes and its `on:` directives as
+ * event handlers. Line numbers always refer to the original `.svelte` file.
+ */
+
+import { posix } from 'path';
+import { BabelAnalyzer } from './babel-analyzer.js';
+import { blankOutBlocks, extractScriptBlocks, getLineAt, mergeAnalysis } from '../utils/component-blocks.js';
+import type { FileAnalysis, FunctionInfo, SourceEvidence } from '../types/index.js';
+
+/**
+ * `<script context="module">` (Svelte 3/4) or `<script module>` (Svelte 5)
+ */
+const MODULE_SCRIPT_ATTRIBUTE = /\bcontext\s*=\s*["']module["']|\bmodule\b/;
+
+/**
+ * `export let name` prop declarations, capturing the declarator list
+ */
+const EXPORT_LET_PATTERN = /^\s*export\s+let\s+([^;\n]+)/gm;
+
+/**
+ * Svelte 5 `let { a, b = 1 } = $props()` prop declarations, capturing the pattern
+ */
+const PROPS_RUNE_PATTERN = /\blet\s*\{([^}]*)\}\s*(?::[^=]+)?=\s*\$props\s*\(/g;
+
+/**
+ * `$: statement` reactive declarations and statements
+ */
+const REACTIVE_STATEMENT_PATTERN = /^\s*\$:\s*(.+)$/;
+
+/**
+ * Store writes: `$count = 1`, `$count += 1`, `$count++`, `count.set(1)`, `count.update(n => n + 1)`
+ */
+const STORE_WRITE_PATTERN = /\$(\w+)\s*(?:\+\+|--|[+\-*/]?=(?!=))|\b(\w+)\.(?:set|update)\s*\(/g;
+
+/**
+ * `$name` store auto-subscriptions
+ */
+const STORE_SUBSCRIPTION_PATTERN = /\$(\w+)\b(?!\s*\()/g;
+
+/**
+ * `on:event|modifier` directive names
+ */
+const EVENT_DIRECTIVE_PATTERN = /(?<=\s)on:([\w-]+)((?:\|\w+)*)/g;
+
+/**
+ * Maximum length of a source snippet recorded as evidence
+ */
+const MAX_SNIPPET_LENGTH = 80;
+
+/**
+ * Svelte component analyzer
+ *
+ * This class turns a `.svelte` file into the same `FileAnalysis` shape the
+ * Babel analyzer produces for scripts, so dependency, state, event, route
+ * and framework detection work on Svelte and SvelteKit projects.
+ */
+export class SvelteAnalyzer {
+  private babelAnalyzer: BabelAnalyzer;
+
+  /**
+   * Create a new Svelte analyzer
+   *
+   * @param babelAnalyzer - Analyzer used for the script blocks
+   */
+  constructor(babelAnalyzer: BabelAnalyzer = new BabelAnalyzer()) {
+    this.babelAnalyzer = babelAnalyzer;
+  }
+
+  /**
+   * Analyze a Svelte component
+   *
+   * @param content - Content of the `.svelte` file
+   * @param filePath - File path for context
+   * @returns Promise that resolves to the merged analysis of the script blocks and the component
+   */
+  async analyzeSvelte(content: string, filePath: string = 'unknown'): Promise<FileAnalysis> {
+    const analysis: FileAnalysis = {
+      path: filePath,
+      language: 'svelte',
+      imports: {},
+      functions: {},
+      classes: {}
+    };
+
+    const blocks = extractScriptBlocks(content);
+    for (const block of blocks) {
+      const blockAnalysis = await this.babelAnalyzer.parseJavaScript(block.content, block.language, filePath);
+      mergeAnalysis(analysis, blockAnalysis);
+    }
+
+    const instanceScript = blocks.find(block => !MODULE_SCRIPT_ATTRIBUTE.test(block.attributes))?.content || '';
+    const props = this.extractProps(instanceScript);
+    const component: FunctionInfo = {
+      docstring: '',
+      state_changes: [],
+      event_handlers: [],
+      api_endpoints: [],
+      is_component: true,
+      parameters: props,
+      line_number: 1,
+      end_line_number: content.split('\n').length
+    };
+
+    // Stores are the values subscribed to with `$name` and the stores created here
+    const storeNames = new Set([...content.matchAll(STORE_SUBSCRIPTION_PATTERN)].map(match => match[1]!));
+    for (const call of analysis.state_calls || []) {
+      if (call.module === 'svelte/store' && call.target) storeNames.add(call.target);
+    }
+
+    // Reactive statements and store writes belong to the script function they are in
+    const scriptFunctions = Object.values(analysis.functions!);
+    for (const block of blocks) {
+      this.recordStateChanges(block.content, storeNames, scriptFunctions, component);
+    }
+
+    const markup = blankOutBlocks(content, ['script', 'style']);
+    component.event_handlers.push(...this.extractEventDirectives(markup));
+    if (markup.trim()) {
+      analysis.uses_dom = true;
+    }
+
+    const componentName = posix.basename(filePath).replace(/\.svelte$/, '');
+    analysis.functions![`${componentName}(${props.join(', ')})`] = component;
+
+    analysis.path = filePath;
+    analysis.language = 'svelte';
+    return analysis;
+  }
+
+  /**
+   * Get the prop names declared by the instance script
+   * @private
+   */
+  private extractProps(script: string): string[] {
+    const props: string[] = [];
+
+    for (const match of script.matchAll(EXPORT_LET_PATTERN)) {
+      // export let a, b = 1; -> a, b
+      for (const declarator of match[1]!.split(',')) {
+        const name = declarator.match(/^\s*(\w+)\s*(?:[:=]|$)/)?.[1];
+        if (name) props.push(name);
+      }
+    }
+
+    for (const match of script.matchAll(PROPS_RUNE_PATTERN)) {
+      for (const property of match[1]!.split(',')) {
+        const name = property.match(/^\s*(\w+)/)?.[1];
+        if (name) props.push(name);
+      }
+    }
+
+    return props;
+  }
+
+  /**
+   * Record the `$:` statements and store writes of a script block
+   *
+   * Each is added to the innermost script function containing it, or to
+   * the component when it is at the top level of the script.
+   *
+   * @private
+   */
+  private recordStateChanges(
+    script: string,
+    storeNames: Set<string>,
+    scriptFunctions: FunctionInfo[],
+    component: FunctionInfo
+  ): void {
+    const lines = script.split('\n');
+
+    for (let index = 0; index < lines.length; index++) {
+      const text = lines[index]!;
+      const line = index + 1;
+      const isReactive = REACTIVE_STATEMENT_PATTERN.test(text);
+      const writesStore = [...text.matchAll(STORE_WRITE_PATTERN)]
+        .some(match => match[1] !== undefined || storeNames.has(match[2]!));
+      if (!isReactive && !writesStore) continue;
+
+      const owner = scriptFunctions
+        .filter(info => (info.line_number || 0) <= line && line <= (info.end_line_number || 0))
+        .sort((a, b) => (b.line_number || 0) - (a.line_number || 0))[0] || component;
+
+      owner.state_changes.push({ snippet: text.trim().slice(0, MAX_SNIPPET_LENGTH), line });
+    }
+  }
+
+  /**
+   * Collect the `on:` directives of the markup as event handler evidence
+   *
+   * @param markup - Component content with script and style blocks blanked out
+   * @returns Evidence such as `on:click|preventDefault={submit}` with its line
+   * @private
+   */
+  private extractEventDirectives(markup: string): SourceEvidence[] {
+    const handlers: SourceEvidence[] = [];
+
+    for (const directive of markup.matchAll(EVENT_DIRECTIVE_PATTERN)) {
+      const end = directive.index! + directive[0].length;
+      const expression = this.readBracedValue(markup, end);
+      const value = expression !== undefined ? `={${expression.slice(0, MAX_SNIPPET_LENGTH)}}` : '';
+
+      handlers.push({ snippet: `${directive[0]}${value}`, line: getLineAt(markup, directive.index!) });
+    }
+
+    return handlers;
+  }
+
+  /**
+   * Read a `={expression}` attribute value, balancing nested braces
+   *
+   * @returns Expression text, or undefined when the directive has no value
+   * @private
+   */
+  private readBracedValue(markup: string, offset: number): string | undefined {
+    const start = markup.slice(offset).match(/^\s*=\s*\{/);
+    if (!start) return undefined;
+
+    let depth = 1;
+    const expressionStart = offset + start[0].length;
+    for (let i = expressionStart; i < markup.length; i++) {
+      if (markup[i] === '{') depth++;
+      if (markup[i] === '}' && --depth === 0) {
+        return markup.slice(expressionStart, i).replace(/\s+/g, ' ').trim();
+      }
+    }
+    return undefined;
+  }
+}
@@ -11,11 +11,17 @@ import { readFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import type { SupportedLanguage } from '../types/index.js';
+import { logger } from '../utils/logger.js';
 
 // Get current directory for WASM file paths
 const __dirname = fileURLToPath(new URL('.', import.meta.url));
 const wasmDir = join(__dirname, 'wasm');
 
+// Keep a reference to the Parser class itself: once Parser.init() runs, the
+// emscripten runtime replaces the CommonJS exports object, so bundlers that
+// re-read the default import afterwards would see the runtime module instead.
+const TreeSitterParser: typeof Parser = (Parser as any).default || Parser;
+
 /**
  * Query capture result from Tree-sitter
  */
@@ -57,6 +63,21 @@ const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
     wasmFile: 'tree-sitter-dart.wasm',
     language: 'dart',
     extensions: ['.dart']
+  },
+  java: {
+    wasmFile: 'tree-sitter-java.wasm',
+    language: 'java',
+    extensions: ['.java']
+  },
+  kotlin: {
+    wasmFile: 'tree-sitter-kotlin.wasm',
+    language: 'kotlin',
+    extensions: ['.kt', '.kts']
+  },
+  go: {
+    wasmFile: 'tree-sitter-go.wasm',
+    language: 'go',
+    extensions: ['.go']
   }
 };
 
@@ -69,6 +90,7 @@ const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
 export class TreeSitterManager {
   private parsers = new Map<SupportedLanguage, Parser>();
   private languages = new Map<SupportedLanguage, any>();
+  private queries = new Map<string, Parser.Query>();
   private initialized = false;
 
   /**
@@ -83,7 +105,7 @@ export class TreeSitterManager {
     }
 
     try {
-      console.log('🌳 Initializing Tree-sitter WebAssembly...');
+      logger.info('🌳 Initializing Tree-sitter WebAssembly...');
 
       // Try to initialize Tree-sitter
       let treeSitterInitialized = false;
@@ -95,19 +117,19 @@ export class TreeSitterManager {
 
         // Check if it's a real WASM file (not a placeholder)
         if (wasmBuffer.length > 100 && wasmBuffer[0] === 0x00) { // WASM magic number starts with 0x00
-          await Parser.init({
+          await TreeSitterParser.init({
             locateFile: () => coreWasmPath,
           });
           treeSitterInitialized = true;
-          console.log('✅ Initialized with core WASM file');
+          logger.info('✅ Initialized with core WASM file');
         }
       } catch (error) {
         // Fallback initialization
       }
 
       if (!treeSitterInitialized) {
-        console.warn('⚠️  Using development mode - Tree-sitter parsers not available');
-        console.warn('   Real WASM files needed for production use');
+        logger.warn('⚠️  Using development mode - Tree-sitter parsers not available');
+        logger.warn('   Real WASM files needed for production use');
         // Don't try to load any parsers in development mode
         this.initialized = true;
         return;
@@ -117,19 +139,19 @@ export class TreeSitterManager {
       for (const [langKey, config] of Object.entries(LANGUAGE_CONFIGS)) {
         try {
           await this.loadParser(config.language);
-          console.log(`✅ Loaded ${langKey} parser`);
+          logger.info(`✅ Loaded ${langKey} parser`);
         } catch (error) {
-          console.warn(`⚠️  Failed to load ${langKey} parser:`, error);
+          logger.warn(`⚠️  Failed to load ${langKey} parser:`, error);
           // Continue with other parsers
         }
       }
 
       this.initialized = true;
-      console.log(`🎉 Tree-sitter initialization complete with ${this.parsers.size} parsers`);
+      logger.info(`🎉 Tree-sitter initialization complete with ${this.parsers.size} parsers`);
 
     } catch (error) {
       // In development mode, just mark as initialized even if no parsers loaded
-      console.warn('⚠️  Tree-sitter initialization failed, running in development mode');
+      logger.warn('⚠️  Tree-sitter initialization failed, running in development mode');
       this.initialized = true;
     }
   }
@@ -137,6 +159,9 @@ export class TreeSitterManager {
   /**
    * Parse source code using the appropriate language parser
    *
+   * The tree lives in WebAssembly memory, so callers must release it with
+   * `tree.delete()` once they are done with it.
+   *
    * @param content - Source code content
    * @param language - Programming language
    * @returns Promise that resolves to syntax tree
@@ -165,22 +190,21 @@ export class TreeSitterManager {
     }
   }
 
-    /**
+  /**
    * Execute a Tree-sitter query on a syntax tree
    *
+   * Compiled queries are cached per language and query string, since
+   * compiling is costly and every compiled query holds WebAssembly memory.
+   *
    * @param tree - Syntax tree from parseFile
    * @param queryString - Tree-sitter query string
    * @param language - Programming language (for language-specific queries)
    * @returns Array of query capture results
    */
   query(tree: Parser.Tree, queryString: string, language: SupportedLanguage): QueryCapture[] {
-    const languageObj = this.languages.get(language);
-    if (!languageObj) {
-      throw new Error(`Language object not found for: ${language}`);
-    }
+    const query = this.getQuery(queryString, language);
 
     try {
-      const query = languageObj.query(queryString);
       const captures = query.captures(tree.rootNode);
 
       // Type the capture parameter explicitly
@@ -194,6 +218,38 @@ export class TreeSitterManager {
     }
   }
 
+  /**
+   * Get the compiled query for a language, compiling it on first use
+   *
+   * @param queryString - Tree-sitter query string
+   * @param language - Programming language
+   * @returns Compiled query
+   * @throws {Error} If the language is not loaded or the query is invalid
+   * @private
+   */
+  private getQuery(queryString: string, language: SupportedLanguage): Parser.Query {
+    const cacheKey = `${language}\0${queryString}`;
+    const cached = this.queries.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const languageObj = this.languages.get(language);
+    if (!languageObj) {
+      throw new Error(`Language object not found for: ${language}`);
+    }
+
+    let query: Parser.Query;
+    try {
+      query = languageObj.query(queryString);
+    } catch (error) {
+      throw new Error(`Query execution failed: ${error}`);
+    }
+
+    this.queries.set(cacheKey, query);
+    return query;
+  }
+
   /**
    * Check if a language parser is available
    *
@@ -227,14 +283,12 @@ export class TreeSitterManager {
     }
 
     try {
-      // For now, create a mock parser since WASM files might not be available
-      const ParserClass = (Parser as any).default || Parser;
-      const parser = new ParserClass();
+      const parser = new TreeSitterParser();
       // Try to load the actual language WASM
       const wasmPath = join(wasmDir, config.wasmFile);
 
       try {
-        const Language = await Parser.Language.load(wasmPath);
+        const Language = await TreeSitterParser.Language.load(wasmPath);
         parser.setLanguage(Language);
 
         this.parsers.set(language, parser);
@@ -242,7 +296,7 @@ export class TreeSitterManager {
 
       } catch (wasmError) {
         // For development, create a mock parser
-        console.warn(`Could not load ${config.wasmFile}, creating mock parser`);
+        logger.warn(`Could not load ${config.wasmFile}, creating mock parser`);
 
         // Create a simple mock that can at least be used for testing
         const mockParser = {
@@ -0,0 +1,128 @@
+/**
+ * Vue Single-File Component Analyzer
+ *
+ * This module splits `.vue` files into their `<script>` and `<script setup>`
+ * blocks, analyzes each with the Babel analyzer and merges the results, and
+ * collects the `@event`/`v-on:event` bindings of the `<template>`. Line
+ * numbers always refer to the original `.vue` file.
+ */
+
+import { BabelAnalyzer } from './babel-analyzer.js';
+import { extractScriptBlocks, getLineAt, mergeAnalysis } from '../utils/component-blocks.js';
+import type { FileAnalysis, TemplateEventBinding } from '../types/index.js';
+
+/**
+ * Opening tag of the top-level `<template>` block
+ */
+const TEMPLATE_OPEN_PATTERN = /^<template\b[^>]*>/m;
+
+/**
+ * Closing tag of the top-level `<template>` block (the last one in the file)
+ */
+const TEMPLATE_CLOSE_PATTERN = /^<\/template>/gm;
+
+/**
+ * `@event.modifier="handler"` and `v-on:event="handler"` attributes
+ */
+const EVENT_BINDING_PATTERN = /(?<=\s)(?:@|v-on:)([\w:-]+)((?:\.[\w-]+)*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * APIs Nuxt and `unplugin-auto-import` make available in components without an import
+ */
+const VUE_AUTO_IMPORTS: Record<string, string[]> = {
+  'vue': ['ref', 'shallowRef', 'reactive', 'shallowReactive', 'computed'],
+  'pinia': ['defineStore']
+};
+
+/**
+ * Vue single-file component analyzer
+ *
+ * This class turns a `.vue` file into the same `FileAnalysis` shape the
+ * Babel analyzer produces for scripts, so dependency, state, event and
+ * framework detection work on Vue and Nuxt projects.
+ */
+export class VueAnalyzer {
+  private babelAnalyzer: BabelAnalyzer;
+
+  /**
+   * Create a new Vue analyzer
+   *
+   * @param babelAnalyzer - Analyzer used for the script blocks
+   */
+  constructor(babelAnalyzer: BabelAnalyzer = new BabelAnalyzer()) {
+    this.babelAnalyzer = babelAnalyzer;
+  }
+
+  /**
+   * Analyze a Vue single-file component
+   *
+   * @param content - Content of the `.vue` file
+   * @param filePath - File path for context
+   * @returns Promise that resolves to the merged analysis of all script blocks
+   */
+  async analyzeVue(content: string, filePath: string = 'unknown'): Promise<FileAnalysis> {
+    const analysis: FileAnalysis = {
+      path: filePath,
+      language: 'vue',
+      imports: {},
+      functions: {},
+      classes: {}
+    };
+
+    for (const block of extractScriptBlocks(content)) {
+      const blockAnalysis = await this.babelAnalyzer.parseJavaScript(
+        block.content,
+        block.language,
+        filePath,
+        VUE_AUTO_IMPORTS
+      );
+      mergeAnalysis(analysis, blockAnalysis);
+    }
+
+    const templateEvents = this.extractTemplateEvents(content);
+    if (templateEvents) {
+      analysis.uses_dom = true;
+      if (templateEvents.length > 0) {
+        analysis.template_events = templateEvents;
+      }
+    }
+
+    analysis.path = filePath;
+    analysis.language = 'vue';
+    return analysis;
+  }
+
+  /**
+   * Collect the event bindings of the `<template>` block
+   *
+   * @returns Bindings in file order, or undefined when the component has no template
+   * @private
+   */
+  private extractTemplateEvents(content: string): TemplateEventBinding[] | undefined {
+    const open = TEMPLATE_OPEN_PATTERN.exec(content);
+    if (!open) return undefined;
+
+    const templateStart = open.index + open[0].length;
+    let templateEnd = content.length;
+    for (const close of content.matchAll(TEMPLATE_CLOSE_PATTERN)) {
+      if (close.index! > templateStart) templateEnd = close.index!;
+    }
+
+    const template = content.slice(templateStart, templateEnd);
+    const events: TemplateEventBinding[] = [];
+
+    for (const binding of template.matchAll(EVENT_BINDING_PATTERN)) {
+      const handler = (binding[3] ?? binding[4] ?? '').trim();
+      const modifiers = (binding[2] || '').split('.').filter(Boolean);
+
+      events.push({
+        event: binding[1]!,
+        handler,
+        ...(modifiers.length > 0 && { modifiers }),
+        line: getLineAt(content, templateStart + binding.index!)
+      });
+    }
+
+    return events;
+  }
+}
@@ -2,16 +2,22 @@
  * API Endpoint Detection Engine
  *
  * This module analyzes code files to detect REST API endpoints across different
- * frameworks including Express.js, NestJS, and Django. It extracts HTTP methods,
- * routes, parameters, and associates them with handler functions.
+ * frameworks including Express.js, NestJS, Next.js, SvelteKit, Django, FastAPI,
+ * Flask, Spring and the Go routers net/http, Gorilla Mux, Gin, Echo and Chi. It extracts HTTP methods, routes, parameters, and associates them with
+ * handler functions.
  */
 
+import { ImportResolver, getPythonModuleCandidates } from '../core/import-resolver.js';
 import type {
   FileAnalysis,
   HttpMethod,
   ApiEndpoint,
-  SupportedLanguage
+  SupportedLanguage,
+  Decorator,
+  FunctionInfo,
+  RouterDeclaration
 } from '../types/index.js';
+import { logger } from '../utils/logger.js';
 
 /**
  * Extended API endpoint information with additional metadata
@@ -52,6 +58,263 @@ export interface ApiDetectionStats {
   }>;
 }
 
+/**
+ * FastAPI routers and Flask blueprints of a repository with their mount prefixes
+ */
+interface PythonRouterIndex {
+  /** Analyses by file path, used to follow imports */
+  fileAnalyses: Map<string, FileAnalysis>;
+  /** Resolver for Python module names */
+  resolver: ImportResolver;
+  /** Declarations keyed `file::name` */
+  declarations: Map<string, RouterDeclaration>;
+  /** Full prefixes each declaration is reachable at, keyed `file::name` */
+  mounts: Map<string, string[]>;
+}
+
+/**
+ * Repository-wide information shared by the per-file detectors
+ */
+interface EndpointDetectionContext {
+  /** FastAPI routers and Flask blueprints */
+  pythonRouters: PythonRouterIndex;
+  /** Whether the repository is a Next.js app */
+  usesNextJs: boolean;
+  /** Whether the repository is a SvelteKit app */
+  usesSvelteKit: boolean;
+}
+
+/**
+ * A route decorator such as `@router.get('/items/{id}')` or `@bp.route('/x', methods=['POST'])`
+ */
+interface PythonRouteDecorator {
+  /** Router, blueprint or application expression the decorator is called on */
+  receiver: string;
+  /** Route as written in the decorator */
+  route: string;
+  /** HTTP methods handled */
+  methods: HttpMethod[];
+}
+
+/**
+ * Route decorator members shared by FastAPI routers and Flask 2 shortcuts
+ */
+const PYTHON_ROUTE_SHORTCUTS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'];
+
+/**
+ * Python annotations of path parameters and the matching converter names
+ */
+const PYTHON_PARAMETER_TYPES: Record<string, string> = {
+  int: 'int',
+  float: 'float',
+  str: 'str',
+  UUID: 'uuid',
+  'uuid.UUID': 'uuid'
+};
+
+/**
+ * A keyword argument such as `methods=['POST']`
+ */
+const KEYWORD_ARGUMENT = /^(\w+)\s*=(?!=)\s*/;
+
+/**
+ * Get the source text of a keyword argument
+ *
+ * @param args - Call arguments as written in the source
+ * @param name - Keyword name
+ * @returns Value text, or undefined if the keyword is not passed
+ */
+function getKeywordArgument(args: string[], name: string): string | undefined {
+  for (const arg of args) {
+    const match = arg.match(KEYWORD_ARGUMENT);
+    if (match && match[1] === name) {
+      return arg.slice(match[0].length);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the value of a Python string literal
+ *
+ * @param text - Literal such as `'/items'`, `"/x"` or `r'/x'`
+ * @returns The unquoted string, or undefined for other expressions
+ */
+function parsePythonString(text: string): string | undefined {
+  const match = text.match(/^[rRuU]?(['"])(.*)\1$/s);
+  return match ? match[2] : undefined;
+}
+
+/**
+ * Join a mount prefix and a route without doubling the slash between them
+ *
+ * @param prefix - Prefix such as `/api/v1`, possibly empty
+ * @param route - Route such as `/items/{id}`, possibly empty
+ * @returns Combined route
+ */
+function joinRoutePath(prefix: string, route: string): string {
+  if (!prefix) return route;
+  if (!route) return prefix;
+  return `${prefix.replace(/\/+$/, '')}${route.startsWith('/') ? route : `/${route}`}`;
+}
+
+/**
+ * A Next.js App Router or Pages Router file: `app/` or `pages/`, optionally under `src/`
+ */
+const NEXTJS_ROUTE_FILE = /(?:^|\/)(?:src\/)?(app|pages)\/(.+)\.(?:tsx|ts|jsx|js)$/;
+
+/**
+ * Route derived from the location of a Next.js file
+ */
+interface NextJsRoute {
+  kind: 'page' | 'route_handler' | 'api_route';
+  /** Route template such as `/blog/{slug}` */
+  route: string;
+  parameters: NonNullable<DetailedApiEndpoint['parameters']>;
+}
+
+/**
+ * Derive the route of a Next.js page, route handler or API route from its path
+ *
+ * `[id]` becomes `{id}`, catch-all `[...slug]` and optional catch-all
+ * `[[...slug]]` become `{slug}` with a `path` parameter, and route groups
+ * `(group)` and parallel route slots `@slot` are dropped. Private folders
+ * (`_components`) and special Pages Router files (`_app`, `_document`) are
+ * not routes.
+ *
+ * @param filePath - Repository-relative file path
+ * @returns Route information, or undefined if the file does not define a route
+ */
+function parseNextJsRoute(filePath: string): NextJsRoute | undefined {
+  const match = filePath.match(NEXTJS_ROUTE_FILE);
+  if (!match) return undefined;
+
+  const router = match[1];
+  const segments = match[2]!.split('/');
+  const fileName = segments.pop()!;
+  let kind: NextJsRoute['kind'];
+
+  if (router === 'app') {
+    if (fileName !== 'page' && fileName !== 'route') return undefined;
+    kind = fileName === 'page' ? 'page' : 'route_handler';
+  } else {
+    if (fileName.startsWith('_')) return undefined;
+    if (fileName !== 'index') segments.push(fileName);
+    kind = segments[0] === 'api' ? 'api_route' : 'page';
+  }
+
+  const parameters: NextJsRoute['parameters'] = [];
+  const routeSegments: string[] = [];
+
+  for (const segment of segments) {
+    if (router === 'app' && segment.startsWith('_')) return undefined;
+    if (/^\(.*\)$/.test(segment) || segment.startsWith('@')) continue;
+
+    const dynamic = segment.match(/^\[(\[)?(\.\.\.)?(\w+)\](\])?$/);
+    if (dynamic) {
+      parameters.push({
+        name: dynamic[3]!,
+        type: dynamic[2] ? 'path' : 'string',
+        required: !dynamic[1]
+      });
+      routeSegments.push(`{${dynamic[3]}}`);
+    } else {
+      routeSegments.push(segment);
+    }
+  }
+
+  return { kind, route: `/${routeSegments.join('/')}`, parameters };
+}
+
+/**
+ * A SvelteKit route file: `+page`, `+layout` or `+server` under `routes/`,
+ * optionally under `src/`, with an optional layout reset (`+page@.svelte`)
+ */
+const SVELTEKIT_ROUTE_FILE = /(?:^|\/)(?:src\/)?routes\/(?:(.+)\/)?\+(page|layout|server)(?:@[\w-]*)?(\.server)?\.(svelte|ts|js)$/;
+
+/**
+ * Route derived from the location of a SvelteKit file
+ */
+interface SvelteKitRoute {
+  kind: 'page' | 'layout' | 'server';
+  /** Whether the file is a component (`.svelte`) rather than a module */
+  component: boolean;
+  /** Whether the module only runs on the server (`+page.server.ts`) */
+  serverOnly: boolean;
+  /** Route template such as `/blog/{slug}` */
+  route: string;
+  parameters: NonNullable<DetailedApiEndpoint['parameters']>;
+}
+
+/**
+ * Derive the route of a SvelteKit page, layout or server route from its path
+ *
+ * `[id]` and `[id=matcher]` become `{id}`, rest parameters `[...path]`
+ * become `{path}` with a `path` parameter, optional parameters `[[lang]]`
+ * are not required, and route groups `(group)` are dropped.
+ *
+ * @param filePath - Repository-relative file path
+ * @returns Route information, or undefined if the file is not a route file
+ */
+function parseSvelteKitRoute(filePath: string): SvelteKitRoute | undefined {
+  const match = filePath.match(SVELTEKIT_ROUTE_FILE);
+  if (!match) return undefined;
+
+  const kind = match[2] as SvelteKitRoute['kind'];
+  const component = match[4] === 'svelte';
+  if (kind === 'server' && (component || match[3])) return undefined;
+
+  const parameters: SvelteKitRoute['parameters'] = [];
+  const routeSegments: string[] = [];
+
+  for (const segment of (match[1] || '').split('/').filter(Boolean)) {
+    if (/^\(.*\)$/.test(segment)) continue;
+
+    const dynamic = segment.match(/^\[(\[)?(\.\.\.)?(\w+)(?:=\w+)?\](\])?$/);
+    if (dynamic) {
+      parameters.push({
+        name: dynamic[3]!,
+        type: dynamic[2] ? 'path' : 'string',
+        required: !dynamic[1]
+      });
+      routeSegments.push(`{${dynamic[3]}}`);
+    } else {
+      routeSegments.push(segment);
+    }
+  }
+
+  return { kind, component, serverOnly: Boolean(match[3]), route: `/${routeSegments.join('/')}`, parameters };
+}
+
+/**
+ * Spring mapping annotations and the HTTP method each one handles
+ * (`@RequestMapping` takes its methods from the `method` argument)
+ */
+const SPRING_MAPPING_ANNOTATIONS: Record<string, HttpMethod | undefined> = {
+  RequestMapping: undefined,
+  GetMapping: 'GET',
+  PostMapping: 'POST',
+  PutMapping: 'PUT',
+  DeleteMapping: 'DELETE',
+  PatchMapping: 'PATCH'
+};
+
+/**
+ * Spring stereotype annotations of classes whose methods handle requests
+ */
+const SPRING_CONTROLLER_ANNOTATIONS = ['RestController', 'Controller'];
+
+/**
+ * A Spring mapping annotation such as `@GetMapping("/{id}")` or
+ * `@RequestMapping(value = "/x", method = RequestMethod.POST)`
+ */
+interface SpringMapping {
+  /** Paths as written, `''` when the annotation has none */
+  paths: string[];
+  /** HTTP methods handled, empty when the mapping accepts every method */
+  methods: HttpMethod[];
+}
+
 /**
  * API endpoint detection engine
  *
@@ -78,21 +341,26 @@ export class ApiDetector {
    */
   detectEndpoints(fileAnalyses: Map<string, FileAnalysis>): DetailedApiEndpoint[] {
     if (this.debugMode) {
-      console.log(`🔍 Starting API endpoint detection on ${fileAnalyses.size} files`);
+      logger.debug(`🔍 Starting API endpoint detection on ${fileAnalyses.size} files`);
     }
 
     const allEndpoints: DetailedApiEndpoint[] = [];
+    const context: EndpointDetectionContext = {
+      pythonRouters: this.buildPythonRouterIndex(fileAnalyses),
+      usesNextJs: this.usesNextJs(fileAnalyses),
+      usesSvelteKit: this.usesSvelteKit(fileAnalyses)
+    };
 
     for (const [filePath, analysis] of fileAnalyses) {
       if (analysis.error) {
         continue; // Skip files with analysis errors
       }
 
-      const fileEndpoints = this.analyzeFileForEndpoints(filePath, analysis);
+      const fileEndpoints = this.analyzeFileForEndpoints(filePath, analysis, context);
       allEndpoints.push(...fileEndpoints);
 
       if (this.debugMode && fileEndpoints.length > 0) {
-        console.log(`  📄 ${filePath}: Found ${fileEndpoints.length} endpoints`);
+        logger.debug(`  📄 ${filePath}: Found ${fileEndpoints.length} endpoints`);
       }
     }
 
@@ -105,7 +373,7 @@ export class ApiDetector {
     });
 
     if (this.debugMode) {
-      console.log(`✅ API detection complete. Found ${allEndpoints.length} total endpoints`);
+      logger.debug(`✅ API detection complete. Found ${allEndpoints.length} total endpoints`);
     }
 
     return allEndpoints;
@@ -116,22 +384,52 @@ export class ApiDetector {
    *
    * @param filePath - Path to the file being analyzed
    * @param analysis - File analysis result
+   * @param context - Repository-wide routing information
    * @returns Array of endpoints found in this file
    * @private
    */
-  private analyzeFileForEndpoints(filePath: string, analysis: FileAnalysis): DetailedApiEndpoint[] {
+  private analyzeFileForEndpoints(
+    filePath: string,
+    analysis: FileAnalysis,
+    context: EndpointDetectionContext
+  ): DetailedApiEndpoint[] {
     const endpoints: DetailedApiEndpoint[] = [];
 
     // Detect endpoints based on language and patterns
-    if (analysis.language === 'javascript' || analysis.language === 'typescript') {
+    if (analysis.language === 'svelte') {
+      // Svelte components only define routes as SvelteKit pages and layouts
+      if (context.usesSvelteKit) {
+        endpoints.push(...this.detectSvelteKitEndpoints(filePath, analysis));
+      }
+    } else if (analysis.language === 'javascript' || analysis.language === 'typescript') {
       // Check for Express.js patterns
       endpoints.push(...this.detectExpressEndpoints(filePath, analysis));
 
       // Check for NestJS patterns
       endpoints.push(...this.detectNestJSEndpoints(filePath, analysis));
+
+      // Check for Next.js file-system routes and server actions
+      if (context.usesNextJs) {
+        endpoints.push(...this.detectNextJsEndpoints(filePath, analysis));
+      }
+
+      // Check for SvelteKit route modules
+      if (context.usesSvelteKit) {
+        endpoints.push(...this.detectSvelteKitEndpoints(filePath, analysis));
+      }
     } else if (analysis.language === 'python') {
       // Check for Django patterns
       endpoints.push(...this.detectDjangoEndpoints(filePath, analysis));
+
+      // Check for FastAPI and Flask route decorators
+      endpoints.push(...this.detectFastAPIEndpoints(filePath, analysis, context.pythonRouters));
+      endpoints.push(...this.detectFlaskEndpoints(filePath, analysis, context.pythonRouters));
+    } else if (analysis.language === 'java' || analysis.language === 'kotlin') {
+      // Check for Spring controllers
+      endpoints.push(...this.detectSpringEndpoints(filePath, analysis));
+    } else if (analysis.language === 'go') {
+      // Check for net/http, Gorilla Mux, Gin, Echo and Chi route registrations
+      endpoints.push(...this.detectGoEndpoints(filePath, analysis));
     }
 
     return endpoints;
@@ -154,7 +452,7 @@ export class ApiDetector {
     }
 
     if (this.debugMode) {
-      console.log(`  🚂 Analyzing ${filePath} for Express endpoints`);
+      logger.debug(`  🚂 Analyzing ${filePath} for Express endpoints`);
     }
 
     // Look for Express route patterns in functions
@@ -199,7 +497,7 @@ export class ApiDetector {
     endpoints.push(...this.detectExpressRoutePatterns(filePath, analysis));
 
     if (this.debugMode && endpoints.length > 0) {
-      console.log(`    ✓ Found ${endpoints.length} Express endpoints`);
+      logger.debug(`    ✓ Found ${endpoints.length} Express endpoints`);
     }
 
     return endpoints;
@@ -245,7 +543,7 @@ export class ApiDetector {
       type: apiEndpoint.type || 'express_route',
       method: method,
       route: route,
-      line: lineNumber || apiEndpoint.line || 0,
+      line: apiEndpoint.line || lineNumber || 0,
       framework: 'Express',
       filePath: filePath,
       handlerFunction: handlerFunction,
@@ -440,7 +738,7 @@ export class ApiDetector {
     }
 
     if (this.debugMode) {
-      console.log(`  🏰 Analyzing ${filePath} for NestJS endpoints`);
+      logger.debug(`  🏰 Analyzing ${filePath} for NestJS endpoints`);
     }
 
     // Get controller prefix from class decorators
@@ -530,7 +828,7 @@ export class ApiDetector {
     }
 
     if (this.debugMode && endpoints.length > 0) {
-      console.log(`    ✓ Found ${endpoints.length} NestJS endpoints`);
+      logger.debug(`    ✓ Found ${endpoints.length} NestJS endpoints`);
     }
 
     return endpoints;
@@ -741,7 +1039,7 @@ export class ApiDetector {
     }
 
     if (this.debugMode) {
-      console.log(`  🎯 Analyzing ${filePath} for Django endpoints`);
+      logger.debug(`  🎯 Analyzing ${filePath} for Django endpoints`);
     }
 
     // Check if this is a views.py file or contains view functions
@@ -797,7 +1095,7 @@ export class ApiDetector {
     }
 
     if (this.debugMode && endpoints.length > 0) {
-      console.log(`    ✓ Found ${endpoints.length} Django endpoints`);
+      logger.debug(`    ✓ Found ${endpoints.length} Django endpoints`);
     }
 
     return endpoints;
@@ -1190,6 +1488,727 @@ export class ApiDetector {
     return `/${route}/`;
   }
 
+  /**
+   * Detect Next.js routes and server actions
+   *
+   * App Router `route.ts` files yield one endpoint per exported HTTP method,
+   * Pages Router `pages/api/**` files one endpoint for the default handler.
+   * `page.tsx` and `pages/**` files are listed as UI routes without a method.
+   *
+   * @param filePath - File path
+   * @param analysis - File analysis
+   * @returns Next.js endpoints found
+   * @private
+   */
+  private detectNextJsEndpoints(filePath: string, analysis: FileAnalysis): DetailedApiEndpoint[] {
+    const endpoints: DetailedApiEndpoint[] = [];
+    const exportLines = analysis.export_lines || {};
+    const nextRoute = parseNextJsRoute(filePath);
+
+    if (nextRoute) {
+      if (this.debugMode) {
+        logger.debug(`  ▲ Analyzing ${filePath} for Next.js routes`);
+      }
+
+      const base = {
+        route: nextRoute.route,
+        framework: 'Next.js',
+        filePath,
+        parameters: nextRoute.parameters
+      };
+
+      if (nextRoute.kind === 'route_handler') {
+        for (const name of analysis.exports || []) {
+          if (this.isValidHttpMethod(name)) {
+            endpoints.push({
+              ...base,
+              type: 'nextjs_route_handler',
+              method: name as HttpMethod,
+              line: exportLines[name] || 0,
+              handlerFunction: name
+            });
+          }
+        }
+      } else if (analysis.exports?.includes('default')) {
+        endpoints.push({
+          ...base,
+          type: nextRoute.kind === 'api_route' ? 'nextjs_api_route' : 'nextjs_page',
+          ...(nextRoute.kind === 'api_route' && { methods: 'Multiple' }),
+          line: exportLines['default'] || 0,
+          handlerFunction: 'default'
+        });
+      }
+    }
+
+    endpoints.push(...this.detectNextJsServerActions(filePath, analysis));
+
+    if (this.debugMode && endpoints.length > 0) {
+      logger.debug(`    ✓ Found ${endpoints.length} Next.js routes and actions`);
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Detect server actions: exported functions of a `'use server'` module and
+   * functions whose body starts with `'use server'`
+   * @private
+   */
+  private detectNextJsServerActions(filePath: string, analysis: FileAnalysis): DetailedApiEndpoint[] {
+    const endpoints: DetailedApiEndpoint[] = [];
+    if (!analysis.functions) return endpoints;
+
+    const serverModule = analysis.directives?.includes('use server') || false;
+    const exported = new Set(analysis.exports || []);
+
+    for (const [functionSignature, functionInfo] of Object.entries(analysis.functions)) {
+      const functionName = functionSignature.split('(')[0] || 'anonymous';
+      const isAction = functionInfo.directives?.includes('use server') ||
+        (serverModule && exported.has(functionName));
+
+      if (isAction) {
+        endpoints.push({
+          type: 'nextjs_server_action',
+          line: functionInfo.line_number || 0,
+          framework: 'Next.js',
+          filePath,
+          handlerFunction: functionName
+        });
+      }
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Check whether the repository is a Next.js app: a file imports `next`
+   * or a `next.config` file exists
+   * @private
+   */
+  private usesNextJs(fileAnalyses: Map<string, FileAnalysis>): boolean {
+    for (const [filePath, analysis] of fileAnalyses) {
+      if (/(^|\/)next\.config\.(js|cjs|mjs|ts)$/.test(filePath)) {
+        return true;
+      }
+      if (Object.keys(analysis.imports || {}).some(moduleName => moduleName === 'next' || moduleName.startsWith('next/'))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Detect SvelteKit routes
+   *
+   * `+server.ts` files yield one endpoint per exported HTTP method, and the
+   * `actions` of a `+page.server.ts` file a POST endpoint. `+page.svelte`
+   * and `+layout.svelte` components are listed as UI routes, and the `load`
+   * functions of `+page`/`+layout` modules as data loaders, without a method.
+   *
+   * @param filePath - File path
+   * @param analysis - File analysis
+   * @returns SvelteKit endpoints found
+   * @private
+   */
+  private detectSvelteKitEndpoints(filePath: string, analysis: FileAnalysis): DetailedApiEndpoint[] {
+    const endpoints: DetailedApiEndpoint[] = [];
+    const svelteRoute = parseSvelteKitRoute(filePath);
+    if (!svelteRoute) return endpoints;
+
+    if (this.debugMode) {
+      logger.debug(`  🧡 Analyzing ${filePath} for SvelteKit routes`);
+    }
+
+    const exportLines = analysis.export_lines || {};
+    const base = {
+      route: svelteRoute.route,
+      framework: 'SvelteKit',
+      filePath,
+      parameters: svelteRoute.parameters
+    };
+
+    if (svelteRoute.component) {
+      endpoints.push({ ...base, type: `sveltekit_${svelteRoute.kind}`, line: 1 });
+    } else if (svelteRoute.kind === 'server') {
+      for (const name of analysis.exports || []) {
+        if (this.isValidHttpMethod(name)) {
+          endpoints.push({
+            ...base,
+            type: 'sveltekit_server_route',
+            method: name as HttpMethod,
+            line: exportLines[name] || 0,
+            handlerFunction: name
+          });
+        }
+      }
+    } else {
+      if (analysis.exports?.includes('load')) {
+        endpoints.push({
+          ...base,
+          type: 'sveltekit_load',
+          line: exportLines['load'] || 0,
+          handlerFunction: 'load'
+        });
+      }
+      if (svelteRoute.kind === 'page' && svelteRoute.serverOnly && analysis.exports?.includes('actions')) {
+        endpoints.push({
+          ...base,
+          type: 'sveltekit_form_action',
+          method: 'POST',
+          line: exportLines['actions'] || 0,
+          handlerFunction: 'actions'
+        });
+      }
+    }
+
+    if (this.debugMode && endpoints.length > 0) {
+      logger.debug(`    ✓ Found ${endpoints.length} SvelteKit routes`);
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Check whether the repository is a SvelteKit app: a file imports
+   * `@sveltejs/kit` or a `$app/*` module, or a `svelte.config` file exists
+   * @private
+   */
+  private usesSvelteKit(fileAnalyses: Map<string, FileAnalysis>): boolean {
+    for (const [filePath, analysis] of fileAnalyses) {
+      if (/(^|\/)svelte\.config\.(js|cjs|mjs|ts)$/.test(filePath)) {
+        return true;
+      }
+      if (Object.keys(analysis.imports || {}).some(moduleName =>
+        moduleName === '@sveltejs/kit' || moduleName.startsWith('@sveltejs/kit/') || moduleName.startsWith('$app/'))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Detect Spring MVC and WebFlux controller endpoints
+   *
+   * Methods of `@RestController`/`@Controller` classes with a mapping
+   * annotation are endpoints; a class-level `@RequestMapping` is the prefix
+   * of every method route. A mapping without methods accepts all of them.
+   *
+   * @param filePath - File path
+   * @param analysis - File analysis
+   * @returns Spring endpoints found, one per method and path
+   * @private
+   */
+  private detectSpringEndpoints(filePath: string, analysis: FileAnalysis): DetailedApiEndpoint[] {
+    const endpoints: DetailedApiEndpoint[] = [];
+
+    for (const [className, classInfo] of Object.entries(analysis.classes || {})) {
+      const classDecorators = classInfo.decorators || [];
+      if (!classDecorators.some(decorator => SPRING_CONTROLLER_ANNOTATIONS.includes(this.getSpringAnnotationName(decorator)))) {
+        continue;
+      }
+
+      if (this.debugMode) {
+        logger.debug(`  🍃 Analyzing ${className} in ${filePath} for Spring endpoints`);
+      }
+
+      const classMapping = classDecorators
+        .map(decorator => this.parseSpringMapping(decorator))
+        .find((mapping): mapping is SpringMapping => mapping !== undefined);
+      const prefixes = classMapping ? classMapping.paths : [''];
+
+      for (const [methodSignature, methodInfo] of Object.entries(classInfo.methods)) {
+        const methodName = methodSignature.split('(')[0];
+
+        for (const decorator of methodInfo.decorators || []) {
+          const mapping = this.parseSpringMapping(decorator);
+          if (!mapping) continue;
+
+          for (const prefix of prefixes) {
+            for (const path of mapping.paths) {
+              const joined = joinRoutePath(prefix, path);
+              const route = joined.startsWith('/') ? joined : `/${joined}`;
+              const base = {
+                type: 'spring_mapping',
+                route,
+                line: methodInfo.line_number || 0,
+                framework: 'Spring',
+                filePath,
+                handlerFunction: `${className}.${methodName}`,
+                parameters: this.extractBraceRouteParameters(route),
+                middleware: [`@${decorator.name}`]
+              };
+
+              if (mapping.methods.length === 0) {
+                endpoints.push({ ...base, methods: 'Multiple' });
+              }
+              for (const method of mapping.methods) {
+                endpoints.push({ ...base, method });
+              }
+            }
+          }
+        }
+      }
+    }
+
+    if (this.debugMode && endpoints.length > 0) {
+      logger.debug(`    ✓ Found ${endpoints.length} Spring endpoints`);
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Get the simple name of an annotation written with its package
+   * (`org.springframework.web.bind.annotation.GetMapping` -> `GetMapping`)
+   * @private
+   */
+  private getSpringAnnotationName(decorator: Decorator): string {
+    return decorator.name.slice(decorator.name.lastIndexOf('.') + 1);
+  }
+
+  /**
+   * Parse a Spring mapping annotation
+   *
+   * The paths come from the positional argument or the `value`/`path`
+   * argument, as a single string or an array (`{"/a", "/b"}` in Java,
+   * `["/a", "/b"]` in Kotlin).
+   *
+   * @returns Paths and methods, or undefined if the annotation is not a mapping
+   * @private
+   */
+  private parseSpringMapping(decorator: Decorator): SpringMapping | undefined {
+    const name = this.getSpringAnnotationName(decorator);
+    if (!(name in SPRING_MAPPING_ANNOTATIONS)) return undefined;
+
+    const args = decorator.arguments || [];
+    const pathArgument = args.find(arg => !KEYWORD_ARGUMENT.test(arg)) ??
+      getKeywordArgument(args, 'value') ??
+      getKeywordArgument(args, 'path');
+    const paths = pathArgument !== undefined
+      ? [...pathArgument.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map(match => match[1]!)
+      : [];
+
+    const shortcutMethod = SPRING_MAPPING_ANNOTATIONS[name];
+    let methods: HttpMethod[];
+    if (shortcutMethod) {
+      methods = [shortcutMethod];
+    } else {
+      // method = RequestMethod.GET, method = {RequestMethod.GET, RequestMethod.POST} or [...]
+      const methodArgument = getKeywordArgument(args, 'method') || '';
+      methods = [...methodArgument.matchAll(/\b([A-Z]+)\b/g)]
+        .map(match => match[1]!)
+        .filter((method): method is HttpMethod => this.isValidHttpMethod(method));
+    }
+
+    return { paths: paths.length > 0 ? paths : [''], methods };
+  }
+
+  /**
+   * Extract `{id}`, `{id:[0-9]+}` and `{path...}` path variables of a
+   * Spring, Gorilla Mux, Chi or net/http route
+   * @private
+   */
+  private extractBraceRouteParameters(route: string): Array<{ name: string; type?: string; required?: boolean }> {
+    return [...route.matchAll(/\{(\w+)(?::[^}]*|\.\.\.)?\}/g)].map(match => ({
+      name: match[1]!,
+      type: 'string',
+      required: true
+    }));
+  }
+
+  /**
+   * Detect Go route registrations
+   *
+   * The Go analyzer records the routes registered in each function and
+   * method with their group and subrouter prefixes already applied.
+   *
+   * @param filePath - File path
+   * @param analysis - File analysis
+   * @returns Go endpoints found
+   * @private
+   */
+  private detectGoEndpoints(filePath: string, analysis: FileAnalysis): DetailedApiEndpoint[] {
+    const endpoints: DetailedApiEndpoint[] = [];
+    const functions: Array<[string, FunctionInfo]> = [
+      ...Object.entries(analysis.functions || {}),
+      ...Object.entries(analysis.classes || {}).flatMap(([typeName, classInfo]) =>
+        Object.entries(classInfo.methods).map(([signature, info]): [string, FunctionInfo] =>
+          [`${typeName}.${signature}`, info]))
+    ];
+
+    for (const [functionSignature, functionInfo] of functions) {
+      for (const route of functionInfo.api_endpoints) {
+        if (route.type !== 'go_route' || !route.route) continue;
+
+        const framework = route.framework || 'net/http';
+        const endpoint: DetailedApiEndpoint = {
+          type: 'go_route',
+          route: route.route,
+          line: route.line,
+          framework,
+          filePath,
+          handlerFunction: route.handler || functionSignature.split('(')[0],
+          // Gin and Echo use :id and *path, the other routers {id} and {path...}
+          parameters: framework === 'Gin' || framework === 'Echo'
+            ? this.extractRouteParameters(route.route)
+            : this.extractBraceRouteParameters(route.route)
+        };
+
+        if (route.method) {
+          endpoint.method = route.method;
+        } else {
+          endpoint.methods = 'Multiple';
+        }
+
+        endpoints.push(endpoint);
+      }
+    }
+
+    if (this.debugMode && endpoints.length > 0) {
+      logger.debug(`  🐹 Found ${endpoints.length} Go endpoints in ${filePath}`);
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Detect FastAPI endpoints
+   *
+   * @param filePath - File path
+   * @param analysis - File analysis
+   * @param routerIndex - FastAPI/Flask routers of the repository
+   * @returns FastAPI endpoints found, one per method and mount prefix
+   * @private
+   */
+  private detectFastAPIEndpoints(
+    filePath: string,
+    analysis: FileAnalysis,
+    routerIndex: PythonRouterIndex
+  ): DetailedApiEndpoint[] {
+    const endpoints = this.detectPythonRouteEndpoints(filePath, analysis, routerIndex, 'FastAPI');
+
+    if (this.debugMode && endpoints.length > 0) {
+      logger.debug(`    ✓ Found ${endpoints.length} FastAPI endpoints`);
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Detect Flask endpoints
+   *
+   * @param filePath - File path
+   * @param analysis - File analysis
+   * @param routerIndex - FastAPI/Flask routers of the repository
+   * @returns Flask endpoints found, one per method and mount prefix
+   * @private
+   */
+  private detectFlaskEndpoints(
+    filePath: string,
+    analysis: FileAnalysis,
+    routerIndex: PythonRouterIndex
+  ): DetailedApiEndpoint[] {
+    const endpoints = this.detectPythonRouteEndpoints(filePath, analysis, routerIndex, 'Flask');
+
+    if (this.debugMode && endpoints.length > 0) {
+      logger.debug(`    ✓ Found ${endpoints.length} Flask endpoints`);
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Detect route decorators of one framework on the functions of a file
+   *
+   * The framework of a decorator comes from the router it is called on, or
+   * from the file's imports when that router is not declared in the repository.
+   *
+   * @private
+   */
+  private detectPythonRouteEndpoints(
+    filePath: string,
+    analysis: FileAnalysis,
+    routerIndex: PythonRouterIndex,
+    framework: 'FastAPI' | 'Flask'
+  ): DetailedApiEndpoint[] {
+    const endpoints: DetailedApiEndpoint[] = [];
+
+    if (!analysis.functions) return endpoints;
+
+    const importsFramework = framework === 'FastAPI'
+      ? this.hasFastAPIImport(analysis)
+      : this.hasFlaskImport(analysis);
+
+    for (const [functionSignature, functionInfo] of Object.entries(analysis.functions)) {
+      const functionName = functionSignature.split('(')[0];
+
+      for (const decorator of functionInfo.decorators || []) {
+        const routeDecorator = this.parsePythonRouteDecorator(decorator, framework);
+        if (!routeDecorator) continue;
+
+        const routerKey = this.resolvePythonRouter(routerIndex, filePath, routeDecorator.receiver);
+        const declaration = routerKey ? routerIndex.declarations.get(routerKey) : undefined;
+        if (declaration ? this.getRouterFramework(declaration) !== framework : !importsFramework) {
+          continue;
+        }
+
+        const prefixes = (routerKey && routerIndex.mounts.get(routerKey)) || [''];
+        for (const prefix of prefixes) {
+          const route = joinRoutePath(prefix, routeDecorator.route) || '/';
+
+          for (const method of routeDecorator.methods) {
+            endpoints.push({
+              type: `${framework.toLowerCase()}_${method.toLowerCase()}`,
+              method,
+              route,
+              line: functionInfo.line_number || 0,
+              framework,
+              filePath,
+              handlerFunction: functionName || 'anonymous',
+              parameters: this.extractPythonRouteParameters(route, functionInfo)
+            });
+          }
+        }
+      }
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Check if file imports FastAPI
+   * @private
+   */
+  private hasFastAPIImport(analysis: FileAnalysis): boolean {
+    if (!analysis.imports) return false;
+
+    return Object.keys(analysis.imports).some(moduleName =>
+      moduleName === 'fastapi' || moduleName.startsWith('fastapi.')
+    );
+  }
+
+  /**
+   * Check if file imports Flask
+   * @private
+   */
+  private hasFlaskImport(analysis: FileAnalysis): boolean {
+    if (!analysis.imports) return false;
+
+    return Object.keys(analysis.imports).some(moduleName =>
+      moduleName === 'flask' || moduleName.startsWith('flask.')
+    );
+  }
+
+  /**
+   * Get the framework a router declaration belongs to
+   * @private
+   */
+  private getRouterFramework(declaration: RouterDeclaration): 'FastAPI' | 'Flask' {
+    return declaration.kind === 'FastAPI' || declaration.kind === 'APIRouter' ? 'FastAPI' : 'Flask';
+  }
+
+  /**
+   * Parse `@router.get('/x')`, `@app.api_route('/x', methods=[...])` (FastAPI)
+   * or `@bp.route('/x', methods=[...])`, `@bp.post('/x')` (Flask)
+   * @private
+   */
+  private parsePythonRouteDecorator(
+    decorator: Decorator,
+    framework: 'FastAPI' | 'Flask'
+  ): PythonRouteDecorator | undefined {
+    const separator = decorator.name.lastIndexOf('.');
+    if (separator <= 0 || !decorator.arguments) return undefined;
+
+    const member = decorator.name.slice(separator + 1);
+    const args = decorator.arguments;
+
+    let methods: HttpMethod[];
+    if (PYTHON_ROUTE_SHORTCUTS.includes(member)) {
+      methods = [member.toUpperCase() as HttpMethod];
+    } else if (member === (framework === 'FastAPI' ? 'api_route' : 'route')) {
+      const methodsArgument = getKeywordArgument(args, 'methods');
+      methods = methodsArgument
+        ? [...methodsArgument.matchAll(/['"](\w+)['"]/g)]
+          .map(match => match[1]!.toUpperCase())
+          .filter((method): method is HttpMethod => this.isValidHttpMethod(method))
+        : ['GET'];
+    } else {
+      return undefined;
+    }
+
+    const routeArgument = args.find(arg => !KEYWORD_ARGUMENT.test(arg)) ??
+      getKeywordArgument(args, framework === 'FastAPI' ? 'path' : 'rule');
+    const route = routeArgument !== undefined ? parsePythonString(routeArgument) : undefined;
+    if (route === undefined) return undefined;
+
+    return {
+      receiver: decorator.name.slice(0, separator),
+      route,
+      methods
+    };
+  }
+
+  /**
+   * Extract `{id}` (FastAPI) and `<int:id>` (Flask) path parameters
+   *
+   * FastAPI parameter types come from the handler's annotations.
+   *
+   * @private
+   */
+  private extractPythonRouteParameters(
+    route: string,
+    functionInfo: FunctionInfo
+  ): Array<{ name: string; type?: string; required?: boolean }> {
+    const parameters: Array<{ name: string; type?: string; required?: boolean }> = [];
+
+    for (const match of route.matchAll(/\{(\w+)(?::\w+)?\}|<(?:(\w+):)?(\w+)>/g)) {
+      if (match[1]) {
+        const name = match[1];
+        const annotation = (functionInfo.parameters || [])
+          .map(parameter => parameter.split(':'))
+          .find(([parameterName]) => parameterName?.trim() === name)?.[1]?.trim();
+        parameters.push({ name, type: (annotation && PYTHON_PARAMETER_TYPES[annotation]) || 'str', required: true });
+      } else if (match[3]) {
+        parameters.push({ name: match[3], type: match[2] || 'string', required: true });
+      }
+    }
+
+    return parameters;
+  }
+
+  /**
+   * Collect FastAPI/Flask router declarations and compute the prefixes they are mounted at
+   *
+   * `include_router` adds its prefix in front of the router's own prefix,
+   * while a `register_blueprint` url_prefix replaces the blueprint's own.
+   * Nested routers and blueprints combine the prefixes of every level.
+   *
+   * @param fileAnalyses - Map of file paths to their analysis results
+   * @returns Router index, empty when no file declares a router
+   * @private
+   */
+  private buildPythonRouterIndex(fileAnalyses: Map<string, FileAnalysis>): PythonRouterIndex {
+    const declarations = new Map<string, RouterDeclaration>();
+    for (const [filePath, analysis] of fileAnalyses) {
+      for (const declaration of analysis.routers || []) {
+        const key = `${filePath}::${declaration.name}`;
+        if (!declarations.has(key)) {
+          declarations.set(key, declaration);
+        }
+      }
+    }
+
+    const index: PythonRouterIndex = {
+      fileAnalyses,
+      resolver: new ImportResolver(declarations.size > 0 ? fileAnalyses.keys() : []),
+      declarations,
+      mounts: new Map()
+    };
+    if (declarations.size === 0) {
+      return index;
+    }
+
+    const inclusions = new Map<string, Array<{ child: string; prefix?: string }>>();
+    const includedRouters = new Set<string>();
+    for (const [filePath, analysis] of fileAnalyses) {
+      for (const inclusion of analysis.router_includes || []) {
+        const parentKey = this.resolvePythonRouter(index, filePath, inclusion.parent);
+        const childKey = this.resolvePythonRouter(index, filePath, inclusion.child);
+        if (!parentKey || !childKey) continue;
+
+        if (!inclusions.has(parentKey)) inclusions.set(parentKey, []);
+        inclusions.get(parentKey)!.push({ child: childKey, prefix: inclusion.prefix });
+        includedRouters.add(childKey);
+      }
+    }
+
+    const mount = (key: string, prefix: string, ancestors: Set<string>): void => {
+      const prefixes = index.mounts.get(key) || [];
+      if (ancestors.has(key) || prefixes.includes(prefix)) return;
+
+      prefixes.push(prefix);
+      index.mounts.set(key, prefixes);
+
+      for (const { child, prefix: includePrefix } of inclusions.get(key) || []) {
+        const declaration = declarations.get(child)!;
+        const childPrefix = declaration.kind === 'Blueprint'
+          ? joinRoutePath(prefix, includePrefix ?? declaration.prefix ?? '')
+          : joinRoutePath(joinRoutePath(prefix, includePrefix ?? ''), declaration.prefix ?? '');
+        mount(child, childPrefix, new Set([...ancestors, key]));
+      }
+    };
+
+    for (const [key, declaration] of declarations) {
+      if (!includedRouters.has(key)) {
+        mount(key, declaration.prefix ?? '', new Set());
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Resolve a router expression in a file to its declaration key
+   *
+   * Handles routers declared in the file, imported by name
+   * (`from .auth import bp`) and accessed through an imported module
+   * (`items.router`, `app.api.routes.router`).
+   *
+   * @returns Key `file::name`, or undefined if the router is not declared in the repository
+   * @private
+   */
+  private resolvePythonRouter(index: PythonRouterIndex, filePath: string, expression: string): string | undefined {
+    const parts = expression.split('.');
+    const name = parts.pop()!;
+
+    if (parts.length === 0 && index.declarations.has(`${filePath}::${name}`)) {
+      return `${filePath}::${name}`;
+    }
+
+    const moduleAlias = parts.join('.');
+    const imports = index.fileAnalyses.get(filePath)?.imports || {};
+
+    for (const [moduleName, items] of Object.entries(imports)) {
+      for (const item of items) {
+        const [imported, alias] = item.split(/\s+as\s+/);
+        if (!imported || (alias ?? imported) !== (moduleAlias || name)) continue;
+
+        // from m import router: look up the imported name in module m
+        // import m / from pkg import m: look up the attribute in that module
+        const lookups = moduleAlias
+          ? [
+            ...(imported === moduleName ? [moduleName] : []),
+            moduleName.endsWith('.') ? `${moduleName}${imported}` : `${moduleName}.${imported}`
+          ].map(module => ({ module, declaration: name }))
+          : [{ module: moduleName, declaration: imported }];
+
+        for (const lookup of lookups) {
+          for (const moduleFile of this.findPythonModuleFiles(index, filePath, lookup.module)) {
+            const key = `${moduleFile}::${lookup.declaration}`;
+            if (index.declarations.has(key)) {
+              return key;
+            }
+          }
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the analyzed files a Python module name refers to
+   * @private
+   */
+  private findPythonModuleFiles(index: PythonRouterIndex, fromFile: string, moduleName: string): string[] {
+    const resolution = index.resolver.resolvePythonModule(fromFile, moduleName);
+    if (!resolution) return [];
+
+    return resolution.candidates
+      .flatMap(candidate => getPythonModuleCandidates(candidate))
+      .filter(candidate => index.fileAnalyses.has(candidate));
+  }
+
   /**
    * Generate API detection statistics
    *
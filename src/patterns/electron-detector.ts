@@ -0,0 +1,268 @@
+/**
+ * Electron Process Roles and Security Audit
+ *
+ * This module sorts the JavaScript and TypeScript files of an Electron app
+ * into the process they run in (main, preload, renderer, or shared between
+ * several) and lists insecure `BrowserWindow` settings, `shell.openExternal`
+ * calls on non-literal URLs and uses of the `remote` module.
+ */
+
+import { posix } from 'path';
+import type {
+  ElectronSecurityFinding,
+  ElectronSecurityRule,
+  FileAnalysis,
+  ImportEdge,
+  ProcessRole
+} from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Electron APIs only available in the main process
+ */
+const MAIN_PROCESS_APIS = [
+  'app', 'autoUpdater', 'BrowserView', 'BrowserWindow', 'desktopCapturer', 'dialog',
+  'globalShortcut', 'ipcMain', 'Menu', 'MenuItem', 'nativeTheme', 'net', 'powerMonitor',
+  'powerSaveBlocker', 'protocol', 'safeStorage', 'screen', 'session', 'systemPreferences',
+  'Tray', 'utilityProcess', 'webContents', 'WebContentsView'
+];
+
+/**
+ * Electron APIs only available in preload scripts and renderers
+ */
+const RENDERER_PROCESS_APIS = ['ipcRenderer', 'webFrame', 'webUtils'];
+
+/**
+ * webPreferences values that weaken a window's isolation, with their finding
+ */
+const INSECURE_WEB_PREFERENCES: Array<{ name: string; value: boolean; rule: ElectronSecurityRule }> = [
+  { name: 'nodeIntegration', value: true, rule: 'node_integration' },
+  { name: 'contextIsolation', value: false, rule: 'context_isolation_disabled' },
+  { name: 'sandbox', value: false, rule: 'sandbox_disabled' },
+  { name: 'webSecurity', value: false, rule: 'web_security_disabled' },
+  { name: 'enableRemoteModule', value: true, rule: 'remote_module' }
+];
+
+/**
+ * File extensions of scripts Electron can load
+ */
+const SCRIPT_EXTENSION = /\.(ts|tsx|js|jsx|mjs|cjs)$/;
+
+/**
+ * Electron process role and security detector
+ */
+export class ElectronDetector {
+  private debugMode: boolean;
+
+  /**
+   * Create a new Electron detector
+   *
+   * @param debugMode - Enable debug logging for Electron detection
+   */
+  constructor(debugMode: boolean = false) {
+    this.debugMode = debugMode;
+  }
+
+  /**
+   * Check whether any file imports Electron
+   *
+   * @param fileAnalyses - Map of file paths to their analysis results
+   * @returns True if the repository is an Electron app
+   */
+  usesElectron(fileAnalyses: Map<string, FileAnalysis>): boolean {
+    for (const analysis of fileAnalyses.values()) {
+      if (analysis.imports?.['electron']) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Assign each JavaScript/TypeScript file the Electron process it runs in
+   *
+   * A file's own evidence decides first: being the `webPreferences.preload`
+   * script of a window or using `contextBridge` makes it a preload script,
+   * importing a main-only Electron API makes it main process code, and
+   * `ipcRenderer` or DOM usage makes it renderer code. Files without
+   * evidence take the role of the files importing them, or `shared` when
+   * they are imported from several processes. Files that nothing with a
+   * role imports are left out.
+   *
+   * @param fileAnalyses - Map of file paths to their analysis results
+   * @param importEdges - File-to-file imports of the repository
+   * @returns Process role by file path, empty when Electron is not used
+   */
+  classifyProcessRoles(fileAnalyses: Map<string, FileAnalysis>, importEdges: ImportEdge[]): Map<string, ProcessRole> {
+    const roles = new Map<string, ProcessRole>();
+    if (!this.usesElectron(fileAnalyses)) {
+      return roles;
+    }
+
+    const preloadScripts = this.findPreloadScripts(fileAnalyses);
+    for (const [filePath, analysis] of fileAnalyses) {
+      const role = this.getOwnRole(filePath, analysis, preloadScripts);
+      if (role) {
+        roles.set(filePath, role);
+      }
+    }
+
+    const importsByFile = new Map<string, string[]>();
+    for (const edge of importEdges) {
+      if (!importsByFile.has(edge.from)) importsByFile.set(edge.from, []);
+      importsByFile.get(edge.from)!.push(edge.to);
+    }
+
+    // Walk the imports of each classified file up to files with their own role
+    const inheritedRoles = new Map<string, Set<ProcessRole>>();
+    for (const [filePath, role] of roles) {
+      const visited = new Set<string>([filePath]);
+      const queue = [...(importsByFile.get(filePath) || [])];
+
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (visited.has(current) || roles.has(current) || !this.isScript(fileAnalyses.get(current))) continue;
+        visited.add(current);
+
+        if (!inheritedRoles.has(current)) inheritedRoles.set(current, new Set());
+        inheritedRoles.get(current)!.add(role);
+        queue.push(...(importsByFile.get(current) || []));
+      }
+    }
+
+    for (const [filePath, inherited] of inheritedRoles) {
+      roles.set(filePath, inherited.size === 1 ? [...inherited][0]! : 'shared');
+    }
+
+    if (this.debugMode) {
+      const counts: Record<string, number> = {};
+      for (const role of roles.values()) counts[role] = (counts[role] || 0) + 1;
+      logger.debug(`⚡ Electron process roles: ${JSON.stringify(counts)}`);
+    }
+
+    return roles;
+  }
+
+  /**
+   * List insecure window settings, untrusted `shell.openExternal` calls and `remote` usage
+   *
+   * @param fileAnalyses - Map of file paths to their analysis results
+   * @returns Findings sorted by file and line
+   */
+  auditSecurity(fileAnalyses: Map<string, FileAnalysis>): ElectronSecurityFinding[] {
+    const findings: ElectronSecurityFinding[] = [];
+
+    for (const [filePath, analysis] of fileAnalyses) {
+      for (const browserWindow of analysis.browser_windows || []) {
+        for (const { name, value, rule } of INSECURE_WEB_PREFERENCES) {
+          if (browserWindow.web_preferences[name] === value) {
+            findings.push({ rule, file: filePath, line: browserWindow.line, evidence: `${name}: ${value}` });
+          }
+        }
+      }
+
+      for (const call of analysis.open_external_calls || []) {
+        if (!call.trusted) {
+          findings.push({
+            rule: 'open_external_untrusted',
+            file: filePath,
+            line: call.line,
+            evidence: `shell.openExternal(${call.argument})`
+          });
+        }
+      }
+
+      for (const [moduleName, importedNames] of Object.entries(analysis.imports || {})) {
+        const remoteImport = moduleName === '@electron/remote' || moduleName.startsWith('@electron/remote/') ||
+          (moduleName === 'electron' && importedNames.includes('remote'));
+        if (remoteImport) {
+          findings.push({
+            rule: 'remote_module',
+            file: filePath,
+            line: analysis.import_lines?.[moduleName] || 0,
+            evidence: moduleName === 'electron' ? 'import { remote } from \'electron\'' : `import '${moduleName}'`
+          });
+        }
+      }
+    }
+
+    findings.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+
+    if (this.debugMode && findings.length > 0) {
+      logger.debug(`🛡️ Found ${findings.length} Electron security issues`);
+    }
+
+    return findings;
+  }
+
+  /**
+   * Get the role a file's own imports and contents point to
+   * @private
+   */
+  private getOwnRole(filePath: string, analysis: FileAnalysis, preloadScripts: Set<string>): ProcessRole | undefined {
+    if (!this.isScript(analysis)) return undefined;
+
+    const electronImports = analysis.imports?.['electron'] || [];
+    if (preloadScripts.has(filePath) || electronImports.includes('contextBridge') ||
+        analysis.imports?.['@electron-toolkit/preload']) {
+      return 'preload';
+    }
+    if (electronImports.some(name => MAIN_PROCESS_APIS.includes(name))) {
+      return 'main';
+    }
+    if (electronImports.some(name => RENDERER_PROCESS_APIS.includes(name)) || analysis.uses_dom) {
+      return 'renderer';
+    }
+    return undefined;
+  }
+
+  /**
+   * Find the files loaded as `webPreferences.preload` scripts
+   *
+   * The preload path is resolved against the directory of the file creating
+   * the window. Since it usually names a build output (`../preload/index.js`),
+   * a source file with the same path and another script extension matches,
+   * and when nothing matches there, any file ending in the same path segments.
+   *
+   * @private
+   */
+  private findPreloadScripts(fileAnalyses: Map<string, FileAnalysis>): Set<string> {
+    const preloadScripts = new Set<string>();
+    const scripts = [...fileAnalyses.keys()].filter(filePath => SCRIPT_EXTENSION.test(filePath));
+
+    for (const [filePath, analysis] of fileAnalyses) {
+      for (const browserWindow of analysis.browser_windows || []) {
+        if (!browserWindow.preload) continue;
+
+        const preload = browserWindow.preload.replace(SCRIPT_EXTENSION, '');
+        const resolved = posix.join(posix.dirname(filePath), preload);
+        let matches = scripts.filter(script => script.replace(SCRIPT_EXTENSION, '') === resolved);
+
+        if (matches.length === 0) {
+          const suffix = posix.normalize(preload).split('/').filter(segment => segment !== '..' && segment !== '.').join('/');
+          matches = suffix && suffix !== 'index'
+            ? scripts.filter(script => {
+              const withoutExtension = script.replace(SCRIPT_EXTENSION, '');
+              return withoutExtension === suffix || withoutExtension.endsWith(`/${suffix}`);
+            })
+            : [];
+        }
+
+        for (const match of matches) {
+          preloadScripts.add(match);
+        }
+      }
+    }
+
+    return preloadScripts;
+  }
+
+  /**
+   * Check whether an analysis is of a JavaScript, TypeScript, Vue or Svelte file
+   * @private
+   */
+  private isScript(analysis: FileAnalysis | undefined): boolean {
+    const language = analysis?.language;
+    return language === 'javascript' || language === 'typescript' || language === 'vue' || language === 'svelte';
+  }
+}
@@ -3,15 +3,17 @@
  *
  * This module analyzes code to detect event handlers, listeners, and callback
  * patterns across different frameworks including DOM events, React events,
- * Electron IPC, and custom event systems.
+ * Vue template events, Svelte directives, Electron IPC, and custom event systems.
  */
 
+import { posix } from 'path';
 import type {
   FileAnalysis,
   EventHandler,
   EventHandlerType,
   SupportedLanguage
 } from '../types/index.js';
+import { logger } from '../utils/logger.js';
 
 /**
  * Extended event handler information with additional metadata
@@ -94,7 +96,7 @@ export class EventDetector {
    */
   detectEventHandlers(fileAnalyses: Map<string, FileAnalysis>): DetailedEventHandler[] {
     if (this.debugMode) {
-      console.log(`🔍 Starting event handler detection on ${fileAnalyses.size} files`);
+      logger.debug(`🔍 Starting event handler detection on ${fileAnalyses.size} files`);
     }
 
     const allHandlers: DetailedEventHandler[] = [];
@@ -108,7 +110,7 @@ export class EventDetector {
       allHandlers.push(...fileHandlers);
 
       if (this.debugMode && fileHandlers.length > 0) {
-        console.log(`  📄 ${filePath}: Found ${fileHandlers.length} event handlers`);
+        logger.debug(`  📄 ${filePath}: Found ${fileHandlers.length} event handlers`);
       }
     }
 
@@ -121,7 +123,7 @@ export class EventDetector {
     });
 
     if (this.debugMode) {
-      console.log(`✅ Event detection complete. Found ${allHandlers.length} total handlers`);
+      logger.debug(`✅ Event detection complete. Found ${allHandlers.length} total handlers`);
     }
 
     return allHandlers;
@@ -139,13 +141,20 @@ export class EventDetector {
     const handlers: DetailedEventHandler[] = [];
 
     // Detect handlers based on language and patterns
-    if (analysis.language === 'javascript' || analysis.language === 'typescript') {
+    const language = analysis.language;
+    if (language === 'javascript' || language === 'typescript' || language === 'vue' || language === 'svelte') {
       // Check for DOM event handlers
       handlers.push(...this.detectDOMEventHandlers(filePath, analysis));
 
       // Check for React event handlers
       handlers.push(...this.detectReactEventHandlers(filePath, analysis));
 
+      // Check for Vue template event bindings
+      handlers.push(...this.detectVueTemplateEvents(filePath, analysis));
+
+      // Check for Svelte on: directives
+      handlers.push(...this.detectSvelteEventDirectives(filePath, analysis));
+
       // Check for Electron IPC handlers
       handlers.push(...this.detectElectronIPCHandlers(filePath, analysis));
 
@@ -174,7 +183,7 @@ export class EventDetector {
     const handlers: DetailedEventHandler[] = [];
 
     if (this.debugMode) {
-      console.log(`  🌐 Analyzing ${filePath} for DOM event handlers`);
+      logger.debug(`  🌐 Analyzing ${filePath} for DOM event handlers`);
     }
 
     // Check functions for addEventListener patterns
@@ -184,13 +193,13 @@ export class EventDetector {
 
         // Check existing event_handlers detected by analyzers
         if (functionInfo.event_handlers && functionInfo.event_handlers.length > 0) {
-          for (const eventHandler of functionInfo.event_handlers) {
+          for (const { snippet: eventHandler, line: evidenceLine } of functionInfo.event_handlers) {
             if (this.isDOMEventHandler(eventHandler)) {
               handlers.push({
                 type: this.getDOMEventType(eventHandler),
                 event: this.extractEventName(eventHandler),
                 handler: functionName,
-                line: functionInfo.line_number || 0,
+                line: evidenceLine || functionInfo.line_number || 0,
                 framework: 'DOM',
                 context: 'function',
                 containerName: functionName,
@@ -233,7 +242,7 @@ export class EventDetector {
     }
 
     if (this.debugMode) {
-      console.log(`  ⚛️  Analyzing ${filePath} for React event handlers`);
+      logger.debug(`  ⚛️  Analyzing ${filePath} for React event handlers`);
     }
 
     // Check functions for React event patterns
@@ -243,13 +252,13 @@ export class EventDetector {
 
         // Check existing event_handlers
         if (functionInfo.event_handlers && functionInfo.event_handlers.length > 0) {
-          for (const eventHandler of functionInfo.event_handlers) {
+          for (const { snippet: eventHandler, line: evidenceLine } of functionInfo.event_handlers) {
             if (this.isReactEventHandler(eventHandler)) {
               handlers.push({
                 type: this.getReactEventType(eventHandler),
                 event: this.extractReactEventName(eventHandler),
                 handler: functionName,
-                line: functionInfo.line_number || 0,
+                line: evidenceLine || functionInfo.line_number || 0,
                 framework: 'React',
                 context: 'function',
                 containerName: functionName,
@@ -280,6 +289,102 @@ export class EventDetector {
     return handlers;
   }
 
+  /**
+   * Detect Vue template event bindings (`@click="save"`, `v-on:submit.prevent="onSubmit"`)
+   *
+   * @param filePath - File path
+   * @param analysis - File analysis
+   * @returns Vue event handlers found
+   * @private
+   */
+  private detectVueTemplateEvents(filePath: string, analysis: FileAnalysis): DetailedEventHandler[] {
+    const handlers: DetailedEventHandler[] = [];
+
+    if (!analysis.template_events || analysis.template_events.length === 0) {
+      return handlers;
+    }
+
+    if (this.debugMode) {
+      logger.debug(`  💚 Analyzing ${filePath} for Vue template events`);
+    }
+
+    // Template bindings belong to the component, named after its file
+    const componentName = posix.basename(filePath).replace(/\.vue$/, '');
+
+    for (const binding of analysis.template_events) {
+      // Method names and calls (`remove(item.id)`) name their handler; inline statements do not
+      const handlerName = binding.handler.match(/^([A-Za-z_$][\w$.]*)\s*(\(|$)/)?.[1];
+
+      handlers.push({
+        type: 'vue_event',
+        event: binding.event,
+        handler: handlerName || binding.handler,
+        line: binding.line,
+        framework: 'Vue',
+        context: 'class',
+        containerName: componentName,
+        filePath,
+        metadata: {
+          expression: binding.handler,
+          ...(binding.modifiers && { modifiers: binding.modifiers }),
+          inline: !handlerName,
+          detectedVia: 'template_events'
+        }
+      });
+    }
+
+    return handlers;
+  }
+
+  /**
+   * Detect Svelte event directives (`on:click={increment}`, `on:submit|preventDefault={save}`)
+   *
+   * @param filePath - File path
+   * @param analysis - File analysis
+   * @returns Svelte event handlers found
+   * @private
+   */
+  private detectSvelteEventDirectives(filePath: string, analysis: FileAnalysis): DetailedEventHandler[] {
+    const handlers: DetailedEventHandler[] = [];
+
+    if (analysis.language !== 'svelte' || !analysis.functions) {
+      return handlers;
+    }
+
+    for (const [functionSignature, functionInfo] of Object.entries(analysis.functions)) {
+      const componentName = functionSignature.split('(')[0] || 'component';
+
+      for (const { snippet: eventHandler, line: evidenceLine } of functionInfo.event_handlers) {
+        // on:click|once={handler}, or on:click when the event is forwarded
+        const directive = eventHandler.match(/^on:([\w-]+)((?:\|\w+)*)(?:=\{(.*)\})?$/);
+        if (!directive) continue;
+
+        const expression = directive[3];
+        const handlerName = expression?.match(/^([A-Za-z_$][\w$.]*)\s*(\(|$)/)?.[1];
+        const modifiers = (directive[2] || '').split('|').filter(Boolean);
+
+        handlers.push({
+          type: 'svelte_event',
+          event: directive[1]!,
+          handler: handlerName || expression || 'forwarded',
+          line: evidenceLine || functionInfo.line_number || 0,
+          framework: 'Svelte',
+          context: 'class',
+          containerName: componentName,
+          filePath,
+          metadata: {
+            ...(expression !== undefined && { expression }),
+            ...(modifiers.length > 0 && { modifiers }),
+            forwarded: expression === undefined,
+            detectedVia: 'analyzer_event_handlers'
+          }
+        });
+      }
+    }
+
+    return handlers;
+  }
+
   /**
    * Detect Electron IPC handlers
    *
@@ -297,7 +402,7 @@ export class EventDetector {
     }
 
     if (this.debugMode) {
-      console.log(`  ⚡ Analyzing ${filePath} for Electron IPC handlers`);
+      logger.debug(`  ⚡ Analyzing ${filePath} for Electron IPC handlers`);
     }
 
     // Check functions for IPC patterns
@@ -307,7 +412,7 @@ export class EventDetector {
 
         // Check existing event_handlers for IPC patterns
         if (functionInfo.event_handlers && functionInfo.event_handlers.length > 0) {
-          for (const eventHandler of functionInfo.event_handlers) {
+          for (const { snippet: eventHandler, line: evidenceLine } of functionInfo.event_handlers) {
             if (this.isElectronIPCHandler(eventHandler)) {
               const ipcType = this.getElectronIPCType(eventHandler);
               const channel = this.extractIPCChannel(eventHandler);
@@ -316,7 +421,7 @@ export class EventDetector {
                 type: ipcType,
                 event: channel,
                 handler: functionName,
-                line: functionInfo.line_number || 0,
+                line: evidenceLine || functionInfo.line_number || 0,
                 framework: 'Electron',
                 context: 'function',
                 containerName: functionName,
@@ -367,7 +472,7 @@ export class EventDetector {
     const handlers: DetailedEventHandler[] = [];
 
     if (this.debugMode) {
-      console.log(`  🔧 Analyzing ${filePath} for custom event handlers`);
+      logger.debug(`  🔧 Analyzing ${filePath} for custom event handlers`);
     }
 
     // Check for custom event emitter patterns
@@ -433,7 +538,7 @@ export class EventDetector {
     }
 
     if (this.debugMode) {
-      console.log(`  🎯 Analyzing ${filePath} for Django event handlers`);
+      logger.debug(`  🎯 Analyzing ${filePath} for Django event handlers`);
     }
 
     // Check for Django signals
@@ -498,7 +603,7 @@ export class EventDetector {
     const handlers: DetailedEventHandler[] = [];
 
     if (this.debugMode) {
-      console.log(`  🔧 Analyzing ${filePath} for generic event handlers`);
+      logger.debug(`  🔧 Analyzing ${filePath} for generic event handlers`);
     }
 
     // Check for generic event handler naming patterns
@@ -577,6 +682,11 @@ export class EventDetector {
    * @private
    */
   private isDOMEventHandler(eventHandler: string): boolean {
+    // JSX props such as onClick={...} are React handlers, not DOM properties
+    if (/^on[A-Z]\w*=\{/.test(eventHandler)) {
+      return false;
+    }
+
     const domPatterns = [
       'addEventListener',
       'onclick', 'onchange', 'onsubmit', 'onload',
@@ -637,6 +747,12 @@ export class EventDetector {
    * @private
    */
   private getElectronIPCType(eventHandler: string): EventHandlerType {
+    // Prefer the called method over channel names that may contain "handle"
+    const callMatch = eventHandler.match(/ipc(?:Main|Renderer)\.(\w+)\s*\(/);
+    if (callMatch && callMatch[1]) {
+      return callMatch[1].startsWith('handle') ? 'ipc_handle' : 'ipc_on';
+    }
+
     if (eventHandler.includes('handle')) return 'ipc_handle';
     if (eventHandler.includes('on')) return 'ipc_on';
     return 'ipc_handle';
@@ -1047,7 +1163,9 @@ export class EventDetector {
       'ipc_handle': 0,
       'ipc_on': 0,
       'dom_event': 0,
-      'react_event': 0
+      'react_event': 0,
+      'vue_event': 0,
+      'svelte_event': 0
     };
 
     const frameworkDistribution: Record<string, number> = {};
@@ -7,6 +7,7 @@
  */
 
 import type {
+  DeclaredDependency,
   FileAnalysis,
   FrameworkDetection,
   SupportedLanguage
@@ -17,6 +18,7 @@ import {
   type FrameworkSignature,
   type PatternDefinition
 } from './pattern-definitions.js';
+import { logger } from '../utils/logger.js';
 
 /**
  * Evidence for framework detection - tracks what patterns were matched
@@ -37,6 +39,11 @@ interface DetectionEvidence {
   confidence: number;
 }
 
+/**
+ * Confidence a manifest declaring one of a framework's packages adds on top of the code evidence
+ */
+const DECLARED_DEPENDENCY_CONFIDENCE = 0.5;
+
 /**
  * Framework detection engine
  *
@@ -58,12 +65,20 @@ export class FrameworkDetector {
   /**
    * Detect frameworks from analyzed files
    *
+   * A framework package declared in a manifest is strong evidence on its
+   * own, so declared frameworks are reported even when little code uses
+   * them yet.
+   *
    * @param fileAnalyses - Map of file paths to their analysis results
+   * @param declaredDependencies - Dependencies declared by the package manifests
    * @returns Array of detected frameworks with confidence scores
    */
-  detectFrameworks(fileAnalyses: Map<string, FileAnalysis>): FrameworkDetection[] {
+  detectFrameworks(
+    fileAnalyses: Map<string, FileAnalysis>,
+    declaredDependencies: DeclaredDependency[] = []
+  ): FrameworkDetection[] {
     if (this.debugMode) {
-      console.log(`🔍 Starting framework detection on ${fileAnalyses.size} files`);
+      logger.debug(`🔍 Starting framework detection on ${fileAnalyses.size} files`);
     }
 
     const frameworkEvidence = new Map<string, DetectionEvidence>();
@@ -87,6 +102,8 @@ export class FrameworkDetector {
       this.analyzeFileForFrameworks(filePath, analysis, frameworkEvidence);
     }
 
+    this.analyzeDeclaredDependencies(declaredDependencies, frameworkEvidence);
+
     // Calculate final confidence scores and filter results
     const detections: FrameworkDetection[] = [];
 
@@ -97,11 +114,14 @@ export class FrameworkDetector {
       // Calculate normalized confidence score
       const maxPossibleScore = this.calculateMaxPossibleScore(signature, fileAnalyses);
       evidence.confidence = maxPossibleScore > 0 ? Math.min(evidence.totalScore / maxPossibleScore, 1.0) : 0;
+      if (evidence.matchedPatterns.some(p => p.patternId === 'declared_dependency')) {
+        evidence.confidence = Math.min(evidence.confidence + DECLARED_DEPENDENCY_CONFIDENCE, 1.0);
+      }
 
       if (this.debugMode) {
-        console.log(`📊 ${frameworkName}: ${evidence.totalScore}/${maxPossibleScore} = ${(evidence.confidence * 100).toFixed(1)}% (threshold: ${(signature.minConfidence * 100).toFixed(1)}%)`);
+        logger.debug(`📊 ${frameworkName}: ${evidence.totalScore}/${maxPossibleScore} = ${(evidence.confidence * 100).toFixed(1)}% (threshold: ${(signature.minConfidence * 100).toFixed(1)}%)`);
         if (evidence.matchedPatterns.length > 0) {
-          console.log(`   Matched patterns: ${evidence.matchedPatterns.map(p => p.patternId).join(', ')}`);
+          logger.debug(`   Matched patterns: ${evidence.matchedPatterns.map(p => p.patternId).join(', ')}`);
         }
       }
 
@@ -120,7 +140,7 @@ export class FrameworkDetector {
     detections.sort((a, b) => b.confidence - a.confidence);
 
     if (this.debugMode) {
-      console.log(`✅ Framework detection complete. Found ${detections.length} frameworks`);
+      logger.debug(`✅ Framework detection complete. Found ${detections.length} frameworks`);
     }
 
     return detections;
@@ -155,7 +175,40 @@ export class FrameworkDetector {
           evidence.totalScore += pattern.weight;
 
           if (this.debugMode) {
-            console.log(`  ✓ ${signature.name}: ${pattern.id} in ${filePath} (+${pattern.weight})`);
+            logger.debug(`  ✓ ${signature.name}: ${pattern.id} in ${filePath} (+${pattern.weight})`);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Record manifests declaring a framework's packages as evidence
+   *
+   * @param declaredDependencies - Dependencies declared by the package manifests
+   * @param frameworkEvidence - Evidence collection for all frameworks
+   * @private
+   */
+  private analyzeDeclaredDependencies(
+    declaredDependencies: DeclaredDependency[],
+    frameworkEvidence: Map<string, DetectionEvidence>
+  ): void {
+    for (const signature of ALL_FRAMEWORK_SIGNATURES) {
+      const evidence = frameworkEvidence.get(signature.name);
+      if (!evidence || !signature.packages) continue;
+
+      for (const dependency of declaredDependencies) {
+        if (signature.packages.includes(dependency.name.toLowerCase())) {
+          evidence.files.push(dependency.manifest);
+          evidence.matchedPatterns.push({
+            patternId: 'declared_dependency',
+            filePath: dependency.manifest,
+            weight: 0,
+            description: `${dependency.name} declared in ${dependency.manifest}`
+          });
+
+          if (this.debugMode) {
+            logger.debug(`  ✓ ${signature.name}: declared_dependency ${dependency.name} in ${dependency.manifest}`);
           }
         }
       }
@@ -200,7 +253,7 @@ export class FrameworkDetector {
 
       default:
         if (this.debugMode) {
-          console.warn(`Unknown pattern type: ${pattern.type}`);
+          logger.warn(`Unknown pattern type: ${pattern.type}`);
         }
         return false;
     }
@@ -259,7 +312,7 @@ export class FrameworkDetector {
       for (const functionInfo of Object.values(analysis.functions)) {
         if (functionInfo.state_changes) {
           for (const stateChange of functionInfo.state_changes) {
-            if (regex.test(stateChange)) {
+            if (regex.test(stateChange.snippet)) {
               return true;
             }
           }
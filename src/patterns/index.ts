@@ -14,20 +14,33 @@ export type { DetailedApiEndpoint, ApiDetectionStats } from './api-detector.js';
 
 // Export the state management detector
 export { StateDetector } from './state-detector.js';
-export type { DetailedStatePattern, StateDetectionStats } from './state-detector.js';
+export type { DetailedStatePattern, StateDefinition, StateDetectionStats } from './state-detector.js';
 
 // Export the event handler detector
 export { EventDetector } from './event-detector.js';
 export type { DetailedEventHandler, EventDetectionStats } from './event-detector.js';
 
+// Export the Electron IPC channel detector
+export { IpcDetector } from './ipc-detector.js';
+
+// Export the Electron process role and security detector
+export { ElectronDetector } from './electron-detector.js';
+
 // Export pattern definitions and utilities
 export {
   ALL_FRAMEWORK_SIGNATURES,
   REACT_PATTERNS,
   DJANGO_PATTERNS,
   NESTJS_PATTERNS,
+  NEXTJS_PATTERNS,
   FLUTTER_PATTERNS,
   EXPRESS_PATTERNS,
+  FASTAPI_PATTERNS,
+  FLASK_PATTERNS,
+  ELECTRON_PATTERNS,
+  VUE_PATTERNS,
+  SVELTE_PATTERNS,
+  SPRING_PATTERNS,
   getFrameworkSignature,
   getSupportedFrameworks,
   type FrameworkSignature,
@@ -0,0 +1,165 @@
+/**
+ * Electron IPC Channel Mapping
+ *
+ * This module links the two sides of every Electron IPC channel: the
+ * `ipcMain` handlers of the main process with the `ipcRenderer` calls of
+ * preload scripts and renderers, and `webContents.send` pushes with the
+ * `ipcRenderer.on` listeners receiving them. Calls wrapped in a preload API
+ * (`contextBridge.exposeInMainWorld`) are linked to the renderer code calling
+ * that API through `window`.
+ */
+
+import type {
+  FileAnalysis,
+  IpcCall,
+  IpcChannel,
+  IpcIssue,
+  IpcMap,
+  IpcReference
+} from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Channel list each IPC method belongs to
+ */
+const IPC_METHOD_ROLES: Record<string, 'handlers' | 'senders' | 'pushes' | 'listeners'> = {
+  'ipcMain.handle': 'handlers',
+  'ipcMain.handleOnce': 'handlers',
+  'ipcMain.on': 'handlers',
+  'ipcMain.once': 'handlers',
+  'ipcRenderer.invoke': 'senders',
+  'ipcRenderer.send': 'senders',
+  'ipcRenderer.sendSync': 'senders',
+  'webContents.send': 'pushes',
+  'ipcRenderer.on': 'listeners',
+  'ipcRenderer.once': 'listeners'
+};
+
+/**
+ * Electron IPC channel detector
+ *
+ * This class builds the IPC channel map of a repository from the
+ * `ipc_calls` and `bridge_calls` recorded by the JavaScript analyzer.
+ */
+export class IpcDetector {
+  private debugMode: boolean;
+
+  /**
+   * Create a new IPC detector
+   *
+   * @param debugMode - Enable debug logging for IPC detection
+   */
+  constructor(debugMode: boolean = false) {
+    this.debugMode = debugMode;
+  }
+
+  /**
+   * Map IPC channels to the code handling, sending, pushing and listening on them
+   *
+   * Channels used on one side only are flagged with an issue. Channels given
+   * as expressions are listed under their source text and never flagged,
+   * since their value is unknown.
+   *
+   * @param fileAnalyses - Map of file paths to their analysis results
+   * @returns IPC map, with no channels when the repository does not use IPC
+   */
+  detectChannels(fileAnalyses: Map<string, FileAnalysis>): IpcMap {
+    const channels = new Map<string, IpcChannel>();
+    const bridgeCallers = this.collectBridgeCallers(fileAnalyses);
+
+    for (const [filePath, analysis] of fileAnalyses) {
+      for (const call of analysis.ipc_calls || []) {
+        const role = IPC_METHOD_ROLES[call.method];
+        if (!role) continue;
+
+        const key = `${call.dynamic_channel ? 'dynamic' : 'literal'}:${call.channel}`;
+        let channel = channels.get(key);
+        if (!channel) {
+          channel = {
+            channel: call.channel,
+            ...(call.dynamic_channel && { dynamic: true }),
+            handlers: [],
+            senders: [],
+            pushes: [],
+            listeners: []
+          };
+          channels.set(key, channel);
+        }
+
+        channel[role].push(this.createReference(filePath, call, bridgeCallers));
+      }
+    }
+
+    const sortedChannels = [...channels.values()].sort((a, b) => a.channel.localeCompare(b.channel));
+    for (const channel of sortedChannels) {
+      const issues = this.findIssues(channel);
+      if (issues.length > 0) {
+        channel.issues = issues;
+      }
+    }
+
+    if (this.debugMode && sortedChannels.length > 0) {
+      const flagged = sortedChannels.filter(channel => channel.issues).length;
+      logger.debug(`🔌 Found ${sortedChannels.length} IPC channels (${flagged} unpaired)`);
+    }
+
+    return { channels: sortedChannels };
+  }
+
+  /**
+   * Group renderer calls of preload APIs by API member
+   * @private
+   */
+  private collectBridgeCallers(fileAnalyses: Map<string, FileAnalysis>): Map<string, NonNullable<IpcReference['callers']>> {
+    const callers = new Map<string, NonNullable<IpcReference['callers']>>();
+
+    for (const [filePath, analysis] of fileAnalyses) {
+      for (const bridgeCall of analysis.bridge_calls || []) {
+        if (!callers.has(bridgeCall.api)) callers.set(bridgeCall.api, []);
+        callers.get(bridgeCall.api)!.push({
+          file: filePath,
+          line: bridgeCall.line,
+          ...(bridgeCall.container && { container: bridgeCall.container })
+        });
+      }
+    }
+
+    return callers;
+  }
+
+  /**
+   * Create the reference for one IPC call, with the renderer callers of its preload API
+   * @private
+   */
+  private createReference(
+    filePath: string,
+    call: IpcCall,
+    bridgeCallers: Map<string, NonNullable<IpcReference['callers']>>
+  ): IpcReference {
+    const callers = call.exposed_as ? bridgeCallers.get(call.exposed_as) : undefined;
+
+    return {
+      file: filePath,
+      line: call.line,
+      method: call.method,
+      ...(call.container && { container: call.container }),
+      ...(call.exposed_as && { exposed_as: call.exposed_as }),
+      ...(callers && { callers })
+    };
+  }
+
+  /**
+   * Find the sides of a channel that have no counterpart
+   * @private
+   */
+  private findIssues(channel: IpcChannel): IpcIssue[] {
+    if (channel.dynamic) return [];
+
+    const issues: IpcIssue[] = [];
+    if (channel.senders.length > 0 && channel.handlers.length === 0) issues.push('no_handler');
+    if (channel.handlers.length > 0 && channel.senders.length === 0) issues.push('no_sender');
+    if (channel.pushes.length > 0 && channel.listeners.length === 0) issues.push('no_listener');
+    if (channel.listeners.length > 0 && channel.pushes.length === 0) issues.push('no_push');
+    return issues;
+  }
+}
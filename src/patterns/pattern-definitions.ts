@@ -39,6 +39,8 @@ export interface FrameworkSignature {
   patterns: PatternDefinition[];
   /** Primary languages associated with this framework */
   primaryLanguages: SupportedLanguage[];
+  /** Packages whose declaration in a manifest indicates this framework */
+  packages?: string[];
 }
 
 /**
@@ -48,6 +50,7 @@ export const REACT_PATTERNS: FrameworkSignature = {
   name: 'React',
   minConfidence: 0.3,
   primaryLanguages: ['javascript', 'typescript'],
+  packages: ['react'],
   patterns: [
     {
       id: 'react_import',
@@ -126,6 +129,7 @@ export const REACT_NATIVE_PATTERNS: FrameworkSignature = {
   name: 'React Native',
   minConfidence: 0.25,
   primaryLanguages: ['javascript', 'typescript'],
+  packages: ['react-native'],
   patterns: [
     {
       id: 'react_native_import',
@@ -305,6 +309,7 @@ export const DJANGO_PATTERNS: FrameworkSignature = {
   name: 'Django',
   minConfidence: 0.4,
   primaryLanguages: ['python'],
+  packages: ['django'],
   patterns: [
     {
       id: 'django_import',
@@ -397,6 +402,7 @@ export const NESTJS_PATTERNS: FrameworkSignature = {
   name: 'NestJS',
   minConfidence: 0.4,
   primaryLanguages: ['typescript', 'javascript'],
+  packages: ['@nestjs/core'],
   patterns: [
     {
       id: 'nestjs_import',
@@ -465,6 +471,233 @@ export const NESTJS_PATTERNS: FrameworkSignature = {
   ]
 };
 
+/**
+ * Next.js Framework Patterns
+ */
+export const NEXTJS_PATTERNS: FrameworkSignature = {
+  name: 'Next.js',
+  minConfidence: 0.4,
+  primaryLanguages: ['typescript', 'javascript'],
+  packages: ['next'],
+  patterns: [
+    {
+      id: 'nextjs_import',
+      description: 'Next.js framework import',
+      weight: 9,
+      type: 'import',
+      pattern: /^next(\/|$)/,
+      languages: ['typescript', 'javascript']
+    },
+    {
+      id: 'nextjs_config',
+      description: 'next.config file',
+      weight: 9,
+      type: 'file_name',
+      pattern: /(^|\/)next\.config\.(js|cjs|mjs|ts)$/
+    },
+    {
+      id: 'app_router_page',
+      description: 'App Router page or layout',
+      weight: 7,
+      type: 'file_name',
+      pattern: /(^|\/)app\/(.+\/)?(page|layout)\.(tsx|jsx|ts|js)$/,
+      languages: ['typescript', 'javascript']
+    },
+    {
+      id: 'app_router_route_handler',
+      description: 'App Router route handler',
+      weight: 6,
+      type: 'file_name',
+      pattern: /(^|\/)app\/(.+\/)?route\.(ts|js)$/,
+      languages: ['typescript', 'javascript']
+    },
+    {
+      id: 'pages_api_route',
+      description: 'Pages Router API route',
+      weight: 6,
+      type: 'file_name',
+      pattern: /(^|\/)pages\/api\//,
+      languages: ['typescript', 'javascript']
+    },
+    {
+      id: 'pages_custom_app',
+      description: 'Pages Router _app or _document file',
+      weight: 8,
+      type: 'file_name',
+      pattern: /(^|\/)pages\/_(app|document)\.(tsx|jsx|ts|js)$/,
+      languages: ['typescript', 'javascript']
+    },
+    {
+      id: 'nextjs_data_function',
+      description: 'getServerSideProps, getStaticProps or generateStaticParams',
+      weight: 8,
+      type: 'function_call',
+      pattern: /^(getServerSideProps|getStaticProps|getStaticPaths|generateStaticParams|generateMetadata)\(/,
+      languages: ['typescript', 'javascript']
+    }
+  ]
+};
+
+/**
+ * Electron Framework Patterns
+ */
+export const ELECTRON_PATTERNS: FrameworkSignature = {
+  name: 'Electron',
+  minConfidence: 0.4,
+  primaryLanguages: ['typescript', 'javascript'],
+  packages: ['electron'],
+  patterns: [
+    {
+      id: 'electron_import',
+      description: 'Electron framework import',
+      weight: 9,
+      type: 'import',
+      pattern: /^electron$/,
+      languages: ['typescript', 'javascript']
+    },
+    {
+      id: 'electron_ecosystem_import',
+      description: 'Electron tooling import (@electron/*, @electron-toolkit/*, electron-*)',
+      weight: 6,
+      type: 'import',
+      pattern: /^(@electron\/|@electron-toolkit\/|electron-)/,
+      languages: ['typescript', 'javascript']
+    },
+    {
+      id: 'electron_build_config',
+      description: 'electron-vite or Electron Forge config',
+      weight: 8,
+      type: 'file_name',
+      pattern: /(^|\/)(electron\.vite\.config|forge\.config)\.(ts|js|mjs|cjs)$/
+    },
+    {
+      id: 'electron_preload_script',
+      description: 'Preload script',
+      weight: 6,
+      type: 'file_name',
+      pattern: /(^|\/)preload(\/index)?\.(ts|js|mjs|cjs)$/,
+      languages: ['typescript', 'javascript']
+    },
+    {
+      id: 'electron_create_window',
+      description: 'createWindow function',
+      weight: 5,
+      type: 'function_call',
+      pattern: /^createWindow\(/,
+      languages: ['typescript', 'javascript']
+    }
+  ]
+};
+
+/**
+ * Vue Framework Patterns (including Nuxt and Pinia)
+ */
+export const VUE_PATTERNS: FrameworkSignature = {
+  name: 'Vue',
+  minConfidence: 0.4,
+  primaryLanguages: ['vue', 'typescript', 'javascript'],
+  packages: ['vue', 'nuxt'],
+  patterns: [
+    {
+      id: 'vue_import',
+      description: 'Vue framework import',
+      weight: 9,
+      type: 'import',
+      pattern: /^vue$/,
+      languages: ['vue', 'typescript', 'javascript']
+    },
+    {
+      id: 'vue_sfc',
+      description: 'Vue single-file component',
+      weight: 8,
+      type: 'file_name',
+      pattern: /\.vue$/,
+      languages: ['vue']
+    },
+    {
+      id: 'nuxt_config',
+      description: 'Nuxt config file',
+      weight: 9,
+      type: 'file_name',
+      pattern: /(^|\/)nuxt\.config\.(ts|js|mjs)$/
+    },
+    {
+      id: 'nuxt_import',
+      description: 'Nuxt import (nuxt, #app, #imports, @nuxt/*)',
+      weight: 7,
+      type: 'import',
+      pattern: /^(nuxt(\/|$)|#app$|#imports$|@nuxt\/)/,
+      languages: ['vue', 'typescript', 'javascript']
+    },
+    {
+      id: 'pinia_import',
+      description: 'Pinia store import',
+      weight: 6,
+      type: 'import',
+      pattern: /^pinia$/,
+      languages: ['vue', 'typescript', 'javascript']
+    },
+    {
+      id: 'vue_router_import',
+      description: 'Vue Router import',
+      weight: 5,
+      type: 'import',
+      pattern: /^vue-router$/,
+      languages: ['vue', 'typescript', 'javascript']
+    }
+  ]
+};
+
+/**
+ * Svelte Framework Patterns (including SvelteKit)
+ */
+export const SVELTE_PATTERNS: FrameworkSignature = {
+  name: 'Svelte',
+  minConfidence: 0.4,
+  primaryLanguages: ['svelte', 'typescript', 'javascript'],
+  packages: ['svelte', '@sveltejs/kit'],
+  patterns: [
+    {
+      id: 'svelte_import',
+      description: 'Svelte framework import',
+      weight: 9,
+      type: 'import',
+      pattern: /^svelte(\/|$)/,
+      languages: ['svelte', 'typescript', 'javascript']
+    },
+    {
+      id: 'svelte_component',
+      description: 'Svelte component file',
+      weight: 8,
+      type: 'file_name',
+      pattern: /\.svelte$/,
+      languages: ['svelte']
+    },
+    {
+      id: 'svelte_config',
+      description: 'Svelte/SvelteKit config file',
+      weight: 9,
+      type: 'file_name',
+      pattern: /(^|\/)svelte\.config\.(js|cjs|mjs|ts)$/
+    },
+    {
+      id: 'sveltekit_import',
+      description: 'SvelteKit import (@sveltejs/kit, $app/*)',
+      weight: 8,
+      type: 'import',
+      pattern: /^(@sveltejs\/kit(\/|$)|\$app\/)/,
+      languages: ['svelte', 'typescript', 'javascript']
+    },
+    {
+      id: 'sveltekit_route_file',
+      description: 'SvelteKit route file (+page, +layout, +server)',
+      weight: 7,
+      type: 'file_name',
+      pattern: /(^|\/)routes\/(.+\/)?\+(page|layout|server)(@[\w-]*)?(\.server)?\.(svelte|ts|js)$/
+    }
+  ]
+};
+
 /**
  * Flutter Framework Patterns
  */
@@ -472,6 +705,7 @@ export const FLUTTER_PATTERNS: FrameworkSignature = {
   name: 'Flutter',
   minConfidence: 0.4,
   primaryLanguages: ['dart'],
+  packages: ['flutter'],
   patterns: [
     {
       id: 'flutter_import',
@@ -542,6 +776,64 @@ export const FLUTTER_PATTERNS: FrameworkSignature = {
   ]
 };
 
+/**
+ * Spring Framework Patterns (including Spring Boot)
+ */
+export const SPRING_PATTERNS: FrameworkSignature = {
+  name: 'Spring',
+  minConfidence: 0.4,
+  primaryLanguages: ['java', 'kotlin'],
+  patterns: [
+    {
+      id: 'spring_import',
+      description: 'Spring framework import',
+      weight: 9,
+      type: 'import',
+      pattern: /^org\.springframework(\.|$)/,
+      languages: ['java', 'kotlin']
+    },
+    {
+      id: 'spring_boot_application',
+      description: '@SpringBootApplication class',
+      weight: 9,
+      type: 'decorator',
+      pattern: /^(org\.springframework\.boot\.autoconfigure\.)?SpringBootApplication$/,
+      languages: ['java', 'kotlin']
+    },
+    {
+      id: 'spring_controller',
+      description: '@RestController or @Controller class',
+      weight: 8,
+      type: 'decorator',
+      pattern: /^(RestController|Controller)$/,
+      languages: ['java', 'kotlin']
+    },
+    {
+      id: 'spring_component',
+      description: '@Service, @Repository, @Component or @Configuration class',
+      weight: 5,
+      type: 'decorator',
+      pattern: /^(Service|Repository|Component|Configuration)$/,
+      languages: ['java', 'kotlin']
+    },
+    {
+      id: 'spring_application_config',
+      description: 'Spring Boot application.properties/application.yml',
+      weight: 6,
+      type: 'file_name',
+      pattern: /(^|\/)application(-[\w-]+)?\.(properties|ya?ml)$/
+    },
+    {
+      id: 'spring_build_file',
+      description: 'Maven pom.xml or Gradle build file',
+      weight: 4,
+      type: 'file_name',
+      pattern: /(^|\/)(pom\.xml|build\.gradle(\.kts)?)$/,
+      context: 'has_spring_dependency'
+    }
+  ]
+};
+
 /**
  * Express.js Framework Patterns
  */
@@ -549,6 +841,7 @@ export const EXPRESS_PATTERNS: FrameworkSignature = {
   name: 'Express',
   minConfidence: 0.3,
   primaryLanguages: ['javascript', 'typescript'],
+  packages: ['express'],
   patterns: [
     {
       id: 'express_import',
@@ -610,6 +903,119 @@ export const EXPRESS_PATTERNS: FrameworkSignature = {
   ]
 };
 
+/**
+ * FastAPI Framework Patterns
+ */
+export const FASTAPI_PATTERNS: FrameworkSignature = {
+  name: 'FastAPI',
+  minConfidence: 0.4,
+  primaryLanguages: ['python'],
+  packages: ['fastapi'],
+  patterns: [
+    {
+      id: 'fastapi_import',
+      description: 'FastAPI framework import',
+      weight: 9,
+      type: 'import',
+      pattern: /^fastapi(\.|$)/,
+      languages: ['python']
+    },
+    {
+      id: 'fastapi_router_decorator',
+      description: 'APIRouter HTTP method decorator (@router.get)',
+      weight: 7,
+      type: 'decorator',
+      pattern: /^\w*router\.(get|post|put|patch|delete)$/i,
+      languages: ['python']
+    },
+    {
+      id: 'fastapi_api_route_decorator',
+      description: '@app.api_route decorator',
+      weight: 6,
+      type: 'decorator',
+      pattern: /\.api_route$/,
+      languages: ['python']
+    },
+    {
+      id: 'uvicorn_import',
+      description: 'Uvicorn ASGI server import',
+      weight: 5,
+      type: 'import',
+      pattern: /^uvicorn(\.|$)/,
+      languages: ['python']
+    },
+    {
+      id: 'pydantic_model',
+      description: 'Pydantic BaseModel class',
+      weight: 4,
+      type: 'class_name',
+      pattern: /^BaseModel$/,
+      context: 'extends',
+      languages: ['python']
+    },
+    {
+      id: 'fastapi_main_py',
+      description: 'FastAPI main.py file',
+      weight: 4,
+      type: 'file_name',
+      pattern: /(^|\/)main\.py$/,
+      languages: ['python']
+    }
+  ]
+};
+
+/**
+ * Flask Framework Patterns
+ */
+export const FLASK_PATTERNS: FrameworkSignature = {
+  name: 'Flask',
+  minConfidence: 0.4,
+  primaryLanguages: ['python'],
+  packages: ['flask'],
+  patterns: [
+    {
+      id: 'flask_import',
+      description: 'Flask framework import',
+      weight: 9,
+      type: 'import',
+      pattern: /^flask(\.|$)/,
+      languages: ['python']
+    },
+    {
+      id: 'flask_extension_import',
+      description: 'Flask extension import (flask_sqlalchemy, flask_login, ...)',
+      weight: 6,
+      type: 'import',
+      pattern: /^flask_/,
+      languages: ['python']
+    },
+    {
+      id: 'flask_route_decorator',
+      description: '@app.route / @bp.route decorator',
+      weight: 8,
+      type: 'decorator',
+      pattern: /\.route$/,
+      languages: ['python']
+    },
+    {
+      id: 'flask_app_factory',
+      description: 'create_app application factory',
+      weight: 6,
+      type: 'function_call',
+      pattern: /^create_app\(/,
+      languages: ['python']
+    },
+    {
+      id: 'flask_app_py',
+      description: 'Flask app.py or wsgi.py file',
+      weight: 4,
+      type: 'file_name',
+      pattern: /(^|\/)(app|wsgi)\.py$/,
+      languages: ['python']
+    }
+  ]
+};
+
 /**
  * All framework signatures for detection
  */
@@ -618,8 +1024,15 @@ export const ALL_FRAMEWORK_SIGNATURES: FrameworkSignature[] = [
   REACT_NATIVE_PATTERNS,
   DJANGO_PATTERNS,
   NESTJS_PATTERNS,
+  NEXTJS_PATTERNS,
   FLUTTER_PATTERNS,
-  EXPRESS_PATTERNS
+  EXPRESS_PATTERNS,
+  FASTAPI_PATTERNS,
+  FLASK_PATTERNS,
+  ELECTRON_PATTERNS,
+  VUE_PATTERNS,
+  SVELTE_PATTERNS,
+  SPRING_PATTERNS
 ];
 
 /**
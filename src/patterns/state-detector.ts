@@ -6,6 +6,7 @@
  * management solutions.
  */
 
+import { posix } from 'path';
 import type {
   FileAnalysis,
   StateChange,
@@ -13,6 +14,8 @@ import type {
   MutationType,
   SupportedLanguage
 } from '../types/index.js';
+import { getModuleCandidates } from '../core/import-resolver.js';
+import { logger } from '../utils/logger.js';
 
 /**
  * Extended state pattern information with additional metadata
@@ -28,6 +31,20 @@ export interface DetailedStatePattern extends StateChange {
   filePath: string;
   /** Additional metadata specific to the pattern type */
   metadata?: Record<string, any>;
+  /** Store, context, atom or selector the pattern reads or updates */
+  belongsTo?: StateDefinition;
+}
+
+/**
+ * Where a Zustand store, React context, Jotai atom or Recoil atom/selector is created
+ */
+export interface StateDefinition {
+  /** Variable holding the store, context, atom or selector */
+  name: string;
+  /** File creating it */
+  filePath: string;
+  /** Line of the creating call */
+  line: number;
 }
 
 /**
@@ -66,6 +83,58 @@ interface StatePatternConfig {
   weight: number;
 }
 
+/**
+ * Pattern type, framework and mutation of each state library API, keyed by `framework:api`
+ */
+const STATE_LIBRARY_PATTERNS: Record<string, { type: StatePatternType; mutation: MutationType }> = {
+  'React:createContext': { type: 'context_create', mutation: 'create' },
+  'React:useContext': { type: 'context_consumer', mutation: 'read' },
+  'Zustand:create': { type: 'zustand_store', mutation: 'create' },
+  'Zustand:createStore': { type: 'zustand_store', mutation: 'create' },
+  'Zustand:set': { type: 'zustand_set', mutation: 'update' },
+  'Jotai:atom': { type: 'jotai_atom', mutation: 'create' },
+  'Jotai:atomWithStorage': { type: 'jotai_atom', mutation: 'create' },
+  'Jotai:atomFamily': { type: 'jotai_atom', mutation: 'create' },
+  'Jotai:useAtom': { type: 'jotai_use_atom', mutation: 'update' },
+  'Jotai:useAtomValue': { type: 'jotai_use_atom', mutation: 'read' },
+  'Jotai:useSetAtom': { type: 'jotai_use_atom', mutation: 'update' },
+  'Recoil:atom': { type: 'recoil_atom', mutation: 'create' },
+  'Recoil:atomFamily': { type: 'recoil_atom', mutation: 'create' },
+  'Recoil:selector': { type: 'recoil_selector', mutation: 'create' },
+  'Recoil:selectorFamily': { type: 'recoil_selector', mutation: 'create' },
+  'Recoil:useRecoilState': { type: 'recoil_use_state', mutation: 'update' },
+  'Recoil:useRecoilValue': { type: 'recoil_use_state', mutation: 'read' },
+  'Recoil:useSetRecoilState': { type: 'recoil_use_state', mutation: 'update' },
+  'React Query:useQuery': { type: 'react_query', mutation: 'read' },
+  'React Query:useInfiniteQuery': { type: 'react_query', mutation: 'read' },
+  'React Query:useSuspenseQuery': { type: 'react_query', mutation: 'read' },
+  'React Query:useMutation': { type: 'react_query_mutation', mutation: 'update' },
+  'Vue:ref': { type: 'vue_ref', mutation: 'create' },
+  'Vue:shallowRef': { type: 'vue_ref', mutation: 'create' },
+  'Vue:reactive': { type: 'vue_reactive', mutation: 'create' },
+  'Vue:shallowReactive': { type: 'vue_reactive', mutation: 'create' },
+  'Vue:computed': { type: 'vue_computed', mutation: 'create' },
+  'Pinia:defineStore': { type: 'pinia_store', mutation: 'create' },
+  'Svelte:writable': { type: 'svelte_store', mutation: 'create' },
+  'Svelte:readable': { type: 'svelte_store', mutation: 'create' },
+  'Svelte:derived': { type: 'svelte_store', mutation: 'create' }
+};
+
+/**
+ * Matches a Svelte store write such as `$count += 1` or `count.set(0)`, capturing the store name
+ */
+const SVELTE_STORE_WRITE = /\$(\w+)\s*(?:\+\+|--|[+\-*/]?=(?!=))|\b(\w+)\.(?:set|update)\s*\(/;
+
+/**
+ * Matches a React useState setter call such as `setCount(...)`, capturing the state name
+ */
+const REACT_SETTER_CALL = /^set([A-Z]\w*)\s*\(/;
+
+/**
+ * Languages analyzed by Babel, which records every hook call with its line as a state change
+ */
+const BABEL_LANGUAGES: SupportedLanguage[] = ['javascript', 'typescript', 'vue', 'svelte'];
+
 /**
  * State management pattern detection engine
  *
@@ -94,21 +163,22 @@ export class StateDetector {
    */
   detectStatePatterns(fileAnalyses: Map<string, FileAnalysis>): DetailedStatePattern[] {
     if (this.debugMode) {
-      console.log(`🔍 Starting state pattern detection on ${fileAnalyses.size} files`);
+      logger.debug(`🔍 Starting state pattern detection on ${fileAnalyses.size} files`);
     }
 
     const allPatterns: DetailedStatePattern[] = [];
+    const definitions = this.collectStateDefinitions(fileAnalyses);
 
     for (const [filePath, analysis] of fileAnalyses) {
       if (analysis.error) {
         continue; // Skip files with analysis errors
       }
 
-      const filePatterns = this.analyzeFileForStatePatterns(filePath, analysis);
+      const filePatterns = this.analyzeFileForStatePatterns(filePath, analysis, definitions);
       allPatterns.push(...filePatterns);
 
       if (this.debugMode && filePatterns.length > 0) {
-        console.log(`  📄 ${filePath}: Found ${filePatterns.length} state patterns`);
+        logger.debug(`  📄 ${filePath}: Found ${filePatterns.length} state patterns`);
       }
     }
 
@@ -121,7 +191,7 @@ export class StateDetector {
     });
 
     if (this.debugMode) {
-      console.log(`✅ State detection complete. Found ${allPatterns.length} total patterns`);
+      logger.debug(`✅ State detection complete. Found ${allPatterns.length} total patterns`);
     }
 
     return allPatterns;
@@ -132,14 +202,20 @@ export class StateDetector {
    *
    * @param filePath - Path to the file being analyzed
    * @param analysis - File analysis result
+   * @param definitions - Stores, contexts, atoms and selectors of the repository by name
    * @returns Array of state patterns found in this file
    * @private
    */
-  private analyzeFileForStatePatterns(filePath: string, analysis: FileAnalysis): DetailedStatePattern[] {
+  private analyzeFileForStatePatterns(
+    filePath: string,
+    analysis: FileAnalysis,
+    definitions: Map<string, StateDefinition[]>
+  ): DetailedStatePattern[] {
     const patterns: DetailedStatePattern[] = [];
 
     // Detect patterns based on language and framework
-    if (analysis.language === 'javascript' || analysis.language === 'typescript') {
+    const language = analysis.language;
+    if (language === 'javascript' || language === 'typescript' || language === 'vue' || language === 'svelte') {
       // React patterns
       patterns.push(...this.detectReactStatePatterns(filePath, analysis));
 
@@ -148,9 +224,20 @@ export class StateDetector {
 
       // MobX patterns (if imports present)
       patterns.push(...this.detectMobXPatterns(filePath, analysis));
+
+      // Zustand, Jotai, Recoil, React Query, Context, Vue, Pinia and Svelte store patterns
+      patterns.push(...this.detectStateLibraryPatterns(filePath, analysis, definitions));
+
+      // Svelte reactive statements and store writes
+      if (language === 'svelte') {
+        patterns.push(...this.detectSvelteStatePatterns(filePath, analysis, definitions));
+      }
     } else if (analysis.language === 'python') {
       // Django patterns
       patterns.push(...this.detectDjangoStatePatterns(filePath, analysis));
+    } else if (analysis.language === 'dart') {
+      // Flutter patterns
+      patterns.push(...this.detectFlutterStatePatterns(filePath, analysis));
     }
 
     // Generic state patterns (cross-framework)
@@ -176,7 +263,7 @@ export class StateDetector {
     }
 
     if (this.debugMode) {
-      console.log(`  ⚛️  Analyzing ${filePath} for React state patterns`);
+      logger.debug(`  ⚛️  Analyzing ${filePath} for React state patterns`);
     }
 
     // Detect patterns in functions (functional components and hooks)
@@ -186,12 +273,12 @@ export class StateDetector {
 
         // Check existing state_changes detected by analyzers
         if (functionInfo.state_changes && functionInfo.state_changes.length > 0) {
-          for (const stateChange of functionInfo.state_changes) {
+          for (const { snippet: stateChange, line: evidenceLine } of functionInfo.state_changes) {
             const reactPattern = this.parseReactStateChange(
               stateChange,
               filePath,
               functionName,
-              functionInfo.line_number || 0,
+              evidenceLine || functionInfo.line_number || 0,
               'function'
             );
             if (reactPattern) {
@@ -200,13 +287,15 @@ export class StateDetector {
           }
         }
 
-        // Manual detection for React hooks and patterns
-        patterns.push(...this.detectReactHooksInFunction(
-          filePath,
-          functionName,
-          functionInfo,
-          analysis
-        ));
+        // Guess hooks from imports and names only when no Babel analysis recorded the calls
+        if (!analysis.language || !BABEL_LANGUAGES.includes(analysis.language)) {
+          patterns.push(...this.detectReactHooksInFunction(
+            filePath,
+            functionName,
+            functionInfo,
+            analysis
+          ));
+        }
       }
     }
 
@@ -225,7 +314,7 @@ export class StateDetector {
     }
 
     if (this.debugMode && patterns.length > 0) {
-      console.log(`    ✓ Found ${patterns.length} React state patterns`);
+      logger.debug(`    ✓ Found ${patterns.length} React state patterns`);
     }
 
     return patterns;
@@ -283,6 +372,26 @@ export class StateDetector {
       }
     }
 
+    // useState setter calls: setCount(count + 1) updates `count`
+    const setterMatch = stateChange.match(REACT_SETTER_CALL);
+    if (setterMatch && setterMatch[1]) {
+      return {
+        type: 'setState',
+        line: lineNumber,
+        mutation_type: 'update',
+        context: context,
+        containerName: containerName,
+        framework: 'React',
+        filePath: filePath,
+        variable: setterMatch[1].charAt(0).toLowerCase() + setterMatch[1].slice(1),
+        metadata: {
+          originalPattern: stateChange,
+          setter: `set${setterMatch[1]}`,
+          detectedVia: 'analyzer_state_changes'
+        }
+      };
+    }
+
     return null;
   }
 
@@ -302,7 +411,6 @@ export class StateDetector {
     const reactImports = analysis.imports?.['react'] || [];
     const hasUseStateImport = reactImports.includes('useState');
     const hasUseReducerImport = reactImports.includes('useReducer');
-    const hasUseContextImport = reactImports.includes('useContext');
     const hasUseEffectImport = reactImports.includes('useEffect');
 
     // Detect useState patterns
@@ -343,29 +451,215 @@ export class StateDetector {
       });
     }
 
-    // Detect useContext patterns (for Context API state)
-    if (hasUseContextImport) {
+    return patterns;
+  }
+
+  /**
+   * Detect Zustand stores and `set` calls, React contexts and their consumers,
+   * Jotai and Recoil atoms with the hooks using them, and React Query queries
+   * and mutations with their keys
+   *
+   * Consumers and `set` calls are linked to the store, context, atom or
+   * selector they use through `belongsTo`.
+   *
+   * @param filePath - File path
+   * @param analysis - File analysis
+   * @param definitions - Stores, contexts, atoms and selectors of the repository by name
+   * @returns State library patterns found
+   * @private
+   */
+  private detectStateLibraryPatterns(
+    filePath: string,
+    analysis: FileAnalysis,
+    definitions: Map<string, StateDefinition[]>
+  ): DetailedStatePattern[] {
+    const patterns: DetailedStatePattern[] = [];
+
+    if (!analysis.state_calls || analysis.state_calls.length === 0) {
+      return patterns;
+    }
+
+    if (this.debugMode) {
+      logger.debug(`  🐻 Analyzing ${filePath} for state library patterns`);
+    }
+
+    for (const call of analysis.state_calls) {
+      const framework = this.getStateLibraryFramework(call.module);
+      const config = STATE_LIBRARY_PATTERNS[`${framework}:${call.api}`];
+      if (!config) continue;
+
+      // Definitions are named after their variable, consumers after what they use
+      const isDefinition = config.mutation === 'create';
+      const usedName = call.api === 'set' ? call.target : call.argument;
+      const belongsTo = !isDefinition && usedName
+        ? this.resolveStateDefinition(filePath, analysis, usedName, definitions)
+        : undefined;
+
       patterns.push({
-        type: 'useState', // Context can be considered a state pattern
-        line: functionInfo.line_number || 0,
-        mutation_type: 'read',
-        context: 'function',
-        containerName: functionName,
-        framework: 'React',
-        filePath: filePath,
-        variable: 'context',
+        type: config.type,
+        line: call.line,
+        mutation_type: config.mutation,
+        context: call.container ? 'function' : 'global',
+        containerName: call.container || call.target || 'module',
+        framework,
+        filePath,
+        variable: (isDefinition ? call.target : usedName) || call.key || call.api,
+        ...(belongsTo && { belongsTo }),
         metadata: {
-          patternType: 'useContext',
-          isCustomHook: functionName.startsWith('use'),
-          isComponent: functionInfo.is_component || false,
-          detectedVia: 'context_api'
+          api: call.api,
+          ...(call.key && { key: call.key }),
+          detectedVia: 'state_library_calls'
         }
       });
     }
 
+    if (this.debugMode && patterns.length > 0) {
+      logger.debug(`    ✓ Found ${patterns.length} state library patterns`);
+    }
+
     return patterns;
   }
 
+  /**
+   * Detect Svelte `$:` reactive statements and store writes
+   *
+   * These are recorded by the Svelte analyzer as state changes of the
+   * component or of the script function containing them. Store writes are
+   * linked to the store they update.
+   *
+   * @param filePath - File path
+   * @param analysis - File analysis
+   * @param definitions - Stores of the repository by name
+   * @returns Svelte state patterns found
+   * @private
+   */
+  private detectSvelteStatePatterns(
+    filePath: string,
+    analysis: FileAnalysis,
+    definitions: Map<string, StateDefinition[]>
+  ): DetailedStatePattern[] {
+    const patterns: DetailedStatePattern[] = [];
+
+    for (const [functionSignature, functionInfo] of Object.entries(analysis.functions || {})) {
+      const functionName = functionSignature.split('(')[0] || 'anonymous';
+
+      for (const { snippet: stateChange, line: evidenceLine } of functionInfo.state_changes) {
+        const line = evidenceLine || functionInfo.line_number || 0;
+        const context = functionInfo.is_component ? 'global' : 'function';
+
+        if (stateChange.startsWith('$:')) {
+          // $: doubled = count * 2 -> doubled
+          const assigned = stateChange.match(/^\$:\s*(\w+)\s*=(?!=)/);
+
+          patterns.push({
+            type: 'svelte_reactive',
+            line,
+            mutation_type: 'update',
+            context,
+            containerName: functionName,
+            framework: 'Svelte',
+            filePath,
+            variable: assigned?.[1] || 'reactive_statement',
+            metadata: { detectedVia: 'svelte_state_changes' }
+          });
+        }
+
+        const storeWrite = stateChange.match(SVELTE_STORE_WRITE);
+        if (storeWrite) {
+          const store = storeWrite[1] || storeWrite[2]!;
+          const belongsTo = this.resolveStateDefinition(filePath, analysis, store, definitions);
+
+          patterns.push({
+            type: 'svelte_store_set',
+            line,
+            mutation_type: 'update',
+            context,
+            containerName: functionName,
+            framework: 'Svelte',
+            filePath,
+            variable: store,
+            ...(belongsTo && { belongsTo }),
+            metadata: { detectedVia: 'svelte_state_changes' }
+          });
+        }
+      }
+    }
+
+    if (this.debugMode && patterns.length > 0) {
+      logger.debug(`    ✓ Found ${patterns.length} Svelte state patterns`);
+    }
+
+    return patterns;
+  }
+
+  /**
+   * Get the framework name of a state library module
+   * @private
+   */
+  private getStateLibraryFramework(moduleName: string): string {
+    if (moduleName.startsWith('zustand')) return 'Zustand';
+    if (moduleName.startsWith('jotai')) return 'Jotai';
+    if (moduleName === 'recoil') return 'Recoil';
+    if (moduleName.endsWith('react-query')) return 'React Query';
+    if (moduleName === 'vue') return 'Vue';
+    if (moduleName === 'pinia') return 'Pinia';
+    if (moduleName === 'svelte/store') return 'Svelte';
+    return 'React';
+  }
+
+  /**
+   * Collect the stores, contexts, atoms and selectors created in the repository
+   *
+   * @param fileAnalyses - Map of file paths to their analysis results
+   * @returns Definitions by variable name
+   * @private
+   */
+  private collectStateDefinitions(fileAnalyses: Map<string, FileAnalysis>): Map<string, StateDefinition[]> {
+    const definitions = new Map<string, StateDefinition[]>();
+
+    for (const [filePath, analysis] of fileAnalyses) {
+      for (const call of analysis.state_calls || []) {
+        const config = STATE_LIBRARY_PATTERNS[`${this.getStateLibraryFramework(call.module)}:${call.api}`];
+        if (!config || config.mutation !== 'create' || !call.target) continue;
+
+        if (!definitions.has(call.target)) definitions.set(call.target, []);
+        definitions.get(call.target)!.push({ name: call.target, filePath, line: call.line });
+      }
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Find the definition a store, context or atom name refers to in a file
+   *
+   * A definition in the same file wins, then one in the file the name is
+   * imported from, then the only definition with that name.
+   *
+   * @private
+   */
+  private resolveStateDefinition(
+    filePath: string,
+    analysis: FileAnalysis,
+    name: string,
+    definitions: Map<string, StateDefinition[]>
+  ): StateDefinition | undefined {
+    const candidates = definitions.get(name) || [];
+
+    const local = candidates.find(definition => definition.filePath === filePath);
+    if (local) return local;
+
+    for (const [moduleName, importedNames] of Object.entries(analysis.imports || {})) {
+      if (!moduleName.startsWith('.') || !importedNames.includes(name)) continue;
+
+      const moduleFiles = getModuleCandidates(posix.join(posix.dirname(filePath), moduleName));
+      const imported = candidates.find(definition => moduleFiles.includes(definition.filePath));
+      if (imported) return imported;
+    }
+
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
   /**
    * Check if a class is a React component
    * @private
@@ -428,11 +722,11 @@ export class StateDetector {
 
         // Check if method has state changes
         if (typedMethodInfo.state_changes && Array.isArray(typedMethodInfo.state_changes) && typedMethodInfo.state_changes.length > 0) {
-          for (const stateChange of typedMethodInfo.state_changes) {
-            if (typeof stateChange === 'string' && stateChange.includes('setState')) {
+          for (const { snippet: stateChange, line: evidenceLine } of typedMethodInfo.state_changes) {
+            if (stateChange.includes('setState')) {
               patterns.push({
                 type: 'setState',
-                line: typedMethodInfo.line_number || 0,
+                line: evidenceLine || typedMethodInfo.line_number || 0,
                 mutation_type: 'update',
                 context: 'class',
                 containerName: `${className}.${methodName}`,
@@ -552,7 +846,7 @@ export class StateDetector {
     }
 
     if (this.debugMode) {
-      console.log(`  🔴 Analyzing ${filePath} for Redux patterns`);
+      logger.debug(`  🔴 Analyzing ${filePath} for Redux patterns`);
     }
 
     // Detect Redux patterns in functions
@@ -598,11 +892,11 @@ export class StateDetector {
 
         // Check for dispatch calls in functions
         if (functionInfo.state_changes && functionInfo.state_changes.length > 0) {
-          for (const stateChange of functionInfo.state_changes) {
+          for (const { snippet: stateChange, line: evidenceLine } of functionInfo.state_changes) {
             if (stateChange.includes('dispatch')) {
               patterns.push({
                 type: 'dispatch',
-                line: functionInfo.line_number || 0,
+                line: evidenceLine || functionInfo.line_number || 0,
                 mutation_type: 'update',
                 context: 'function',
                 containerName: functionName,
@@ -642,7 +936,7 @@ export class StateDetector {
     patterns.push(...this.detectReduxToolkitPatterns(filePath, analysis));
 
     if (this.debugMode && patterns.length > 0) {
-      console.log(`    ✓ Found ${patterns.length} Redux patterns`);
+      logger.debug(`    ✓ Found ${patterns.length} Redux patterns`);
     }
 
     return patterns;
@@ -874,7 +1168,7 @@ export class StateDetector {
     }
 
     if (this.debugMode) {
-      console.log(`  📦 Analyzing ${filePath} for MobX patterns`);
+      logger.debug(`  📦 Analyzing ${filePath} for MobX patterns`);
     }
 
     // Detect MobX observables and actions in classes
@@ -962,7 +1256,7 @@ export class StateDetector {
     }
 
     if (this.debugMode && patterns.length > 0) {
-      console.log(`    ✓ Found ${patterns.length} MobX patterns`);
+      logger.debug(`    ✓ Found ${patterns.length} MobX patterns`);
     }
 
     return patterns;
@@ -985,7 +1279,7 @@ export class StateDetector {
     }
 
     if (this.debugMode) {
-      console.log(`  🎯 Analyzing ${filePath} for Django state patterns`);
+      logger.debug(`  🎯 Analyzing ${filePath} for Django state patterns`);
     }
 
     // Check if this is a models.py file
@@ -998,12 +1292,12 @@ export class StateDetector {
 
         // Check for Django ORM operations in function state changes
         if (functionInfo.state_changes && functionInfo.state_changes.length > 0) {
-          for (const stateChange of functionInfo.state_changes) {
+          for (const { snippet: stateChange, line: evidenceLine } of functionInfo.state_changes) {
             const djangoPattern = this.parseDjangoStateChange(
               stateChange,
               filePath,
               functionName,
-              functionInfo.line_number || 0
+              evidenceLine || functionInfo.line_number || 0
             );
             if (djangoPattern) {
               patterns.push(djangoPattern);
@@ -1084,7 +1378,59 @@ export class StateDetector {
     }
 
     if (this.debugMode && patterns.length > 0) {
-      console.log(`    ✓ Found ${patterns.length} Django patterns`);
+      logger.debug(`    ✓ Found ${patterns.length} Django patterns`);
+    }
+
+    return patterns;
+  }
+
+  /**
+   * Detect Flutter state patterns
+   *
+   * @param filePath - File path
+   * @param analysis - File analysis
+   * @returns Flutter setState patterns found in State subclasses
+   * @private
+   */
+  private detectFlutterStatePatterns(filePath: string, analysis: FileAnalysis): DetailedStatePattern[] {
+    const patterns: DetailedStatePattern[] = [];
+
+    if (!analysis.classes) {
+      return patterns;
+    }
+
+    for (const [className, classInfo] of Object.entries(analysis.classes)) {
+      for (const [methodSignature, methodInfo] of Object.entries(classInfo.methods)) {
+        const methodName = methodSignature.split('(')[0] || 'method';
+
+        for (const { snippet: stateChange, line: evidenceLine } of methodInfo.state_changes) {
+          if (!stateChange.startsWith('setState')) {
+            continue;
+          }
+
+          // setState(() { _count++; }) -> _count
+          const assigned = stateChange.match(/(\w+)\s*(?:\+\+|--|[+\-*/]?=(?!=))/);
+
+          patterns.push({
+            type: 'setState',
+            line: evidenceLine || methodInfo.line_number || 0,
+            mutation_type: 'update',
+            context: 'class',
+            containerName: `${className}.${methodName}`,
+            framework: 'Flutter',
+            filePath: filePath,
+            variable: assigned?.[1] || 'state',
+            metadata: {
+              method: methodName,
+              detectedVia: 'method_analysis'
+            }
+          });
+        }
+      }
+    }
+
+    if (this.debugMode && patterns.length > 0) {
+      logger.debug(`    ✓ Found ${patterns.length} Flutter patterns`);
     }
 
     return patterns;
@@ -1102,7 +1448,7 @@ export class StateDetector {
     const patterns: DetailedStatePattern[] = [];
 
     if (this.debugMode) {
-      console.log(`  🔧 Analyzing ${filePath} for generic state patterns`);
+      logger.debug(`  🔧 Analyzing ${filePath} for generic state patterns`);
     }
 
     // Detect state patterns already identified by analyzers but not framework-specific
@@ -1111,7 +1457,7 @@ export class StateDetector {
         const functionName = functionSignature.split('(')[0] || 'anonymous';
 
         if (functionInfo.state_changes && functionInfo.state_changes.length > 0) {
-          for (const stateChange of functionInfo.state_changes) {
+          for (const { snippet: stateChange, line: evidenceLine } of functionInfo.state_changes) {
             // Skip patterns already handled by specific framework detectors
             if (this.isFrameworkSpecificPattern(stateChange)) {
               continue;
@@ -1122,7 +1468,7 @@ export class StateDetector {
               stateChange,
               filePath,
               functionName,
-              functionInfo.line_number || 0,
+              evidenceLine || functionInfo.line_number || 0,
               analysis.language || 'unknown'
             );
 
@@ -1138,7 +1484,7 @@ export class StateDetector {
     patterns.push(...this.detectStateVariablePatterns(filePath, analysis));
 
     if (this.debugMode && patterns.length > 0) {
-      console.log(`    ✓ Found ${patterns.length} generic patterns`);
+      logger.debug(`    ✓ Found ${patterns.length} generic patterns`);
     }
 
     return patterns;
@@ -1393,7 +1739,8 @@ export class StateDetector {
       'django_save', 'django_create', 'django_update', 'django_delete' // Django
     ];
 
-    return frameworkPatterns.some(pattern => stateChange.includes(pattern));
+    return frameworkPatterns.some(pattern => stateChange.includes(pattern)) ||
+      REACT_SETTER_CALL.test(stateChange);
   }
 
   /**
@@ -1575,6 +1922,104 @@ export class StateDetector {
         detection: 'function_call',
         pattern: /\.objects\.delete\s*\(/,
         weight: 7
+      },
+
+      // State library patterns
+      {
+        type: 'zustand_store',
+        framework: 'Zustand',
+        languages: ['javascript', 'typescript'],
+        detection: 'import',
+        pattern: /^zustand(\/|$)/,
+        weight: 8
+      },
+      {
+        type: 'context_create',
+        framework: 'React',
+        languages: ['javascript', 'typescript'],
+        detection: 'function_call',
+        pattern: /createContext\s*\(/,
+        weight: 7
+      },
+      {
+        type: 'context_consumer',
+        framework: 'React',
+        languages: ['javascript', 'typescript'],
+        detection: 'function_call',
+        pattern: /useContext\s*\(/,
+        weight: 6
+      },
+      {
+        type: 'jotai_atom',
+        framework: 'Jotai',
+        languages: ['javascript', 'typescript'],
+        detection: 'import',
+        pattern: /^jotai(\/|$)/,
+        weight: 8
+      },
+      {
+        type: 'recoil_atom',
+        framework: 'Recoil',
+        languages: ['javascript', 'typescript'],
+        detection: 'import',
+        pattern: /^recoil$/,
+        weight: 8
+      },
+      {
+        type: 'react_query',
+        framework: 'React Query',
+        languages: ['javascript', 'typescript'],
+        detection: 'import',
+        pattern: /^(@tanstack\/react-query|react-query)$/,
+        weight: 8
+      },
+      {
+        type: 'vue_ref',
+        framework: 'Vue',
+        languages: ['javascript', 'typescript', 'vue'],
+        detection: 'function_call',
+        pattern: /\b(shallowRef|ref)\s*\(/,
+        weight: 7
+      },
+      {
+        type: 'vue_reactive',
+        framework: 'Vue',
+        languages: ['javascript', 'typescript', 'vue'],
+        detection: 'function_call',
+        pattern: /\b(shallowReactive|reactive)\s*\(/,
+        weight: 7
+      },
+      {
+        type: 'vue_computed',
+        framework: 'Vue',
+        languages: ['javascript', 'typescript', 'vue'],
+        detection: 'function_call',
+        pattern: /\bcomputed\s*\(/,
+        weight: 6
+      },
+      {
+        type: 'pinia_store',
+        framework: 'Pinia',
+        languages: ['javascript', 'typescript', 'vue'],
+        detection: 'import',
+        pattern: /^pinia$/,
+        weight: 8
+      },
+      {
+        type: 'svelte_store',
+        framework: 'Svelte',
+        languages: ['javascript', 'typescript', 'svelte'],
+        detection: 'import',
+        pattern: /^svelte\/store$/,
+        weight: 8
+      },
+      {
+        type: 'svelte_reactive',
+        framework: 'Svelte',
+        languages: ['svelte'],
+        detection: 'content',
+        pattern: /^\s*\$:/m,
+        weight: 8
       }
     ];
   }
@@ -1597,7 +2042,25 @@ export class StateDetector {
       'django_save': 0,
       'django_create': 0,
       'django_update': 0,
-      'django_delete': 0
+      'django_delete': 0,
+      'zustand_store': 0,
+      'zustand_set': 0,
+      'context_create': 0,
+      'context_consumer': 0,
+      'jotai_atom': 0,
+      'jotai_use_atom': 0,
+      'recoil_atom': 0,
+      'recoil_selector': 0,
+      'recoil_use_state': 0,
+      'react_query': 0,
+      'react_query_mutation': 0,
+      'vue_ref': 0,
+      'vue_reactive': 0,
+      'vue_computed': 0,
+      'pinia_store': 0,
+      'svelte_store': 0,
+      'svelte_store_set': 0,
+      'svelte_reactive': 0
     };
 
     const frameworkDistribution: Record<string, number> = {};
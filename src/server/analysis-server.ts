@@ -0,0 +1,481 @@
+/**
+ * Long-Running Analysis Server
+ *
+ * Keeps one AnalysisCoordinator, with its Tree-sitter parsers loaded, for
+ * the lifetime of the process and answers JSON-RPC requests from any number
+ * of clients over stdio or a local socket. Repository analyses run as jobs:
+ * `analyzeRepository` returns a job id at once, progress is pushed to every
+ * client as notifications, and the finished result is kept per repository so
+ * that later queries, and later analyses of the same repository (which run
+ * incrementally), do not start from scratch. Only the results of the most
+ * recently used repositories are kept.
+ *
+ * Methods:
+ * - `analyzeRepository({ repository, options? })` → `{ job_id }`
+ * - `analyzeFile({ file, content?, repository? })` → file analysis
+ * - `getFileAnalysis({ file, repository? })` → file analysis from the last result
+ * - `getDependencies({ file, repository? })` → `{ imports, imported_by }`
+ * - `findSymbol({ name, repository? })` → functions, classes and methods named `name`
+ * - `cancel({ job_id })` → `{ cancelled }`
+ *
+ * Notifications: `job.progress`, `job.phase`, `job.file_error`,
+ * `job.completed` and `job.failed`, each with the `job_id`.
+ */
+
+import { createServer, type Server } from 'node:net';
+import { readFile, realpath, rm } from 'node:fs/promises';
+import { isAbsolute, relative, resolve as resolvePath, sep } from 'node:path';
+import { AnalysisCoordinator } from '../core/analysis-coordinator.js';
+import { analyzeRepository, analyzeRepositoryIncremental } from '../index.js';
+import { JsonRpcConnection, JsonRpcError, JSON_RPC_ERRORS, type JsonRpcOutput } from './json-rpc.js';
+import type { AnalysisOptions, AnalysisResult, AnalysisSource, FileAnalysis } from '../types/index.js';
+
+/**
+ * Analysis options a client may set for a repository analysis
+ */
+const CLIENT_ANALYSIS_OPTIONS = [
+  'limit',
+  'extensions',
+  'max_file_size',
+  'concurrency',
+  'include_unknown_files',
+  'exclude_test_files',
+  'use_cache',
+  'cache_path',
+  'source'
+] as const;
+
+/**
+ * A running repository analysis
+ */
+interface AnalysisJob {
+  id: string;
+  repository: string;
+  /** Options the job runs with, as JSON */
+  optionsKey: string;
+  controller: AbortController;
+}
+
+/**
+ * The last successful analysis of a repository
+ */
+interface CachedAnalysis {
+  result: AnalysisResult;
+  /** Options the result was produced with, as JSON */
+  optionsKey: string;
+}
+
+/**
+ * A function, class or method found by `findSymbol`
+ */
+export interface SymbolLocation {
+  file: string;
+  kind: 'function' | 'class' | 'method';
+  /** Signature of functions and methods, name of classes */
+  signature: string;
+  /** Declaring class of methods */
+  class_name?: string;
+  line?: number;
+}
+
+/**
+ * JSON-RPC server keeping parsers and analysis results in memory
+ */
+export class AnalysisServer {
+  private readonly coordinator = new AnalysisCoordinator();
+  private readonly jobs = new Map<string, AnalysisJob>();
+  private readonly results = new Map<string, CachedAnalysis>();
+  private readonly connections = new Set<JsonRpcConnection>();
+  private readonly maxCachedResults: number;
+  private nextJobId = 1;
+
+  /**
+   * Create a new AnalysisServer
+   *
+   * @param maxCachedResults - Number of repository results kept in memory (least recently used are dropped)
+   */
+  constructor(maxCachedResults: number = 8) {
+    this.maxCachedResults = maxCachedResults;
+  }
+
+  /**
+   * Load the parsers before the first request
+   */
+  async start(): Promise<void> {
+    await this.coordinator.initialize();
+  }
+
+  /**
+   * Serve one client over a pair of streams, such as stdin and stdout
+   *
+   * @param input - Stream the client writes requests to
+   * @param output - Stream responses and notifications are written to
+   * @returns The client connection
+   */
+  connect(input: NodeJS.ReadableStream, output: JsonRpcOutput): JsonRpcConnection {
+    const connection = new JsonRpcConnection(input, output, {
+      analyzeRepository: params => this.analyzeRepository(params),
+      analyzeFile: params => this.analyzeFile(params),
+      getFileAnalysis: params => this.getFileAnalysis(params),
+      getDependencies: params => this.getDependencies(params),
+      findSymbol: params => this.findSymbol(params),
+      cancel: params => this.cancel(params)
+    });
+
+    this.connections.add(connection);
+    connection.onClose(() => this.connections.delete(connection));
+    return connection;
+  }
+
+  /**
+   * Serve clients on a local socket (a Unix domain socket path, or a named
+   * pipe on Windows)
+   *
+   * @param socketPath - Path of the socket; a stale socket file is replaced
+   * @returns The listening server
+   */
+  async listen(socketPath: string): Promise<Server> {
+    if (!socketPath.startsWith('\\\\.\\pipe\\')) {
+      await rm(socketPath, { force: true });
+    }
+
+    const server = createServer(socket => {
+      socket.setEncoding('utf8');
+      socket.on('error', () => socket.destroy());
+      this.connect(socket, socket);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(socketPath, () => resolve());
+    });
+    return server;
+  }
+
+  /**
+   * Start a repository analysis, or join the one already running for it with
+   * the same options
+   *
+   * @private
+   */
+  private analyzeRepository(params: Record<string, unknown>): { job_id: string } {
+    const repository = resolvePath(requireString(params, 'repository'));
+    const clientOptions = (params.options || {}) as Record<string, unknown>;
+    if (clientOptions.source !== undefined && !isAnalysisSource(clientOptions.source)) {
+      throw new JsonRpcError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Option "source" must be "worktree", "index" or { "commit": string }'
+      );
+    }
+
+    const options: AnalysisOptions = { exclude_test_files: true };
+    for (const key of CLIENT_ANALYSIS_OPTIONS) {
+      if (clientOptions[key] !== undefined) {
+        (options as Record<string, unknown>)[key] = clientOptions[key];
+      }
+    }
+
+    const optionsKey = JSON.stringify(options);
+    const running = [...this.jobs.values()].find(job =>
+      job.repository === repository && job.optionsKey === optionsKey && !job.controller.signal.aborted
+    );
+    if (running) {
+      return { job_id: running.id };
+    }
+
+    const job: AnalysisJob = {
+      id: `job-${this.nextJobId++}`,
+      repository,
+      optionsKey,
+      controller: new AbortController()
+    };
+    this.jobs.set(job.id, job);
+
+    // Start after the response, so clients know the job id before its first notification
+    setImmediate(() => void this.runJob(job, options));
+
+    return { job_id: job.id };
+  }
+
+  /**
+   * Run a repository analysis and notify clients of its progress and outcome
+   *
+   * Runs incrementally from the cached result when the options are unchanged.
+   *
+   * @private
+   */
+  private async runJob(job: AnalysisJob, options: AnalysisOptions): Promise<void> {
+    const { optionsKey } = job;
+    const jobOptions: AnalysisOptions = {
+      ...options,
+      coordinator: this.coordinator,
+      signal: job.controller.signal,
+      on_progress: (completed, total, current) => {
+        this.broadcast('job.progress', { job_id: job.id, completed, total, ...(current !== undefined && { current }) });
+      },
+      on_phase: phase => this.broadcast('job.phase', { job_id: job.id, phase }),
+      on_file_error: (file, error) => this.broadcast('job.file_error', { job_id: job.id, file, error })
+    };
+
+    try {
+      const cached = this.results.get(job.repository);
+      const result = cached && cached.optionsKey === optionsKey
+        ? await analyzeRepositoryIncremental(job.repository, cached.result, jobOptions)
+        : await analyzeRepository(job.repository, jobOptions);
+
+      const error = result.metadata?.error;
+      if (job.controller.signal.aborted) {
+        this.broadcast('job.failed', { job_id: job.id, message: 'Analysis was cancelled', cancelled: true });
+      } else if (error) {
+        this.broadcast('job.failed', { job_id: job.id, message: error, cancelled: false });
+      } else {
+        this.storeResult(job.repository, { result, optionsKey });
+        this.broadcast('job.completed', { job_id: job.id, repository: job.repository, summary: result.summary });
+      }
+    } catch (error) {
+      this.broadcast('job.failed', {
+        job_id: job.id,
+        message: error instanceof Error ? error.message : String(error),
+        cancelled: job.controller.signal.aborted
+      });
+    } finally {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  /**
+   * Analyze a single file, from the given content or read from disk
+   *
+   * Files read from disk must lie inside the repository once `..` segments
+   * and symbolic links are resolved.
+   *
+   * @private
+   */
+  private async analyzeFile(params: Record<string, unknown>): Promise<FileAnalysis> {
+    const file = requireString(params, 'file');
+    const repository = optionalString(params, 'repository') ?? '.';
+    const content = typeof params.content === 'string'
+      ? params.content
+      : await readFile(await resolveRepositoryFile(repository, file), 'utf8');
+
+    return (await this.coordinator.analyzeFile(file, content)).analysis;
+  }
+
+  /**
+   * Get the analysis of a file from the last result of its repository
+   *
+   * @private
+   */
+  private getFileAnalysis(params: Record<string, unknown>): FileAnalysis {
+    const file = requireString(params, 'file');
+    const analysis = Object.values(this.getResult(params).folder_structure)
+      .flat()
+      .find(fileAnalysis => fileAnalysis.path === file);
+
+    if (!analysis) {
+      throw new JsonRpcError(JSON_RPC_ERRORS.SERVER_ERROR, `File was not analyzed: ${file}`);
+    }
+    return analysis;
+  }
+
+  /**
+   * Get the files a file imports and the files importing it
+   *
+   * @private
+   */
+  private getDependencies(params: Record<string, unknown>): { imports: string[]; imported_by: string[] } {
+    const file = requireString(params, 'file');
+    const dependencies = this.getResult(params).dependencies;
+
+    return {
+      imports: dependencies[file] || [],
+      imported_by: Object.keys(dependencies).filter(other => dependencies[other]!.includes(file)).sort()
+    };
+  }
+
+  /**
+   * Find the functions, classes and methods with a name
+   *
+   * `Class.method` finds one method of a class; a bare name matches
+   * functions, classes and methods.
+   *
+   * @private
+   */
+  private findSymbol(params: Record<string, unknown>): SymbolLocation[] {
+    const name = requireString(params, 'name');
+    const [first, member] = name.split('.');
+    const locations: SymbolLocation[] = [];
+
+    for (const analysis of Object.values(this.getResult(params).folder_structure).flat()) {
+      for (const [signature, functionInfo] of Object.entries(analysis.functions || {})) {
+        if (member === undefined && getSymbolName(signature) === first) {
+          locations.push(withLine({ file: analysis.path, kind: 'function', signature }, functionInfo.line_number));
+        }
+      }
+
+      for (const [className, classInfo] of Object.entries(analysis.classes || {})) {
+        if (member === undefined && className === first) {
+          locations.push(withLine({ file: analysis.path, kind: 'class', signature: className }, classInfo.line_number));
+        }
+        for (const [signature, methodInfo] of Object.entries(classInfo.methods)) {
+          const matches = member === undefined
+            ? getSymbolName(signature) === first
+            : className === first && getSymbolName(signature) === member;
+          if (matches) {
+            locations.push(withLine(
+              { file: analysis.path, kind: 'method', signature, class_name: className },
+              methodInfo.line_number
+            ));
+          }
+        }
+      }
+    }
+
+    return locations;
+  }
+
+  /**
+   * Cancel a running repository analysis
+   *
+   * @private
+   */
+  private cancel(params: Record<string, unknown>): { cancelled: boolean } {
+    const job = this.jobs.get(requireString(params, 'job_id'));
+    if (!job || job.controller.signal.aborted) {
+      return { cancelled: false };
+    }
+
+    job.controller.abort();
+    return { cancelled: true };
+  }
+
+  /**
+   * Get the cached result of the requested repository, or of the only
+   * analyzed repository when none is given
+   *
+   * @private
+   */
+  private getResult(params: Record<string, unknown>): AnalysisResult {
+    const repository = optionalString(params, 'repository');
+
+    if (repository === undefined) {
+      if (this.results.size !== 1) {
+        throw new JsonRpcError(
+          JSON_RPC_ERRORS.INVALID_PARAMS,
+          this.results.size === 0 ? 'No repository has been analyzed' : 'Parameter "repository" is required'
+        );
+      }
+      return [...this.results.values()][0]!.result;
+    }
+
+    const repositoryPath = resolvePath(repository);
+    const cached = this.results.get(repositoryPath);
+    if (!cached) {
+      throw new JsonRpcError(JSON_RPC_ERRORS.SERVER_ERROR, `Repository has not been analyzed: ${repository}`);
+    }
+
+    // Refresh recency so repositories in use survive eviction
+    this.results.delete(repositoryPath);
+    this.results.set(repositoryPath, cached);
+    return cached.result;
+  }
+
+  /**
+   * Keep the result of a repository, dropping the least recently used
+   * results beyond the limit
+   *
+   * @private
+   */
+  private storeResult(repository: string, cached: CachedAnalysis): void {
+    this.results.delete(repository);
+    this.results.set(repository, cached);
+
+    const overflow = this.results.size - this.maxCachedResults;
+    if (overflow > 0) {
+      const staleRepositories = Array.from(this.results.keys()).slice(0, overflow);
+      for (const staleRepository of staleRepositories) {
+        this.results.delete(staleRepository);
+      }
+    }
+  }
+
+  /**
+   * Send a notification to every connected client
+   *
+   * @private
+   */
+  private broadcast(method: string, params: Record<string, unknown>): void {
+    for (const connection of this.connections) {
+      connection.notify(method, params);
+    }
+  }
+}
+
+/**
+ * Get a required string parameter
+ */
+function requireString(params: Record<string, unknown>, key: string): string {
+  const value = params[key];
+  if (typeof value !== 'string' || value === '') {
+    throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, `Parameter "${key}" must be a non-empty string`);
+  }
+  return value;
+}
+
+/**
+ * Get an optional string parameter
+ */
+function optionalString(params: Record<string, unknown>, key: string): string | undefined {
+  return params[key] === undefined ? undefined : requireString(params, key);
+}
+
+/**
+ * Resolve a client-supplied file path against a repository, rejecting paths
+ * that lead outside of it
+ */
+async function resolveRepositoryFile(repository: string, file: string): Promise<string> {
+  const root = await realpath(resolvePath(repository));
+
+  // Check the path as given first, so files outside are rejected whether they exist or not
+  let filePath = resolvePath(root, file);
+  if (isInside(root, filePath)) {
+    filePath = await realpath(filePath);
+    if (isInside(root, filePath)) {
+      return filePath;
+    }
+  }
+  throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, `File is outside the repository: ${file}`);
+}
+
+/**
+ * Check whether an absolute path lies inside a directory
+ */
+function isInside(directory: string, path: string): boolean {
+  const relativePath = relative(directory, path);
+  return relativePath !== '..' && !relativePath.startsWith(`..${sep}`) && !isAbsolute(relativePath);
+}
+
+/**
+ * Check a client-supplied analysis source
+ */
+function isAnalysisSource(value: unknown): value is AnalysisSource {
+  if (value === 'worktree' || value === 'index') {
+    return true;
+  }
+  const commit = (value as { commit?: unknown } | null)?.commit;
+  return typeof value === 'object' && typeof commit === 'string' && commit !== '';
+}
+
+/**
+ * Get the name of a function from its signature (`save(user)` → `save`)
+ */
+function getSymbolName(signature: string): string {
+  return signature.split('(')[0]!;
+}
+
+/**
+ * Add the declaration line to a symbol location when it is known
+ */
+function withLine(location: SymbolLocation, line: number | undefined): SymbolLocation {
+  return line !== undefined ? { ...location, line } : location;
+}
@@ -0,0 +1,165 @@
+/**
+ * JSON-RPC 2.0 over Newline-Delimited JSON
+ *
+ * Each request, response and notification is one JSON object on its own
+ * line, which works the same over stdio and over a local socket. Requests
+ * are handled concurrently, so a long-running method does not hold up the
+ * requests behind it. Batches are not supported.
+ */
+
+import { createInterface } from 'node:readline';
+
+/**
+ * Error codes defined by JSON-RPC 2.0, plus the server error used for
+ * failures of the methods themselves
+ */
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  SERVER_ERROR: -32000
+} as const;
+
+/**
+ * Error returned to the client with its JSON-RPC error code
+ */
+export class JsonRpcError extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'JsonRpcError';
+    this.code = code;
+  }
+}
+
+/**
+ * Method implementation; the return value becomes the result of the response
+ */
+export type JsonRpcHandler = (params: Record<string, unknown>, connection: JsonRpcConnection) => unknown;
+
+/**
+ * Destination of messages, such as `process.stdout` or a socket
+ */
+export interface JsonRpcOutput {
+  write(chunk: string): unknown;
+}
+
+type RequestId = string | number | null;
+
+/**
+ * One client connection, dispatching its requests to the method handlers
+ */
+export class JsonRpcConnection {
+  private readonly output: JsonRpcOutput;
+  private readonly handlers: Record<string, JsonRpcHandler>;
+  private readonly closeListeners: Array<() => void> = [];
+
+  /**
+   * Start reading requests from an input stream
+   *
+   * @param input - Stream the client writes requests to
+   * @param output - Stream responses and notifications are written to
+   * @param handlers - Method implementations by method name
+   */
+  constructor(input: NodeJS.ReadableStream, output: JsonRpcOutput, handlers: Record<string, JsonRpcHandler>) {
+    this.output = output;
+    this.handlers = handlers;
+
+    const lines = createInterface({ input, crlfDelay: Infinity });
+    lines.on('line', line => {
+      if (line.trim()) {
+        void this.handleLine(line);
+      }
+    });
+    lines.on('close', () => {
+      this.closeListeners.forEach(listener => listener());
+    });
+  }
+
+  /**
+   * Send a notification to the client
+   *
+   * @param method - Notification name
+   * @param params - Notification parameters
+   */
+  notify(method: string, params: Record<string, unknown>): void {
+    this.write({ jsonrpc: '2.0', method, params });
+  }
+
+  /**
+   * Register a callback for when the client closes its input
+   *
+   * Responses to requests still being handled are written afterwards.
+   */
+  onClose(listener: () => void): void {
+    this.closeListeners.push(listener);
+  }
+
+  /**
+   * Parse one line and answer it unless it is a notification
+   *
+   * @private
+   */
+  private async handleLine(line: string): Promise<void> {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      this.respondError(null, new JsonRpcError(JSON_RPC_ERRORS.PARSE_ERROR, 'Parse error'));
+      return;
+    }
+
+    const hasId = message !== null && typeof message === 'object' && 'id' in message;
+    const id: RequestId = hasId && ['string', 'number'].includes(typeof message.id) ? message.id : null;
+
+    if (
+      message === null || typeof message !== 'object' || Array.isArray(message) ||
+      message.jsonrpc !== '2.0' || typeof message.method !== 'string' ||
+      (message.params !== undefined && (typeof message.params !== 'object' || Array.isArray(message.params)))
+    ) {
+      this.respondError(id, new JsonRpcError(JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid request'));
+      return;
+    }
+
+    try {
+      const handler = Object.prototype.hasOwnProperty.call(this.handlers, message.method)
+        ? this.handlers[message.method]
+        : undefined;
+      if (!handler) {
+        throw new JsonRpcError(JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+      }
+
+      const result = await handler(message.params || {}, this);
+      if (hasId) {
+        this.write({ jsonrpc: '2.0', id, result: result ?? null });
+      }
+    } catch (error) {
+      if (hasId) {
+        this.respondError(id, error);
+      }
+    }
+  }
+
+  /**
+   * Send an error response
+   *
+   * @private
+   */
+  private respondError(id: RequestId, error: unknown): void {
+    const code = error instanceof JsonRpcError ? error.code : JSON_RPC_ERRORS.SERVER_ERROR;
+    const message = error instanceof Error ? error.message : String(error);
+    this.write({ jsonrpc: '2.0', id, error: { code, message } });
+  }
+
+  /**
+   * Write one message as a JSON line
+   *
+   * @private
+   */
+  private write(message: Record<string, unknown>): void {
+    this.output.write(`${JSON.stringify(message)}\n`);
+  }
+}
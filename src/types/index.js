@@ -1,12 +0,0 @@
-"use strict";
-/**
- * Core type definitions for the Code Analysis Engine
- *
- * This module defines all TypeScript interfaces and types used throughout the system.
- * The interfaces are designed to match the Python implementation's output format exactly
- * while providing strong typing for better developer experience and runtime safety.
- */
-Object.defineProperty(exports, "__esModule", { value: true });
-exports.ANALYSIS_ENGINE_VERSION = void 0;
-// Export version constant
-exports.ANALYSIS_ENGINE_VERSION = "0.1.0";
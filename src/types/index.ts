@@ -6,6 +6,8 @@
  * while providing strong typing for better developer experience and runtime safety.
  */
 
+import type { AnalysisCoordinator } from '../core/analysis-coordinator.js';
+
 /**
  * Main result structure returned by the analysis engine
  * This matches the top-level structure from the Python implementation
@@ -17,6 +19,23 @@ export interface AnalysisResult {
   summary: ProjectSummary;
   /** Dependency relationships between files */
   dependencies: DependencyGraph;
+  /**
+   * Imports that point into the repository (relative paths, path aliases,
+   * workspace packages) but could not be matched to a file, keyed by importing file
+   */
+  unresolved_imports?: DependencyGraph;
+  /** Import cycles between repository files, one entry per strongly connected group */
+  cycles?: CircularDependency[];
+  /** Calls between functions and methods of JavaScript and TypeScript files */
+  call_graph?: CallGraph;
+  /** Electron IPC channels with the main, preload and renderer code using them */
+  ipc?: IpcMap;
+  /** Insecure Electron window settings and API usage */
+  electron_security?: ElectronSecurityFinding[];
+  /** Workspace packages of a monorepo, each with its own summary */
+  packages?: PackageSummary[];
+  /** Dependencies declared in package manifests, checked against the imports of the code */
+  packages_declared?: DeclaredPackages;
   /** Metadata about the analysis process */
   metadata?: AnalysisMetadata;
 }
@@ -37,12 +56,218 @@ export interface ProjectSummary {
   frameworks?: Record<string, number>;
 }
 
+/**
+ * Configuration that declares a workspace package
+ */
+export type WorkspaceSource =
+  | 'package.json'
+  | 'pnpm-workspace.yaml'
+  | 'lerna.json'
+  | 'nx.json'
+  | 'turbo.json'
+  | 'pyproject.toml';
+
+/**
+ * Summary statistics for one workspace package
+ */
+export interface PackageSummary {
+  /** Package name from its manifest, or its directory name */
+  name: string;
+  /** Repository-relative package directory */
+  path: string;
+  /** Configuration that makes the directory a workspace package */
+  declared_by: WorkspaceSource;
+  /** Number of analyzed files in the package */
+  total_files: number;
+  /** Total lines of code of those files */
+  total_lines: number;
+  /** Distribution of programming languages */
+  languages: Record<string, number>;
+  /** Frameworks detected from the package's own files */
+  frameworks?: Record<string, number>;
+  /** Files the package is imported or executed through */
+  entry_points: string[];
+  /** Other workspace packages this package imports, by name */
+  dependencies: string[];
+}
+
+/**
+ * Package registry a manifest declares dependencies from
+ */
+export type PackageEcosystem = 'npm' | 'pypi' | 'pub';
+
+/**
+ * Part of a project a declared dependency is installed for
+ */
+export type DependencyScope = 'production' | 'development' | 'peer' | 'optional';
+
+/**
+ * A dependency declared in a package manifest
+ */
+export interface DeclaredDependency {
+  /** Package name as declared */
+  name: string;
+  ecosystem: PackageEcosystem;
+  scope: DependencyScope;
+  /** Version range or pin from the manifest */
+  version_spec?: string;
+  /** Version installed according to the nearest lockfile */
+  resolved_version?: string;
+  /** Repository-relative path of the declaring manifest */
+  manifest: string;
+}
+
+/**
+ * An external package and the files importing it
+ */
+export interface PackageUsage {
+  /** Package name as imported (npm, pub) or top-level module (Python) */
+  name: string;
+  ecosystem: PackageEcosystem;
+  /** Importing files, sorted */
+  files: string[];
+}
+
+/**
+ * Declared dependencies of the repository compared with the packages its code imports
+ *
+ * Only ecosystems with at least one manifest are compared.
+ */
+export interface DeclaredPackages {
+  /** All dependencies of all manifests */
+  dependencies: DeclaredDependency[];
+  /** External packages imported without being declared by a manifest above the importing file */
+  undeclared_imports: PackageUsage[];
+  /** Production dependencies no file below their manifest imports */
+  unused_dependencies: DeclaredDependency[];
+  /** Development-only dependencies imported from non-test, non-config files */
+  dev_dependencies_in_production: PackageUsage[];
+}
+
 /**
  * Dependency graph showing relationships between files
  * Key is the file path, value is array of dependencies (internal files or external packages)
  */
 export type DependencyGraph = Record<string, string[]>;
 
+/**
+ * A group of files that (transitively) import each other
+ */
+export interface CircularDependency {
+  /** All files of the strongly connected group, sorted */
+  files: string[];
+  /** Shortest import chain through the group, ending where it started */
+  chain: string[];
+  /** The import behind each step of the chain */
+  edges: ImportEdge[];
+}
+
+/**
+ * An import of one repository file by another
+ */
+export interface ImportEdge {
+  /** Importing file */
+  from: string;
+  /** Imported file */
+  to: string;
+  /** Module specifier as written in the source */
+  specifier?: string;
+  /** Line of the import statement */
+  line?: number;
+}
+
+/**
+ * Calls between the functions and class methods of a repository
+ *
+ * Symbols are written `file#name` for functions and `file#Class.method`
+ * for methods.
+ */
+export interface CallGraph {
+  /** Calls matched to a function, method or class of a repository file */
+  edges: CallEdge[];
+  /** Calls of repository symbols that could not be matched */
+  unresolved: UnresolvedCall[];
+}
+
+/**
+ * A call from one symbol to another
+ */
+export interface CallEdge {
+  /** Calling function or method */
+  caller: string;
+  /** Called function, method or class */
+  callee: string;
+  /** Line of the call */
+  line: number;
+}
+
+/**
+ * A call of a repository symbol that matched nothing
+ */
+export interface UnresolvedCall {
+  /** Calling function or method */
+  caller: string;
+  /** Callee as written (`format`, `utils.format`, `this.save`) */
+  callee: string;
+  /** Line of the call */
+  line: number;
+  /** Module the callee is imported from */
+  source?: string;
+}
+
+/**
+ * Electron IPC channels of a repository
+ */
+export interface IpcMap {
+  /** Channels sorted by name */
+  channels: IpcChannel[];
+}
+
+/**
+ * Everything using one IPC channel, from both sides of the process boundary
+ */
+export interface IpcChannel {
+  /** Channel name, or the channel expression when it is not a literal */
+  channel: string;
+  /** Whether `channel` is an expression such as `Channels.GetUser` */
+  dynamic?: boolean;
+  /** `ipcMain.handle/handleOnce/on/once` registrations */
+  handlers: IpcReference[];
+  /** `ipcRenderer.invoke/send/sendSync` calls */
+  senders: IpcReference[];
+  /** `webContents.send` pushes to a renderer */
+  pushes: IpcReference[];
+  /** `ipcRenderer.on/once` listeners */
+  listeners: IpcReference[];
+  /** Calls without a counterpart on the other side */
+  issues?: IpcIssue[];
+}
+
+/**
+ * Unpaired channel usage: `no_handler` (sent, never handled), `no_sender`
+ * (handled, never sent), `no_listener` (pushed, never listened to) and
+ * `no_push` (listened to, never pushed)
+ */
+export type IpcIssue = 'no_handler' | 'no_sender' | 'no_listener' | 'no_push';
+
+/**
+ * A call using an IPC channel
+ */
+export interface IpcReference {
+  /** File containing the call */
+  file: string;
+  /** Line of the call */
+  line: number;
+  /** Called method, e.g. `ipcRenderer.invoke` */
+  method: string;
+  /** Function containing the call */
+  container?: string;
+  /** Member of a `contextBridge.exposeInMainWorld` API wrapping the call (`api.getUser`) */
+  exposed_as?: string;
+  /** Renderer calls of that exposed member */
+  callers?: Array<{ file: string; line: number; container?: string }>;
+}
+
 /**
  * Metadata about the analysis process
  */
@@ -55,6 +280,28 @@ export interface AnalysisMetadata {
   engine_version: string;
   /** Repository path that was analyzed */
   repository_path: string;
+  /** Commit that was analyzed (HEAD by default); absent for working-tree and index analyses */
+  commit?: string;
+  /** Analyzed files whose working-tree contents differ from `commit` (absent when there are none) */
+  uncommitted_files?: string[];
+  /** Details of an incremental re-analysis (absent for full analyses) */
+  incremental?: IncrementalAnalysisInfo;
+  /** Why the analysis failed; the rest of the result is empty when set */
+  error?: string;
+}
+
+/**
+ * Summary of the work done by an incremental re-analysis
+ */
+export interface IncrementalAnalysisInfo {
+  /** Commit of the previous result the analysis started from */
+  base_commit: string;
+  /** Number of added or modified files that were re-analyzed */
+  changed_files: number;
+  /** Number of files dropped because they were deleted */
+  removed_files: number;
+  /** Number of changed files whose analysis came from the cache */
+  cache_hits: number;
 }
 
 /**
@@ -68,8 +315,36 @@ export interface FileAnalysis {
   language?: SupportedLanguage;
   /** File extension */
   extension?: string;
+  /** Declared package (Java, Kotlin, Go) */
+  package?: string;
   /** Import statements organized by module */
   imports?: Record<string, string[]>;
+  /** Line of the first import statement for each module in `imports` */
+  import_lines?: Record<string, number>;
+  /** Names exported by the module (`default` for the default export) */
+  exports?: string[];
+  /** Line of the export statement for each name in `exports` */
+  export_lines?: Record<string, number>;
+  /** Local name of the function or class exported as `default` */
+  default_export?: string;
+  /** Module directives such as `'use client'` or `'use server'` */
+  directives?: string[];
+  /** Electron IPC calls (`ipcMain.handle`, `ipcRenderer.invoke`, `webContents.send`, ...) */
+  ipc_calls?: IpcCall[];
+  /** Calls of APIs exposed by a preload script (`window.api.getUser()`) */
+  bridge_calls?: BridgeCall[];
+  /** Electron process the file runs in, set for repositories using Electron */
+  process_role?: ProcessRole;
+  /** `new BrowserWindow(...)` calls */
+  browser_windows?: BrowserWindowInfo[];
+  /** `shell.openExternal(...)` calls */
+  open_external_calls?: OpenExternalCall[];
+  /** Whether the file uses JSX, `document` or `window` */
+  uses_dom?: boolean;
+  /** Calls of Zustand, Jotai, Recoil, React Query, React Context, Vue, Pinia and Svelte store APIs */
+  state_calls?: StateLibraryCall[];
+  /** `@event`/`v-on:event` bindings in the `<template>` of a Vue single-file component */
+  template_events?: TemplateEventBinding[];
   /** Function definitions with their metadata */
   functions?: Record<string, FunctionInfo>;
   /** Class definitions with their metadata */
@@ -82,6 +357,10 @@ export interface FileAnalysis {
   state_changes?: StateChange[];
   /** Event handlers found in this file */
   event_handlers?: EventHandler[];
+  /** FastAPI/Flask applications, routers and blueprints created in this file */
+  routers?: RouterDeclaration[];
+  /** `include_router`/`register_blueprint` calls in this file */
+  router_includes?: RouterInclusion[];
   /** Basic file metrics for non-code files */
   lines?: number;
   characters?: number;
@@ -111,6 +390,8 @@ export type SupportedLanguage =
   | 'kotlin'
   | 'scala'
   | 'r'              // Add R language support
+  | 'vue'
+  | 'svelte'
   | 'html'
   | 'css'
   | 'json'
@@ -119,6 +400,16 @@ export type SupportedLanguage =
   | 'unknown';
 
 
+/**
+ * Source excerpt recorded by an analyzer for a state change or event handler
+ */
+export interface SourceEvidence {
+  /** Short source excerpt describing the pattern, e.g. `setCount(count + 1)` */
+  snippet: string;
+  /** Line where the pattern occurs, if the analyzer recorded it */
+  line?: number;
+}
+
 /**
  * Detailed information about a function or method
  */
@@ -126,9 +417,9 @@ export interface FunctionInfo {
   /** Function documentation (docstring/JSDoc) */
   docstring: string;
   /** State management patterns used within this function */
-  state_changes: string[];
+  state_changes: SourceEvidence[];
   /** Event handlers defined in this function */
-  event_handlers: string[];
+  event_handlers: SourceEvidence[];
   /** API endpoints defined by this function */
   api_endpoints: ApiEndpoint[];
   /** Decorators applied to this function (NestJS, Python, etc.) */
@@ -139,10 +430,32 @@ export interface FunctionInfo {
   is_hook?: boolean;
   /** Whether this is an async function */
   is_async?: boolean;
+  /** Directives at the start of the function body (`'use server'`) */
+  directives?: string[];
   /** Function parameters */
   parameters?: string[];
+  /** Declared return type annotation */
+  return_type?: string;
   /** Line number where function is defined */
   line_number?: number;
+  /** Last line of the function body */
+  end_line_number?: number;
+  /** Calls of imported or same-file functions made in the body (JavaScript, TypeScript) */
+  calls?: FunctionCall[];
+}
+
+/**
+ * A call made inside a function body
+ */
+export interface FunctionCall {
+  /** Callee as written (`format`, `utils.format`, `this.save`) */
+  callee: string;
+  /** Line of the call */
+  line: number;
+  /** Module the callee's first identifier is imported from */
+  source?: string;
+  /** Name imported from that module (`default`, or `*` for a namespace import) */
+  imported?: string;
 }
 
 /**
@@ -161,6 +474,8 @@ export interface ClassInfo {
   is_component?: boolean;
   /** Line number where class is defined */
   line_number?: number;
+  /** Last line of the class body */
+  end_line_number?: number;
 }
 
 /**
@@ -191,6 +506,160 @@ export interface ApiEndpoint {
   line: number;
   /** Framework that defines this endpoint */
   framework?: string;
+  /** Handler expression registered for the route (Go) */
+  handler?: string;
+}
+
+/**
+ * An Electron IPC call found in a file
+ */
+export interface IpcCall {
+  /** Called method: `ipcMain.handle`, `ipcRenderer.invoke`, `webContents.send`, ... */
+  method: string;
+  /** Channel name, or the source of the channel argument when it is not a literal */
+  channel: string;
+  /** Whether `channel` is an expression rather than a literal name */
+  dynamic_channel?: boolean;
+  /** Line of the call */
+  line: number;
+  /** Function containing the call */
+  container?: string;
+  /** Member of a `contextBridge.exposeInMainWorld` API wrapping the call (`api.getUser`) */
+  exposed_as?: string;
+}
+
+/**
+ * A renderer call of an API exposed through `contextBridge.exposeInMainWorld`
+ */
+export interface BridgeCall {
+  /** API member without the `window.` prefix (`api.getUser`) */
+  api: string;
+  /** Line of the call */
+  line: number;
+  /** Function containing the call */
+  container?: string;
+}
+
+/**
+ * A call of a state management library API
+ */
+export interface StateLibraryCall {
+  /** Module the API is imported from (`zustand`, `jotai`, `@tanstack/react-query`, ...) */
+  module: string;
+  /** Called API, e.g. `create`, `useContext`, `atom`, `useQuery`; `set` for Zustand store updates */
+  api: string;
+  /** Line of the call */
+  line: number;
+  /** Variable the result is assigned to (`useCartStore`), or the Zustand store a `set` call updates */
+  target?: string;
+  /** Context, atom or selector passed as first argument (`useContext(ThemeContext)`) */
+  argument?: string;
+  /** Recoil key, React Query query/mutation key as written (`['todos', id]`), or Pinia store id */
+  key?: string;
+  /** Function containing the call */
+  container?: string;
+}
+
+/**
+ * An event binding in a Vue template (`@click.prevent="save"`)
+ */
+export interface TemplateEventBinding {
+  /** Event name (`click`, `update:modelValue`) */
+  event: string;
+  /** Handler expression as written (`save`, `count++`, `remove(item.id)`) */
+  handler: string;
+  /** Event modifiers (`prevent`, `stop`, `once`, ...) */
+  modifiers?: string[];
+  /** Line of the binding in the `.vue` file */
+  line: number;
+}
+
+/**
+ * Electron process a file belongs to; `shared` files are used by several
+ */
+export type ProcessRole = 'main' | 'preload' | 'renderer' | 'shared';
+
+/**
+ * A `new BrowserWindow(...)` call
+ */
+export interface BrowserWindowInfo {
+  /** Line of the call */
+  line: number;
+  /** `webPreferences` given as boolean literals, e.g. `{ contextIsolation: false }` */
+  web_preferences: Record<string, boolean>;
+  /** Preload script path from the string parts of `webPreferences.preload` (`../preload/index.js`) */
+  preload?: string;
+}
+
+/**
+ * A `shell.openExternal(...)` call
+ */
+export interface OpenExternalCall {
+  /** Line of the call */
+  line: number;
+  /** Source of the URL argument */
+  argument: string;
+  /** Whether the URL is a literal or a template with a literal origin */
+  trusted: boolean;
+}
+
+/**
+ * An insecure Electron setting or API usage
+ */
+export interface ElectronSecurityFinding {
+  rule: ElectronSecurityRule;
+  /** File of the window, call or import */
+  file: string;
+  /** Line of the window, call or import */
+  line: number;
+  /** What was found, e.g. `nodeIntegration: true` */
+  evidence: string;
+}
+
+/**
+ * Electron security checks: windows with `nodeIntegration: true`,
+ * `contextIsolation: false`, `sandbox: false` or `webSecurity: false`,
+ * `shell.openExternal` on URLs that are not literals, and the `remote` module
+ */
+export type ElectronSecurityRule =
+  | 'node_integration'
+  | 'context_isolation_disabled'
+  | 'sandbox_disabled'
+  | 'web_security_disabled'
+  | 'open_external_untrusted'
+  | 'remote_module';
+
+/**
+ * A FastAPI/Flask application, router or blueprint assigned to a variable
+ */
+export interface RouterDeclaration {
+  /** Variable the object is assigned to */
+  name: string;
+  /** Constructor that created it */
+  kind: RouterKind;
+  /** `prefix` (APIRouter) or `url_prefix` (Blueprint) given to the constructor */
+  prefix?: string;
+  /** Line number of the assignment */
+  line: number;
+}
+
+/**
+ * Constructors of FastAPI and Flask route containers
+ */
+export type RouterKind = 'FastAPI' | 'APIRouter' | 'Flask' | 'Blueprint';
+
+/**
+ * A router or blueprint mounted on an application or another router
+ */
+export interface RouterInclusion {
+  /** Expression receiving the routes (`app`, `api_router`) */
+  parent: string;
+  /** Expression of the mounted router (`items.router`, `auth_bp`) */
+  child: string;
+  /** `prefix` or `url_prefix` given to the call */
+  prefix?: string;
+  /** Line number of the call */
+  line: number;
 }
 
 /**
@@ -226,7 +695,25 @@ export type StatePatternType =
   | 'django_save'
   | 'django_create'
   | 'django_update'
-  | 'django_delete';
+  | 'django_delete'
+  | 'zustand_store'
+  | 'zustand_set'
+  | 'context_create'
+  | 'context_consumer'
+  | 'jotai_atom'
+  | 'jotai_use_atom'
+  | 'recoil_atom'
+  | 'recoil_selector'
+  | 'recoil_use_state'
+  | 'react_query'
+  | 'react_query_mutation'
+  | 'vue_ref'
+  | 'vue_reactive'
+  | 'vue_computed'
+  | 'pinia_store'
+  | 'svelte_store'
+  | 'svelte_store_set'
+  | 'svelte_reactive';
 
 /**
  * Types of state mutations
@@ -260,9 +747,41 @@ export type EventHandlerType =
   | 'ipc_handle'
   | 'ipc_on'
   | 'dom_event'
-  | 'react_event';
+  | 'react_event'
+  | 'vue_event'
+  | 'svelte_event';
 
 
+/**
+ * Phase of a repository analysis, in the order they run
+ *
+ * Incremental analyses start with `comparing` instead of `discovering`.
+ */
+export type AnalysisPhase =
+  | 'discovering'
+  | 'comparing'
+  | 'reading'
+  | 'analyzing'
+  | 'detecting'
+  | 'aggregating'
+  | 'complete';
+
+/**
+ * Version of the repository to analyze
+ *
+ * - `worktree`: files in the working tree, including untracked files that
+ *   `.gitignore` does not exclude
+ * - `index`: staged files with their staged contents
+ * - `{ commit }`: files of a commit (any revision git can resolve), read from
+ *   the object database without checking it out
+ */
+export type AnalysisSource = 'worktree' | 'index' | { commit: string };
+
+/**
+ * Reads a repository file, given its path relative to the repository root
+ */
+export type RepositoryFileReader = (filePath: string) => Promise<string>;
+
 /**
  * Configuration options for the analysis engine
  */
@@ -281,8 +800,47 @@ export interface AnalysisOptions {
   exclude_test_files?: boolean;
   /** Callback for progress updates */
   on_progress?: (completed: number, total: number, current_file?: string) => void;
+  /** Callback when the analysis enters a new phase */
+  on_phase?: (phase: AnalysisPhase) => void;
+  /** Callback for files that could not be read or analyzed */
+  on_file_error?: (file_path: string, error: string) => void;
   /** AbortSignal for cancellation */
   signal?: AbortSignal;
+  /** Whether to reuse and persist per-file analyses in the on-disk cache */
+  use_cache?: boolean;
+  /** Location of the cache file (defaults to .git/code-analysis-cache.json) */
+  cache_path?: string;
+  /** Coordinator to analyze files with, so long-running processes keep their parsers loaded */
+  coordinator?: AnalysisCoordinator;
+  /**
+   * Version of the repository to analyze; by default the files of HEAD are
+   * analyzed with their working-tree contents
+   */
+  source?: AnalysisSource;
+}
+
+/**
+ * Options for the flat text output of an analysis
+ *
+ * Without `maxTokens` every file is written in full. With a budget, files
+ * are ranked by relevance and the lower-ranked ones are shortened to their
+ * signatures, then to their path, until the text fits.
+ */
+export interface TextOutputOptions extends AnalysisOptions {
+  /** Token budget of the text, as estimated locally */
+  maxTokens?: number;
+  /** Files or directories the text should concentrate on */
+  focusPaths?: string[];
+  /** Words to match against symbol names, docstrings and paths */
+  query?: string;
+}
+
+/**
+ * Options for watching a repository after its initial analysis
+ */
+export interface WatchOptions extends AnalysisOptions {
+  /** Quiet time after the last file-system event before a batch is analyzed (default: 200ms) */
+  debounce_ms?: number;
 }
 
 /**
@@ -326,5 +884,7 @@ export interface AnalysisError {
 }
 
 // Export version constant
-export const ANALYSIS_ENGINE_VERSION = "0.1.0";
+// Bump whenever analyzer output changes: persisted analysis caches written by
+// another version are discarded on load
+export const ANALYSIS_ENGINE_VERSION = "0.2.0";
 
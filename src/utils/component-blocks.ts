@@ -0,0 +1,116 @@
+/**
+ * Component File Block Utilities
+ *
+ * Helpers shared by the analyzers of single-file component formats (Vue,
+ * Svelte) that embed `<script>` blocks in markup: splitting out the script
+ * blocks so they can be parsed as JavaScript with their original line
+ * numbers, merging the analyses of several blocks, and blanking blocks out
+ * of the markup.
+ */
+
+import type { FileAnalysis } from '../types/index.js';
+
+/**
+ * A `<script>` block of a component file
+ */
+export interface ScriptBlock {
+  /** Attributes of the opening tag as written (` setup lang="ts"`) */
+  attributes: string;
+  /** Block content, preceded by one empty line per line above the block */
+  content: string;
+  /** Language of the block from its `lang` attribute */
+  language: 'javascript' | 'typescript';
+}
+
+/**
+ * Top-level `<script>` blocks, with their attributes and content
+ */
+const SCRIPT_BLOCK_PATTERN = /^<script\b([^>]*)>([\s\S]*?)^<\/script>/gm;
+
+/**
+ * Get the 1-based line of an offset in the content
+ *
+ * @param content - File content
+ * @param offset - Character offset
+ * @returns Line number
+ */
+export function getLineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) {
+    if (content.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+/**
+ * Split the top-level `<script>` blocks out of a component file
+ *
+ * Each block is padded with the lines above it, so a parser reports the
+ * line numbers of the component file.
+ *
+ * @param content - Component file content
+ * @returns Script blocks in file order
+ */
+export function extractScriptBlocks(content: string): ScriptBlock[] {
+  const blocks: ScriptBlock[] = [];
+
+  for (const match of content.matchAll(SCRIPT_BLOCK_PATTERN)) {
+    const attributes = match[1] || '';
+    const blockStart = match.index! + match[0].indexOf('>') + 1;
+
+    blocks.push({
+      attributes,
+      content: '\n'.repeat(getLineAt(content, blockStart) - 1) + (match[2] || ''),
+      language: /\blang\s*=\s*["']tsx?["']/.test(attributes) ? 'typescript' : 'javascript'
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Replace top-level blocks with blank text of the same line structure
+ *
+ * @param content - Component file content
+ * @param tags - Tag names of the blocks to blank out (`script`, `style`)
+ * @returns Content where only the remaining markup is left at its original offsets
+ */
+export function blankOutBlocks(content: string, tags: string[]): string {
+  const pattern = new RegExp(`^<(${tags.join('|')})\\b[^>]*>[\\s\\S]*?^<\\/\\1>`, 'gm');
+  return content.replace(pattern, block => block.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Merge the analysis of one script block into the component analysis
+ *
+ * Lists are concatenated, records are merged key by key (concatenating
+ * list values such as imported names) and other values keep the first
+ * block's value.
+ *
+ * @param target - Component analysis to update
+ * @param source - Analysis of one script block
+ */
+export function mergeAnalysis(target: FileAnalysis, source: FileAnalysis): void {
+  const merged = target as unknown as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(source)) {
+    const existing = merged[key];
+
+    if (Array.isArray(value)) {
+      merged[key] = Array.isArray(existing) ? [...existing, ...value] : value;
+    } else if (value && typeof value === 'object') {
+      const record = { ...(existing as Record<string, unknown> || {}) };
+      for (const [name, entry] of Object.entries(value)) {
+        const current = record[name];
+        if (Array.isArray(current) && Array.isArray(entry)) {
+          record[name] = [...current, ...entry.filter(item => !current.includes(item))];
+        } else if (current === undefined) {
+          record[name] = entry;
+        }
+      }
+      merged[key] = record;
+    } else if (existing === undefined) {
+      merged[key] = value;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Logging Utilities
+ *
+ * All diagnostic output of the engine goes through the logger installed
+ * here. By default messages are written to the console as before; hosts that
+ * need stdout for their own protocol (such as the Electron runner) install a
+ * logger that forwards or drops them instead.
+ */
+
+/**
+ * Receiver of the engine's diagnostic messages
+ */
+export interface Logger {
+  /** Detailed tracing, such as per-file detector output */
+  debug(message: string, ...details: unknown[]): void;
+  /** Lifecycle messages, such as parser initialization */
+  info(message: string, ...details: unknown[]): void;
+  /** Recoverable problems, such as unreadable configuration files */
+  warn(message: string, ...details: unknown[]): void;
+  /** Failures */
+  error(message: string, ...details: unknown[]): void;
+}
+
+/**
+ * Logger writing to the console, used unless another one is installed
+ */
+export const consoleLogger: Logger = {
+  debug: (message, ...details) => console.log(message, ...details),
+  info: (message, ...details) => console.log(message, ...details),
+  warn: (message, ...details) => console.warn(message, ...details),
+  error: (message, ...details) => console.error(message, ...details)
+};
+
+/**
+ * Logger discarding every message
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {}
+};
+
+let activeLogger: Logger = consoleLogger;
+
+/**
+ * Install the logger the engine writes its diagnostic messages to
+ *
+ * @param nextLogger - Logger to use, or undefined to restore the console logger
+ * @returns The previously installed logger
+ */
+export function setLogger(nextLogger: Logger | undefined): Logger {
+  const previous = activeLogger;
+  activeLogger = nextLogger || consoleLogger;
+  return previous;
+}
+
+/**
+ * Logger forwarding to whichever logger is installed at the time of the call
+ */
+export const logger: Logger = {
+  debug: (message, ...details) => activeLogger.debug(message, ...details),
+  info: (message, ...details) => activeLogger.info(message, ...details),
+  warn: (message, ...details) => activeLogger.warn(message, ...details),
+  error: (message, ...details) => activeLogger.error(message, ...details)
+};
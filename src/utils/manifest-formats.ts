@@ -0,0 +1,198 @@
+/**
+ * Manifest Format Utilities
+ *
+ * Minimal readers for the TOML (`pyproject.toml`, `Pipfile`) and YAML
+ * (`pnpm-workspace.yaml`, `pubspec.yaml`, lockfiles) found in package
+ * manifests. They read tables, key/value pairs, block lists and maps line by
+ * line and are not complete parsers.
+ */
+
+/**
+ * Get the body of a TOML table such as `[project]` or `[tool.poetry.scripts]`
+ *
+ * @param source - TOML document
+ * @param table - Dotted table name without brackets
+ * @returns Lines between the table header and the next header, or '' if the table is missing
+ */
+export function getTomlTable(source: string, table: string): string {
+  const escaped = table.replace(/[.+*?^${}()|[\]\\]/g, '\\$&');
+  const match = source.match(new RegExp(`^\\[\\s*${escaped}\\s*\\][^\\n]*\\n([\\s\\S]*?)(?=^\\[|(?![\\s\\S]))`, 'm'));
+  return match ? match[1]! : '';
+}
+
+/**
+ * Get the names of all tables of a TOML document
+ *
+ * @param source - TOML document
+ * @returns Table names in document order (`tool.poetry.group.dev.dependencies`)
+ */
+export function getTomlTableNames(source: string): string[] {
+  return [...source.matchAll(/^\[\s*([^\][\s]+)\s*\]/gm)].map(match => match[1]!);
+}
+
+/**
+ * Get the key/value pairs of a TOML table body
+ *
+ * Values are returned as written; arrays spanning several lines are joined
+ * into one value.
+ *
+ * @param tableBody - Table body from `getTomlTable`
+ * @returns Keys (without quotes) and raw values in order
+ */
+export function getTomlEntries(tableBody: string): Array<[string, string]> {
+  const entries: Array<[string, string]> = [];
+  const lines = tableBody.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i]!.match(/^\s*(["']?)([\w.-]+)\1\s*=\s*(.*)$/);
+    if (!match) {
+      continue;
+    }
+
+    let value = match[3]!.trim();
+    while (countBrackets(value) > 0 && i + 1 < lines.length) {
+      value += ` ${lines[++i]!.trim()}`;
+    }
+    entries.push([match[2]!, value]);
+  }
+
+  return entries;
+}
+
+/**
+ * Get a string value of a TOML table body
+ *
+ * @param tableBody - Table body from `getTomlTable`
+ * @param key - Key to look up
+ * @returns The unquoted string, or undefined if the key is missing or not a string
+ */
+export function getTomlString(tableBody: string, key: string): string | undefined {
+  const value = getTomlEntries(tableBody).find(([entryKey]) => entryKey === key)?.[1];
+  return value !== undefined && /^["']/.test(value) ? getQuotedStrings(value)[0] : undefined;
+}
+
+/**
+ * Get the strings of a TOML array value such as `dependencies = ["a", "b"]`
+ *
+ * @param tableBody - Table body from `getTomlTable`
+ * @param key - Key of the array
+ * @returns Unquoted strings of the array, or [] if the key is missing
+ */
+export function getTomlArray(tableBody: string, key: string): string[] {
+  const value = getTomlEntries(tableBody).find(([entryKey]) => entryKey === key)?.[1];
+  return value !== undefined && value.startsWith('[') ? getQuotedStrings(value) : [];
+}
+
+/**
+ * Get all string values of a TOML table body
+ *
+ * @param tableBody - Table body from `getTomlTable`
+ * @returns Unquoted values of the keys whose value is a string
+ */
+export function getTomlStrings(tableBody: string): string[] {
+  return getTomlEntries(tableBody)
+    .filter(([, value]) => /^["']/.test(value))
+    .map(([, value]) => getQuotedStrings(value)[0]!)
+    .filter(value => value !== undefined);
+}
+
+/**
+ * Extract the items of a top-level YAML list such as `packages:` in `pnpm-workspace.yaml`
+ *
+ * @param source - YAML document
+ * @param key - Top-level key of the list
+ * @returns Unquoted list items
+ */
+export function extractYamlList(source: string, key: string): string[] {
+  const items: string[] = [];
+  let inList = false;
+
+  for (const line of source.split('\n')) {
+    if (/^\S/.test(line)) {
+      inList = new RegExp(`^${key}\\s*:\\s*$`).test(line.trim());
+      continue;
+    }
+
+    const item = inList ? line.match(/^\s*-\s*(.+?)\s*(?:#.*)?$/) : null;
+    if (item) {
+      items.push(unquote(item[1]!));
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Extract the entries of a top-level YAML map such as `dependencies:` in `pubspec.yaml`
+ *
+ * Each child key maps to its inline value (`http: ^1.1.0`) or, for nested
+ * maps, to their `version:` value. Nested maps without a version, such as
+ * `flutter:` with `sdk: flutter` below it, map to ''.
+ *
+ * @param source - YAML document
+ * @param key - Top-level key of the map
+ * @returns Child keys with their values, unquoted
+ */
+export function extractYamlMap(source: string, key: string): Record<string, string> {
+  const entries: Record<string, string> = {};
+  let inMap = false;
+  let childIndent: number | undefined;
+  let currentKey: string | undefined;
+
+  for (const line of source.split('\n')) {
+    if (line.trim() === '' || line.trim().startsWith('#')) {
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    if (indent === 0) {
+      inMap = new RegExp(`^${key}\\s*:\\s*$`).test(line.trim());
+      childIndent = undefined;
+      continue;
+    }
+    if (!inMap) {
+      continue;
+    }
+
+    if (childIndent === undefined) {
+      childIndent = indent;
+    }
+
+    if (indent === childIndent) {
+      const child = line.trim().match(/^(['"]?)(.+?)\1\s*:\s*(.*?)\s*(?:#.*)?$/);
+      currentKey = child ? child[2]! : undefined;
+      if (child && currentKey) {
+        entries[currentKey] = unquote(child[3]!);
+      }
+    } else if (indent > childIndent && currentKey) {
+      const version = line.trim().match(/^version\s*:\s*(.+?)\s*(?:#.*)?$/);
+      if (version) {
+        entries[currentKey] = unquote(version[1]!);
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Get the quoted strings of a TOML value
+ */
+function getQuotedStrings(value: string): string[] {
+  return [...value.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g)].map(match => match[1] ?? match[2]!);
+}
+
+/**
+ * Count the brackets a TOML value leaves open
+ */
+function countBrackets(value: string): number {
+  const withoutStrings = value.replace(/"(?:[^"\\]|\\.)*"|'[^']*'/g, '').replace(/#.*$/, '');
+  return (withoutStrings.match(/[[{]/g) || []).length - (withoutStrings.match(/[\]}]/g) || []).length;
+}
+
+/**
+ * Remove matching quotes around a YAML scalar
+ */
+function unquote(value: string): string {
+  return value.replace(/^(['"])(.*)\1$/, '$2');
+}
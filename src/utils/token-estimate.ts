@@ -0,0 +1,39 @@
+/**
+ * Token Estimation Utilities
+ *
+ * Approximates how many tokens a language model tokenizer produces for a
+ * text, without shipping a tokenizer vocabulary. Words are split into
+ * chunks of about four characters, numbers into chunks of three digits, and
+ * every punctuation character and line break counts as one token. Spaces
+ * are merged into the following word, as BPE tokenizers do.
+ */
+
+/**
+ * Pieces of text that tokenize independently of their neighbours
+ */
+const TOKEN_PIECE_PATTERN = /[A-Za-z]+|\d+|\n|[^\sA-Za-z\d]/g;
+
+/**
+ * Estimate the number of tokens of a text
+ *
+ * The estimate is additive: the estimates of texts joined at line breaks
+ * add up to the estimate of the joined text.
+ *
+ * @param text - Text to estimate
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+
+  for (const [piece] of text.matchAll(TOKEN_PIECE_PATTERN)) {
+    if (/^[A-Za-z]/.test(piece)) {
+      tokens += Math.ceil(piece.length / 4);
+    } else if (/^\d/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else {
+      tokens += 1;
+    }
+  }
+
+  return tokens;
+}
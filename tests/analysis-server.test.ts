@@ -0,0 +1,242 @@
+/**
+ * Unit tests for the long-running analysis server
+ *
+ * These tests connect a client to the server over in-memory streams and
+ * verify that repository analyses run as jobs with progress notifications,
+ * that files, dependencies and symbols are answered from the cached result,
+ * that single files can be analyzed without a repository but not read from
+ * outside it, that only jobs with the same options are joined, that old
+ * results are evicted, that jobs can be cancelled, and that malformed
+ * requests get JSON-RPC errors.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm, symlink } from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { PassThrough } from 'node:stream';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { AnalysisServer } from '../src/server/analysis-server.js';
+import { setLogger, silentLogger } from '../src/utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+const FILES: Record<string, string> = {
+  'src/index.ts': `import { Store } from './store';
+
+export function start() {
+  return new Store().save();
+}
+`,
+  'src/store.ts': `export class Store {
+  save() {
+    return true;
+  }
+}
+
+export function save() {}
+`
+};
+
+/**
+ * In-memory JSON-RPC client
+ */
+class TestClient {
+  readonly messages: any[] = [];
+  private readonly input = new PassThrough();
+  private readonly waiters: Array<{ match: (message: any) => boolean; resolve: (message: any) => void }> = [];
+  private nextId = 1;
+
+  constructor(server: AnalysisServer) {
+    const output = {
+      write: (chunk: string) => {
+        for (const line of chunk.split('\n').filter(line => line)) {
+          const message = JSON.parse(line);
+          this.messages.push(message);
+          this.waiters.filter(waiter => waiter.match(message)).forEach(waiter => waiter.resolve(message));
+        }
+        return true;
+      }
+    };
+    server.connect(this.input, output);
+  }
+
+  send(line: string): void {
+    this.input.write(`${line}\n`);
+  }
+
+  request(method: string, params?: Record<string, unknown>): Promise<any> {
+    const id = this.nextId++;
+    this.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+    return this.waitFor(message => message.id === id);
+  }
+
+  waitFor(match: (message: any) => boolean): Promise<any> {
+    const seen = this.messages.find(match);
+    return seen ? Promise.resolve(seen) : new Promise(resolve => this.waiters.push({ match, resolve }));
+  }
+}
+
+describe('AnalysisServer', () => {
+  let repoPath: string;
+  let server: AnalysisServer;
+  let client: TestClient;
+
+  beforeAll(async () => {
+    setLogger(silentLogger);
+    repoPath = await mkdtemp(join(tmpdir(), 'analysis-server-'));
+    for (const [filePath, content] of Object.entries(FILES)) {
+      await mkdir(dirname(join(repoPath, filePath)), { recursive: true });
+      await writeFile(join(repoPath, filePath), content);
+    }
+
+    for (const args of [
+      ['init'],
+      ['config', 'user.email', 'test@example.com'],
+      ['config', 'user.name', 'Test User'],
+      ['add', '.'],
+      ['commit', '-m', 'Initial commit']
+    ]) {
+      await execFileAsync('git', args, { cwd: repoPath });
+    }
+
+    server = new AnalysisServer();
+    await server.start();
+    client = new TestClient(server);
+  });
+
+  afterAll(async () => {
+    setLogger(undefined);
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('should run a repository analysis as a job with progress notifications', async () => {
+    const response = await client.request('analyzeRepository', { repository: repoPath });
+    const jobId = response.result.job_id;
+    const completed = await client.waitFor(message => message.method === 'job.completed');
+
+    expect(jobId).toBe('job-1');
+    expect(completed.params).toMatchObject({ job_id: jobId, summary: { total_files: 2 } });
+
+    const jobMessages = client.messages.filter(message => message.params?.job_id === jobId);
+    expect(client.messages.indexOf(response)).toBeLessThan(client.messages.indexOf(jobMessages[0]));
+    expect(jobMessages.filter(message => message.method === 'job.phase').map(message => message.params.phase))
+      .toEqual(['discovering', 'reading', 'analyzing', 'detecting', 'aggregating', 'complete']);
+    expect(jobMessages.some(message => message.method === 'job.progress' && message.params.current === 'Analyzing src/store.ts'))
+      .toBe(true);
+  });
+
+  it('should answer queries from the cached result', async () => {
+    const analysis = await client.request('getFileAnalysis', { repository: repoPath, file: 'src/store.ts' });
+    expect(Object.keys(analysis.result.classes)).toEqual(['Store']);
+
+    const dependencies = await client.request('getDependencies', { file: 'src/store.ts' });
+    expect(dependencies.result.imported_by).toEqual(['src/index.ts']);
+
+    const symbols = await client.request('findSymbol', { name: 'save' });
+    expect(symbols.result).toEqual([
+      { file: 'src/store.ts', kind: 'function', signature: 'save()', line: 7 },
+      { file: 'src/store.ts', kind: 'method', signature: 'save()', class_name: 'Store', line: 2 }
+    ]);
+
+    const method = await client.request('findSymbol', { name: 'Store.save' });
+    expect(method.result).toHaveLength(1);
+
+    const missing = await client.request('getFileAnalysis', { repository: '/tmp/not-analyzed', file: 'a.ts' });
+    expect(missing.error).toEqual({ code: -32000, message: 'Repository has not been analyzed: /tmp/not-analyzed' });
+  });
+
+  it('should analyze a single file from its content', async () => {
+    const response = await client.request('analyzeFile', {
+      file: 'util.py',
+      content: 'def greet(name):\n    return name\n'
+    });
+
+    expect(response.result.language).toBe('python');
+    expect(Object.keys(response.result.functions)).toEqual(['greet(name)']);
+  });
+
+  it('should not read files outside the repository', async () => {
+    const outside = await mkdtemp(join(tmpdir(), 'analysis-server-outside-'));
+    await writeFile(join(outside, 'secret.py'), 'def secret():\n    pass\n');
+    await symlink(join(outside, 'secret.py'), join(repoPath, 'link.py'));
+
+    try {
+      const inside = await client.request('analyzeFile', { repository: repoPath, file: 'src/store.ts' });
+      expect(Object.keys(inside.result.classes)).toEqual(['Store']);
+
+      for (const file of [join(outside, 'secret.py'), '../secret.py', 'src/../../secret.py', 'link.py']) {
+        const response = await client.request('analyzeFile', { repository: repoPath, file });
+        expect(response.error).toEqual({ code: -32602, message: `File is outside the repository: ${file}` });
+      }
+    } finally {
+      await rm(join(repoPath, 'link.py'));
+      await rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('should join a running job only when the options match', async () => {
+    const first = await client.request('analyzeRepository', { repository: repoPath, options: { use_cache: false } });
+    const same = await client.request('analyzeRepository', { repository: repoPath, options: { use_cache: false } });
+    const other = await client.request('analyzeRepository', { repository: repoPath, options: { use_cache: false, limit: 1 } });
+
+    expect(same.result.job_id).toBe(first.result.job_id);
+    expect(other.result.job_id).not.toBe(first.result.job_id);
+
+    const done = (jobId: string) => client.waitFor(message => message.method === 'job.completed' && message.params.job_id === jobId);
+    expect((await done(first.result.job_id)).params.summary.total_files).toBe(2);
+    expect((await done(other.result.job_id)).params.summary.total_files).toBe(1);
+  });
+
+  it('should evict the results of the least recently used repositories', async () => {
+    const otherRepoPath = await mkdtemp(join(tmpdir(), 'analysis-server-other-'));
+    await writeFile(join(otherRepoPath, 'main.py'), 'def main():\n    pass\n');
+    for (const args of [
+      ['init'],
+      ['config', 'user.email', 'test@example.com'],
+      ['config', 'user.name', 'Test User'],
+      ['add', '.'],
+      ['commit', '-m', 'Initial commit']
+    ]) {
+      await execFileAsync('git', args, { cwd: otherRepoPath });
+    }
+
+    try {
+      const smallServer = new AnalysisServer(1);
+      const smallClient = new TestClient(smallServer);
+      for (const repository of [repoPath, otherRepoPath]) {
+        const { result } = await smallClient.request('analyzeRepository', { repository });
+        await smallClient.waitFor(message => message.method === 'job.completed' && message.params.job_id === result.job_id);
+      }
+
+      expect((await smallClient.request('getFileAnalysis', { repository: otherRepoPath, file: 'main.py' })).result.path)
+        .toBe('main.py');
+      expect((await smallClient.request('getFileAnalysis', { repository: repoPath, file: 'src/store.ts' })).error)
+        .toEqual({ code: -32000, message: `Repository has not been analyzed: ${repoPath}` });
+    } finally {
+      await rm(otherRepoPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should cancel a running job', async () => {
+    const response = await client.request('analyzeRepository', { repository: repoPath, options: { use_cache: false } });
+    const jobId = response.result.job_id;
+    const cancel = await client.request('cancel', { job_id: jobId });
+    const failed = await client.waitFor(message => message.method === 'job.failed' && message.params.job_id === jobId);
+
+    expect(cancel.result).toEqual({ cancelled: true });
+    expect(failed.params).toEqual({ job_id: jobId, message: 'Analysis was cancelled', cancelled: true });
+    expect((await client.request('cancel', { job_id: jobId })).result).toEqual({ cancelled: false });
+  });
+
+  it('should answer malformed requests with JSON-RPC errors', async () => {
+    client.send('{"jsonrpc":"2.0","id":"bad",');
+    client.send('{"jsonrpc":"2.0","id":"no-method"}');
+
+    expect((await client.waitFor(message => message.error?.code === -32700)).id).toBeNull();
+    expect((await client.waitFor(message => message.id === 'no-method')).error.code).toBe(-32600);
+    expect((await client.request('unknownMethod')).error).toEqual({ code: -32601, message: 'Method not found: unknownMethod' });
+    expect((await client.request('findSymbol', {})).error.code).toBe(-32602);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for analyzing the working tree, the index or a commit
+ *
+ * These tests build a repository whose HEAD, index and working tree all
+ * differ, and verify that each source analyzes its own files with its own
+ * contents, that commit sources read files and manifests from the object
+ * database, that unreadable files and unknown commits are reported, and
+ * that reading can be cancelled between files.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { analyzeRepository, analyzeRepositoryIncremental } from '../src/index.js';
+import { GitProcessor } from '../src/core/git-processor.js';
+import { setLogger, silentLogger } from '../src/utils/logger.js';
+import type { AnalysisResult, FileAnalysis } from '../src/types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+function getFile(result: AnalysisResult, path: string): FileAnalysis | undefined {
+  return Object.values(result.folder_structure).flat().find(file => file.path === path);
+}
+
+function getFunctions(result: AnalysisResult, path: string): string[] {
+  return Object.keys(getFile(result, path)?.functions || {});
+}
+
+describe('Analysis sources', () => {
+  let repoPath: string;
+  let firstCommit: string;
+
+  async function writeRepoFile(filePath: string, content: string): Promise<void> {
+    await mkdir(dirname(join(repoPath, filePath)), { recursive: true });
+    await writeFile(join(repoPath, filePath), content);
+  }
+
+  async function git(...args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd: repoPath });
+    return stdout.trim();
+  }
+
+  beforeAll(async () => {
+    setLogger(silentLogger);
+    repoPath = await mkdtemp(join(tmpdir(), 'analysis-source-'));
+    await git('init');
+    await git('config', 'user.email', 'test@example.com');
+    await git('config', 'user.name', 'Test User');
+
+    // First commit
+    await writeRepoFile('.gitignore', 'dist/\n');
+    await writeRepoFile('package.json', JSON.stringify({ name: 'app', dependencies: { lodash: '^4.17.21' } }));
+    await writeRepoFile('src/a.ts', 'export function first() {}\n');
+    await git('add', '.');
+    await git('commit', '-m', 'First');
+    firstCommit = await git('rev-parse', 'HEAD');
+
+    // Second commit (HEAD)
+    await writeRepoFile('package.json', JSON.stringify({ name: 'app', dependencies: { react: '^18.0.0' } }));
+    await writeRepoFile('src/a.ts', 'export function first() {}\nexport function second() {}\n');
+    await writeRepoFile('src/b.ts', 'export function committed() {}\n');
+    await git('add', '.');
+    await git('commit', '-m', 'Second');
+
+    // Staged change, then unstaged changes on top
+    await writeRepoFile('src/b.ts', 'export function staged() {}\n');
+    await git('add', 'src/b.ts');
+    await writeRepoFile('src/b.ts', 'export function unstaged() {}\n');
+    await writeRepoFile('src/c.ts', 'export function untracked() {}\n');
+    await writeRepoFile('dist/bundle.js', 'export function ignored() {}\n');
+  });
+
+  afterAll(async () => {
+    setLogger(undefined);
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('should analyze the files of HEAD with working-tree contents by default', async () => {
+    const result = await analyzeRepository(repoPath);
+
+    expect(getFile(result, 'src/c.ts')).toBeUndefined();
+    expect(getFunctions(result, 'src/b.ts')).toEqual(['unstaged()']);
+    expect(result.metadata?.commit).toBe(await git('rev-parse', 'HEAD'));
+  });
+
+  it('should include untracked but not ignored files of the working tree', async () => {
+    const result = await analyzeRepository(repoPath, { source: 'worktree' });
+
+    expect(getFunctions(result, 'src/b.ts')).toEqual(['unstaged()']);
+    expect(getFunctions(result, 'src/c.ts')).toEqual(['untracked()']);
+    expect(getFile(result, 'dist/bundle.js')).toBeUndefined();
+    expect(result.metadata?.commit).toBeUndefined();
+  });
+
+  it('should analyze staged contents from the index', async () => {
+    const result = await analyzeRepository(repoPath, { source: 'index' });
+
+    expect(getFunctions(result, 'src/b.ts')).toEqual(['staged()']);
+    expect(getFile(result, 'src/c.ts')).toBeUndefined();
+    expect(result.metadata?.commit).toBeUndefined();
+  });
+
+  it('should analyze a commit without checking it out', async () => {
+    const result = await analyzeRepository(repoPath, { source: { commit: 'HEAD~1' } });
+
+    expect(result.summary.total_files).toBe(3);
+    expect(getFunctions(result, 'src/a.ts')).toEqual(['first()']);
+    expect(getFile(result, 'src/b.ts')).toBeUndefined();
+    expect(result.packages_declared?.dependencies.map(dependency => dependency.name)).toEqual(['lodash']);
+    expect(result.metadata?.commit).toBe(firstCommit);
+  });
+
+  it('should re-analyze incrementally up to a source commit', async () => {
+    const first = await analyzeRepository(repoPath, { source: { commit: firstCommit } });
+    const result = await analyzeRepositoryIncremental(repoPath, first, { source: { commit: 'HEAD' }, use_cache: false });
+
+    expect(getFunctions(result, 'src/b.ts')).toEqual(['committed()']);
+    expect(result.metadata?.incremental).toMatchObject({ base_commit: firstCommit, changed_files: 3 });
+  });
+
+  it('should re-read files edited in the previous run when comparing against a commit', async () => {
+    const head = await analyzeRepository(repoPath);
+    expect(head.metadata?.uncommitted_files).toContain('src/b.ts');
+
+    const result = await analyzeRepositoryIncremental(repoPath, head, { source: { commit: 'HEAD' }, use_cache: false });
+
+    expect(getFunctions(result, 'src/b.ts')).toEqual(['committed()']);
+    expect(result.metadata?.uncommitted_files).toBeUndefined();
+  });
+
+  it('should report unknown commits and unreadable files', async () => {
+    const result = await analyzeRepository(repoPath, { source: { commit: 'no-such-branch' } });
+    expect(result.metadata?.error).toBe('Unknown commit: no-such-branch');
+
+    const contents = await new GitProcessor(repoPath).readFiles(
+      ['src/a.ts', 'src/missing.ts', 'package.json'],
+      { commit: firstCommit },
+      { maxFileSize: 40 }
+    );
+    expect([...contents.keys()]).toEqual(['src/a.ts', 'src/missing.ts', 'package.json']);
+    expect(contents.get('src/a.ts')).toBe('export function first() {}\n');
+    expect((contents.get('src/missing.ts') as Error).message).toBe(`File not found in commit ${firstCommit}: src/missing.ts`);
+    expect((contents.get('package.json') as Error).name).toBe('file_too_large');
+  });
+
+  it('should read staged files whose names contain spaces', async () => {
+    await writeRepoFile('src/with space.ts', 'export function spaced() {}\n');
+    await git('add', 'src/with space.ts');
+
+    const contents = await new GitProcessor(repoPath).readFiles(['src/with space.ts', 'src/missing blob 5'], 'index');
+
+    expect(contents.get('src/with space.ts')).toBe('export function spaced() {}\n');
+    expect((contents.get('src/missing blob 5') as Error).name).toBe('not_found');
+  });
+
+  it('should stop reading files once cancelled', async () => {
+    const controller = new AbortController();
+    const read: string[] = [];
+
+    await expect(new GitProcessor(repoPath).readFiles(['src/a.ts', 'src/b.ts', 'package.json'], 'index', {
+      signal: controller.signal,
+      onProgress: (_completed, _total, filePath) => {
+        read.push(filePath);
+        controller.abort();
+      }
+    })).rejects.toThrow('File processing was cancelled');
+    expect(read).toEqual(['src/a.ts']);
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Unit tests for FastAPI, Flask and Next.js endpoint detection
+ *
+ * These tests analyze small FastAPI and Flask projects whose routers and
+ * blueprints are mounted across files, and verify that every endpoint is
+ * reported with its method, its route including all mount prefixes and
+ * its framework, for both the Tree-sitter and the regex analyzer. A
+ * Next.js app checks file-system routes, route handlers and server actions.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { PythonAnalyzer } from '../src/parsers/python-analyzer.js';
+import { BabelAnalyzer } from '../src/parsers/babel-analyzer.js';
+import { TreeSitterManager } from '../src/parsers/tree-sitter-manager.js';
+import { ApiDetector } from '../src/patterns/api-detector.js';
+import { FrameworkDetector } from '../src/patterns/framework-detector.js';
+import { OpenApiExporter } from '../src/core/openapi-exporter.js';
+import type { FileAnalysis } from '../src/types/index.js';
+
+const FASTAPI_PROJECT: Record<string, string> = {
+  'app/__init__.py': '',
+  'app/main.py': `
+from fastapi import FastAPI
+from app.api import api_router
+from app.routers import health
+
+app = FastAPI(title="Shop")
+app.include_router(api_router, prefix="/api/v1")
+app.include_router(health.router)
+
+
+@app.get("/")
+async def root():
+    return {}
+`,
+  'app/api.py': `
+from fastapi import APIRouter
+from .routers import items, users as user_routes
+
+api_router = APIRouter()
+api_router.include_router(items.router)
+api_router.include_router(
+    user_routes.router,
+    prefix="/users",
+    tags=["users"],
+)
+`,
+  'app/routers/__init__.py': '',
+  'app/routers/items.py': `
+from fastapi import APIRouter, Depends
+
+router = APIRouter(prefix="/items", dependencies=[Depends(verify_token)])
+
+
+@router.get("/{item_id}")
+async def read_item(item_id: int):
+    return {}
+
+
+@router.api_route("/", methods=["GET", "POST"])
+def list_or_create_items():
+    return []
+`,
+  'app/routers/users.py': `
+from fastapi import APIRouter
+
+router = APIRouter()
+
+
+@router.delete("/{user_id}", status_code=204)
+def remove_user(user_id: str):
+    pass
+`,
+  'app/routers/health.py': `
+from fastapi import APIRouter
+
+router = APIRouter(tags=["health"])
+
+
+@router.get("/healthz")
+def healthz():
+    return "ok"
+`
+};
+
+const FLASK_PROJECT: Record<string, string> = {
+  'shop/__init__.py': `
+from flask import Flask
+
+
+def create_app():
+    app = Flask(__name__)
+
+    from .auth import bp as auth_bp
+    from .api import api_bp
+    app.register_blueprint(auth_bp)
+    app.register_blueprint(api_bp, url_prefix="/api")
+
+    @app.route("/")
+    def index():
+        return "home"
+
+    return app
+`,
+  'shop/auth.py': `
+from flask import Blueprint
+
+bp = Blueprint("auth", __name__, url_prefix="/auth")
+
+
+@bp.route("/login", methods=["GET", "POST"])
+def login():
+    pass
+
+
+@bp.post("/logout")
+def logout():
+    pass
+`,
+  'shop/api/__init__.py': `
+from flask import Blueprint
+from .orders import orders_bp
+
+api_bp = Blueprint("api", __name__, url_prefix="/ignored")
+api_bp.register_blueprint(orders_bp)
+`,
+  'shop/api/orders.py': `
+from flask import Blueprint
+
+orders_bp = Blueprint("orders", __name__, url_prefix="/orders")
+
+
+@orders_bp.route("/<int:order_id>")
+def show_order(order_id):
+    pass
+`
+};
+
+async function analyzeProject(analyzer: PythonAnalyzer, files: Record<string, string>): Promise<Map<string, FileAnalysis>> {
+  const analyses = new Map<string, FileAnalysis>();
+  for (const [filePath, content] of Object.entries(files)) {
+    analyses.set(filePath, await analyzer.analyzePython(content, filePath));
+  }
+  return analyses;
+}
+
+function summarize(analyses: Map<string, FileAnalysis>, withHandlers = true): string[] {
+  return new ApiDetector()
+    .detectEndpoints(analyses)
+    .map(endpoint => `${endpoint.framework} ${endpoint.method} ${endpoint.route}` +
+      (withHandlers ? ` ${endpoint.handlerFunction}` : ''));
+}
+
+describe('ApiDetector FastAPI and Flask', () => {
+  let analyzer: PythonAnalyzer;
+
+  beforeAll(async () => {
+    const manager = new TreeSitterManager();
+    await manager.initialize();
+    analyzer = new PythonAnalyzer(manager);
+  });
+
+  it('should record routers and where they are included', async () => {
+    const api = await analyzer.analyzePython(FASTAPI_PROJECT['app/api.py']!, 'app/api.py');
+
+    expect(api.routers).toEqual([{ name: 'api_router', kind: 'APIRouter', line: 5 }]);
+    expect(api.router_includes).toEqual([
+      { parent: 'api_router', child: 'items.router', line: 6 },
+      { parent: 'api_router', child: 'user_routes.router', prefix: '/users', line: 7 }
+    ]);
+  });
+
+  it('should compose FastAPI include_router prefixes with router prefixes', async () => {
+    const analyses = await analyzeProject(analyzer, FASTAPI_PROJECT);
+
+    expect(summarize(analyses)).toEqual([
+      'FastAPI GET / root',
+      'FastAPI GET /healthz healthz',
+      'FastAPI GET /api/v1/items/{item_id} read_item',
+      'FastAPI GET /api/v1/items/ list_or_create_items',
+      'FastAPI POST /api/v1/items/ list_or_create_items',
+      'FastAPI DELETE /api/v1/users/{user_id} remove_user'
+    ]);
+
+    const readItem = new ApiDetector().detectEndpoints(analyses).find(endpoint => endpoint.handlerFunction === 'read_item');
+    expect(readItem).toMatchObject({
+      type: 'fastapi_get',
+      filePath: 'app/routers/items.py',
+      line: 8,
+      parameters: [{ name: 'item_id', type: 'int', required: true }]
+    });
+  });
+
+  it('should let register_blueprint url_prefix replace the blueprint prefix', async () => {
+    const analyses = await analyzeProject(analyzer, FLASK_PROJECT);
+
+    expect(summarize(analyses)).toEqual([
+      'Flask GET / create_app.index',
+      'Flask GET /api/orders/<int:order_id> show_order',
+      'Flask GET /auth/login login',
+      'Flask POST /auth/login login',
+      'Flask POST /auth/logout logout'
+    ]);
+  });
+
+  it('should find the same endpoints with the regex analyzer', async () => {
+    const regexAnalyzer = new PythonAnalyzer();
+
+    // The regex path does not qualify nested functions such as create_app.index
+    expect(summarize(await analyzeProject(regexAnalyzer, FLASK_PROJECT), false))
+      .toEqual(summarize(await analyzeProject(analyzer, FLASK_PROJECT), false));
+    expect(summarize(await analyzeProject(regexAnalyzer, FASTAPI_PROJECT)))
+      .toEqual(summarize(await analyzeProject(analyzer, FASTAPI_PROJECT)));
+  });
+
+  it('should detect FastAPI and Flask as frameworks', async () => {
+    const detector = new FrameworkDetector();
+    const fastapi = detector.detectFrameworks(await analyzeProject(analyzer, FASTAPI_PROJECT));
+    const flask = detector.detectFrameworks(await analyzeProject(analyzer, FLASK_PROJECT));
+
+    expect(fastapi.map(detection => detection.name)).toEqual(['FastAPI']);
+    expect(flask.map(detection => detection.name)).toEqual(['Flask']);
+  });
+});
+
+const NEXTJS_PROJECT: Record<string, string> = {
+  'app/api/users/[id]/route.ts': `import { NextResponse } from 'next/server';
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  return NextResponse.json({ id: params.id });
+}
+
+export const DELETE = async () => new Response(null, { status: 204 });
+`,
+  'app/(marketing)/blog/[...slug]/page.tsx': `export default function BlogPost() {
+  return <article />;
+}
+`,
+  'app/shop/[[...filters]]/page.tsx': `export default function Shop() {
+  return <main />;
+}
+`,
+  'app/dashboard/page.tsx': `import Link from 'next/link';
+
+export default function Dashboard() {
+  async function rename(formData: FormData) {
+    'use server';
+  }
+
+  return <form action={rename}><Link href="/" /></form>;
+}
+`,
+  'app/dashboard/_components/Chart.tsx': `export default function Chart() {
+  return <svg />;
+}
+`,
+  'app/actions.ts': `'use server';
+
+export async function createPost(formData: FormData) {}
+
+async function audit() {}
+`,
+  'pages/_app.tsx': `export default function App({ Component, pageProps }) {
+  return <Component {...pageProps} />;
+}
+`,
+  'pages/index.tsx': `export default function Home() {
+  return <h1>Home</h1>;
+}
+`,
+  'pages/posts/[id].tsx': `export default function Post() {
+  return <article />;
+}
+`,
+  'pages/api/legacy.ts': `export default function handler(req, res) {
+  res.status(200).end();
+}
+`
+};
+
+describe('ApiDetector Next.js', () => {
+  let analyses: Map<string, FileAnalysis>;
+
+  beforeAll(async () => {
+    const analyzer = new BabelAnalyzer();
+    analyses = new Map();
+    for (const [filePath, content] of Object.entries(NEXTJS_PROJECT)) {
+      analyses.set(filePath, await analyzer.parseJavaScript(content, 'typescript', filePath));
+    }
+  });
+
+  it('should record exports and use server directives', () => {
+    expect(analyses.get('app/api/users/[id]/route.ts')).toMatchObject({
+      exports: ['GET', 'DELETE'],
+      export_lines: { GET: 3, DELETE: 7 }
+    });
+    expect(analyses.get('app/actions.ts')!.directives).toEqual(['use server']);
+    expect(analyses.get('app/dashboard/page.tsx')!.functions!['rename(formData)']!.directives).toEqual(['use server']);
+  });
+
+  it('should map route handlers, API routes, pages and server actions', () => {
+    const endpoints = new ApiDetector().detectEndpoints(analyses);
+
+    expect(endpoints.map(endpoint =>
+      [endpoint.type, endpoint.method ?? '-', endpoint.route ?? '-', endpoint.handlerFunction].join(' ')
+    )).toEqual([
+      'nextjs_page - /blog/{slug} default',
+      'nextjs_server_action - - createPost',
+      'nextjs_route_handler GET /api/users/{id} GET',
+      'nextjs_route_handler DELETE /api/users/{id} DELETE',
+      'nextjs_page - /dashboard default',
+      'nextjs_server_action - - rename',
+      'nextjs_page - /shop/{filters} default',
+      'nextjs_api_route - /api/legacy default',
+      'nextjs_page - / default',
+      'nextjs_page - /posts/{id} default'
+    ]);
+
+    expect(endpoints.find(endpoint => endpoint.route === '/shop/{filters}')!.parameters)
+      .toEqual([{ name: 'filters', type: 'path', required: false }]);
+    expect(endpoints.every(endpoint => endpoint.framework === 'Next.js')).toBe(true);
+  });
+
+  it('should export route handlers to OpenAPI and skip UI routes', () => {
+    const document = new OpenApiExporter().exportEndpoints(new ApiDetector().detectEndpoints(analyses));
+
+    expect(Object.keys(document.paths)).toEqual(['/api/users/{id}']);
+    expect(document.paths['/api/users/{id}']!.get!.operationId).toBe('get_api_users_id_');
+  });
+
+  it('should not treat app or pages folders as routes outside Next.js apps', () => {
+    const routeFile = analyses.get('app/api/users/[id]/route.ts')!;
+    const plain = new Map([[routeFile.path, { ...routeFile, imports: {} }]]);
+
+    expect(new ApiDetector().detectEndpoints(plain)).toEqual([]);
+  });
+
+  it('should detect Next.js as a framework', () => {
+    const detections = new FrameworkDetector().detectFrameworks(analyses);
+    expect(detections.map(detection => detection.name)).toContain('Next.js');
+  });
+});
@@ -407,4 +407,134 @@ describe('BabelAnalyzer', () => {
       expect(imports['__exports__']).toContain('default');
     });
   });
+  describe('function-level patterns', () => {
+    it('should record React state changes with line numbers', async () => {
+      const code = [
+        "import React, { useState, useReducer } from 'react';",
+        'function Counter() {',
+        '  const [count, setCount] = useState(0);',
+        '  const [state, dispatch] = useReducer(reducer, {});',
+        '  const increment = () => setCount(count + 1);',
+        "  dispatch({ type: 'RESET' });",
+        '  setTimeout(increment, 10);',
+        '  return <button onClick={increment}>{count}</button>;',
+        '}'
+      ].join('\n');
+
+      const result = await analyzer.parseJavaScript(code, 'javascript', 'Counter.jsx');
+
+      expect(result.error).toBeUndefined();
+      const counter = result.functions!['Counter()'];
+      expect(counter.state_changes).toEqual([
+        { snippet: '[count, setCount] = useState(0)', line: 3 },
+        { snippet: '[state, dispatch] = useReducer(reducer, {})', line: 4 },
+        { snippet: "dispatch({ type: 'RESET' })", line: 6 }
+      ]);
+      expect(counter.event_handlers).toEqual([{ snippet: 'onClick={increment}', line: 8 }]);
+
+      // Calls inside a nested named function belong to that function
+      expect(result.functions!['increment()'].state_changes).toEqual([{ snippet: 'setCount(count + 1)', line: 5 }]);
+    });
+
+    it('should record this.setState calls in class methods', async () => {
+      const code = [
+        "import React from 'react';",
+        'class Toggle extends React.Component {',
+        '  flip() {',
+        '    this.setState({ on: !this.state.on });',
+        '  }',
+        '}'
+      ].join('\n');
+
+      const result = await analyzer.parseJavaScript(code, 'javascript', 'Toggle.jsx');
+
+      expect(result.classes!['Toggle'].methods['flip()'].state_changes).toEqual([
+        { snippet: 'this.setState({ on: !this.state.on })', line: 4 }
+      ]);
+    });
+
+    it('should record DOM and Electron IPC listeners', async () => {
+      const code = [
+        "import { ipcMain, ipcRenderer } from 'electron';",
+        'function setupIpc() {',
+        "  ipcMain.handle('load-file', async (event, path) => read(path));",
+        "  window.addEventListener('resize', onResize);",
+        "  ipcRenderer.on('file-saved', () => {});",
+        "  ipcRenderer.send('ping');",
+        '}'
+      ].join('\n');
+
+      const result = await analyzer.parseJavaScript(code, 'javascript', 'ipc.js');
+
+      expect(result.functions!['setupIpc()'].event_handlers).toEqual([
+        { snippet: "ipcMain.handle('load-file', ...)", line: 3 },
+        { snippet: "window.addEventListener('resize', onResize)", line: 4 },
+        { snippet: "ipcRenderer.on('file-saved', ...)", line: 5 }
+      ]);
+    });
+
+    it('should record route registrations inside functions and at module level', async () => {
+      const code = [
+        "import express from 'express';",
+        'const app = express();',
+        "app.get('/users/:id', (req, res) => res.json({}));",
+        'function registerRoutes() {',
+        '  const router = express.Router();',
+        "  router.post('/users', createUser);",
+        "  cache.get('/not-a-route');",
+        '}'
+      ].join('\n');
+
+      const result = await analyzer.parseJavaScript(code, 'javascript', 'server.js');
+
+      expect(result.api_endpoints).toEqual([
+        { type: 'express_route', method: 'GET', route: '/users/:id', line: 3 }
+      ]);
+      expect(result.functions!['registerRoutes()'].api_endpoints).toEqual([
+        { type: 'express_route', method: 'POST', route: '/users', line: 6 }
+      ]);
+    });
+
+    it('should record routes on required routers and typed parameters', async () => {
+      const code = [
+        "import type { Express } from 'express';",
+        "const { Router } = require('express');",
+        'const router = Router();',
+        "router.delete('/users/:id', removeUser);",
+        'export function mount(app: Express, other) {',
+        "  app.put('/settings', saveSettings);",
+        "  other.get('/untyped', handler);",
+        '}'
+      ].join('\n');
+
+      const result = await analyzer.parseJavaScript(code, 'typescript', 'routes.ts');
+
+      expect(result.api_endpoints).toEqual([
+        { type: 'express_route', method: 'DELETE', route: '/users/:id', line: 4 }
+      ]);
+      expect(result.functions!['mount(app, other)'].api_endpoints).toEqual([
+        { type: 'express_route', method: 'PUT', route: '/settings', line: 6 }
+      ]);
+    });
+
+    it('should not report HTTP client calls or map lookups as routes', async () => {
+      const code = [
+        "import express from 'express';",
+        "import axios from 'axios';",
+        'const app = express();',
+        'export function load(cfg) {',
+        "  axios.get('/api/users', cfg);",
+        "  axios.post('/api/users', { name: 'a' });",
+        "  new Map().get('/x', 1);",
+        '  const cache = new Map();',
+        "  cache.get('/y', 2);",
+        '}'
+      ].join('\n');
+
+      const result = await analyzer.parseJavaScript(code, 'javascript', 'client.js');
+
+      expect(result.api_endpoints).toBeUndefined();
+      expect(result.functions!['load(cfg)'].api_endpoints).toEqual([]);
+    });
+  });
 });
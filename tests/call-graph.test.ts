@@ -0,0 +1,128 @@
+/**
+ * Unit tests for the symbol-level call graph
+ *
+ * These tests analyze a small TypeScript module importing another through
+ * named, default and namespace imports, and verify that the analyzer records
+ * the calls made in each function and method, that the aggregated call graph
+ * links them to the functions, methods and classes they invoke, that calls
+ * of repository symbols that match nothing are listed as unresolved, and
+ * that callers and callees can be looked up by symbol.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { BabelAnalyzer } from '../src/parsers/babel-analyzer.js';
+import { ResultsAggregator } from '../src/core/results-aggregator.js';
+import { CallGraphIndex } from '../src/core/call-graph.js';
+import type { AnalysisResult, FileAnalysis } from '../src/types/index.js';
+
+const FILES: Record<string, string> = {
+  'src/utils/format.ts': `export function formatPrice(value: number): string {
+  return currency(value).toFixed(2);
+}
+
+function currency(value: number) {
+  return value / 100;
+}
+
+export default function slugify(text: string) {
+  return text.toLowerCase();
+}
+`,
+  'src/services/cart.ts': `import slugify, { formatPrice as price } from '../utils/format';
+import * as format from '../utils/format';
+import { missing } from '../utils/format';
+import { debounce } from 'lodash';
+
+export class Cart {
+  static create() {
+    return new Cart();
+  }
+
+  total(items: number[]) {
+    const sum = items.reduce((a, b) => a + b, 0);
+    console.log(sum);
+    this.log(sum);
+    return price(sum);
+  }
+
+  label(name: string) {
+    this.refresh();
+    return format.formatPrice(1) + slugify(name);
+  }
+
+  log(value: number) {
+    debounce(() => missing(value), 10)();
+  }
+}
+
+export function checkout() {
+  const cart = Cart.create();
+  return cart.total([1]);
+}
+`
+};
+
+describe('Call graph', () => {
+  let analyses: Map<string, FileAnalysis>;
+  let result: AnalysisResult;
+
+  beforeAll(async () => {
+    const analyzer = new BabelAnalyzer();
+    analyses = new Map();
+    for (const [filePath, content] of Object.entries(FILES)) {
+      analyses.set(filePath, await analyzer.parseJavaScript(content, 'typescript', filePath));
+    }
+
+    result = new ResultsAggregator({ repositoryPath: '/tmp/shop' })
+      .aggregateFileAnalyses(analyses, [], [], [], [], Date.now());
+  });
+
+  it('should record calls of imported and same-file functions with their import', () => {
+    const cart = analyses.get('src/services/cart.ts')!;
+
+    expect(cart.classes!['Cart']!.methods['label(name)']!.calls).toEqual([
+      { callee: 'this.refresh', line: 19 },
+      { callee: 'format.formatPrice', line: 20, source: '../utils/format', imported: '*' },
+      { callee: 'slugify', line: 20, source: '../utils/format', imported: 'default' }
+    ]);
+    expect(cart.classes!['Cart']!.methods['total(items)']!.calls).toEqual([
+      { callee: 'this.log', line: 14 },
+      { callee: 'price', line: 15, source: '../utils/format', imported: 'formatPrice' }
+    ]);
+    expect(cart.functions!['checkout()']!.calls).toEqual([{ callee: 'Cart.create', line: 29 }]);
+    expect(cart.classes!['Cart']!.methods['create()']).not.toHaveProperty('calls');
+    expect(analyses.get('src/utils/format.ts')!.default_export).toBe('slugify');
+  });
+
+  it('should link calls to the functions, methods and classes they invoke', () => {
+    expect(result.call_graph!.edges.map(edge => `${edge.caller} -> ${edge.callee}:${edge.line}`).sort()).toEqual([
+      'src/services/cart.ts#Cart.label -> src/utils/format.ts#formatPrice:20',
+      'src/services/cart.ts#Cart.label -> src/utils/format.ts#slugify:20',
+      'src/services/cart.ts#Cart.total -> src/services/cart.ts#Cart.log:14',
+      'src/services/cart.ts#Cart.total -> src/utils/format.ts#formatPrice:15',
+      'src/services/cart.ts#checkout -> src/services/cart.ts#Cart.create:29',
+      'src/utils/format.ts#formatPrice -> src/utils/format.ts#currency:2'
+    ]);
+  });
+
+  it('should list calls of repository symbols that match nothing as unresolved', () => {
+    expect(result.call_graph!.unresolved).toEqual([
+      { caller: 'src/services/cart.ts#Cart.label', callee: 'this.refresh', line: 19 },
+      { caller: 'src/services/cart.ts#Cart.log', callee: 'missing', line: 24, source: '../utils/format' }
+    ]);
+  });
+
+  it('should look up the callers and callees of a symbol', () => {
+    const index = new CallGraphIndex(result.call_graph!);
+
+    expect(index.getCallers('src/utils/format.ts#formatPrice').map(edge => edge.caller)).toEqual([
+      'src/services/cart.ts#Cart.total',
+      'src/services/cart.ts#Cart.label'
+    ]);
+    expect(index.getCallees('checkout')).toEqual([
+      { caller: 'src/services/cart.ts#checkout', callee: 'src/services/cart.ts#Cart.create', line: 29 }
+    ]);
+    expect(index.getCallers('src/utils/format.ts#slugify')).toHaveLength(1);
+    expect(index.getCallees('src/utils/format.ts#slugify')).toEqual([]);
+  });
+});
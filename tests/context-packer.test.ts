@@ -0,0 +1,170 @@
+/**
+ * Unit tests for token-budgeted context packing
+ *
+ * These tests rank the files of a small shop repository by dependency-graph
+ * centrality, entry points, focus paths and a query, verify that packing
+ * shortens the lowest-ranked files first until the token estimate fits, and
+ * that the flat text output of a repository stays within its budget.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { BabelAnalyzer } from '../src/parsers/babel-analyzer.js';
+import { ResultsAggregator } from '../src/core/results-aggregator.js';
+import { ContextPacker } from '../src/core/context-packer.js';
+import { estimateTokens } from '../src/utils/token-estimate.js';
+import { analyzeRepositoryToText } from '../src/index.js';
+import type { AnalysisResult, FileAnalysis } from '../src/types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+const FILES: Record<string, string> = {
+  'src/index.ts': `import { Cart } from './cart/cart';
+import { formatPrice } from './utils/format';
+
+export function start() {
+  return formatPrice(new Cart().total());
+}
+`,
+  'src/cart/cart.ts': `import { formatPrice } from '../utils/format';
+import { applyDiscountCode } from './discount';
+
+/** Shopping cart holding the selected items */
+export class Cart {
+  total() {
+    return applyDiscountCode(100, 'WELCOME');
+  }
+
+  label() {
+    return formatPrice(this.total());
+  }
+}
+`,
+  'src/cart/discount.ts': `/**
+ * Reduce a price by the percentage a promotion grants
+ */
+export function applyDiscountCode(price: number, code: string) {
+  return code ? price * 0.9 : price;
+}
+`,
+  'src/utils/format.ts': `export function formatPrice(value: number): string {
+  return value.toFixed(2);
+}
+`,
+  'src/legacy/report.ts': `/** Print the monthly sales report */
+export function printReport(rows: string[]) {
+  return rows.join('\\n');
+}
+`
+};
+
+describe('ContextPacker', () => {
+  let result: AnalysisResult;
+
+  beforeAll(async () => {
+    const analyzer = new BabelAnalyzer();
+    const analyses = new Map<string, FileAnalysis>();
+    for (const [filePath, content] of Object.entries(FILES)) {
+      analyses.set(filePath, await analyzer.parseJavaScript(content, 'typescript', filePath));
+    }
+
+    result = new ResultsAggregator({ repositoryPath: '/tmp/shop' })
+      .aggregateFileAnalyses(analyses, [], [], [], [], Date.now());
+  });
+
+  it('should estimate tokens additively across lines', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('formatPrice(value)')).toBe(7);
+    expect(estimateTokens('year 2024')).toBe(3);
+    expect(estimateTokens('a\nb')).toBe(estimateTokens('a') + estimateTokens('\n') + estimateTokens('b'));
+  });
+
+  it('should rank central files and entry points first without focus or query', () => {
+    const ranked = new ContextPacker().rankFiles(result);
+
+    expect(ranked.map(file => file.path)).toEqual([
+      'src/index.ts',
+      'src/utils/format.ts',
+      'src/cart/cart.ts',
+      'src/cart/discount.ts',
+      'src/legacy/report.ts'
+    ]);
+    expect(ranked.at(-1)!.score).toBe(0);
+  });
+
+  it('should rank files matching the query or near the focus paths first', () => {
+    const byQuery = new ContextPacker({ query: 'How is a discount code applied?' }).rankFiles(result);
+    expect(byQuery[0]!.path).toBe('src/cart/discount.ts');
+
+    const byFocus = new ContextPacker({ focusPaths: ['./src/legacy/'] }).rankFiles(result);
+    expect(byFocus[0]!.path).toBe('src/legacy/report.ts');
+
+    const byImports = new ContextPacker({ focusPaths: ['src/cart/discount.ts'] }).rankFiles(result);
+    const importOrder = byImports.map(file => file.path);
+    expect(importOrder[0]).toBe('src/cart/discount.ts');
+    expect(importOrder.indexOf('src/cart/cart.ts')).toBeLessThan(importOrder.indexOf('src/utils/format.ts'));
+  });
+
+  it('should shorten the lowest-ranked files first until the budget fits', () => {
+    const ranked = ['a.ts', 'b.ts', 'c.ts'].map((path, index) => ({ path, score: 1 - index / 10 }));
+    const render = (path: string, detail: string) =>
+      detail === 'full' ? `${path}\n${'word '.repeat(20)}` : detail === 'signatures' ? `${path}\nsig` : path;
+    const packer = new ContextPacker();
+    const pack = (maxTokens: number) => packer.pack(ranked, render, maxTokens).map(file => `${file.path}:${file.detail}`);
+
+    expect(pack(1000)).toEqual(['a.ts:full', 'b.ts:full', 'c.ts:full']);
+    expect(pack(60)).toEqual(['a.ts:full', 'b.ts:full', 'c.ts:signatures']);
+    expect(pack(40)).toEqual(['a.ts:full', 'b.ts:signatures', 'c.ts:signatures']);
+    expect(pack(20)).toEqual(['a.ts:signatures', 'b.ts:signatures', 'c.ts:path']);
+    expect(pack(12)).toEqual(['a.ts:signatures', 'b.ts:path']);
+    expect(pack(0)).toEqual([]);
+
+    for (const maxTokens of [60, 40, 20, 12]) {
+      const total = packer.pack(ranked, render, maxTokens).reduce((sum, file) => sum + file.tokens, 0);
+      expect(total).toBeLessThanOrEqual(maxTokens);
+    }
+  });
+});
+
+describe('analyzeRepositoryToText with a token budget', () => {
+  let repoPath: string;
+
+  beforeAll(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), 'context-packer-'));
+    for (const [filePath, content] of Object.entries(FILES)) {
+      await mkdir(dirname(join(repoPath, filePath)), { recursive: true });
+      await writeFile(join(repoPath, filePath), content);
+    }
+
+    for (const args of [
+      ['init'],
+      ['config', 'user.email', 'test@example.com'],
+      ['config', 'user.name', 'Test User'],
+      ['add', '.'],
+      ['commit', '-m', 'Initial commit']
+    ]) {
+      await execFileAsync('git', args, { cwd: repoPath });
+    }
+  });
+
+  afterAll(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('should keep the most relevant files in full and fit the budget', async () => {
+    const unlimited = await analyzeRepositoryToText(repoPath);
+    const text = await analyzeRepositoryToText(repoPath, { maxTokens: 320, query: 'discount code' });
+
+    expect(unlimited).not.toContain('<context');
+    expect(estimateTokens(text)).toBeLessThanOrEqual(320);
+    expect(estimateTokens(text)).toBeLessThan(estimateTokens(unlimited));
+    expect(text).toMatch(/^<context budget="320" full="1" signatures="4" paths="0" omitted="0"\/>\n\n<file path="src\/cart\/discount.ts"\/>/);
+    expect(text).toContain('doc: Reduce a price by the percentage a promotion grants');
+    expect(text).toContain('<dependencies>\n\n  src/cart/discount.ts: __exports__\n\n</dependencies>');
+    expect(text).not.toContain('Print the monthly sales report');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for DartAnalyzer
+ *
+ * These tests validate Tree-sitter based extraction of Dart imports,
+ * functions, classes, annotations and Flutter setState calls, and that
+ * relative Dart imports end up in the dependency graph.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { DartAnalyzer } from '../src/parsers/dart-analyzer.js';
+import { TreeSitterManager } from '../src/parsers/tree-sitter-manager.js';
+import { ResultsAggregator } from '../src/core/results-aggregator.js';
+import { StateDetector } from '../src/patterns/state-detector.js';
+import type { FileAnalysis } from '../src/types/index.js';
+
+const COUNTER_PAGE = `
+import 'package:flutter/material.dart';
+import 'package:provider/provider.dart' show ChangeNotifierProvider, Consumer;
+import '../models/counter.dart' as model;
+import 'widgets/counter_label.dart';
+
+/// Entry point of the app
+void main() {
+  runApp(const CounterApp());
+}
+
+Future<int> loadInitialCount(String key, {int fallback = 0}) async {
+  return fallback;
+}
+
+class CounterPage extends StatefulWidget {
+  const CounterPage({Key? key}) : super(key: key);
+
+  @override
+  State<CounterPage> createState() => _CounterPageState();
+}
+
+@immutable
+@Deprecated('Use CounterPage')
+class _CounterPageState extends State<CounterPage> with TickerProviderStateMixin implements Listenable {
+  int _count = 0;
+
+  void _increment() {
+    setState(() {
+      _count++;
+    });
+  }
+
+  @override
+  Widget build(BuildContext context) {
+    return FloatingActionButton(onPressed: () => setState(() => _count = 0));
+  }
+}
+
+mixin Logging on Object {
+  void log(String message) {}
+}
+`;
+
+describe('DartAnalyzer', () => {
+  let manager: TreeSitterManager;
+  let analyzer: DartAnalyzer;
+
+  beforeAll(async () => {
+    manager = new TreeSitterManager();
+    await manager.initialize();
+    analyzer = new DartAnalyzer(manager);
+  });
+
+  it('should load the Dart grammar', () => {
+    expect(manager.hasParser('dart')).toBe(true);
+  });
+
+  it('should extract package and relative imports', async () => {
+    const result = await analyzer.analyzeDart(COUNTER_PAGE, 'lib/pages/counter_page.dart');
+
+    expect(result.language).toBe('dart');
+    expect(result.imports).toEqual({
+      'package:flutter/material.dart': ['*'],
+      'package:provider/provider.dart': ['ChangeNotifierProvider', 'Consumer'],
+      '../models/counter.dart': ['* as model'],
+      'widgets/counter_label.dart': ['*']
+    });
+  });
+
+  it('should extract top-level functions', async () => {
+    const result = await analyzer.analyzeDart(COUNTER_PAGE, 'lib/pages/counter_page.dart');
+
+    expect(Object.keys(result.functions!)).toEqual(['main()', 'loadInitialCount(key, fallback)']);
+    expect(result.functions!['main()']?.docstring).toBe('Entry point of the app');
+    expect(result.functions!['main()']?.line_number).toBe(8);
+    expect(result.functions!['loadInitialCount(key, fallback)']?.is_async).toBe(true);
+  });
+
+  it('should extract classes with base classes, annotations and methods', async () => {
+    const result = await analyzer.analyzeDart(COUNTER_PAGE, 'lib/pages/counter_page.dart');
+    const state = result.classes!['_CounterPageState']!;
+
+    expect(result.classes!['CounterPage']?.base_classes).toEqual(['StatefulWidget']);
+    expect(result.classes!['CounterPage']?.is_component).toBe(true);
+    expect(Object.keys(result.classes!['CounterPage']!.methods)).toEqual(['CounterPage(key)', 'createState()']);
+
+    expect(state.base_classes).toEqual(['State', 'TickerProviderStateMixin', 'Listenable']);
+    expect(state.decorators).toEqual([
+      { name: 'immutable', line_number: 23 },
+      { name: 'Deprecated', arguments: ["'Use CounterPage'"], line_number: 24 }
+    ]);
+    expect(Object.keys(state.methods)).toEqual(['_increment()', 'build(context)']);
+    expect(state.methods['build(context)']?.decorators).toEqual([{ name: 'override', line_number: 34 }]);
+
+    expect(result.classes!['Logging']?.base_classes).toEqual(['Object']);
+    expect(Object.keys(result.classes!['Logging']!.methods)).toEqual(['log(message)']);
+  });
+
+  it('should record setState calls as state changes with their line', async () => {
+    const result = await analyzer.analyzeDart(COUNTER_PAGE, 'lib/pages/counter_page.dart');
+    const methods = result.classes!['_CounterPageState']!.methods;
+
+    expect(methods['_increment()']?.state_changes).toEqual([{ snippet: 'setState(() { _count++; })', line: 29 }]);
+    expect(methods['build(context)']?.state_changes).toEqual([{ snippet: 'setState(() => _count = 0)', line: 36 }]);
+  });
+
+  it('should report setState calls as Flutter state patterns', async () => {
+    const result = await analyzer.analyzeDart(COUNTER_PAGE, 'lib/pages/counter_page.dart');
+    const patterns = new StateDetector()
+      .detectStatePatterns(new Map([[result.path, result]]))
+      .filter(pattern => pattern.framework === 'Flutter');
+
+    expect(patterns.map(pattern => [pattern.containerName, pattern.variable, pattern.line])).toEqual([
+      ['_CounterPageState._increment', '_count', 29],
+      ['_CounterPageState.build', '_count', 36]
+    ]);
+  });
+
+  it('should resolve relative Dart imports in the dependency graph', async () => {
+    const files: Record<string, string> = {
+      'lib/pages/counter_page.dart': COUNTER_PAGE,
+      'lib/pages/widgets/counter_label.dart': "import 'package:flutter/widgets.dart';\n",
+      'lib/models/counter.dart': 'class Counter {}\n'
+    };
+
+    const analyses = new Map<string, FileAnalysis>();
+    for (const [filePath, content] of Object.entries(files)) {
+      analyses.set(filePath, await analyzer.analyzeDart(content, filePath));
+    }
+
+    const aggregator = new ResultsAggregator({ repositoryPath: '/tmp/flutter-app' });
+    const result = aggregator.aggregateFileAnalyses(analyses, [], [], [], [], Date.now());
+
+    expect(result.dependencies['lib/pages/counter_page.dart']).toEqual([
+      'lib/models/counter.dart',
+      'lib/pages/widgets/counter_label.dart',
+      'package:flutter/material.dart',
+      'package:provider/provider.dart'
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for Electron process roles and the security audit
+ *
+ * These tests analyze a small Electron app whose main process loads its
+ * preload script through `webPreferences.preload`, and verify that every
+ * file gets the process it runs in, that files imported from several
+ * processes are shared, and that insecure window settings, untrusted
+ * `shell.openExternal` calls and `remote` usage are reported.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { BabelAnalyzer } from '../src/parsers/babel-analyzer.js';
+import { ResultsAggregator } from '../src/core/results-aggregator.js';
+import { FrameworkDetector } from '../src/patterns/framework-detector.js';
+import type { AnalysisResult, FileAnalysis } from '../src/types/index.js';
+
+const ELECTRON_APP: Record<string, string> = {
+  'src/main/index.ts': `import { app, BrowserWindow, shell } from 'electron';
+import { join } from 'path';
+import { createLogger } from '../shared/logger';
+import { loadSettings } from './settings';
+
+function createWindow() {
+  const win = new BrowserWindow({
+    width: 800,
+    webPreferences: {
+      preload: join(__dirname, '../preload/index.js'),
+      contextIsolation: false,
+      sandbox: false
+    }
+  });
+  win.webContents.setWindowOpenHandler(details => {
+    shell.openExternal(details.url);
+    return { action: 'deny' };
+  });
+  shell.openExternal('https://example.com/docs');
+}
+
+app.whenReady().then(createWindow);
+`,
+  'src/main/settings.ts': `export function loadSettings() {
+  return {};
+}
+`,
+  'src/main/devtools.ts': `import { BrowserWindow } from 'electron';
+
+export function openDevtools() {
+  return new BrowserWindow({ webPreferences: { nodeIntegration: true, webSecurity: false } });
+}
+`,
+  'src/preload/index.ts': `import { ipcRenderer } from 'electron';
+import { createLogger } from '../shared/logger';
+
+window.addEventListener('DOMContentLoaded', () => ipcRenderer.send('ready'));
+`,
+  'src/renderer/app.tsx': `import { createLogger } from '../shared/logger';
+
+export function App() {
+  return <div />;
+}
+`,
+  'src/renderer/legacy.ts': `import { remote } from 'electron';
+
+document.title = remote.app.getName();
+`,
+  'src/shared/logger.ts': `export function createLogger() {
+  return console;
+}
+`
+};
+
+async function analyzeApp(files: Record<string, string>): Promise<Map<string, FileAnalysis>> {
+  const analyzer = new BabelAnalyzer();
+  const analyses = new Map<string, FileAnalysis>();
+  for (const [filePath, content] of Object.entries(files)) {
+    analyses.set(filePath, await analyzer.parseJavaScript(content, 'typescript', filePath));
+  }
+  return analyses;
+}
+
+function aggregate(analyses: Map<string, FileAnalysis>): AnalysisResult {
+  return new ResultsAggregator({ repositoryPath: '/tmp/electron-app' })
+    .aggregateFileAnalyses(analyses, [], [], [], [], Date.now());
+}
+
+function getRoles(result: AnalysisResult): Record<string, string | undefined> {
+  return Object.fromEntries(
+    Object.values(result.folder_structure).flat().map(file => [file.path, file.process_role])
+  );
+}
+
+describe('ElectronDetector', () => {
+  let analyses: Map<string, FileAnalysis>;
+
+  beforeAll(async () => {
+    analyses = await analyzeApp(ELECTRON_APP);
+  });
+
+  it('should record windows, openExternal calls and DOM usage', () => {
+    const main = analyses.get('src/main/index.ts')!;
+
+    expect(main.browser_windows).toEqual([{
+      line: 7,
+      web_preferences: { contextIsolation: false, sandbox: false },
+      preload: '../preload/index.js'
+    }]);
+    expect(main.open_external_calls).toEqual([
+      { line: 16, argument: 'details.url', trusted: false },
+      { line: 19, argument: "'https://example.com/docs'", trusted: true }
+    ]);
+    expect(main.uses_dom).toBeUndefined();
+    expect(analyses.get('src/renderer/app.tsx')!.uses_dom).toBe(true);
+  });
+
+  it('should assign each file the process it runs in', () => {
+    expect(getRoles(aggregate(analyses))).toEqual({
+      'src/main/devtools.ts': 'main',
+      'src/main/index.ts': 'main',
+      'src/main/settings.ts': 'main',
+      'src/preload/index.ts': 'preload',
+      'src/renderer/app.tsx': 'renderer',
+      'src/renderer/legacy.ts': 'renderer',
+      'src/shared/logger.ts': 'shared'
+    });
+  });
+
+  it('should not assign roles outside Electron apps', async () => {
+    const webApp = await analyzeApp({
+      'src/app.tsx': ELECTRON_APP['src/renderer/app.tsx']!.replace('../shared/logger', './logger'),
+      'src/logger.ts': ELECTRON_APP['src/shared/logger.ts']!
+    });
+
+    expect(getRoles(aggregate(webApp))).toEqual({ 'src/app.tsx': undefined, 'src/logger.ts': undefined });
+  });
+
+  it('should report insecure windows, untrusted URLs and the remote module', () => {
+    expect(aggregate(analyses).electron_security).toEqual([
+      { rule: 'node_integration', file: 'src/main/devtools.ts', line: 4, evidence: 'nodeIntegration: true' },
+      { rule: 'web_security_disabled', file: 'src/main/devtools.ts', line: 4, evidence: 'webSecurity: false' },
+      { rule: 'context_isolation_disabled', file: 'src/main/index.ts', line: 7, evidence: 'contextIsolation: false' },
+      { rule: 'sandbox_disabled', file: 'src/main/index.ts', line: 7, evidence: 'sandbox: false' },
+      { rule: 'open_external_untrusted', file: 'src/main/index.ts', line: 16, evidence: 'shell.openExternal(details.url)' },
+      { rule: 'remote_module', file: 'src/renderer/legacy.ts', line: 1, evidence: "import { remote } from 'electron'" }
+    ]);
+  });
+
+  it('should detect Electron as a framework', () => {
+    const detections = new FrameworkDetector().detectFrameworks(analyses);
+    expect(detections.map(detection => detection.name)).toContain('Electron');
+  });
+});
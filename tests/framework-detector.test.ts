@@ -35,7 +35,7 @@ describe('FrameworkDetector', () => {
           functions: {
             'App()': {
               docstring: 'Main app component',
-              state_changes: ['useState'],
+              state_changes: [{ snippet: 'useState' }],
               event_handlers: [],
               api_endpoints: [],
               is_component: true
@@ -53,7 +53,7 @@ describe('FrameworkDetector', () => {
             'Button(props)': {
               docstring: 'Reusable button component',
               state_changes: [],
-              event_handlers: ['onClick'],
+              event_handlers: [{ snippet: 'onClick' }],
               api_endpoints: [],
               is_component: true
             }
@@ -83,7 +83,7 @@ describe('FrameworkDetector', () => {
           functions: {
             'useAuth()': {
               docstring: 'Authentication hook',
-              state_changes: ['useState'],
+              state_changes: [{ snippet: 'useState' }],
               event_handlers: [],
               api_endpoints: [],
               is_hook: true
@@ -308,7 +308,7 @@ describe('FrameworkDetector', () => {
           functions: {
             'App()': {
               docstring: '',
-              state_changes: ['useState'],
+              state_changes: [{ snippet: 'useState' }],
               event_handlers: [],
               api_endpoints: [],
               is_component: true
@@ -324,7 +324,7 @@ describe('FrameworkDetector', () => {
             'Button()': {
               docstring: '',
               state_changes: [],
-              event_handlers: ['onClick'],
+              event_handlers: [{ snippet: 'onClick' }],
               api_endpoints: [],
               is_component: true
             }
@@ -0,0 +1,284 @@
+/**
+ * Unit tests for GoAnalyzer
+ *
+ * These tests validate Tree-sitter based extraction of the Go package,
+ * imports, functions, structs, interfaces and methods grouped under their
+ * receiver types, that route registrations of net/http, Gorilla Mux, Gin,
+ * Echo and Chi are reported as API endpoints with their group prefixes and
+ * the framework of their own router, and that package imports resolve
+ * against the `go.mod` module path.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { GoAnalyzer } from '../src/parsers/go-analyzer.js';
+import { TreeSitterManager } from '../src/parsers/tree-sitter-manager.js';
+import { ImportResolver } from '../src/core/import-resolver.js';
+import { ResultsAggregator } from '../src/core/results-aggregator.js';
+import { ApiDetector } from '../src/patterns/api-detector.js';
+import type { FileAnalysis } from '../src/types/index.js';
+
+const STORE = `package store
+
+import (
+	"context"
+	"sync"
+
+	"example.com/shop/internal/model"
+)
+
+// Store keeps orders in memory.
+// It is safe for concurrent use.
+type Store struct {
+	*sync.Mutex
+	Logger
+	orders map[string]model.Order
+}
+
+type Logger interface {
+	io.Closer
+	Log(format string, args ...any)
+}
+
+// Get returns an order by id.
+func (s *Store) Get(ctx context.Context, id string) (model.Order, error) {
+	return s.orders[id], nil
+}
+
+func (s Store) Count() int { return len(s.orders) }
+
+func New[T any](opts ...T) *Store {
+	return &Store{}
+}
+`;
+
+const GIN_SERVER = `package main
+
+import (
+	"net/http"
+
+	"github.com/gin-gonic/gin"
+	"example.com/shop/internal/store"
+	yaml "gopkg.in/yaml.v3"
+)
+
+func main() {
+	r := gin.Default()
+	r.GET("/health", func(c *gin.Context) { c.Status(http.StatusOK) })
+
+	v1 := r.Group("/api/v1")
+	{
+		v1.GET("/orders/:id", getOrder)
+		orders := v1.Group("/orders", auth())
+		orders.POST("", createOrder)
+		orders.Any("/*path", proxy)
+		v1.Handle(http.MethodDelete, "/orders/:id", deleteOrder)
+	}
+	r.Run()
+}
+`;
+
+const CHI_ROUTES = `package api
+
+import (
+	"net/http"
+
+	"github.com/go-chi/chi/v5"
+)
+
+type Handler struct{}
+
+func (h *Handler) Routes() http.Handler {
+	r := chi.NewRouter()
+	r.Route("/users", func(r chi.Router) {
+		r.Get("/", h.listUsers)
+		r.With(paginate).Get("/search", h.searchUsers)
+		r.Route("/{userID}", func(r chi.Router) {
+			r.Put("/", h.updateUser)
+		})
+	})
+	r.Method("PATCH", "/settings", settingsHandler)
+	return r
+}
+`;
+
+const MUX_SERVER = `package main
+
+import (
+	"net/http"
+
+	"github.com/gorilla/mux"
+)
+
+func routes() {
+	r := mux.NewRouter()
+	r.HandleFunc("/items/{id:[0-9]+}", itemHandler).Methods("GET", http.MethodPost)
+	api := r.PathPrefix("/api").Subrouter()
+	api.HandleFunc("/ping", ping)
+	http.HandleFunc("GET /files/{path...}", serveFile)
+}
+`;
+
+describe('GoAnalyzer', () => {
+  let manager: TreeSitterManager;
+  let analyzer: GoAnalyzer;
+  let analyses: Map<string, FileAnalysis>;
+
+  beforeAll(async () => {
+    manager = new TreeSitterManager();
+    await manager.initialize();
+    analyzer = new GoAnalyzer(manager);
+
+    analyses = new Map();
+    const files: Record<string, string> = {
+      'internal/store/store.go': STORE,
+      'cmd/server/main.go': GIN_SERVER,
+      'internal/api/routes.go': CHI_ROUTES,
+      'cmd/legacy/main.go': MUX_SERVER
+    };
+    for (const [filePath, content] of Object.entries(files)) {
+      analyses.set(filePath, await analyzer.analyzeGo(content, filePath));
+    }
+  });
+
+  it('should load the Go grammar', () => {
+    expect(manager.hasParser('go')).toBe(true);
+  });
+
+  it('should extract the package and imports', () => {
+    const result = analyses.get('cmd/server/main.go')!;
+
+    expect(result.language).toBe('go');
+    expect(result.package).toBe('main');
+    expect(result.imports).toEqual({
+      'net/http': ['http'],
+      'github.com/gin-gonic/gin': ['gin'],
+      'example.com/shop/internal/store': ['store'],
+      'gopkg.in/yaml.v3': ['yaml']
+    });
+    expect(result.import_lines).toMatchObject({ 'net/http': 4, 'gopkg.in/yaml.v3': 8 });
+    expect(analyses.get('internal/api/routes.go')!.imports).toHaveProperty(['github.com/go-chi/chi/v5'], ['chi']);
+  });
+
+  it('should extract structs, interfaces, functions and methods grouped by receiver', () => {
+    const result = analyses.get('internal/store/store.go')!;
+
+    expect(Object.keys(result.classes!)).toEqual(['Store', 'Logger']);
+    expect(result.classes!['Store']).toMatchObject({
+      docstring: 'Store keeps orders in memory.\nIt is safe for concurrent use.',
+      base_classes: ['sync.Mutex', 'Logger'],
+      line_number: 12,
+      end_line_number: 16
+    });
+    expect(Object.keys(result.classes!['Store']!.methods)).toEqual(['Get(ctx, id)', 'Count()']);
+    expect(result.classes!['Store']!.methods['Get(ctx, id)']).toMatchObject({
+      docstring: 'Get returns an order by id.',
+      return_type: '(model.Order, error)',
+      line_number: 24
+    });
+    expect(result.classes!['Logger']).toMatchObject({ base_classes: ['io.Closer'] });
+    expect(Object.keys(result.classes!['Logger']!.methods)).toEqual(['Log(format, args)']);
+    expect(result.functions).toEqual({
+      'New(opts)': expect.objectContaining({ return_type: '*Store', line_number: 30 })
+    });
+  });
+
+  it('should report route registrations with their group prefixes', () => {
+    const endpoints = new ApiDetector().detectEndpoints(analyses);
+
+    expect(endpoints.map(endpoint =>
+      `${endpoint.framework} ${endpoint.method || endpoint.methods} ${endpoint.route} ${endpoint.handlerFunction}:${endpoint.line}`
+    )).toEqual(expect.arrayContaining([
+      'Gin GET /health main:13',
+      'Gin GET /api/v1/orders/:id getOrder:17',
+      'Gin POST /api/v1/orders createOrder:19',
+      'Gin Multiple /api/v1/orders/*path proxy:20',
+      'Gin DELETE /api/v1/orders/:id deleteOrder:21',
+      'Chi GET /users h.listUsers:14',
+      'Chi GET /users/search h.searchUsers:15',
+      'Chi PUT /users/{userID} h.updateUser:17',
+      'Chi PATCH /settings settingsHandler:20',
+      'Gorilla Mux GET /items/{id:[0-9]+} itemHandler:11',
+      'Gorilla Mux POST /items/{id:[0-9]+} itemHandler:11',
+      'Gorilla Mux Multiple /api/ping ping:13',
+      'net/http GET /files/{path...} serveFile:14'
+    ]));
+    expect(endpoints).toHaveLength(13);
+    expect(endpoints.find(endpoint => endpoint.route === '/users/{userID}')!.parameters)
+      .toEqual([{ name: 'userID', type: 'string', required: true }]);
+    expect(endpoints.find(endpoint => endpoint.route === '/api/v1/orders/:id')!.parameters)
+      .toEqual([{ name: 'id', type: 'string', required: true }]);
+  });
+
+  it('should take each router\'s framework from where the router comes from', async () => {
+    const code = `package main
+
+import (
+	"github.com/gin-gonic/gin"
+	"github.com/go-chi/chi/v5"
+	"github.com/gorilla/mux"
+)
+
+var legacy = mux.NewRouter()
+
+func main() {
+	r := gin.Default()
+	r.GET("/health", health)
+
+	api := chi.NewRouter()
+	api.Get("/users", listUsers)
+	api.Route("/orders", func(r chi.Router) {
+		r.Post("/", createOrder)
+	})
+
+	legacy.HandleFunc("/items", items).Methods("GET")
+}
+
+func mount(router *mux.Router, g *gin.RouterGroup) {
+	router.HandleFunc("/ping", ping).Methods("POST")
+	g.DELETE("/cache", clearCache)
+}
+`;
+    const analysis = await analyzer.analyzeGo(code, 'cmd/mixed/main.go');
+
+    expect(analysis.functions!['main()']!.api_endpoints.map(endpoint =>
+      `${endpoint.framework} ${endpoint.method} ${endpoint.route}`
+    )).toEqual([
+      'Gin GET /health',
+      'Chi GET /users',
+      'Chi POST /orders',
+      'Gorilla Mux GET /items'
+    ]);
+    expect(analysis.functions!['mount(router, g)']!.api_endpoints.map(endpoint =>
+      `${endpoint.framework} ${endpoint.method} ${endpoint.route}`
+    )).toEqual([
+      'Gorilla Mux POST /ping',
+      'Gin DELETE /cache'
+    ]);
+  });
+
+  it('should resolve package imports against the go.mod module path', async () => {
+    const repoPath = await mkdtemp(join(tmpdir(), 'go-module-'));
+    try {
+      await writeFile(join(repoPath, 'go.mod'), 'module example.com/shop\n\ngo 1.22\n');
+      const resolver = await ImportResolver.load(repoPath, ['go.mod', ...analyses.keys()]);
+      const withTest = new Map(analyses);
+      withTest.set('internal/store/store_test.go', await analyzer.analyzeGo('package store\n', 'internal/store/store_test.go'));
+
+      const result = new ResultsAggregator({ repositoryPath: repoPath, importResolver: resolver })
+        .aggregateFileAnalyses(withTest, [], [], [], [], Date.now());
+
+      expect(result.dependencies['cmd/server/main.go']).toEqual([
+        'github.com/gin-gonic/gin',
+        'gopkg.in/yaml.v3',
+        'internal/store/store.go',
+        'net/http'
+      ]);
+      expect(result.unresolved_imports?.['internal/store/store.go']).toEqual(['example.com/shop/internal/model']);
+    } finally {
+      await rm(repoPath, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Unit tests for ImportResolver
+ *
+ * These tests write small project layouts with tsconfig/jsconfig path
+ * aliases, bundler aliases and workspace packages, and verify that the
+ * dependency graph maps aliased imports to repository files while keeping
+ * unresolved internal imports apart from third-party packages. Python
+ * layouts check that dotted module names map onto the detected source roots.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { ImportResolver } from '../src/core/import-resolver.js';
+import { ResultsAggregator } from '../src/core/results-aggregator.js';
+import { PythonAnalyzer } from '../src/parsers/python-analyzer.js';
+import type { AnalysisResult, FileAnalysis } from '../src/types/index.js';
+
+const FILES: Record<string, string> = {
+  'tsconfig.base.json': `{
+    // Shared options
+    "compilerOptions": {
+      "baseUrl": ".",
+      "paths": {
+        "@/*": ["apps/web/src/*"],
+        "@shared": ["libs/shared/index.ts"],
+      }
+    }
+  }`,
+  'apps/web/tsconfig.json': '{ "extends": "../../tsconfig.base.json", "compilerOptions": { "strict": true } }',
+  'apps/web/vite.config.ts': `
+    import { defineConfig } from 'vite';
+    import { fileURLToPath } from 'node:url';
+    import path from 'node:path';
+
+    export default defineConfig({
+      resolve: {
+        alias: [
+          { find: '~', replacement: fileURLToPath(new URL('./src', import.meta.url)) },
+          { find: '$assets', replacement: path.resolve(__dirname, 'assets') }
+        ]
+      }
+    });
+  `,
+  'apps/web/src/main.tsx': '',
+  'apps/web/src/components/Button.tsx': '',
+  'apps/web/src/utils/index.ts': '',
+  'apps/web/src/styles.css': '',
+  'apps/web/assets/theme.ts': '',
+  'libs/shared/index.ts': '',
+  'packages/ui/package.json': JSON.stringify({
+    name: '@acme/ui',
+    main: 'dist/index.js',
+    exports: {
+      '.': { import: './dist/index.js', types: './dist/index.d.ts' },
+      './button': './src/button.tsx'
+    }
+  }),
+  'packages/ui/src/index.ts': '',
+  'packages/ui/src/button.tsx': '',
+  'legacy/webpack.config.js': `
+    const path = require('path');
+    module.exports = {
+      resolve: { alias: { Utils$: path.resolve(__dirname, 'src/utils.js'), 'react-native': 'react-native-web' } }
+    };
+  `,
+  'legacy/src/utils.js': '',
+  'legacy/src/app.js': ''
+};
+
+function fileAnalysis(path: string, imports: string[]): FileAnalysis {
+  return {
+    path,
+    language: path.endsWith('.js') ? 'javascript' : 'typescript',
+    imports: Object.fromEntries(imports.map(specifier => [specifier, ['default']])),
+    functions: {},
+    classes: {}
+  };
+}
+
+describe('ImportResolver', () => {
+  let repoPath: string;
+  let result: AnalysisResult;
+
+  beforeAll(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), 'import-resolver-'));
+    for (const [filePath, content] of Object.entries(FILES)) {
+      await mkdir(dirname(join(repoPath, filePath)), { recursive: true });
+      await writeFile(join(repoPath, filePath), content);
+    }
+
+    const analyses = new Map<string, FileAnalysis>();
+    const add = (path: string, imports: string[]) => analyses.set(path, fileAnalysis(path, imports));
+
+    add('apps/web/src/main.tsx', [
+      '@/components/Button',
+      '@shared',
+      '~/utils',
+      '$assets/theme',
+      '@acme/ui',
+      '@acme/ui/button',
+      './styles.css',
+      '@/components/Missing',
+      './missing',
+      'react',
+      'node:fs'
+    ]);
+    for (const path of Object.keys(FILES).filter(file => /\.(tsx?|js)$/.test(file) && !file.includes('config'))) {
+      if (!analyses.has(path)) {
+        add(path, []);
+      }
+    }
+    add('legacy/src/app.js', ['Utils', 'Utils/other', 'react-native']);
+
+    const resolver = await ImportResolver.load(repoPath, Object.keys(FILES));
+    const aggregator = new ResultsAggregator({ repositoryPath: repoPath, importResolver: resolver });
+    result = aggregator.aggregateFileAnalyses(analyses, [], [], [], [], Date.now());
+  });
+
+  afterAll(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('should resolve tsconfig paths through extends chains and bundler aliases', () => {
+    expect(result.dependencies['apps/web/src/main.tsx']).toEqual([
+      'apps/web/assets/theme.ts',
+      'apps/web/src/components/Button.tsx',
+      'apps/web/src/utils/index.ts',
+      'libs/shared/index.ts',
+      'node:fs',
+      'packages/ui/src/button.tsx',
+      'packages/ui/src/index.ts',
+      'react'
+    ]);
+  });
+
+  it('should tag unresolved internal imports separately from packages', () => {
+    expect(result.unresolved_imports).toEqual({
+      'apps/web/src/main.tsx': ['./missing', '@/components/Missing']
+    });
+  });
+
+  it('should honour exact-match webpack aliases and ignore package redirects', () => {
+    // `Utils$` only matches the bare specifier, so `Utils/other` stays a package import
+    expect(result.dependencies['legacy/src/app.js']).toEqual(['Utils/other', 'legacy/src/utils.js', 'react-native']);
+  });
+
+  it('should treat conventional alias prefixes as internal without configuration', async () => {
+    const resolver = await ImportResolver.load(repoPath, ['src/index.ts']);
+
+    expect(resolver.resolve('src/index.ts', '@/missing')).toEqual({ candidates: [], internal: true });
+    expect(resolver.resolve('src/index.ts', '@scope/package')).toBeNull();
+  });
+});
+
+const PYTHON_FILES: Record<string, string> = {
+  'backend/manage.py': 'import os\n',
+  'backend/shop/__init__.py': '',
+  'backend/shop/models.py': 'from django.db import models\n',
+  'backend/shop/views.py': [
+    'from shop.services.billing import charge',
+    'from . import models',
+    'from .services import billing, helpers',
+    'from django.shortcuts import render',
+    'import shop.missing'
+  ].join('\n'),
+  'backend/shop/services/__init__.py': '',
+  'backend/shop/services/billing.py': 'from ..models import Order\n',
+  'backend/shop/api/__init__.py': 'from .. import views\nfrom ...shop import models\n',
+  'lib/pyproject.toml': '[tool.setuptools.packages.find]\nwhere = ["python"]\n',
+  'lib/python/corelib/util.py': '',
+  'scripts/run.py': 'from corelib.util import slugify\nimport helpers\nimport yaml\n',
+  'scripts/helpers.py': ''
+};
+
+describe('Python module resolution', () => {
+  let repoPath: string;
+  let result: AnalysisResult;
+
+  beforeAll(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), 'python-imports-'));
+    for (const [filePath, content] of Object.entries(PYTHON_FILES)) {
+      await mkdir(dirname(join(repoPath, filePath)), { recursive: true });
+      await writeFile(join(repoPath, filePath), content);
+    }
+
+    const analyzer = new PythonAnalyzer();
+    const analyses = new Map<string, FileAnalysis>();
+    for (const [filePath, content] of Object.entries(PYTHON_FILES)) {
+      if (filePath.endsWith('.py')) {
+        analyses.set(filePath, await analyzer.analyzePython(content, filePath));
+      }
+    }
+
+    const resolver = await ImportResolver.load(repoPath, Object.keys(PYTHON_FILES));
+    const aggregator = new ResultsAggregator({ repositoryPath: repoPath, importResolver: resolver });
+    result = aggregator.aggregateFileAnalyses(analyses, [], [], [], [], Date.now());
+  });
+
+  afterAll(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('should resolve absolute imports from the manage.py source root', () => {
+    expect(result.dependencies['backend/shop/views.py']).toEqual([
+      'backend/shop/models.py',
+      'backend/shop/services/billing.py',
+      'django.shortcuts'
+    ]);
+    expect(result.unresolved_imports?.['backend/shop/views.py']).toEqual(['shop.missing']);
+  });
+
+  it('should resolve parent-relative imports', () => {
+    expect(result.dependencies['backend/shop/services/billing.py']).toEqual(['backend/shop/models.py']);
+    expect(result.dependencies['backend/shop/api/__init__.py']).toEqual([
+      'backend/shop/models.py',
+      'backend/shop/views.py'
+    ]);
+  });
+
+  it('should use package directories from pyproject.toml and the script directory', () => {
+    expect(result.dependencies['scripts/run.py']).toEqual(['lib/python/corelib/util.py', 'scripts/helpers.py', 'yaml']);
+  });
+
+  it('should resolve without a loaded resolver', () => {
+    const analyses = new Map<string, FileAnalysis>([
+      ['app/__init__.py', { path: 'app/__init__.py', language: 'python', imports: {}, functions: {}, classes: {} }],
+      ['app/core.py', { path: 'app/core.py', language: 'python', imports: {}, functions: {}, classes: {} }],
+      ['main.py', {
+        path: 'main.py',
+        language: 'python',
+        imports: { 'app.core': ['run'], json: ['json'] },
+        functions: {},
+        classes: {}
+      }]
+    ]);
+
+    const aggregated = new ResultsAggregator({ repositoryPath: '/tmp/python-app' })
+      .aggregateFileAnalyses(analyses, [], [], [], [], Date.now());
+
+    expect(aggregated.dependencies['main.py']).toEqual(['app/core.py', 'json']);
+  });
+});
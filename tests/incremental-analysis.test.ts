@@ -0,0 +1,256 @@
+/**
+ * Unit tests for incremental re-analysis and the persistent analysis cache
+ *
+ * These tests build a small git repository, analyze it once, commit changes
+ * and verify that only the changed files are re-analyzed while the folder
+ * structure, summary and dependency graph are rebuilt, and that process
+ * roles inherited through a removed import are dropped and renamed Svelte
+ * components take their new name.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm, unlink } from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { analyzeRepository, analyzeRepositoryIncremental } from '../src/index.js';
+import { AnalysisCache } from '../src/core/analysis-cache.js';
+import type { AnalysisResult } from '../src/types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd });
+  return stdout.trim();
+}
+
+function filePaths(result: AnalysisResult): string[] {
+  return Object.values(result.folder_structure)
+    .flat()
+    .map(file => file.path)
+    .sort();
+}
+
+describe('AnalysisCache', () => {
+  let cacheDir: string;
+
+  beforeAll(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), 'analysis-cache-'));
+  });
+
+  afterAll(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should compute the same hash as git hash-object', async () => {
+    const content = 'export const answer = 42;\n';
+    const contentPath = join(cacheDir, 'answer.ts');
+    await writeFile(contentPath, content);
+
+    const gitHash = await git(cacheDir, 'hash-object', contentPath);
+    expect(AnalysisCache.computeBlobHash(content)).toBe(gitHash);
+  });
+
+  it('should persist entries and re-target them to the requested path', async () => {
+    const cachePath = join(cacheDir, 'cache.json');
+    const content = 'export function add(a, b) { return a + b; }';
+
+    const writer = new AnalysisCache(cachePath);
+    writer.set(content, { path: 'src/math.js', language: 'javascript', functions: {} });
+    await writer.save();
+
+    const reader = new AnalysisCache(cachePath);
+    await reader.load();
+
+    expect(reader.get('lib/copy.js', content)?.path).toBe('lib/copy.js');
+    expect(reader.get('lib/copy.ts', content)).toBeUndefined();
+    expect(reader.get('src/math.js', content + '\n')).toBeUndefined();
+    expect(reader.getStats()).toEqual({ hits: 1, misses: 2, size: 1 });
+  });
+
+  it('should discard entries written by another engine version', async () => {
+    const cachePath = join(cacheDir, 'outdated.json');
+    const content = 'export const stale = true;';
+    await writeFile(cachePath, JSON.stringify({
+      engine_version: '0.0.0',
+      entries: { [AnalysisCache.computeBlobHash(content)]: { path: 'a.js', language: 'javascript' } }
+    }));
+
+    const cache = new AnalysisCache(cachePath);
+    await cache.load();
+
+    expect(cache.get('a.js', content)).toBeUndefined();
+    expect(cache.getStats().size).toBe(0);
+  });
+
+  it('should not cache analyses that failed', () => {
+    const cache = new AnalysisCache(join(cacheDir, 'unused.json'));
+    cache.set('broken', { path: 'a.js', error: 'parse failed' });
+    expect(cache.get('a.js', 'broken')).toBeUndefined();
+  });
+});
+
+describe('analyzeRepositoryIncremental', () => {
+  let repoPath: string;
+  let initialResult: AnalysisResult;
+  let initialCommit: string;
+
+  beforeAll(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), 'incremental-repo-'));
+
+    await git(repoPath, 'init');
+    await git(repoPath, 'config', 'user.email', 'test@example.com');
+    await git(repoPath, 'config', 'user.name', 'Test User');
+
+    await mkdir(join(repoPath, 'src'), { recursive: true });
+    await writeFile(join(repoPath, 'src', 'index.js'), "import { helper } from './helper';\nhelper();\n");
+    await writeFile(join(repoPath, 'src', 'helper.js'), 'export function helper() {}\n');
+    await writeFile(join(repoPath, 'src', 'legacy.js'), 'export function old() {}\n');
+
+    await git(repoPath, 'add', '.');
+    await git(repoPath, 'commit', '-m', 'Initial commit');
+    initialCommit = await git(repoPath, 'rev-parse', 'HEAD');
+
+    initialResult = await analyzeRepository(repoPath, { use_cache: true });
+  });
+
+  afterAll(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('should record the analyzed commit in metadata', () => {
+    expect(initialResult.metadata?.commit).toBe(initialCommit);
+    expect(filePaths(initialResult)).toEqual(['src/helper.js', 'src/index.js', 'src/legacy.js']);
+  });
+
+  it('should re-analyze only added and modified files and drop deleted ones', async () => {
+    await writeFile(
+      join(repoPath, 'src', 'index.js'),
+      "import { helper } from './helper';\nimport { format } from './format';\nhelper(format());\n"
+    );
+    await writeFile(join(repoPath, 'src', 'format.js'), 'export function format() { return ""; }\n');
+    await unlink(join(repoPath, 'src', 'legacy.js'));
+    await git(repoPath, 'add', '-A');
+    await git(repoPath, 'commit', '-m', 'Add formatter, drop legacy');
+
+    const result = await analyzeRepositoryIncremental(repoPath, initialResult);
+
+    expect(filePaths(result)).toEqual(['src/format.js', 'src/helper.js', 'src/index.js']);
+    expect(result.summary.total_files).toBe(3);
+    expect(result.dependencies['src/index.js']).toEqual(['src/format.js', 'src/helper.js']);
+    expect(result.metadata?.commit).toBe(await git(repoPath, 'rev-parse', 'HEAD'));
+    expect(result.metadata?.incremental).toEqual({
+      base_commit: initialCommit,
+      changed_files: 2,
+      removed_files: 1,
+      cache_hits: 0
+    });
+  });
+
+  it('should answer reverted content from the cache', async () => {
+    const previous = await analyzeRepository(repoPath);
+
+    await writeFile(join(repoPath, 'src', 'legacy.js'), 'export function old() {}\n');
+    await git(repoPath, 'add', '-A');
+    await git(repoPath, 'commit', '-m', 'Restore legacy');
+
+    const result = await analyzeRepositoryIncremental(repoPath, previous);
+
+    expect(filePaths(result)).toContain('src/legacy.js');
+    expect(result.metadata?.incremental?.cache_hits).toBe(1);
+  });
+
+  it('should pick up uncommitted edits and their later removal', async () => {
+    const previous = await analyzeRepository(repoPath);
+
+    await writeFile(join(repoPath, 'src', 'helper.js'), 'export function helper() {}\nexport function draft() {}\n');
+    const edited = await analyzeRepositoryIncremental(repoPath, previous);
+
+    expect(Object.keys(edited.folder_structure['src']!.find(file => file.path === 'src/helper.js')!.functions!))
+      .toEqual(['helper()', 'draft()']);
+    expect(edited.metadata?.uncommitted_files).toEqual(['src/helper.js']);
+    expect(edited.metadata?.incremental?.changed_files).toBe(1);
+
+    await git(repoPath, 'checkout', '--', 'src/helper.js');
+    const restored = await analyzeRepositoryIncremental(repoPath, edited);
+
+    expect(Object.keys(restored.folder_structure['src']!.find(file => file.path === 'src/helper.js')!.functions!))
+      .toEqual(['helper()']);
+    expect(restored.metadata?.uncommitted_files).toBeUndefined();
+  });
+
+  it('should fall back to a full analysis without a base commit', async () => {
+    const { metadata, ...withoutMetadata } = initialResult;
+    const result = await analyzeRepositoryIncremental(repoPath, withoutMetadata);
+
+    expect(result.metadata?.incremental).toBeUndefined();
+    expect(result.summary.total_files).toBe(4);
+  });
+});
+
+describe('analyzeRepositoryIncremental process roles', () => {
+  let repoPath: string;
+
+  beforeAll(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), 'incremental-roles-'));
+
+    await git(repoPath, 'init');
+    await git(repoPath, 'config', 'user.email', 'test@example.com');
+    await git(repoPath, 'config', 'user.name', 'Test User');
+
+    await writeFile(join(repoPath, 'main.js'), "import { app } from 'electron';\nimport { util } from './util.js';\napp.whenReady(util);\n");
+    await writeFile(join(repoPath, 'util.js'), 'export function util() {}\n');
+    await git(repoPath, 'add', '.');
+    await git(repoPath, 'commit', '-m', 'Initial commit');
+  });
+
+  afterAll(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('should drop roles inherited through an import that was removed', async () => {
+    const previous = await analyzeRepository(repoPath);
+    expect(previous.folder_structure['root']!.find(file => file.path === 'util.js')!.process_role).toBe('main');
+
+    await writeFile(join(repoPath, 'main.js'), "import { app } from 'electron';\napp.whenReady();\n");
+    await git(repoPath, 'commit', '-am', 'Drop util import');
+    const result = await analyzeRepositoryIncremental(repoPath, previous);
+
+    expect(result.metadata?.incremental?.changed_files).toBe(1);
+    expect(result.folder_structure['root']!.find(file => file.path === 'main.js')!.process_role).toBe('main');
+    expect(result.folder_structure['root']!.find(file => file.path === 'util.js')!.process_role).toBeUndefined();
+  });
+});
+
+describe('analyzeRepositoryIncremental renamed Svelte components', () => {
+  let repoPath: string;
+
+  beforeAll(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), 'incremental-svelte-'));
+
+    await git(repoPath, 'init');
+    await git(repoPath, 'config', 'user.email', 'test@example.com');
+    await git(repoPath, 'config', 'user.name', 'Test User');
+
+    await writeFile(join(repoPath, 'Button.svelte'), '<script>\n  export let label;\n</script>\n\n<button>{label}</button>\n');
+    await git(repoPath, 'add', '.');
+    await git(repoPath, 'commit', '-m', 'Initial commit');
+  });
+
+  afterAll(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('should name a renamed component after its new file', async () => {
+    const previous = await analyzeRepository(repoPath, { use_cache: true });
+    expect(Object.keys(previous.folder_structure['root']![0]!.functions!)).toEqual(['Button(label)']);
+
+    await git(repoPath, 'mv', 'Button.svelte', 'Card.svelte');
+    await git(repoPath, 'commit', '-m', 'Rename Button to Card');
+    const result = await analyzeRepositoryIncremental(repoPath, previous);
+
+    expect(filePaths(result)).toEqual(['Card.svelte']);
+    expect(Object.keys(result.folder_structure['root']![0]!.functions!)).toEqual(['Card(label)']);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Unit tests for Electron IPC channel mapping
+ *
+ * These tests analyze a small Electron app with a main process, a preload
+ * script exposing an API through contextBridge and a renderer calling it,
+ * and verify that every channel links its handlers, senders, pushes and
+ * listeners, that renderer callers are attached to the preload API they
+ * call, and that one-sided channels are flagged, both in the
+ * AnalysisResult and in the flat text output.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { BabelAnalyzer } from '../src/parsers/babel-analyzer.js';
+import { IpcDetector } from '../src/patterns/ipc-detector.js';
+import { ResultsAggregator } from '../src/core/results-aggregator.js';
+import { analyzeRepositoryToText } from '../src/index.js';
+import type { FileAnalysis } from '../src/types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+const ELECTRON_APP: Record<string, string> = {
+  'src/main.ts': `import { app, BrowserWindow, ipcMain } from 'electron';
+
+function registerHandlers(win: BrowserWindow) {
+  ipcMain.handle('user:get', async (_event, id: string) => loadUser(id));
+  ipcMain.on('log', (event, message) => {
+    console.log(message);
+    event.sender.send('log:ack');
+  });
+  ipcMain.handle('legacy:export', async () => null);
+  win.webContents.send('theme:changed', 'dark');
+}
+
+app.whenReady().then(() => {
+  ipcMain.handle(Channels.Quit, () => app.quit());
+});
+`,
+  'src/preload.ts': `import { contextBridge, ipcRenderer } from 'electron';
+
+const api = {
+  getUser: (id: string) => ipcRenderer.invoke('user:get', id),
+  log(message: string) {
+    ipcRenderer.send('log', message);
+  },
+  settings: {
+    save: (value: unknown) => ipcRenderer.invoke('settings:save', value)
+  },
+  onThemeChanged: (callback: (theme: string) => void) =>
+    ipcRenderer.on('theme:changed', (_event, theme) => callback(theme))
+};
+
+contextBridge.exposeInMainWorld('api', api);
+contextBridge.exposeInMainWorld('versions', {
+  check: () => ipcRenderer.sendSync('versions:check')
+});
+`,
+  'src/renderer/App.tsx': `export function App() {
+  async function load() {
+    const user = await window.api.getUser('42');
+    window.api.settings.save(user);
+    window.location.reload();
+  }
+
+  window.api.onThemeChanged(theme => document.body.classList.add(theme));
+  return <button onClick={load} />;
+}
+`
+};
+
+describe('IpcDetector', () => {
+  let analyses: Map<string, FileAnalysis>;
+
+  beforeAll(async () => {
+    const analyzer = new BabelAnalyzer();
+    analyses = new Map();
+    for (const [filePath, content] of Object.entries(ELECTRON_APP)) {
+      analyses.set(filePath, await analyzer.parseJavaScript(content, 'typescript', filePath));
+    }
+  });
+
+  it('should record IPC calls with their preload API member', () => {
+    expect(analyses.get('src/preload.ts')!.ipc_calls).toEqual([
+      { method: 'ipcRenderer.invoke', channel: 'user:get', line: 4, container: 'getUser', exposed_as: 'api.getUser' },
+      { method: 'ipcRenderer.send', channel: 'log', line: 6, container: 'log', exposed_as: 'api.log' },
+      { method: 'ipcRenderer.invoke', channel: 'settings:save', line: 9, container: 'save', exposed_as: 'api.settings.save' },
+      { method: 'ipcRenderer.on', channel: 'theme:changed', line: 12, container: 'onThemeChanged', exposed_as: 'api.onThemeChanged' },
+      { method: 'ipcRenderer.sendSync', channel: 'versions:check', line: 17, container: 'check', exposed_as: 'versions.check' }
+    ]);
+    expect(analyses.get('src/main.ts')!.ipc_calls!.at(-1)).toEqual(
+      { method: 'ipcMain.handle', channel: 'Channels.Quit', dynamic_channel: true, line: 14 }
+    );
+    expect(analyses.get('src/renderer/App.tsx')!.bridge_calls).toEqual([
+      { api: 'api.getUser', line: 3, container: 'load' },
+      { api: 'api.settings.save', line: 4, container: 'load' },
+      { api: 'api.onThemeChanged', line: 8, container: 'App' }
+    ]);
+  });
+
+  it('should link both sides of each channel and the renderer callers', () => {
+    const { channels } = new IpcDetector().detectChannels(analyses);
+    const userGet = channels.find(channel => channel.channel === 'user:get');
+
+    expect(userGet).toEqual({
+      channel: 'user:get',
+      handlers: [{ file: 'src/main.ts', line: 4, method: 'ipcMain.handle', container: 'registerHandlers' }],
+      senders: [{
+        file: 'src/preload.ts',
+        line: 4,
+        method: 'ipcRenderer.invoke',
+        container: 'getUser',
+        exposed_as: 'api.getUser',
+        callers: [{ file: 'src/renderer/App.tsx', line: 3, container: 'load' }]
+      }],
+      pushes: [],
+      listeners: []
+    });
+    expect(channels.find(channel => channel.channel === 'theme:changed')).toMatchObject({
+      pushes: [{ file: 'src/main.ts', line: 10, method: 'webContents.send' }],
+      listeners: [{ file: 'src/preload.ts', line: 12, callers: [{ file: 'src/renderer/App.tsx', line: 8 }] }]
+    });
+  });
+
+  it('should flag channels used on one side only', () => {
+    const { channels } = new IpcDetector().detectChannels(analyses);
+
+    expect(channels.map(channel => `${channel.channel} ${(channel.issues || []).join(',')}`.trim())).toEqual([
+      'Channels.Quit',
+      'legacy:export no_sender',
+      'log',
+      'log:ack no_listener',
+      'settings:save no_handler',
+      'theme:changed',
+      'user:get',
+      'versions:check no_handler'
+    ]);
+  });
+
+  it('should add the map to the analysis result only when IPC is used', () => {
+    const aggregator = new ResultsAggregator({ repositoryPath: '/tmp/electron-app' });
+    const result = aggregator.aggregateFileAnalyses(analyses, [], [], [], [], Date.now());
+    const withoutIpc = aggregator.aggregateFileAnalyses(
+      new Map([['src/renderer/App.tsx', analyses.get('src/renderer/App.tsx')!]]),
+      [], [], [], [],
+      Date.now()
+    );
+
+    expect(result.ipc!.channels).toHaveLength(8);
+    expect(withoutIpc.ipc).toBeUndefined();
+  });
+});
+
+describe('IpcDetector flat text output', () => {
+  let repoPath: string;
+
+  beforeAll(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), 'ipc-flat-'));
+    for (const [filePath, content] of Object.entries(ELECTRON_APP)) {
+      await mkdir(dirname(join(repoPath, filePath)), { recursive: true });
+      await writeFile(join(repoPath, filePath), content);
+    }
+
+    for (const args of [
+      ['init'],
+      ['config', 'user.email', 'test@example.com'],
+      ['config', 'user.name', 'Test User'],
+      ['add', '.'],
+      ['commit', '-m', 'Initial commit']
+    ]) {
+      await execFileAsync('git', args, { cwd: repoPath });
+    }
+  });
+
+  afterAll(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('should add an ipc block with both sides of each channel', async () => {
+    const text = await analyzeRepositoryToText(repoPath);
+
+    expect(text).toContain(
+      '  user:get\n' +
+      '    handler src/main.ts:4 ipcMain.handle in registerHandlers\n' +
+      '    sender src/preload.ts:4 ipcRenderer.invoke in getUser as api.getUser\n' +
+      '      caller src/renderer/App.tsx:3 in load'
+    );
+    expect(text).toContain('  Channels.Quit [dynamic]\n    handler src/main.ts:14 ipcMain.handle\n');
+    expect(text).toContain('  log:ack [no_listener]\n    push src/main.ts:7 webContents.send in registerHandlers\n');
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Unit tests for JavaAnalyzer
+ *
+ * These tests validate Tree-sitter based extraction of the Java package,
+ * imports, classes, interfaces, enums, methods and annotations, and that
+ * Spring controllers are reported as API endpoints with their class-level
+ * `@RequestMapping` prefix and that Spring is detected as a framework.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { JavaAnalyzer } from '../src/parsers/java-analyzer.js';
+import { TreeSitterManager } from '../src/parsers/tree-sitter-manager.js';
+import { ApiDetector } from '../src/patterns/api-detector.js';
+import { FrameworkDetector } from '../src/patterns/framework-detector.js';
+import type { FileAnalysis } from '../src/types/index.js';
+
+const ORDER_CONTROLLER = `package com.example.shop.web;
+
+import java.util.*;
+import org.springframework.http.ResponseEntity;
+import org.springframework.web.bind.annotation.*;
+import static org.springframework.http.HttpStatus.CREATED;
+
+/**
+ * REST API for orders
+ */
+@RestController
+@RequestMapping("/api/orders")
+public class OrderController extends BaseController implements Auditable, Comparable<OrderController> {
+
+    private final OrderService orderService;
+
+    public OrderController(OrderService orderService) {
+        this.orderService = orderService;
+    }
+
+    /** List all orders */
+    @GetMapping
+    public List<Order> list() {
+        return orderService.findAll();
+    }
+
+    @GetMapping("/{id}")
+    public ResponseEntity<Order> get(@PathVariable Long id) {
+        return ResponseEntity.ok(orderService.find(id));
+    }
+
+    @PostMapping(value = "", consumes = "application/json")
+    @ResponseStatus(CREATED)
+    public Order create(@RequestBody Order order, String... tags) {
+        return orderService.save(order);
+    }
+
+    @RequestMapping(path = {"/{id}/cancel", "/{id}/void"}, method = {RequestMethod.PUT, RequestMethod.PATCH})
+    public void cancel(@PathVariable("id") Long id) {}
+
+    @RequestMapping("/export")
+    public byte[] export() { return new byte[0]; }
+
+    static class Summary {
+        int count() { return 0; }
+    }
+}
+`;
+
+const ORDER_SERVICE = `package com.example.shop.service;
+
+import org.springframework.stereotype.Service;
+
+public interface OrderRepository extends JpaRepository<Order, Long> {
+    List<Order> findByStatus(Status status);
+}
+
+enum Status {
+    OPEN, CLOSED;
+
+    boolean isFinal() { return this == CLOSED; }
+}
+
+@Service
+class OrderService {
+    Order find(Long id) { return null; }
+}
+`;
+
+const APPLICATION = `package com.example.shop;
+
+import org.springframework.boot.SpringApplication;
+import org.springframework.boot.autoconfigure.SpringBootApplication;
+
+@SpringBootApplication
+public class ShopApplication {
+    public static void main(String[] args) {
+        SpringApplication.run(ShopApplication.class, args);
+    }
+}
+`;
+
+describe('JavaAnalyzer', () => {
+  let manager: TreeSitterManager;
+  let analyzer: JavaAnalyzer;
+  let analyses: Map<string, FileAnalysis>;
+
+  beforeAll(async () => {
+    manager = new TreeSitterManager();
+    await manager.initialize();
+    analyzer = new JavaAnalyzer(manager);
+
+    analyses = new Map();
+    const files: Record<string, string> = {
+      'src/main/java/com/example/shop/web/OrderController.java': ORDER_CONTROLLER,
+      'src/main/java/com/example/shop/service/OrderService.java': ORDER_SERVICE,
+      'src/main/java/com/example/shop/ShopApplication.java': APPLICATION
+    };
+    for (const [filePath, content] of Object.entries(files)) {
+      analyses.set(filePath, await analyzer.analyzeJava(content, filePath));
+    }
+  });
+
+  it('should load the Java grammar', () => {
+    expect(manager.hasParser('java')).toBe(true);
+  });
+
+  it('should extract the package and imports', () => {
+    const result = analyses.get('src/main/java/com/example/shop/web/OrderController.java')!;
+
+    expect(result.language).toBe('java');
+    expect(result.package).toBe('com.example.shop.web');
+    expect(result.imports).toEqual({
+      'java.util': ['*'],
+      'org.springframework.http': ['ResponseEntity'],
+      'org.springframework.web.bind.annotation': ['*'],
+      'org.springframework.http.HttpStatus': ['CREATED']
+    });
+    expect(result.import_lines).toMatchObject({ 'java.util': 3, 'org.springframework.http.HttpStatus': 6 });
+  });
+
+  it('should extract classes with base classes, annotations and methods', () => {
+    const result = analyses.get('src/main/java/com/example/shop/web/OrderController.java')!;
+    const controller = result.classes!['OrderController']!;
+
+    expect(controller).toMatchObject({
+      docstring: 'REST API for orders',
+      base_classes: ['BaseController', 'Auditable', 'Comparable'],
+      line_number: 13,
+      end_line_number: 47,
+      decorators: [
+        { name: 'RestController', line_number: 11 },
+        { name: 'RequestMapping', arguments: ['"/api/orders"'], line_number: 12 }
+      ]
+    });
+    expect(Object.keys(controller.methods)).toEqual([
+      'OrderController(orderService)',
+      'list()',
+      'get(id)',
+      'create(order, tags)',
+      'cancel(id)',
+      'export()'
+    ]);
+    expect(controller.methods['list()']).toMatchObject({
+      docstring: 'List all orders',
+      return_type: 'List<Order>',
+      line_number: 23
+    });
+    expect(controller.methods['create(order, tags)']!.decorators).toEqual([
+      { name: 'PostMapping', arguments: ['value = ""', 'consumes = "application/json"'], line_number: 32 },
+      { name: 'ResponseStatus', arguments: ['CREATED'], line_number: 33 }
+    ]);
+    expect(Object.keys(result.classes!['OrderController.Summary']!.methods)).toEqual(['count()']);
+  });
+
+  it('should extract interfaces and enums', () => {
+    const result = analyses.get('src/main/java/com/example/shop/service/OrderService.java')!;
+
+    expect(Object.keys(result.classes!)).toEqual(['OrderRepository', 'Status', 'OrderService']);
+    expect(result.classes!['OrderRepository']!.base_classes).toEqual(['JpaRepository']);
+    expect(Object.keys(result.classes!['OrderRepository']!.methods)).toEqual(['findByStatus(status)']);
+    expect(Object.keys(result.classes!['Status']!.methods)).toEqual(['isFinal()']);
+    expect(result.classes!['OrderService']!.decorators).toEqual([{ name: 'Service', line_number: 15 }]);
+  });
+
+  it('should report Spring controller methods as endpoints', () => {
+    const endpoints = new ApiDetector()
+      .detectEndpoints(analyses)
+      .filter(endpoint => endpoint.framework === 'Spring');
+
+    expect(endpoints.map(endpoint =>
+      `${endpoint.method || endpoint.methods} ${endpoint.route} ${endpoint.handlerFunction}:${endpoint.line}`
+    )).toEqual([
+      'GET /api/orders OrderController.list:23',
+      'GET /api/orders/{id} OrderController.get:28',
+      'POST /api/orders OrderController.create:34',
+      'PUT /api/orders/{id}/cancel OrderController.cancel:39',
+      'PATCH /api/orders/{id}/cancel OrderController.cancel:39',
+      'PUT /api/orders/{id}/void OrderController.cancel:39',
+      'PATCH /api/orders/{id}/void OrderController.cancel:39',
+      'Multiple /api/orders/export OrderController.export:42'
+    ]);
+    expect(endpoints[1]).toMatchObject({
+      type: 'spring_mapping',
+      parameters: [{ name: 'id', type: 'string', required: true }],
+      middleware: ['@GetMapping']
+    });
+  });
+
+  it('should detect Spring as a framework', () => {
+    const detections = new FrameworkDetector().detectFrameworks(analyses);
+    expect(detections.map(detection => detection.name)).toContain('Spring');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for KotlinAnalyzer
+ *
+ * These tests validate Tree-sitter based extraction of the Kotlin package,
+ * imports, top-level functions, classes, objects, methods and annotations,
+ * and that Kotlin Spring controllers are reported as API endpoints.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { KotlinAnalyzer } from '../src/parsers/kotlin-analyzer.js';
+import { TreeSitterManager } from '../src/parsers/tree-sitter-manager.js';
+import { AnalysisCoordinator } from '../src/core/analysis-coordinator.js';
+import { ApiDetector } from '../src/patterns/api-detector.js';
+
+const USER_CONTROLLER = `package com.example.users
+
+import org.springframework.web.bind.annotation.*
+import kotlinx.coroutines.flow.Flow as UserFlow
+
+/**
+ * Users endpoint
+ */
+@RestController
+@RequestMapping(value = ["/users", "/v1/users"])
+class UserController(private val repository: UserRepository) : BaseController(), Auditable {
+
+    @GetMapping("/{id:[0-9]+}")
+    suspend fun find(@PathVariable id: Long): User? = repository.find(id)
+
+    @RequestMapping(method = [RequestMethod.DELETE], path = ["/{id}"])
+    fun delete(@PathVariable id: Long) {
+        repository.delete(id)
+    }
+
+    companion object {
+        fun create(): UserController = UserController(UserRepository())
+    }
+}
+
+data class User(val id: Long, val name: String)
+
+object Defaults
+
+/** Format a user name */
+fun formatName(user: User, upper: Boolean = false): String = user.name
+`;
+
+describe('KotlinAnalyzer', () => {
+  let manager: TreeSitterManager;
+  let analyzer: KotlinAnalyzer;
+
+  beforeAll(async () => {
+    manager = new TreeSitterManager();
+    await manager.initialize();
+    analyzer = new KotlinAnalyzer(manager);
+  });
+
+  it('should load the Kotlin grammar', () => {
+    expect(manager.hasParser('kotlin')).toBe(true);
+  });
+
+  it('should extract the package, imports and top-level functions', async () => {
+    const result = await analyzer.analyzeKotlin(USER_CONTROLLER, 'src/main/kotlin/UserController.kt');
+
+    expect(result.language).toBe('kotlin');
+    expect(result.package).toBe('com.example.users');
+    expect(result.imports).toEqual({
+      'org.springframework.web.bind.annotation': ['*'],
+      'kotlinx.coroutines.flow': ['Flow as UserFlow']
+    });
+    expect(result.functions).toEqual({
+      'formatName(user, upper)': expect.objectContaining({
+        docstring: 'Format a user name',
+        return_type: 'String',
+        is_async: false,
+        line_number: 31
+      })
+    });
+  });
+
+  it('should extract classes, objects and companion objects with their methods', async () => {
+    const result = await analyzer.analyzeKotlin(USER_CONTROLLER, 'src/main/kotlin/UserController.kt');
+    const controller = result.classes!['UserController']!;
+
+    expect(Object.keys(result.classes!)).toEqual([
+      'UserController',
+      'UserController.Companion',
+      'User',
+      'Defaults'
+    ]);
+    expect(controller).toMatchObject({
+      docstring: 'Users endpoint',
+      base_classes: ['BaseController', 'Auditable'],
+      line_number: 11,
+      decorators: [
+        { name: 'RestController', line_number: 9 },
+        { name: 'RequestMapping', arguments: ['value = ["/users", "/v1/users"]'], line_number: 10 }
+      ]
+    });
+    expect(Object.keys(controller.methods)).toEqual(['find(id)', 'delete(id)']);
+    expect(controller.methods['find(id)']).toMatchObject({
+      is_async: true,
+      return_type: 'User?',
+      line_number: 14,
+      decorators: [{ name: 'GetMapping', arguments: ['"/{id:[0-9]+}"'], line_number: 13 }]
+    });
+    expect(Object.keys(result.classes!['UserController.Companion']!.methods)).toEqual(['create()']);
+  });
+
+  it('should report Spring controller methods as endpoints', async () => {
+    const result = await analyzer.analyzeKotlin(USER_CONTROLLER, 'src/main/kotlin/UserController.kt');
+    const endpoints = new ApiDetector().detectEndpoints(new Map([[result.path, result]]));
+
+    expect(endpoints.map(endpoint => `${endpoint.method} ${endpoint.route} ${endpoint.handlerFunction}:${endpoint.line}`)).toEqual([
+      'GET /users/{id:[0-9]+} UserController.find:14',
+      'GET /v1/users/{id:[0-9]+} UserController.find:14',
+      'DELETE /users/{id} UserController.delete:17',
+      'DELETE /v1/users/{id} UserController.delete:17'
+    ]);
+    expect(endpoints[0]!.parameters).toEqual([{ name: 'id', type: 'string', required: true }]);
+  });
+
+  it('should route .kt files to the Kotlin analyzer', async () => {
+    const result = await new AnalysisCoordinator().analyzeFile('src/main/kotlin/UserController.kt', USER_CONTROLLER);
+
+    expect(result.parser).toBe('tree-sitter');
+    expect(result.analysis.package).toBe('com.example.users');
+    expect(Object.keys(result.analysis.classes!)).toContain('UserController');
+  });
+});
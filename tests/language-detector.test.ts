@@ -391,8 +391,10 @@ export const config: Config = {
       expect(detector.supportsDeepAnalysis('typescript')).toBe(true);
       expect(detector.supportsDeepAnalysis('python')).toBe(true);
       expect(detector.supportsDeepAnalysis('dart')).toBe(true);
+      expect(detector.supportsDeepAnalysis('java')).toBe(true);
+      expect(detector.supportsDeepAnalysis('kotlin')).toBe(true);
+      expect(detector.supportsDeepAnalysis('go')).toBe(true);
 
-      expect(detector.supportsDeepAnalysis('java')).toBe(false);
       expect(detector.supportsDeepAnalysis('cpp')).toBe(false);
       expect(detector.supportsDeepAnalysis('html')).toBe(false);
       expect(detector.supportsDeepAnalysis('unknown')).toBe(false);
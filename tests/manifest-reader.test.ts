@@ -0,0 +1,266 @@
+/**
+ * Unit tests for ManifestReader
+ *
+ * These tests write a repository with npm, Python and Dart manifests and
+ * lockfiles and verify that declared dependencies are read with their scope
+ * and resolved version, that the aggregated result reports undeclared
+ * imports, unused dependencies and development dependencies used by
+ * production code, and that declared framework packages count as framework
+ * evidence.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { ManifestReader } from '../src/core/manifest-reader.js';
+import { ImportResolver } from '../src/core/import-resolver.js';
+import { ResultsAggregator } from '../src/core/results-aggregator.js';
+import { AnalysisCoordinator } from '../src/core/analysis-coordinator.js';
+import { FrameworkDetector } from '../src/patterns/framework-detector.js';
+import type { AnalysisResult, FileAnalysis } from '../src/types/index.js';
+
+const FILES: Record<string, string> = {
+  'package.json': JSON.stringify({
+    name: 'shop',
+    dependencies: { react: '^18.2.0', lodash: '^4.17.0' },
+    devDependencies: { vitest: '^1.6.0', chalk: '^5.3.0', '@types/node': '^20.0.0' },
+    peerDependencies: { 'react-dom': '^18.0.0' }
+  }),
+  'package-lock.json': JSON.stringify({
+    lockfileVersion: 3,
+    packages: {
+      '': { name: 'shop' },
+      'node_modules/react': { version: '18.2.0' },
+      'node_modules/lodash': { version: '4.17.21' },
+      'node_modules/chalk': { version: '5.3.0' },
+      'node_modules/vitest/node_modules/chalk': { version: '4.1.2' }
+    }
+  }),
+  'src/app.tsx': `import React from 'react';
+import { readFileSync } from 'node:fs';
+import path from 'path';
+import axios from 'axios';
+import chalk from 'chalk';
+import { Button } from '@/components/Button';
+
+export function App() {
+  return <div>{chalk.red(path.join('a', 'b'))}</div>;
+}
+`,
+  'src/app.test.ts': `import { describe, it } from 'vitest';
+import chalk from 'chalk';
+
+describe('app', () => { it('runs', () => chalk.green('ok')); });
+`,
+  'requirements.txt': `# Web server
+flask==3.0.0
+gunicorn>=21.2 ; sys_platform != "win32"
+-r requirements-dev.txt
+`,
+  'requirements-dev.txt': 'black~=24.1\n',
+  'scripts/serve.py': 'from flask import Flask\n\napp = Flask(__name__)\n',
+  'services/api/pyproject.toml': `[tool.poetry]
+name = "shop-api"
+
+[tool.poetry.dependencies]
+python = "^3.11"
+fastapi = "^0.110"
+pyyaml = { version = "^6.0" }
+requests = { version = "^2.31", optional = true }
+
+[tool.poetry.group.dev.dependencies]
+pytest = "^8.0"
+`,
+  'services/api/poetry.lock': `[[package]]
+name = "fastapi"
+version = "0.110.0"
+
+[[package]]
+name = "PyYAML"
+version = "6.0.1"
+`,
+  'services/api/shop_api/__init__.py': '',
+  'services/api/shop_api/main.py': `import os
+import yaml
+import numpy as np
+import pytest
+from fastapi import FastAPI
+from shop_api import settings
+
+app = FastAPI()
+`,
+  'app/pubspec.yaml': `name: mobile
+description: Shop app
+
+dependencies:
+  flutter:
+    sdk: flutter
+  http: ^1.1.0
+
+dev_dependencies:
+  flutter_test:
+    sdk: flutter
+`,
+  'app/pubspec.lock': `packages:
+  http:
+    dependency: "direct main"
+    source: hosted
+    version: "1.1.2"
+`,
+  'app/lib/main.dart': `import 'dart:async';
+import 'package:flutter/material.dart';
+import 'package:http/http.dart' as http;
+import 'package:provider/provider.dart';
+import 'package:mobile/src/routes.dart';
+
+void main() => runApp(const MaterialApp());
+`
+};
+
+async function writeRepository(files: Record<string, string>): Promise<string> {
+  const repoPath = await mkdtemp(join(tmpdir(), 'manifest-reader-'));
+  for (const [filePath, content] of Object.entries(files)) {
+    await mkdir(dirname(join(repoPath, filePath)), { recursive: true });
+    await writeFile(join(repoPath, filePath), content);
+  }
+  return repoPath;
+}
+
+describe('ManifestReader', () => {
+  let repoPath: string;
+  let reader: ManifestReader;
+  let result: AnalysisResult;
+
+  beforeAll(async () => {
+    repoPath = await writeRepository(FILES);
+    const trackedFiles = Object.keys(FILES);
+    reader = await ManifestReader.load(repoPath, trackedFiles);
+
+    const coordinator = new AnalysisCoordinator();
+    const analyses = new Map<string, FileAnalysis>();
+    for (const filePath of trackedFiles.filter(file => /\.(tsx?|py|dart)$/.test(file))) {
+      analyses.set(filePath, (await coordinator.analyzeFile(filePath, FILES[filePath]!)).analysis);
+    }
+
+    const aggregator = new ResultsAggregator({
+      repositoryPath: repoPath,
+      importResolver: await ImportResolver.load(repoPath, trackedFiles),
+      manifests: reader
+    });
+    result = aggregator.aggregateFileAnalyses(analyses, [], [], [], [], Date.now());
+  });
+
+  afterAll(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('should read declared dependencies with their scope', () => {
+    const dependencies = reader.getDependencies();
+
+    expect(dependencies.map(dependency => `${dependency.ecosystem} ${dependency.name} ${dependency.scope}`)).toEqual([
+      'npm react production',
+      'npm lodash production',
+      'npm vitest development',
+      'npm chalk development',
+      'npm @types/node development',
+      'npm react-dom peer',
+      'pypi flask production',
+      'pypi gunicorn production',
+      'pypi black development',
+      'pypi fastapi production',
+      'pypi pyyaml production',
+      'pypi requests optional',
+      'pypi pytest development',
+      'pub flutter production',
+      'pub http production',
+      'pub flutter_test development'
+    ]);
+    expect(dependencies.find(dependency => dependency.name === 'gunicorn')).toEqual({
+      name: 'gunicorn',
+      ecosystem: 'pypi',
+      scope: 'production',
+      version_spec: '>=21.2',
+      manifest: 'requirements.txt'
+    });
+    expect(dependencies.find(dependency => dependency.name === 'flutter')).not.toHaveProperty('version_spec');
+  });
+
+  it('should resolve versions from pins and the nearest lockfile', () => {
+    const resolved = Object.fromEntries(reader.getDependencies().map(dependency => [dependency.name, dependency.resolved_version]));
+
+    expect(resolved).toMatchObject({
+      react: '18.2.0',
+      lodash: '4.17.21',
+      chalk: '5.3.0',
+      flask: '3.0.0',
+      fastapi: '0.110.0',
+      pyyaml: '6.0.1',
+      http: '1.1.2'
+    });
+    expect(resolved['vitest']).toBeUndefined();
+    expect(resolved['gunicorn']).toBeUndefined();
+  });
+
+  it('should compare declared dependencies with the imported packages', () => {
+    const declared = result.packages_declared!;
+
+    expect(declared.dependencies).toHaveLength(16);
+    expect(declared.undeclared_imports).toEqual([
+      { name: 'axios', ecosystem: 'npm', files: ['src/app.tsx'] },
+      { name: 'provider', ecosystem: 'pub', files: ['app/lib/main.dart'] },
+      { name: 'numpy', ecosystem: 'pypi', files: ['services/api/shop_api/main.py'] }
+    ]);
+    expect(declared.unused_dependencies.map(dependency => dependency.name)).toEqual(['lodash', 'gunicorn']);
+    expect(declared.dev_dependencies_in_production).toEqual([
+      { name: 'chalk', ecosystem: 'npm', files: ['src/app.tsx'] },
+      { name: 'pytest', ecosystem: 'pypi', files: ['services/api/shop_api/main.py'] }
+    ]);
+  });
+
+  it('should detect frameworks from declared dependencies', () => {
+    const detections = new FrameworkDetector().detectFrameworks(new Map(), reader.getDependencies());
+
+    expect(detections.map(detection => detection.name).sort()).toEqual(['FastAPI', 'Flask', 'Flutter', 'React']);
+    expect(detections.find(detection => detection.name === 'React')).toMatchObject({
+      evidence_files: ['package.json'],
+      patterns_matched: ['declared_dependency']
+    });
+  });
+
+  it('should read yarn and pnpm lockfiles', async () => {
+    const manifest = JSON.stringify({ dependencies: { react: '^18.2.0', '@babel/core': '^7.0.0' } });
+    const lockfiles: Record<string, string> = {
+      'yarn.lock': `# yarn lockfile v1
+
+
+"@babel/core@^7.0.0":
+  version "7.24.0"
+
+react@^18.0.0, react@^18.2.0:
+  version "18.2.0"
+`,
+      'pnpm-lock.yaml': `lockfileVersion: '9.0'
+
+packages:
+
+  '@babel/core@7.24.0':
+    resolution: {integrity: sha512-abc}
+
+  react@18.2.0(scheduler@0.23.0):
+    resolution: {integrity: sha512-def}
+`
+    };
+
+    for (const [lockfile, content] of Object.entries(lockfiles)) {
+      const layoutPath = await writeRepository({ 'package.json': manifest, [lockfile]: content });
+      try {
+        const layoutReader = await ManifestReader.load(layoutPath, ['package.json', lockfile]);
+        expect(layoutReader.getDependencies().map(dependency => `${dependency.name}@${dependency.resolved_version}`))
+          .toEqual(['react@18.2.0', '@babel/core@7.24.0']);
+      } finally {
+        await rm(layoutPath, { recursive: true, force: true });
+      }
+    }
+  });
+});
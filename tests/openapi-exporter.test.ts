@@ -0,0 +1,165 @@
+/**
+ * Unit tests for OpenAPI export
+ *
+ * These tests convert framework route syntax to OpenAPI path templates and
+ * validate the document generated from a NestJS controller and Django REST
+ * framework view set against the official OpenAPI 3.1 JSON Schema.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Ajv2020 from 'ajv/dist/2020.js';
+import { openapiV31 } from '@apidevtools/openapi-schemas';
+import { PythonAnalyzer } from '../src/parsers/python-analyzer.js';
+import { OpenApiExporter, exportOpenApi, toOpenApiPath, type OpenApiDocument } from '../src/core/openapi-exporter.js';
+import type { AnalysisResult, Decorator, FileAnalysis, FunctionInfo } from '../src/types/index.js';
+
+function decoratedMethod(decorator: Decorator, line: number): FunctionInfo {
+  return { docstring: '', state_changes: [], event_handlers: [], api_endpoints: [], decorators: [decorator], line_number: line };
+}
+
+/**
+ * Analysis of a NestJS controller with method decorators, as the detector consumes it
+ */
+const USERS_CONTROLLER: FileAnalysis = {
+  path: 'src/users.controller.ts',
+  language: 'typescript',
+  imports: { '@nestjs/common': ['Controller', 'Get', 'Post', 'Delete', 'Param'] },
+  functions: {},
+  classes: {
+    UsersController: {
+      docstring: '',
+      decorators: [{ name: 'Controller', arguments: ["'users'"] }],
+      methods: {
+        'findAll()': decoratedMethod({ name: 'Get' }, 6),
+        'findOne(id)': decoratedMethod({ name: 'Get', arguments: ["':id'"] }, 10),
+        'create()': decoratedMethod({ name: 'Post' }, 14),
+        'revokeSession(id, sessionId)': decoratedMethod({ name: 'Delete', arguments: ["':id/sessions/:sessionId'"] }, 18)
+      }
+    }
+  }
+};
+
+const DRF_VIEWS = `
+from rest_framework.viewsets import ModelViewSet
+
+
+class InvoiceViewSet(ModelViewSet):
+    def list(self, request):
+        pass
+
+    def create(self, request):
+        pass
+`;
+
+/**
+ * Replace `$dynamicRef: '#meta'` with a plain reference to the schema object definition
+ *
+ * Ajv resolves the dynamic anchor of the OpenAPI 3.1 schema to the
+ * enclosing definition instead of `$defs/schema`, which rejects every
+ * parameter `schema`.
+ */
+function withStaticSchemaRefs(schema: unknown): unknown {
+  return JSON.parse(JSON.stringify(schema).split('"$dynamicRef":"#meta"').join('"$ref":"#/$defs/schema"'));
+}
+
+function createResult(files: FileAnalysis[]): AnalysisResult {
+  return {
+    folder_structure: { src: files },
+    summary: { total_files: files.length, total_lines: 0, languages: {}, extensions: {} },
+    dependencies: {}
+  };
+}
+
+describe('toOpenApiPath', () => {
+  it('should template Express, Django, regex and NestJS parameters', () => {
+    expect(toOpenApiPath('/users/:id/posts/:postId?')).toEqual({
+      path: '/users/{id}/posts/{postId}',
+      parameters: [
+        { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        { name: 'postId', in: 'path', required: true, schema: { type: 'string' } }
+      ]
+    });
+
+    expect(toOpenApiPath('articles/<int:year>/<slug:slug>/<uuid:ref>/').parameters.map(p => [p.name, p.schema]))
+      .toEqual([
+        ['year', { type: 'integer' }],
+        ['slug', { type: 'string' }],
+        ['ref', { type: 'string', format: 'uuid' }]
+      ]);
+    expect(toOpenApiPath('articles/<int:year>/').path).toBe('/articles/{year}/');
+
+    expect(toOpenApiPath('^orders/(?P<pk>[0-9]+)/$')).toEqual({
+      path: '/orders/{pk}/',
+      parameters: [{ name: 'pk', in: 'path', required: true, schema: { type: 'integer' } }]
+    });
+
+    expect(toOpenApiPath('/items/{itemId}').path).toBe('/items/{itemId}');
+    expect(toOpenApiPath('/files/*').path).toBe('/files/{wildcard0}');
+  });
+
+  it('should use parameter types reported by the detector', () => {
+    const template = toOpenApiPath('/items/{id}', [{ name: 'id', type: 'int', required: true }]);
+    expect(template.parameters[0]?.schema).toEqual({ type: 'integer' });
+  });
+});
+
+describe('exportOpenApi', () => {
+  let document: OpenApiDocument;
+
+  beforeAll(async () => {
+    const views = await new PythonAnalyzer().analyzePython(DRF_VIEWS, 'billing/api.py');
+
+    document = exportOpenApi(createResult([USERS_CONTROLLER, views]), {
+      title: 'Example API',
+      version: '1.0.0',
+      servers: ['https://api.example.com']
+    });
+  });
+
+  it('should produce a document that passes the OpenAPI 3.1 schema', () => {
+    const ajv = new Ajv2020({ strict: false, validateFormats: false });
+    const validate = ajv.compile(withStaticSchemaRefs(openapiV31) as object);
+
+    expect(validate(document), JSON.stringify(validate.errors, null, 2)).toBe(true);
+    expect(validate({ ...document, info: undefined })).toBe(false);
+  });
+
+  it('should declare a path parameter for every template placeholder', () => {
+    for (const [path, pathItem] of Object.entries(document.paths)) {
+      const placeholders = [...path.matchAll(/\{(\w+)\}/g)].map(match => match[1]).sort();
+      for (const operation of Object.values(pathItem)) {
+        expect((operation.parameters ?? []).map(parameter => parameter.name).sort()).toEqual(placeholders);
+      }
+    }
+  });
+
+  it('should group operations by controller and view class', () => {
+    expect(Object.keys(document.paths)).toEqual([
+      '/invoice-view-set/',
+      '/users',
+      '/users/{id}',
+      '/users/{id}/sessions/{sessionId}'
+    ]);
+    expect(Object.keys(document.paths['/users']!)).toEqual(['get', 'post']);
+    expect(document.paths['/users/{id}']!.get).toMatchObject({
+      operationId: 'UsersController_findOne',
+      tags: ['UsersController'],
+      'x-source': { file: 'src/users.controller.ts', framework: 'NestJS' }
+    });
+    expect(Object.keys(document.paths['/invoice-view-set/']!)).toEqual(['get', 'post']);
+    expect(document.paths['/invoice-view-set/']!.post?.tags).toEqual(['InvoiceViewSet']);
+    expect(document.tags.map(tag => tag.name)).toEqual(['InvoiceViewSet', 'UsersController']);
+  });
+
+  it('should keep operationIds unique', () => {
+    const exported = new OpenApiExporter().exportEndpoints([
+      { type: 'express_get', method: 'GET', route: '/a', line: 1, framework: 'Express', filePath: 'a.js', handlerFunction: 'handler' },
+      { type: 'express_get', method: 'GET', route: '/b', line: 2, framework: 'Express', filePath: 'a.js', handlerFunction: 'handler' },
+      { type: 'express_get', method: 'GET', route: '/b', line: 3, framework: 'Express', filePath: 'a.js', handlerFunction: 'other' }
+    ]);
+
+    expect(exported.paths['/a']!.get!.operationId).toBe('handler');
+    expect(exported.paths['/b']!.get!.operationId).toBe('handler_2');
+    expect(exported.tags).toEqual([{ name: 'a.js', description: 'Defined in a.js' }]);
+  });
+});
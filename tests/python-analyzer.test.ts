@@ -6,8 +6,9 @@
  * and API endpoint detection.
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, beforeAll } from 'vitest';
 import { PythonAnalyzer } from '../src/parsers/python-analyzer.js';
+import { TreeSitterManager } from '../src/parsers/tree-sitter-manager.js';
 
 describe('PythonAnalyzer', () => {
   let analyzer: PythonAnalyzer;
@@ -395,4 +396,107 @@ def broken_function(
       expect(result.lines).toBe(1); // split('\n') creates one empty line
     });
   });
+
+  describe('Tree-sitter analysis', () => {
+    let treeSitterAnalyzer: PythonAnalyzer;
+
+    beforeAll(async () => {
+      const manager = new TreeSitterManager();
+      await manager.initialize();
+      treeSitterAnalyzer = new PythonAnalyzer(manager);
+    });
+
+    it('should handle multi-line signatures, annotations and return types', async () => {
+      const pythonCode = `from typing import (
+    Optional,
+    Dict as D,
+)
+
+
+async def fetch(
+    url: str,
+    retries: int = 3,
+    *args,
+    timeout: Optional[float] = None,
+    **kwargs,
+) -> D[str, int]:
+    """Fetch a URL"""
+    return {}
+`;
+
+      const result = await treeSitterAnalyzer.analyzePython(pythonCode, 'client.py');
+      const fetch = result.functions['fetch(url: str, retries: int, *args, timeout: Optional[float], **kwargs)'];
+
+      expect(result.imports).toEqual({ typing: ['Optional', 'Dict as D'] });
+      expect(fetch).toBeDefined();
+      expect(fetch.is_async).toBe(true);
+      expect(fetch.return_type).toBe('D[str, int]');
+      expect(fetch.docstring).toBe('Fetch a URL');
+      expect(fetch.line_number).toBe(7);
+      expect(fetch.end_line_number).toBe(15);
+    });
+
+    it('should keep nested functions and classes in their scope', async () => {
+      const pythonCode = `class Service(Base, metaclass=Meta):
+    """Service docstring"""
+
+    class Config:
+        debug = False
+
+
+    def run(self):
+        def retry():
+            pass
+
+        return retry()
+
+    @property
+    def name(self):
+        return "service"
+
+
+def helper():
+    pass
+`;
+
+      const result = await treeSitterAnalyzer.analyzePython(pythonCode, 'service.py');
+      const service = result.classes['Service'];
+
+      expect(Object.keys(result.classes)).toEqual(['Service', 'Service.Config']);
+      expect(service.base_classes).toEqual(['Base']);
+      expect(service.docstring).toBe('Service docstring');
+      expect(service.line_number).toBe(1);
+      expect(service.end_line_number).toBe(16);
+      expect(Object.keys(service.methods)).toEqual(['run(self)', 'name(self)']);
+      expect(service.methods['name(self)'].decorators).toEqual([{ name: 'property', line_number: 14 }]);
+      expect(Object.keys(result.functions)).toEqual(['Service.run.retry()', 'helper()']);
+    });
+
+    it('should keep full decorator calls including nested parentheses', async () => {
+      const pythonCode = `from rest_framework.decorators import api_view
+
+
+@api_view(["POST"])
+@permission_classes((IsAdminUser,))
+def create_user(request):
+    pass
+`;
+
+      const result = await treeSitterAnalyzer.analyzePython(pythonCode, 'views.py');
+      const createUser = result.functions['create_user(request)'];
+
+      expect(createUser.decorators).toEqual([
+        { name: 'api_view', arguments: ['["POST"]'], line_number: 4 },
+        { name: 'permission_classes', arguments: ['(IsAdminUser,)'], line_number: 5 }
+      ]);
+      expect(createUser.api_endpoints).toEqual([{ type: 'django_api_view', methods: 'Multiple', line: 6 }]);
+    });
+
+    it('should fall back to regex analysis for files with syntax errors', async () => {
+      const result = await treeSitterAnalyzer.analyzePython('if True\n    pass\n\ndef ok():\n    pass\n', 'broken.py');
+
+      expect(result.functions['ok()']).toBeDefined();
+      expect(result.functions['ok()'].end_line_number).toBeUndefined();
+    });
+  });
 });
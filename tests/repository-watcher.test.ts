@@ -0,0 +1,205 @@
+/**
+ * Unit tests for watch mode
+ *
+ * These tests watch a temporary git repository and verify that new,
+ * modified and deleted files are re-analyzed in debounced batches, that the
+ * updates carry the changed dependency edges, framework confidences and
+ * summary fields, that ignored files are skipped, that manifests are read
+ * again only once they change, and that closing the watcher stops the
+ * updates.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { watchRepository } from '../src/index.js';
+import { ManifestReader } from '../src/core/manifest-reader.js';
+import { diffResults, type RepositoryWatcher, type FileChangedEvent, type ResultUpdatedEvent } from '../src/core/repository-watcher.js';
+import { setLogger, silentLogger } from '../src/utils/logger.js';
+import type { AnalysisResult } from '../src/types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+const FILES: Record<string, string> = {
+  '.gitignore': 'generated/\n',
+  'src/index.ts': `import { Store } from './store';
+
+export function start() {
+  return new Store().save();
+}
+`,
+  'src/store.ts': `export class Store {
+  save() {
+    return true;
+  }
+}
+`
+};
+
+describe('watchRepository', () => {
+  let repoPath: string;
+  let watcher: RepositoryWatcher;
+  const changed: FileChangedEvent[] = [];
+  const removed: string[] = [];
+  const updates: ResultUpdatedEvent[] = [];
+
+  async function writeRepoFile(filePath: string, content: string): Promise<void> {
+    await mkdir(dirname(join(repoPath, filePath)), { recursive: true });
+    await writeFile(join(repoPath, filePath), content);
+  }
+
+  function nextUpdate(): Promise<ResultUpdatedEvent> {
+    return new Promise(resolve => watcher.once('resultUpdated', resolve));
+  }
+
+  beforeAll(async () => {
+    setLogger(silentLogger);
+    repoPath = await mkdtemp(join(tmpdir(), 'repository-watcher-'));
+    for (const [filePath, content] of Object.entries(FILES)) {
+      await writeRepoFile(filePath, content);
+    }
+
+    for (const args of [
+      ['init'],
+      ['config', 'user.email', 'test@example.com'],
+      ['config', 'user.name', 'Test User'],
+      ['add', '.'],
+      ['commit', '-m', 'Initial commit']
+    ]) {
+      await execFileAsync('git', args, { cwd: repoPath });
+    }
+
+    watcher = await watchRepository(repoPath, { debounce_ms: 50 });
+    watcher.on('fileChanged', event => changed.push(event));
+    watcher.on('fileRemoved', event => removed.push(event.path));
+    watcher.on('resultUpdated', event => updates.push(event));
+  });
+
+  afterAll(async () => {
+    await watcher.close();
+    setLogger(undefined);
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('should start from the full analysis', () => {
+    expect(watcher.result.summary.total_files).toBe(3);
+    expect(watcher.result.dependencies['src/index.ts']).toContain('src/store.ts');
+  });
+
+  it('should analyze new files in one batch and skip ignored files', async () => {
+    const update = nextUpdate();
+    await writeRepoFile('src/report.ts', `import { Store } from './store';\n\nexport function report() {}\n`);
+    await writeRepoFile('src/format.ts', 'export function format(value: string) {\n  return value;\n}\n');
+    await writeRepoFile('generated/bundle.ts', `import { Store } from '../src/store';\n`);
+
+    expect(await update).toMatchObject({
+      changed_files: ['src/format.ts', 'src/report.ts'],
+      removed_files: [],
+      dependencies: { added: [{ from: 'src/report.ts', to: 'src/store.ts' }], removed: [] },
+      summary: { total_files: 5, languages: { typescript: 4 } }
+    });
+    expect(changed.map(event => [event.path, event.status])).toEqual([['src/format.ts', 'added'], ['src/report.ts', 'added']]);
+    expect(Object.keys(changed[0]!.analysis.functions!)).toEqual(['format(value)']);
+    expect(watcher.result.summary.total_files).toBe(5);
+  });
+
+  it('should update dependency edges of modified files', async () => {
+    changed.length = 0;
+    const update = nextUpdate();
+    await writeRepoFile('src/index.ts', `import { format } from './format';\n\nexport function start() {\n  return format('ok');\n}\n`);
+
+    const result = await update;
+    expect(result.changed_files).toEqual(['src/index.ts']);
+    expect(result.dependencies).toEqual({
+      added: [{ from: 'src/index.ts', to: 'src/format.ts' }],
+      removed: [{ from: 'src/index.ts', to: 'src/store.ts' }]
+    });
+    expect(result.summary.total_files).toBeUndefined();
+    expect(changed.map(event => [event.path, event.status])).toEqual([['src/index.ts', 'modified']]);
+  });
+
+  it('should report deleted files', async () => {
+    const update = nextUpdate();
+    await rm(join(repoPath, 'src', 'report.ts'));
+
+    const result = await update;
+    expect(removed).toEqual(['src/report.ts']);
+    expect(result.removed_files).toEqual(['src/report.ts']);
+    expect(result.dependencies.removed).toEqual([{ from: 'src/report.ts', to: 'src/store.ts' }]);
+    expect(result.summary.total_files).toBe(4);
+  });
+
+  it('should drop events below ignored directories', async () => {
+    const updatesBefore = updates.length;
+
+    await writeRepoFile('generated/other.ts', 'export const other = true;\n');
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    expect(updates).toHaveLength(updatesBefore);
+  });
+
+  it('should read manifests again only once they change', async () => {
+    const load = vi.spyOn(ManifestReader, 'load');
+    try {
+      let update = nextUpdate();
+      await writeRepoFile('src/store.ts', 'export class Store {\n  save() {\n    return false;\n  }\n}\n');
+      await update;
+      expect(load).not.toHaveBeenCalled();
+
+      await writeRepoFile('package.json', JSON.stringify({ name: 'app', dependencies: { lodash: '^4.17.21' } }));
+      await new Promise(resolve => setTimeout(resolve, 300));
+      update = nextUpdate();
+      await writeRepoFile('src/store.ts', 'export class Store {\n  save() {\n    return true;\n  }\n}\n');
+      await update;
+
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(watcher.result.packages_declared?.dependencies.map(dependency => dependency.name)).toEqual(['lodash']);
+    } finally {
+      load.mockRestore();
+    }
+  });
+
+  it('should stop updating once closed', async () => {
+    await watcher.close();
+    const updatesBefore = updates.length;
+
+    await writeRepoFile('src/late.ts', 'export const late = true;\n');
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    expect(updates).toHaveLength(updatesBefore);
+    expect(watcher.result.summary.total_files).toBe(5);
+  });
+});
+
+describe('diffResults', () => {
+  function createResult(summary: Partial<AnalysisResult['summary']>, dependencies: Record<string, string[]>): AnalysisResult {
+    return {
+      folder_structure: {},
+      summary: { total_files: 2, total_lines: 10, languages: {}, extensions: {}, ...summary },
+      dependencies
+    };
+  }
+
+  it('should list changed framework confidences and counts', () => {
+    const previous = createResult(
+      { frameworks: { react: 0.6, express: 0.9 }, languages: { typescript: 2 } },
+      { 'src/app.tsx': ['src/api.ts'] }
+    );
+    const current = createResult(
+      { frameworks: { react: 0.8, express: 0.9, nextjs: 0.5 }, languages: { javascript: 1, typescript: 1 } },
+      { 'src/app.tsx': ['src/api.ts'] }
+    );
+
+    expect(diffResults(previous, current)).toEqual({
+      dependencies: { added: [], removed: [] },
+      frameworks: [
+        { name: 'nextjs', previous: 0, current: 0.5 },
+        { name: 'react', previous: 0.6, current: 0.8 }
+      ],
+      summary: { languages: { typescript: 1, javascript: 1 } }
+    });
+  });
+});
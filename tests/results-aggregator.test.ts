@@ -0,0 +1,136 @@
+/**
+ * Unit tests for ResultsAggregator cycle detection
+ *
+ * These tests build dependency graphs with overlapping import cycles and
+ * verify that every strongly connected group is reported once, with its
+ * shortest chain and the import statement behind each step, both in the
+ * AnalysisResult and in the flat text output.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { ResultsAggregator } from '../src/core/results-aggregator.js';
+import { analyzeRepositoryToText } from '../src/index.js';
+import type { FileAnalysis } from '../src/types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+function fileAnalysis(path: string, imports: Record<string, number>): FileAnalysis {
+  return {
+    path,
+    language: 'typescript',
+    imports: Object.fromEntries(Object.keys(imports).map(specifier => [specifier, ['default']])),
+    import_lines: imports,
+    functions: {},
+    classes: {}
+  };
+}
+
+function aggregate(files: FileAnalysis[], detectCircularDependencies = true) {
+  const aggregator = new ResultsAggregator({ repositoryPath: '/tmp/cycles', detectCircularDependencies });
+  return aggregator.aggregateFileAnalyses(
+    new Map(files.map(file => [file.path, file])),
+    [], [], [], [],
+    Date.now()
+  );
+}
+
+describe('ResultsAggregator cycles', () => {
+  it('should report each strongly connected group once with its shortest chain', () => {
+    const result = aggregate([
+      // a -> b -> c -> a and the shortcut a -> c -> a share one component
+      fileAnalysis('src/a.ts', { './b': 1, './c': 2, react: 3 }),
+      fileAnalysis('src/b.ts', { './c': 4 }),
+      fileAnalysis('src/c.ts', { './a': 7 }),
+      fileAnalysis('src/self.ts', { './self': 2 }),
+      fileAnalysis('src/leaf.ts', { './a': 1 })
+    ]);
+
+    expect(result.cycles).toEqual([
+      {
+        files: ['src/a.ts', 'src/b.ts', 'src/c.ts'],
+        chain: ['src/a.ts', 'src/c.ts', 'src/a.ts'],
+        edges: [
+          { from: 'src/a.ts', to: 'src/c.ts', specifier: './c', line: 2 },
+          { from: 'src/c.ts', to: 'src/a.ts', specifier: './a', line: 7 }
+        ]
+      },
+      {
+        files: ['src/self.ts'],
+        chain: ['src/self.ts', 'src/self.ts'],
+        edges: [{ from: 'src/self.ts', to: 'src/self.ts', specifier: './self', line: 2 }]
+      }
+    ]);
+  });
+
+  it('should handle import chains longer than the old depth limit', () => {
+    const files = Array.from({ length: 40 }, (_, index) => {
+      const next = (index + 1) % 40;
+      return fileAnalysis(`src/m${index}.ts`, { [`./m${next}`]: 1 });
+    });
+
+    const cycles = aggregate(files).cycles!;
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0]!.files).toHaveLength(40);
+    expect(cycles[0]!.chain).toHaveLength(41);
+    expect(cycles[0]!.chain[0]).toBe('src/m0.ts');
+  });
+
+  it('should omit cycles for acyclic graphs or when detection is disabled', () => {
+    const acyclic = aggregate([fileAnalysis('src/a.ts', { './b': 1 }), fileAnalysis('src/b.ts', {})]);
+    expect(acyclic.cycles).toBeUndefined();
+
+    const disabled = aggregate(
+      [fileAnalysis('src/a.ts', { './b': 1 }), fileAnalysis('src/b.ts', { './a': 1 })],
+      false
+    );
+    expect(disabled.cycles).toBeUndefined();
+  });
+});
+
+describe('Flat text cycles', () => {
+  let repoPath: string;
+
+  beforeAll(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), 'flat-cycles-'));
+    const files: Record<string, string> = {
+      'src/store.ts': "import { render } from './view';\nexport const state = {};\n",
+      'src/view.ts': "import React from 'react';\nimport { state } from './store';\nexport function render() { return state; }\n"
+    };
+    for (const [filePath, content] of Object.entries(files)) {
+      await mkdir(dirname(join(repoPath, filePath)), { recursive: true });
+      await writeFile(join(repoPath, filePath), content);
+    }
+
+    for (const args of [
+      ['init'],
+      ['config', 'user.email', 'test@example.com'],
+      ['config', 'user.name', 'Test User'],
+      ['add', '.'],
+      ['commit', '-m', 'Initial commit']
+    ]) {
+      await execFileAsync('git', args, { cwd: repoPath });
+    }
+  });
+
+  afterAll(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('should add a cycles block with the import lines', async () => {
+    const text = await analyzeRepositoryToText(repoPath);
+
+    expect(text).toContain(
+      '<cycles>\n\n' +
+      '  src/store.ts -> src/view.ts -> src/store.ts\n' +
+      '    src/store.ts:1 imports ./view\n' +
+      '    src/view.ts:2 imports ./store\n\n' +
+      '</cycles>'
+    );
+    expect(text).not.toContain('import_lines');
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for the runner child-process protocol
+ *
+ * These tests verify that runner messages are written as versioned JSON
+ * lines, that results are split into chunks followed by `done`, that engine
+ * warnings reach the host through the installed logger while debug output is
+ * dropped, that a `cancel` command on stdin aborts the analysis signal, and
+ * that analyses report the phases they go through.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { PassThrough } from 'node:stream';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { RunnerProtocol, parseRunnerMessage } from '../src/core/runner-protocol.js';
+import { logger, setLogger, silentLogger } from '../src/utils/logger.js';
+import { analyzeRepository } from '../src/index.js';
+import type { AnalysisPhase } from '../src/types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+function createOutput() {
+  const lines: string[] = [];
+  const output = {
+    write(chunk: string, callback?: (error?: Error | null) => void) {
+      lines.push(...chunk.split('\n').filter(line => line));
+      callback?.();
+      return true;
+    }
+  };
+  return { lines, output };
+}
+
+describe('RunnerProtocol', () => {
+  afterEach(() => {
+    setLogger(undefined);
+  });
+
+  it('should write versioned JSON lines that parse back', () => {
+    const { lines, output } = createOutput();
+    const protocol = new RunnerProtocol(output);
+
+    protocol.send({ type: 'progress', completed: 3, total: 10, current: 'src/app.ts' });
+    protocol.send({ type: 'file_error', file: 'src/broken.ts', error: 'Unexpected token' });
+
+    expect(lines).toEqual([
+      '{"v":1,"type":"progress","completed":3,"total":10,"current":"src/app.ts"}',
+      '{"v":1,"type":"file_error","file":"src/broken.ts","error":"Unexpected token"}'
+    ]);
+    expect(parseRunnerMessage(lines[0]!)).toEqual({ v: 1, type: 'progress', completed: 3, total: 10, current: 'src/app.ts' });
+    expect(parseRunnerMessage('🌳 Initializing Tree-sitter WebAssembly...')).toBeUndefined();
+    expect(parseRunnerMessage('{"v":2,"type":"progress"}')).toBeUndefined();
+    expect(parseRunnerMessage('{"v":1,"type":"unknown"}')).toBeUndefined();
+    expect(parseRunnerMessage('{"v":1,')).toBeUndefined();
+  });
+
+  it('should send the result in chunks followed by done', () => {
+    const { lines, output } = createOutput();
+    new RunnerProtocol(output).sendResult('abcdefghij', '/tmp/out.txt', 4);
+
+    const messages = lines.map(line => parseRunnerMessage(line)!);
+    expect(messages.map(message => message.type)).toEqual(['result_chunk', 'result_chunk', 'result_chunk', 'done']);
+    expect(messages.map(message => message.type === 'result_chunk' ? message.data : '').join('')).toBe('abcdefghij');
+    expect(messages.at(-1)).toEqual({ v: 1, type: 'done', chunks: 3, length: 10, output_path: '/tmp/out.txt' });
+  });
+
+  it('should report engine warnings and drop debug output', () => {
+    const { lines, output } = createOutput();
+    setLogger(new RunnerProtocol(output).createLogger());
+
+    logger.debug('🔍 Starting framework detection on 3 files');
+    logger.info('🎯 AnalysisCoordinator initialized successfully');
+    logger.warn('⚠️  Could not read dependency manifest package.json:', 'Unexpected end of JSON input');
+    logger.error('Tree-sitter fallback failed for src/app.py:', new Error('parser missing'));
+
+    expect(lines.map(line => JSON.parse(line))).toEqual([
+      { v: 1, type: 'warning', message: '⚠️  Could not read dependency manifest package.json: Unexpected end of JSON input' },
+      { v: 1, type: 'warning', message: 'Tree-sitter fallback failed for src/app.py: parser missing' }
+    ]);
+  });
+
+  it('should abort the analysis signal on a cancel command', async () => {
+    const input = new PassThrough();
+    const controller = new AbortController();
+    const stopListening = new RunnerProtocol(createOutput().output).listen(input, controller);
+
+    input.write('not a message\n{"v":1,"type":"progress","completed":1,"total":2}\n');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(controller.signal.aborted).toBe(false);
+
+    input.write('{"v":1,"type":"cancel"}\n');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(controller.signal.aborted).toBe(true);
+
+    stopListening();
+  });
+});
+
+describe('Analysis phases', () => {
+  let repoPath: string;
+
+  beforeAll(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), 'runner-protocol-'));
+    await mkdir(join(repoPath, 'src'));
+    await writeFile(join(repoPath, 'src', 'index.js'), 'export function start() {}\n');
+
+    for (const args of [
+      ['init'],
+      ['config', 'user.email', 'test@example.com'],
+      ['config', 'user.name', 'Test User'],
+      ['add', '.'],
+      ['commit', '-m', 'Initial commit']
+    ]) {
+      await execFileAsync('git', args, { cwd: repoPath });
+    }
+  });
+
+  afterAll(async () => {
+    setLogger(undefined);
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('should report each phase of an analysis in order', async () => {
+    const phases: AnalysisPhase[] = [];
+    setLogger(silentLogger);
+
+    const result = await analyzeRepository(repoPath, { on_phase: phase => phases.push(phase) });
+
+    expect(result.summary.total_files).toBe(1);
+    expect(phases).toEqual(['discovering', 'reading', 'analyzing', 'detecting', 'aggregating', 'complete']);
+  });
+});
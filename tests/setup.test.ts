@@ -21,7 +21,7 @@ describe('Development Setup Validation', () => {
   });
 
   it('should export version constant', () => {
-    expect(ANALYSIS_ENGINE_VERSION).toBe("0.1.0");
+    expect(ANALYSIS_ENGINE_VERSION).toBe("0.2.0");
   });
 
   it('should have Node.js version 20 or higher', () => {
@@ -0,0 +1,216 @@
+/**
+ * Unit tests for Zustand, Jotai, Recoil, React Query and Context state detection
+ *
+ * These tests analyze a small React app using each library and verify that
+ * stores, contexts, atoms, selectors, queries and mutations are reported,
+ * and that `set` calls and consumer hooks are linked to the store, context
+ * or atom they belong to, also across files.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { BabelAnalyzer } from '../src/parsers/babel-analyzer.js';
+import { StateDetector } from '../src/patterns/state-detector.js';
+import type { FileAnalysis } from '../src/types/index.js';
+
+const REACT_APP: Record<string, string> = {
+  'src/store/cart.ts': `import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface CartState { items: string[]; add: (item: string) => void; clear: () => void }
+
+export const useCartStore = create<CartState>()(
+  persist(
+    (set) => ({
+      items: [],
+      add: (item) => set((state) => ({ items: [...state.items, item] })),
+      clear: () => set({ items: [] })
+    }),
+    { name: 'cart' }
+  )
+);
+`,
+  'src/theme.tsx': `import { createContext, useContext } from 'react';
+
+export const ThemeContext = createContext('light');
+
+export function useTheme() {
+  return useContext(ThemeContext);
+}
+`,
+  'src/components/Header.tsx': `import React from 'react';
+import { ThemeContext } from '../theme';
+import { useAtom } from 'jotai';
+import { countAtom } from '../atoms';
+
+export function Header() {
+  const theme = React.useContext(ThemeContext);
+  const [count, setCount] = useAtom(countAtom);
+  return <h1 className={theme}>{count}</h1>;
+}
+`,
+  'src/atoms.ts': `import { atom } from 'jotai';
+
+export const countAtom = atom(0);
+export const doubledAtom = atom((get) => get(countAtom) * 2);
+`,
+  'src/recoil.ts': `import { atom, selector, useRecoilValue } from 'recoil';
+
+export const todoListState = atom({ key: 'todoList', default: [] });
+export const todoCountState = selector({
+  key: 'todoCount',
+  get: ({ get }) => get(todoListState).length
+});
+
+export function useTodoCount() {
+  return useRecoilValue(todoCountState);
+}
+`,
+  'src/queries.ts': `import { useQuery, useMutation } from '@tanstack/react-query';
+
+export function useTodos(userId: string) {
+  return useQuery({ queryKey: ['todos', userId], queryFn: () => fetchTodos(userId) });
+}
+
+export function useAddTodo() {
+  return useMutation({ mutationFn: addTodo });
+}
+`,
+  'src/local.ts': `function create(set) {
+  return set(1);
+}
+
+export const store = create((set) => set({}));
+`
+};
+
+describe('StateDetector state libraries', () => {
+  let analyses: Map<string, FileAnalysis>;
+
+  beforeAll(async () => {
+    const analyzer = new BabelAnalyzer();
+    analyses = new Map();
+    for (const [filePath, content] of Object.entries(REACT_APP)) {
+      analyses.set(filePath, await analyzer.parseJavaScript(content, 'typescript', filePath));
+    }
+  });
+
+  it('should record library calls with their targets, arguments and keys', () => {
+    expect(analyses.get('src/store/cart.ts')!.state_calls).toEqual([
+      { module: 'zustand', api: 'create', line: 6, target: 'useCartStore' },
+      { module: 'zustand', api: 'set', line: 10, target: 'useCartStore', container: 'add' },
+      { module: 'zustand', api: 'set', line: 11, target: 'useCartStore', container: 'clear' }
+    ]);
+    expect(analyses.get('src/queries.ts')!.state_calls).toEqual([
+      { module: '@tanstack/react-query', api: 'useQuery', line: 4, key: "['todos', userId]", container: 'useTodos' },
+      { module: '@tanstack/react-query', api: 'useMutation', line: 8, container: 'useAddTodo' }
+    ]);
+    expect(analyses.get('src/local.ts')!.state_calls).toBeUndefined();
+  });
+
+  it('should map stores, contexts, atoms and queries and link their users', () => {
+    const patterns = new StateDetector()
+      .detectStatePatterns(analyses)
+      .filter(pattern => pattern.metadata?.detectedVia === 'state_library_calls');
+
+    expect(patterns.map(pattern =>
+      `${pattern.framework} ${pattern.type} ${pattern.variable} ${pattern.filePath}:${pattern.line}` +
+      (pattern.belongsTo ? ` -> ${pattern.belongsTo.filePath}:${pattern.belongsTo.line}` : '')
+    )).toEqual([
+      'Jotai jotai_atom countAtom src/atoms.ts:3',
+      'Jotai jotai_atom doubledAtom src/atoms.ts:4',
+      'React context_consumer ThemeContext src/components/Header.tsx:7 -> src/theme.tsx:3',
+      'Jotai jotai_use_atom countAtom src/components/Header.tsx:8 -> src/atoms.ts:3',
+      "React Query react_query ['todos', userId] src/queries.ts:4",
+      'React Query react_query_mutation useMutation src/queries.ts:8',
+      'Recoil recoil_atom todoListState src/recoil.ts:3',
+      'Recoil recoil_selector todoCountState src/recoil.ts:4',
+      'Recoil recoil_use_state todoCountState src/recoil.ts:10 -> src/recoil.ts:4',
+      'Zustand zustand_store useCartStore src/store/cart.ts:6',
+      'Zustand zustand_set useCartStore src/store/cart.ts:10 -> src/store/cart.ts:6',
+      'Zustand zustand_set useCartStore src/store/cart.ts:11 -> src/store/cart.ts:6',
+      'React context_create ThemeContext src/theme.tsx:3',
+      'React context_consumer ThemeContext src/theme.tsx:6 -> src/theme.tsx:3'
+    ]);
+  });
+
+  it('should report mutation types and containers', () => {
+    const patterns = new StateDetector().detectStatePatterns(analyses);
+
+    expect(patterns.find(pattern => pattern.type === 'zustand_set')).toMatchObject({
+      mutation_type: 'update',
+      context: 'function',
+      containerName: 'add'
+    });
+    expect(patterns.find(pattern => pattern.type === 'recoil_atom')).toMatchObject({
+      mutation_type: 'create',
+      context: 'global',
+      metadata: { key: 'todoList' }
+    });
+    expect(patterns.find(pattern => pattern.type === 'react_query')!.mutation_type).toBe('read');
+  });
+});
+
+describe('StateDetector aliased imports', () => {
+  it('should record calls of aliased state library imports', async () => {
+    const code = [
+      "import { create as createStore } from 'zustand';",
+      '',
+      'export const useStore = createStore((set) => ({',
+      '  reset: () => set({})',
+      '}));'
+    ].join('\n');
+    const analysis = await new BabelAnalyzer().parseJavaScript(code, 'typescript', 'src/store.ts');
+
+    expect(analysis.state_calls).toEqual([
+      { module: 'zustand', api: 'create', line: 3, target: 'useStore' },
+      { module: 'zustand', api: 'set', line: 4, target: 'useStore', container: 'reset' }
+    ]);
+  });
+
+  it('should attribute calls to the library each local name is imported from', async () => {
+    const code = [
+      "import { atom as jAtom } from 'jotai';",
+      "import { atom } from 'recoil';",
+      '',
+      'export const countAtom = jAtom(0);',
+      "export const todoListState = atom({ key: 'todoList', default: [] });"
+    ].join('\n');
+    const analysis = await new BabelAnalyzer().parseJavaScript(code, 'typescript', 'src/atoms.ts');
+
+    const patterns = new StateDetector()
+      .detectStatePatterns(new Map([['src/atoms.ts', analysis]]))
+      .filter(pattern => pattern.metadata?.detectedVia === 'state_library_calls');
+
+    expect(patterns.map(pattern => `${pattern.framework} ${pattern.type} ${pattern.variable}:${pattern.line}`)).toEqual([
+      'Jotai jotai_atom countAtom:4',
+      'Recoil recoil_atom todoListState:5'
+    ]);
+  });
+});
+
+describe('StateDetector React hooks', () => {
+  it('should report hook calls recorded by Babel on their own lines only', async () => {
+    const code = [
+      "import React, { useState } from 'react';",
+      '',
+      'export function App() {',
+      '  const [count, setCount] = useState(0);',
+      '  return <button onClick={() => setCount(count + 1)}>{count}</button>;',
+      '}',
+      '',
+      'export function Label() {',
+      '  return <span />;',
+      '}'
+    ].join('\n');
+    const analysis = await new BabelAnalyzer().parseJavaScript(code, 'typescript', 'src/App.tsx');
+
+    const patterns = new StateDetector()
+      .detectStatePatterns(new Map([['src/App.tsx', analysis]]))
+      .filter(pattern => pattern.framework === 'React');
+
+    expect(patterns.map(pattern => `${pattern.type} ${pattern.variable} ${pattern.containerName}:${pattern.line}`)).toEqual([
+      'useState count App:4',
+      'setState count App:5'
+    ]);
+  });
+});
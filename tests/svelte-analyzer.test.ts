@@ -0,0 +1,178 @@
+/**
+ * Unit tests for Svelte component and SvelteKit route analysis
+ *
+ * These tests analyze a small SvelteKit app with an instance and a module
+ * script, a writable store, `$:` statements and `on:` directives, and verify
+ * that props become component parameters, that reactive statements and
+ * store writes are reported as state, that directives reach the
+ * EventDetector, that `+page`, `+layout` and `+server` files map to routes
+ * and that Svelte is detected as a framework.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { BabelAnalyzer } from '../src/parsers/babel-analyzer.js';
+import { SvelteAnalyzer } from '../src/parsers/svelte-analyzer.js';
+import { LanguageDetector } from '../src/core/language-detector.js';
+import { StateDetector } from '../src/patterns/state-detector.js';
+import { EventDetector } from '../src/patterns/event-detector.js';
+import { ApiDetector } from '../src/patterns/api-detector.js';
+import { FrameworkDetector } from '../src/patterns/framework-detector.js';
+import type { FileAnalysis } from '../src/types/index.js';
+
+const SVELTEKIT_APP: Record<string, string> = {
+  'src/lib/Counter.svelte': `<script context="module" lang="ts">
+  export const prerender = true;
+</script>
+
+<script lang="ts">
+  import { count } from './stores';
+
+  export let label: string;
+  export let step = 1, max = 10;
+
+  $: doubled = $count * 2;
+  $: if ($count > max) reset();
+
+  function increment() {
+    $count += step;
+  }
+
+  function reset() {
+    count.set(0);
+  }
+</script>
+
+<button on:click={increment} on:dblclick|once={() => reset()}>
+  {label}: {$count} ({doubled})
+</button>
+<input on:keydown />
+
+<style>
+  button { color: red; }
+</style>
+`,
+  'src/lib/stores.ts': `import { writable } from 'svelte/store';
+
+export const count = writable(0);
+`,
+  'src/routes/+layout.svelte': `<slot />
+`,
+  'src/routes/blog/[slug]/+page.svelte': `<script>
+  export let data;
+</script>
+
+<h1>{data.title}</h1>
+`,
+  'src/routes/blog/[slug]/+page.server.ts': `import { error } from '@sveltejs/kit';
+
+export async function load({ params }) {
+  return { title: params.slug };
+}
+
+export const actions = {
+  default: async () => ({ saved: true })
+};
+`,
+  'src/routes/(api)/api/posts/[[page]]/+server.ts': `import { json } from '@sveltejs/kit';
+
+export function GET() {
+  return json([]);
+}
+
+export const POST = async ({ request }) => json(await request.json());
+`
+};
+
+describe('SvelteAnalyzer', () => {
+  let analyses: Map<string, FileAnalysis>;
+
+  beforeAll(async () => {
+    const babelAnalyzer = new BabelAnalyzer();
+    const svelteAnalyzer = new SvelteAnalyzer(babelAnalyzer);
+    analyses = new Map();
+    for (const [filePath, content] of Object.entries(SVELTEKIT_APP)) {
+      analyses.set(filePath, filePath.endsWith('.svelte')
+        ? await svelteAnalyzer.analyzeSvelte(content, filePath)
+        : await babelAnalyzer.parseJavaScript(content, 'typescript', filePath));
+    }
+  });
+
+  it('should record the component with its props, state changes and directives', () => {
+    const counter = analyses.get('src/lib/Counter.svelte')!;
+
+    expect(new LanguageDetector().detectByExtension('Counter.svelte')).toBe('svelte');
+    expect(counter.language).toBe('svelte');
+    expect(counter.import_lines).toEqual({ './stores': 6 });
+    expect(counter.exports).toEqual(['prerender', 'label', 'step', 'max']);
+    expect(counter.uses_dom).toBe(true);
+
+    expect(counter.functions!['Counter(label, step, max)']).toMatchObject({
+      is_component: true,
+      parameters: ['label', 'step', 'max'],
+      state_changes: [
+        { snippet: '$: doubled = $count * 2;', line: 11 },
+        { snippet: '$: if ($count > max) reset();', line: 12 }
+      ],
+      event_handlers: [
+        { snippet: 'on:click={increment}', line: 23 },
+        { snippet: 'on:dblclick|once={() => reset()}', line: 23 },
+        { snippet: 'on:keydown', line: 26 }
+      ]
+    });
+    expect(counter.functions!['increment()']!.state_changes).toEqual([{ snippet: '$count += step;', line: 15 }]);
+    expect(counter.functions!['reset()']!.state_changes).toEqual([{ snippet: 'count.set(0);', line: 19 }]);
+  });
+
+  it('should report reactive statements, stores and store writes as state', () => {
+    const patterns = new StateDetector()
+      .detectStatePatterns(analyses)
+      .filter(pattern => pattern.framework === 'Svelte');
+
+    expect(patterns.map(pattern =>
+      `${pattern.type} ${pattern.variable} ${pattern.containerName} ${pattern.filePath}:${pattern.line}` +
+      (pattern.belongsTo ? ` -> ${pattern.belongsTo.filePath}:${pattern.belongsTo.line}` : '')
+    )).toEqual([
+      'svelte_reactive doubled Counter src/lib/Counter.svelte:11',
+      'svelte_reactive reactive_statement Counter src/lib/Counter.svelte:12',
+      'svelte_store_set count increment src/lib/Counter.svelte:15 -> src/lib/stores.ts:3',
+      'svelte_store_set count reset src/lib/Counter.svelte:19 -> src/lib/stores.ts:3',
+      'svelte_store count count src/lib/stores.ts:3'
+    ]);
+  });
+
+  it('should report on: directives as event handlers', () => {
+    const handlers = new EventDetector()
+      .detectEventHandlers(analyses)
+      .filter(handler => handler.type === 'svelte_event');
+
+    expect(handlers.map(handler => `${handler.event} ${handler.handler} ${handler.containerName}:${handler.line}`)).toEqual([
+      'click increment Counter:23',
+      'dblclick () => reset() Counter:23',
+      'keydown forwarded Counter:26'
+    ]);
+    expect(handlers[1]!.metadata).toMatchObject({ modifiers: ['once'], forwarded: false });
+  });
+
+  it('should map pages, layouts, load functions, actions and server routes', () => {
+    const endpoints = new ApiDetector()
+      .detectEndpoints(analyses)
+      .filter(endpoint => endpoint.framework === 'SvelteKit');
+
+    expect(endpoints.map(endpoint =>
+      `${endpoint.type} ${endpoint.method || '-'} ${endpoint.route} ${endpoint.filePath}:${endpoint.line}`
+    )).toEqual([
+      'sveltekit_server_route GET /api/posts/{page} src/routes/(api)/api/posts/[[page]]/+server.ts:3',
+      'sveltekit_server_route POST /api/posts/{page} src/routes/(api)/api/posts/[[page]]/+server.ts:7',
+      'sveltekit_layout - / src/routes/+layout.svelte:1',
+      'sveltekit_load - /blog/{slug} src/routes/blog/[slug]/+page.server.ts:3',
+      'sveltekit_form_action POST /blog/{slug} src/routes/blog/[slug]/+page.server.ts:7',
+      'sveltekit_page - /blog/{slug} src/routes/blog/[slug]/+page.svelte:1'
+    ]);
+    expect(endpoints[0]!.parameters).toEqual([{ name: 'page', type: 'string', required: false }]);
+  });
+
+  it('should detect Svelte as a framework', () => {
+    const detections = new FrameworkDetector().detectFrameworks(analyses);
+    expect(detections.map(detection => detection.name)).toContain('Svelte');
+  });
+});
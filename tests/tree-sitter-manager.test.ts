@@ -5,7 +5,7 @@
  * and query execution for multiple programming languages.
  */
 
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, vi } from 'vitest';
 import { TreeSitterManager } from '../src/parsers/tree-sitter-manager.js';
 
 describe('TreeSitterManager', () => {
@@ -157,5 +157,26 @@ describe('TreeSitterManager', () => {
         console.log('⏭️  Query test skipped - mock parser in use');
       }
     });
+
+    it('should compile each query once per language', async () => {
+      if (!manager.hasParser('javascript')) {
+        console.log('⏭️  Skipping query cache test - JavaScript parser not available');
+        return;
+      }
+
+      const queryString = '(function_declaration name: (identifier) @name)';
+      const first = await manager.parseFile('function first() {}', 'javascript');
+      const compile = vi.spyOn(first.getLanguage(), 'query');
+
+      expect(manager.query(first, queryString, 'javascript').map(capture => capture.text)).toEqual(['first']);
+      first.delete();
+
+      const second = await manager.parseFile('function second() {}', 'javascript');
+      expect(manager.query(second, queryString, 'javascript').map(capture => capture.text)).toEqual(['second']);
+      second.delete();
+
+      expect(compile).toHaveBeenCalledTimes(1);
+      compile.mockRestore();
+    });
   });
 });
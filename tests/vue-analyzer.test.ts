@@ -0,0 +1,138 @@
+/**
+ * Unit tests for Vue single-file component analysis
+ *
+ * These tests analyze a small Nuxt app with `<script>` and `<script setup>`
+ * blocks, template event bindings and a Pinia store, and verify that line
+ * numbers refer to the `.vue` file, that template events reach the
+ * EventDetector, that refs, reactive objects, computed values and stores
+ * are reported as state, and that Vue is detected as a framework.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { BabelAnalyzer } from '../src/parsers/babel-analyzer.js';
+import { VueAnalyzer } from '../src/parsers/vue-analyzer.js';
+import { AnalysisCoordinator } from '../src/core/analysis-coordinator.js';
+import { LanguageDetector } from '../src/core/language-detector.js';
+import { StateDetector } from '../src/patterns/state-detector.js';
+import { EventDetector } from '../src/patterns/event-detector.js';
+import { FrameworkDetector } from '../src/patterns/framework-detector.js';
+import type { FileAnalysis } from '../src/types/index.js';
+
+const NUXT_APP: Record<string, string> = {
+  'components/TodoList.vue': `<template>
+  <form @submit.prevent="addTodo">
+    <input v-model="draft" />
+    <button v-on:click="clear">Clear</button>
+  </form>
+  <ul>
+    <template v-for="todo in todos" :key="todo.id">
+      <li @click="remove(todo.id)" @mouseenter.once="hovered = todo.id">{{ todo.title }}</li>
+    </template>
+  </ul>
+</template>
+
+<script lang="ts">
+export default { name: 'TodoList' };
+</script>
+
+<script setup lang="ts">
+import { reactive } from 'vue';
+import { useTodoStore } from '~/stores/todos';
+
+const draft = ref('');
+const state = reactive({ hovered: null });
+const remaining = computed(() => todos.value.length);
+
+function addTodo() {
+  useTodoStore().add(draft.value);
+}
+</script>
+
+<style scoped>
+li { cursor: pointer; }
+</style>
+`,
+  'stores/todos.ts': `import { defineStore } from 'pinia';
+
+export const useTodoStore = defineStore('todos', {
+  state: () => ({ items: [] })
+});
+`,
+  'nuxt.config.ts': `export default defineNuxtConfig({ modules: ['@pinia/nuxt'] });
+`
+};
+
+describe('VueAnalyzer', () => {
+  let analyses: Map<string, FileAnalysis>;
+
+  beforeAll(async () => {
+    const babelAnalyzer = new BabelAnalyzer();
+    const vueAnalyzer = new VueAnalyzer(babelAnalyzer);
+    analyses = new Map();
+    for (const [filePath, content] of Object.entries(NUXT_APP)) {
+      analyses.set(filePath, filePath.endsWith('.vue')
+        ? await vueAnalyzer.analyzeVue(content, filePath)
+        : await babelAnalyzer.parseJavaScript(content, 'typescript', filePath));
+    }
+  });
+
+  it('should merge script blocks with line numbers of the .vue file', () => {
+    const component = analyses.get('components/TodoList.vue')!;
+
+    expect(component.language).toBe('vue');
+    expect(component.imports).toMatchObject({ 'vue': ['reactive'], '~/stores/todos': ['useTodoStore'] });
+    expect(component.import_lines).toEqual({ 'vue': 18, '~/stores/todos': 19 });
+    expect(component.exports).toEqual(['default']);
+    expect(component.functions!['addTodo()']!.line_number).toBe(25);
+    expect(component.uses_dom).toBe(true);
+  });
+
+  it('should record template event bindings', () => {
+    expect(analyses.get('components/TodoList.vue')!.template_events).toEqual([
+      { event: 'submit', handler: 'addTodo', modifiers: ['prevent'], line: 2 },
+      { event: 'click', handler: 'clear', line: 4 },
+      { event: 'click', handler: 'remove(todo.id)', line: 8 },
+      { event: 'mouseenter', handler: 'hovered = todo.id', modifiers: ['once'], line: 8 }
+    ]);
+
+    const handlers = new EventDetector()
+      .detectEventHandlers(analyses)
+      .filter(handler => handler.type === 'vue_event');
+    expect(handlers.map(handler => `${handler.event} ${handler.handler} ${handler.containerName}:${handler.line}`)).toEqual([
+      'submit addTodo TodoList:2',
+      'click clear TodoList:4',
+      'click remove TodoList:8',
+      'mouseenter hovered = todo.id TodoList:8'
+    ]);
+  });
+
+  it('should report refs, reactive objects, computed values and Pinia stores as state', () => {
+    const patterns = new StateDetector()
+      .detectStatePatterns(analyses)
+      .filter(pattern => pattern.metadata?.detectedVia === 'state_library_calls');
+
+    expect(patterns.map(pattern => `${pattern.framework} ${pattern.type} ${pattern.variable} ${pattern.filePath}:${pattern.line}`)).toEqual([
+      'Vue vue_ref draft components/TodoList.vue:21',
+      'Vue vue_reactive state components/TodoList.vue:22',
+      'Vue vue_computed remaining components/TodoList.vue:23',
+      'Pinia pinia_store useTodoStore stores/todos.ts:3'
+    ]);
+    expect(patterns.at(-1)!.metadata).toMatchObject({ key: 'todos' });
+  });
+
+  it('should detect Vue as a framework', () => {
+    const detections = new FrameworkDetector().detectFrameworks(analyses);
+    expect(detections.map(detection => detection.name)).toContain('Vue');
+  });
+
+  it('should route .vue files to the Vue analyzer', async () => {
+    expect(new LanguageDetector().detectByExtension('App.vue')).toBe('vue');
+
+    const result = await new AnalysisCoordinator().analyzeFile(
+      'components/TodoList.vue',
+      NUXT_APP['components/TodoList.vue']!
+    );
+    expect(result.parser).toBe('babel');
+    expect(result.analysis.template_events).toHaveLength(4);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for WorkspaceDetector
+ *
+ * These tests write small monorepo layouts and verify that workspace
+ * packages are discovered from `package.json` workspaces, `pnpm-workspace.yaml`,
+ * `lerna.json`, Nx and Turborepo configuration and nested `pyproject.toml`
+ * files, and that the aggregated result summarizes each package with its
+ * own languages, frameworks, entry points and package dependencies.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { WorkspaceDetector } from '../src/core/workspace-detector.js';
+import { ImportResolver } from '../src/core/import-resolver.js';
+import { ResultsAggregator } from '../src/core/results-aggregator.js';
+import { AnalysisCoordinator } from '../src/core/analysis-coordinator.js';
+import type { AnalysisResult, FileAnalysis } from '../src/types/index.js';
+
+const FILES: Record<string, string> = {
+  'package.json': JSON.stringify({
+    name: 'acme',
+    private: true,
+    workspaces: { packages: ['apps/*', 'packages/*', '!packages/legacy'] }
+  }),
+  'apps/web/package.json': JSON.stringify({ name: '@acme/web', dependencies: { react: '^18.2.0' } }),
+  'apps/web/src/main.tsx': `import React, { useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import { formatCount } from '@acme/ui';
+
+export function App() {
+  const [count, setCount] = useState(0);
+  return <button onClick={() => setCount(count + 1)}>{formatCount(count)}</button>;
+}
+
+createRoot(document.getElementById('root')!).render(<App />);
+`,
+  'packages/ui/package.json': JSON.stringify({
+    name: '@acme/ui',
+    main: 'dist/index.js',
+    bin: { 'ui-docs': './bin/docs.js' }
+  }),
+  'packages/ui/src/index.ts': `export { formatCount } from './format';\n`,
+  'packages/ui/src/format.ts': `export function formatCount(count: number): string {\n  return count.toLocaleString();\n}\n`,
+  'packages/ui/bin/docs.js': `console.log('docs');\n`,
+  'packages/legacy/package.json': JSON.stringify({ name: '@acme/legacy' }),
+  'packages/legacy/index.js': `module.exports = {};\n`,
+  'services/api/pyproject.toml': `[project]
+name = "acme-api"
+dependencies = ["fastapi"]
+
+[project.scripts]
+acme-api = "acme_api.main:run"
+`,
+  'services/api/src/acme_api/__init__.py': '',
+  'services/api/src/acme_api/main.py': `from fastapi import FastAPI
+
+app = FastAPI()
+
+
+@app.get("/health")
+def health():
+    return {"ok": True}
+
+
+def run():
+    pass
+`
+};
+
+async function writeRepository(files: Record<string, string>): Promise<string> {
+  const repoPath = await mkdtemp(join(tmpdir(), 'workspace-detector-'));
+  for (const [filePath, content] of Object.entries(files)) {
+    await mkdir(dirname(join(repoPath, filePath)), { recursive: true });
+    await writeFile(join(repoPath, filePath), content);
+  }
+  return repoPath;
+}
+
+describe('WorkspaceDetector', () => {
+  let repoPath: string;
+  let result: AnalysisResult;
+
+  beforeAll(async () => {
+    repoPath = await writeRepository(FILES);
+    const trackedFiles = Object.keys(FILES);
+
+    const coordinator = new AnalysisCoordinator();
+    const analyses = new Map<string, FileAnalysis>();
+    for (const filePath of trackedFiles.filter(file => /\.(tsx?|js|py)$/.test(file))) {
+      analyses.set(filePath, (await coordinator.analyzeFile(filePath, FILES[filePath]!)).analysis);
+    }
+
+    const aggregator = new ResultsAggregator({
+      repositoryPath: repoPath,
+      importResolver: await ImportResolver.load(repoPath, trackedFiles),
+      workspace: await WorkspaceDetector.load(repoPath, trackedFiles)
+    });
+    result = aggregator.aggregateFileAnalyses(analyses, [], [], [], [], Date.now());
+  });
+
+  afterAll(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('should discover package.json workspaces and Python packages', () => {
+    expect(result.packages!.map(pkg => `${pkg.name} ${pkg.path} ${pkg.declared_by}`)).toEqual([
+      '@acme/web apps/web package.json',
+      '@acme/ui packages/ui package.json',
+      'acme-api services/api pyproject.toml'
+    ]);
+  });
+
+  it('should summarize files, languages and frameworks per package', () => {
+    const [web, ui, api] = result.packages!;
+
+    expect(web).toMatchObject({ total_files: 1, languages: { typescript: 1 } });
+    expect(Object.keys(web!.frameworks || {})).toContain('React');
+    expect(Object.keys(web!.frameworks || {})).not.toContain('FastAPI');
+    expect(ui).toMatchObject({ total_files: 3, languages: { typescript: 2, javascript: 1 } });
+    expect(api).toMatchObject({ total_files: 2, languages: { python: 2 } });
+    expect(Object.keys(api!.frameworks || {})).toEqual(['FastAPI']);
+  });
+
+  it('should resolve entry points and cross-package imports through package names', () => {
+    const [web, ui, api] = result.packages!;
+
+    expect(result.dependencies['apps/web/src/main.tsx']).toContain('packages/ui/src/index.ts');
+    expect(web!.dependencies).toEqual(['@acme/ui']);
+    expect(ui!.dependencies).toEqual([]);
+    expect(ui!.entry_points).toEqual(['packages/ui/src/index.ts', 'packages/ui/bin/docs.js']);
+    expect(api!.entry_points).toEqual(['services/api/src/acme_api/main.py']);
+  });
+
+  it('should read pnpm, lerna, Nx and Turborepo configuration', async () => {
+    const layouts: Array<[Record<string, string>, string[]]> = [
+      [{
+        'pnpm-workspace.yaml': "packages:\n  - 'apps/**'\n  - \"!apps/**/fixtures\"\n",
+        'apps/site/package.json': '{}',
+        'apps/tools/cli/package.json': JSON.stringify({ name: 'cli' }),
+        'apps/tools/fixtures/package.json': '{}'
+      }, ['site apps/site pnpm-workspace.yaml', 'cli apps/tools/cli pnpm-workspace.yaml']],
+      [{
+        'lerna.json': '{ "version": "1.0.0" }',
+        'packages/core/package.json': JSON.stringify({ name: '@lerna/core' })
+      }, ['@lerna/core packages/core lerna.json']],
+      [{
+        'nx.json': '{}',
+        'libs/auth/project.json': JSON.stringify({ name: 'auth' })
+      }, ['auth libs/auth nx.json']],
+      [{
+        'turbo.json': '{}',
+        'apps/docs/package.json': JSON.stringify({ name: 'docs' }),
+        'tools/scripts/package.json': '{}'
+      }, ['docs apps/docs turbo.json']]
+    ];
+
+    for (const [files, expected] of layouts) {
+      const layoutPath = await writeRepository(files);
+      try {
+        const workspace = await WorkspaceDetector.load(layoutPath, Object.keys(files));
+        expect(workspace.getPackages().map(pkg => `${pkg.name} ${pkg.path} ${pkg.declared_by}`)).toEqual(expected);
+      } finally {
+        await rm(layoutPath, { recursive: true, force: true });
+      }
+    }
+  });
+});